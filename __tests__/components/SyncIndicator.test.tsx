@@ -0,0 +1,110 @@
+import React from 'react';
+import { Text, TouchableOpacity } from 'react-native';
+import ReactTestRenderer from 'react-test-renderer';
+import { SyncIndicator } from '../../src/components/SyncIndicator/SyncIndicator';
+import { useSync } from '../../src/hooks/useSync';
+import { SyncProgress } from '../../src/types';
+
+jest.mock('../../src/hooks/useSync', () => ({ useSync: jest.fn() }));
+jest.mock('../../src/hooks/useTheme', () => ({
+  useTheme: () => ({
+    colors: {
+      glass: '#ffffff20',
+      primary: '#3b82f6',
+      error: '#ef4444',
+      warning: '#f59e0b',
+      success: '#10b981',
+      border: '#e5e7eb',
+      textSecondary: '#6b7280',
+    },
+  }),
+}));
+jest.mock('../../src/components/SyncInspector/SyncInspector', () => ({
+  SyncInspector: () => null,
+}));
+
+const mockUseSync = useSync as jest.Mock;
+const cancelSync = jest.fn();
+
+const progress: SyncProgress = {
+  phase: 'push',
+  push: { done: 3, total: 10 },
+  pull: { done: 0, total: null },
+  bytesTransferred: 2048,
+  etaMs: 4000,
+};
+
+const syncState = (overrides: Record<string, unknown> = {}) => ({
+  isOnline: true,
+  isSyncing: false,
+  lastSyncTime: null,
+  pendingOperations: 0,
+  syncError: null,
+  clockSkewMs: null,
+  syncSchedule: { mode: 'unmetered', intervalMs: 60000, batchSize: 50, maxNoteSize: null, reason: null },
+  syncProgress: null,
+  cancelSync,
+  ...overrides,
+});
+
+// Rendered the way the header mounts it, without showDetails
+const renderIndicator = async () => {
+  let renderer!: ReactTestRenderer.ReactTestRenderer;
+  await ReactTestRenderer.act(async () => {
+    renderer = ReactTestRenderer.create(<SyncIndicator onPress={() => undefined} />);
+  });
+  return renderer;
+};
+
+const texts = (renderer: ReactTestRenderer.ReactTestRenderer) =>
+  renderer.root.findAllByType(Text).map(text => [text.props.children].flat().join(''));
+
+describe('SyncIndicator', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    // The spinner loops for as long as a sync runs
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should show only the status icon while idle', async () => {
+    mockUseSync.mockReturnValue(syncState());
+
+    const renderer = await renderIndicator();
+
+    expect(texts(renderer)).toEqual(['✅']);
+  });
+
+  it('should show progress and a Cancel button while a sync runs', async () => {
+    mockUseSync.mockReturnValue(syncState({ isSyncing: true, syncProgress: progress }));
+
+    const renderer = await renderIndicator();
+
+    expect(texts(renderer)).toEqual(expect.arrayContaining(['Pushing 3/10', '2 KB · 4s left', 'Cancel']));
+    const cancel = renderer.root
+      .findAllByType(TouchableOpacity)
+      .find(button => button.props.accessibilityLabel === 'Cancel sync');
+    await ReactTestRenderer.act(async () => {
+      cancel!.props.onPress();
+    });
+    expect(cancelSync).toHaveBeenCalledTimes(1);
+  });
+
+  it('should warn about a skewed clock and explain a paused schedule', async () => {
+    mockUseSync.mockReturnValue(
+      syncState({
+        clockSkewMs: 2 * 60 * 60 * 1000,
+        syncSchedule: { mode: 'paused', intervalMs: 0, batchSize: 0, maxNoteSize: null, reason: 'Background sync is paused on cellular' },
+      })
+    );
+
+    const renderer = await renderIndicator();
+
+    expect(texts(renderer)).toEqual(
+      expect.arrayContaining(['Device clock is 2h ahead of the server', 'Background sync is paused on cellular'])
+    );
+  });
+});
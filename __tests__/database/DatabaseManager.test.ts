@@ -0,0 +1,481 @@
+import { DatabaseManager } from '../../src/database/DatabaseManager';
+import { NotesDAO } from '../../src/database/notesDAO';
+import { SyncQueueDAO } from '../../src/database/syncQueueDAO';
+import { loadSqlJs } from '../support/syncHarness';
+
+let mockSQL: any;
+// Database files by name, written back when closed so they can be reopened
+const mockFiles = new Map<string, Uint8Array>();
+
+jest.mock('react-native-sqlite-storage', () => ({
+  DEBUG: () => undefined,
+  enablePromise: () => undefined,
+  openDatabase: async ({ name }: { name: string }) => {
+    const { wrapSqlJsDatabase } = jest.requireActual('../support/syncHarness');
+    const db = new mockSQL.Database(mockFiles.get(name));
+    return {
+      ...wrapSqlJsDatabase(db),
+      close: async () => {
+        mockFiles.set(name, db.export());
+        db.close();
+      },
+    };
+  },
+  deleteDatabase: async ({ name }: { name: string }) => {
+    mockFiles.delete(name);
+  },
+}));
+
+const USER_ID = 'user-123';
+
+describe('DatabaseManager.transaction', () => {
+  let dbManager: DatabaseManager;
+  let workGroupId: string;
+  let uncategorizedId: string;
+  let noteId: string;
+
+  beforeAll(async () => {
+    mockSQL = await loadSqlJs();
+  });
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    dbManager = DatabaseManager.getInstance();
+    await dbManager.initialize(`transaction-${Date.now()}-${Math.random()}.db`);
+
+    workGroupId = (await dbManager.createGroup('Work', '#3b82f6', USER_ID)).id;
+    uncategorizedId = (await dbManager.createGroup('Uncategorized', '#6b7280', USER_ID)).id;
+    noteId = (await dbManager.createNote('Plan', { ops: [] }, '', '', workGroupId, USER_ID)).id;
+  });
+
+  afterEach(async () => {
+    await dbManager.close();
+    jest.restoreAllMocks();
+  });
+
+  it('should commit every operation and return the result', async () => {
+    const deleted = await dbManager.transaction(async tx => {
+      await dbManager.moveNotesToGroup(workGroupId, uncategorizedId, USER_ID, tx);
+      return dbManager.deleteGroup(workGroupId, tx);
+    });
+
+    expect(deleted).toBe(true);
+    expect(await dbManager.getGroupById(workGroupId)).toBeNull();
+    expect((await dbManager.getNoteById(noteId))?.group_id).toBe(uncategorizedId);
+  });
+
+  it('should roll back every operation when one fails', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    await expect(
+      dbManager.transaction(async tx => {
+        await dbManager.moveNotesToGroup(workGroupId, uncategorizedId, USER_ID, tx);
+        await dbManager.deleteGroup(workGroupId, tx);
+        throw new Error('Crashed midway');
+      })
+    ).rejects.toThrow('Crashed midway');
+
+    expect(await dbManager.getGroupById(workGroupId)).not.toBeNull();
+    expect((await dbManager.getNoteById(noteId))?.group_id).toBe(workGroupId);
+  });
+
+  it('should hold statements outside the transaction until it ends', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    let fail!: () => void;
+    const failing = new Promise<void>((_resolve, reject) => {
+      fail = () => reject(new Error('Crashed midway'));
+    });
+
+    const transaction = dbManager.transaction(async tx => {
+      await dbManager.setSetting('theme', 'light', tx);
+      await failing;
+    });
+    const outside = dbManager.setSetting('autoSaveDelay', '500');
+
+    // Neither run between the transaction's statements nor rolled back with it
+    fail();
+    await expect(transaction).rejects.toThrow('Crashed midway');
+    await outside;
+
+    expect(await dbManager.getSetting('theme')).toBeNull();
+    expect(await dbManager.getSetting('autoSaveDelay')).toBe('500');
+  });
+
+  it('should run transactions one after another', async () => {
+    const order: string[] = [];
+    const record = (name: string) => async () => {
+      order.push(`${name} start`);
+      await new Promise(resolve => setImmediate(resolve));
+      order.push(`${name} end`);
+    };
+
+    await Promise.all([dbManager.transaction(record('first')), dbManager.transaction(record('second'))]);
+
+    expect(order).toEqual(['first start', 'first end', 'second start', 'second end']);
+  });
+
+  it('should import an export with each note in its imported group', async () => {
+    await dbManager.setSetting('theme', 'light');
+    const exported = await dbManager.exportData(USER_ID);
+
+    await dbManager.importData(exported, 'user-456');
+
+    const groups = await dbManager.getAllGroups('user-456');
+    const [note] = await dbManager.getAllNotes('user-456');
+    expect(groups.map(group => group.name).sort()).toEqual(['Uncategorized', 'Work']);
+    expect(note).toEqual(expect.objectContaining({
+      title: 'Plan',
+      content: JSON.stringify({ ops: [] }),
+      group_id: groups.find(group => group.name === 'Work')!.id,
+    }));
+    expect(await dbManager.getSetting('theme')).toBe('light');
+  });
+
+  it('should leave pull cursors out of exports and imports', async () => {
+    const cursor = JSON.stringify({ server_updated_at: '2024-01-01T00:00:00.000Z', id: noteId });
+    await dbManager.setSetting('pullCursor:notes', cursor);
+    await dbManager.setSetting('snapshotCursors', JSON.stringify({ notes: null, groups: null, tombstones: null }));
+
+    const exported = await dbManager.exportData(USER_ID);
+    expect(Object.keys(exported.settings)).toEqual([]);
+
+    await dbManager.clearSyncState();
+    await dbManager.importData({ ...exported, settings: { 'pullCursor:notes': cursor, theme: 'light' } }, 'user-456');
+
+    expect(await dbManager.getSetting('pullCursor:notes')).toBeNull();
+    expect(await dbManager.getSetting('snapshotCursors')).toBeNull();
+    expect(await dbManager.getSetting('theme')).toBe('light');
+  });
+
+  it('should keep imported local-only groups and their notes off the server', async () => {
+    await dbManager.setGroupSyncPolicy(workGroupId, 'local_only', USER_ID);
+
+    await dbManager.importData(await dbManager.exportData(USER_ID), 'user-456');
+
+    const groups = await dbManager.getAllGroups('user-456');
+    const items = await dbManager.getPendingSyncItems('user-456');
+    expect(groups.find(group => group.name === 'Work')!.sync_policy).toBe('local_only');
+    expect(items.map(item => item.record_id)).toEqual([groups.find(group => group.name === 'Uncategorized')!.id]);
+  });
+
+  it('should import nothing when part of an import fails', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const exported = await dbManager.exportData(USER_ID);
+    jest.spyOn(NotesDAO, 'createNote').mockRejectedValueOnce(new Error('Disk full'));
+
+    await expect(dbManager.importData(exported, 'user-456')).rejects.toThrow('Disk full');
+
+    expect(await dbManager.getAllGroups('user-456')).toEqual([]);
+    expect(await dbManager.getPendingSyncItems('user-456')).toEqual([]);
+  });
+});
+
+describe('DatabaseManager change capture', () => {
+  let dbManager: DatabaseManager;
+  let groupId: string;
+
+  beforeAll(async () => {
+    mockSQL = await loadSqlJs();
+  });
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    dbManager = DatabaseManager.getInstance();
+    await dbManager.initialize(`capture-${Date.now()}-${Math.random()}.db`);
+    groupId = (await dbManager.createGroup('Work', '#3b82f6', USER_ID)).id;
+  });
+
+  afterEach(async () => {
+    await dbManager.close();
+    jest.restoreAllMocks();
+  });
+
+  const queued = async () =>
+    (await dbManager.getPendingSyncItems(USER_ID)).map(item => [item.table_name, item.operation, item.record_id]);
+
+  it('should queue a write as it is made', async () => {
+    const note = await dbManager.createNote('Plan', { ops: [] }, '', '', groupId, USER_ID);
+
+    expect(await queued()).toEqual([
+      ['groups', 'INSERT', groupId],
+      ['notes', 'INSERT', note.id],
+    ]);
+  });
+
+  it('should fold later writes into the pending item', async () => {
+    const note = await dbManager.createNote('Plan', { ops: [] }, '', '', groupId, USER_ID);
+    await dbManager.updateNote(note.id, { title: 'Plans' });
+    await dbManager.updateGroup(groupId, { name: 'Job' });
+
+    const items = await dbManager.getPendingSyncItems(USER_ID);
+    expect(items.map(item => item.operation)).toEqual(['INSERT', 'INSERT']);
+    expect(JSON.parse(items.find(item => item.record_id === note.id)!.data).title).toBe('Plans');
+  });
+
+  it('should not queue notes in a local-only group', async () => {
+    await dbManager.setGroupSyncPolicy(groupId, 'local_only', USER_ID);
+    const note = await dbManager.createNote('Private', { ops: [] }, '', '', groupId, USER_ID);
+    await dbManager.updateNote(note.id, { title: 'Secret' });
+
+    expect(await queued()).toEqual([]);
+  });
+
+  it('should withdraw a pushed note that is edited into a local-only group', async () => {
+    const scratchId = (await dbManager.createGroup('Scratch', '#6b7280', USER_ID)).id;
+    await dbManager.setGroupSyncPolicy(scratchId, 'local_only', USER_ID);
+    const note = await dbManager.createNote('Plan', { ops: [] }, '', '', groupId, USER_ID);
+    await dbManager.markSyncItemsPushed((await dbManager.getPendingSyncItems(USER_ID)).map(item => item.id));
+
+    await dbManager.updateNote(note.id, { group_id: scratchId });
+
+    const items = await dbManager.getPendingSyncItems(USER_ID);
+    expect(items.map(item => [item.table_name, item.operation, item.record_id])).toEqual([
+      ['groups', 'INSERT', groupId],
+      ['notes', 'DELETE', note.id],
+    ]);
+    // The queued tombstone does not name the local-only group
+    expect(JSON.parse(items[1].data)).toEqual(expect.objectContaining({ group_id: groupId, is_deleted: 1 }));
+  });
+
+  it('should roll back the write when it cannot be queued', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const note = await dbManager.createNote('Plan', { ops: [] }, '', '', groupId, USER_ID);
+    jest.spyOn(SyncQueueDAO, 'addToQueue').mockRejectedValueOnce(new Error('Disk full'));
+
+    await expect(dbManager.updateNote(note.id, { title: 'Plans' })).rejects.toThrow('Disk full');
+
+    expect((await dbManager.getNoteById(note.id))?.title).toBe('Plan');
+  });
+});
+
+describe('DatabaseManager.searchNotes', () => {
+  let dbManager: DatabaseManager;
+
+  beforeAll(async () => {
+    mockSQL = await loadSqlJs();
+  });
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    dbManager = DatabaseManager.getInstance();
+    await dbManager.initialize(`search-${Date.now()}-${Math.random()}.db`);
+  });
+
+  afterEach(async () => {
+    await dbManager.close();
+    jest.restoreAllMocks();
+  });
+
+  const createNote = async (title: string, text: string, userId = USER_ID) =>
+    (await dbManager.createNote(title, { ops: [{ insert: `${text}\n` }] }, text, text, null, userId)).id;
+
+  it('should rank title matches above text matches and mark the snippet', async () => {
+    const inText = await createNote('Sailing', 'Follow the northern star home');
+    const inTitle = await createNote('Star chart', 'Constellations by season');
+    await createNote('Groceries', 'Milk and bread');
+    await createNote('Star', 'Someone else', 'user-456');
+
+    const results = await dbManager.searchNotes(USER_ID, 'star');
+
+    expect(results.map(result => result.note.id)).toEqual([inTitle, inText]);
+    expect(results[0].score).toBeGreaterThan(results[1].score);
+    expect(results[1].snippet).toBe('Follow the northern <mark>star</mark> home');
+    expect(results[1].note.content).toEqual({ ops: [{ insert: 'Follow the northern star home\n' }] });
+  });
+
+  it('should support prefixes, phrases and exclusions', async () => {
+    const northern = await createNote('Trip', 'Sail north to the northern star');
+    const draft = await createNote('Draft', 'The northern star, draft');
+
+    expect((await dbManager.searchNotes(USER_ID, 'nor*')).map(result => result.note.id).sort())
+      .toEqual([northern, draft].sort());
+    expect((await dbManager.searchNotes(USER_ID, '"northern star" -draft')).map(result => result.note.id))
+      .toEqual([northern]);
+  });
+
+  it('should keep the index in step with edits and deletions', async () => {
+    const edited = await createNote('Plan', 'Harbour at dawn');
+    const deleted = await createNote('Harbour log', 'Tides');
+    const purged = await createNote('Harbour map', 'Piers');
+
+    await dbManager.updateNote(edited, { title: 'Plan', content_plain: 'Anchor at dusk' });
+    await dbManager.deleteNote(deleted);
+    await NotesDAO.hardDeleteNote(purged);
+
+    expect(await dbManager.searchNotes(USER_ID, 'harbour')).toEqual([]);
+    expect((await dbManager.searchNotes(USER_ID, 'anchor')).map(result => result.note.id)).toEqual([edited]);
+  });
+});
+
+describe('DatabaseManager.encrypt', () => {
+  // Deriving a key from the passphrase is deliberately slow
+  const KEY_TIMEOUT = 20000;
+  let dbManager: DatabaseManager;
+  let plaintextName: string;
+  let encryptedName: string;
+
+  beforeAll(async () => {
+    mockSQL = await loadSqlJs();
+  });
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const name = `encrypt-${Date.now()}-${Math.random()}`;
+    plaintextName = `${name}.db`;
+    encryptedName = `${name}.encrypted.db`;
+    dbManager = DatabaseManager.getInstance();
+    await dbManager.initialize(plaintextName);
+  });
+
+  afterEach(async () => {
+    await dbManager.close();
+    jest.restoreAllMocks();
+  });
+
+  const createNote = async (title: string, text: string) =>
+    (await dbManager.createNote(title, { ops: [{ insert: `${text}\n` }] }, text, text, null, USER_ID)).id;
+
+  // The file as stored, read without the passphrase
+  const readFile = (sql: string): unknown[][] => {
+    const db = new mockSQL.Database(mockFiles.get(encryptedName));
+    try {
+      return db.exec(sql)[0]?.values ?? [];
+    } finally {
+      db.close();
+    }
+  };
+
+  const reopen = async (passphrase?: string) => {
+    await dbManager.close();
+    await dbManager.initialize(encryptedName, passphrase);
+  };
+
+  it('should move the notes to an encrypted file and delete the plaintext one', async () => {
+    const noteId = await createNote('Launch', 'Rocket fuel budget');
+
+    await dbManager.encrypt(encryptedName, 'correct horse');
+
+    expect(await dbManager.getNoteById(noteId)).toEqual(
+      expect.objectContaining({ title: 'Launch', content_plain: 'Rocket fuel budget' })
+    );
+    expect((await dbManager.searchNotes(USER_ID, 'rocket')).map(result => result.note.id)).toEqual([noteId]);
+    expect(mockFiles.has(plaintextName)).toBe(false);
+
+    await dbManager.close();
+    const [[title, content, markdown, plain]] = readFile(
+      'SELECT title, content, content_markdown, content_plain FROM notes'
+    );
+    expect(title).toBe('Launch');
+    [content, markdown, plain].forEach(value => expect(value).not.toContain('Rocket'));
+    readFile('SELECT data FROM sync_queue').forEach(([data]: unknown[]) => expect(data).not.toContain('Rocket'));
+  }, KEY_TIMEOUT);
+
+  it('should keep searching notes without the full-text index once encrypted', async () => {
+    const northern = await createNote('Trip', 'Sail north to the northern star');
+    const draft = await createNote('Draft', 'The northern star, draft');
+    const edited = await createNote('Plan', 'Harbour at dawn');
+    await dbManager.encrypt(encryptedName, 'correct horse');
+    await reopen('correct horse');
+
+    await dbManager.updateNote(edited, { content_plain: 'Anchor at dawn', content_markdown: 'Anchor at dawn' });
+    const added = await createNote('Star chart', 'Constellations by season');
+
+    expect(readFile("SELECT name FROM sqlite_master WHERE name = 'notes_fts'")).toEqual([]);
+    expect((await dbManager.searchNotes(USER_ID, 'star')).map(result => result.note.id))
+      .toEqual([added, draft, northern]);
+    expect((await dbManager.searchNotes(USER_ID, '"northern star" -draft')).map(result => result.note.id))
+      .toEqual([northern]);
+    expect(await dbManager.searchNotes(USER_ID, 'harbour')).toEqual([]);
+    const [anchor] = await dbManager.searchNotes(USER_ID, 'anchor');
+    expect(anchor).toEqual(expect.objectContaining({ snippet: '<mark>Anchor</mark> at dawn' }));
+    expect(anchor.note.id).toBe(edited);
+  }, KEY_TIMEOUT);
+
+  it('should reopen the encrypted file with its passphrase only', async () => {
+    const noteId = await createNote('Launch', 'Rocket fuel budget');
+    await dbManager.encrypt(encryptedName, 'correct horse');
+
+    await expect(reopen('wrong horse')).rejects.toThrow('Wrong passphrase for the encrypted database');
+    await expect(reopen()).rejects.toThrow('A passphrase is required');
+    await reopen('correct horse');
+
+    expect((await dbManager.getNoteById(noteId))?.content_plain).toBe('Rocket fuel budget');
+  }, KEY_TIMEOUT);
+
+  it('should change the passphrase that opens the file', async () => {
+    const noteId = await createNote('Launch', 'Rocket fuel budget');
+    await dbManager.encrypt(encryptedName, 'correct horse');
+
+    await dbManager.changePassphrase('battery staple');
+
+    await expect(reopen('correct horse')).rejects.toThrow('Wrong passphrase');
+    await reopen('battery staple');
+    expect((await dbManager.getNoteById(noteId))?.content_plain).toBe('Rocket fuel budget');
+  }, KEY_TIMEOUT);
+
+  it('should keep using the encrypted file when the plaintext one cannot be deleted', async () => {
+    const SQLite = jest.requireMock('react-native-sqlite-storage');
+    const deleteDatabase = SQLite.deleteDatabase;
+    jest.spyOn(SQLite, 'deleteDatabase').mockImplementation(async (file: any) => {
+      if (file.name === plaintextName) {
+        throw new Error('File is busy');
+      }
+      return deleteDatabase(file);
+    });
+    const noteId = await createNote('Launch', 'Rocket fuel budget');
+
+    await dbManager.encrypt(encryptedName, 'correct horse');
+    const laterId = await createNote('Landing', 'Parachute check');
+
+    expect(console.error).toHaveBeenCalledWith(
+      `Error deleting the plaintext database ${plaintextName}:`,
+      expect.any(Error)
+    );
+    await reopen('correct horse');
+    expect((await dbManager.getNoteById(noteId))?.title).toBe('Launch');
+    expect((await dbManager.getNoteById(laterId))?.title).toBe('Landing');
+  }, KEY_TIMEOUT);
+
+  it('should keep the plaintext database when the copy fails', async () => {
+    const noteId = await createNote('Launch', 'Rocket fuel budget');
+    const SQLite = jest.requireMock('react-native-sqlite-storage');
+    jest.spyOn(SQLite, 'openDatabase').mockRejectedValueOnce(new Error('Disk full'));
+
+    await expect(dbManager.encrypt(encryptedName, 'correct horse')).rejects.toThrow('Disk full');
+
+    expect((await dbManager.getNoteById(noteId))?.content_plain).toBe('Rocket fuel budget');
+    expect(mockFiles.has(encryptedName)).toBe(false);
+  }, KEY_TIMEOUT);
+
+  it('should push queued changes from an encrypted file', async () => {
+    await createNote('Launch', 'Rocket fuel budget');
+    await dbManager.encrypt(encryptedName, 'correct horse');
+
+    const [item] = await SyncQueueDAO.getPendingItems(USER_ID, 50, 1000);
+    expect(JSON.parse(item.data)).toEqual(expect.objectContaining({ content_plain: 'Rocket fuel budget' }));
+    expect(await SyncQueueDAO.getPendingItems(USER_ID, 50, item.data.length - 1)).toEqual([]);
+
+    await SyncQueueDAO.acknowledgeItems([
+      {
+        queueItemId: item.id,
+        pushedData: item.data,
+        tableName: 'notes',
+        recordId: item.record_id,
+        syncedRow: JSON.parse(item.data),
+      },
+    ]);
+
+    expect(await SyncQueueDAO.getQueueSize(USER_ID)).toBe(0);
+  }, KEY_TIMEOUT);
+
+  it('should not rekey a plaintext database', async () => {
+    await expect(dbManager.changePassphrase('secret')).rejects.toThrow('not encrypted');
+  });
+
+  it('should not open a plaintext database with a passphrase', async () => {
+    await dbManager.close();
+
+    await expect(dbManager.initialize(plaintextName, 'secret')).rejects.toThrow('not encrypted');
+  });
+});
@@ -0,0 +1,142 @@
+import { MIGRATIONS, Migration, getSchemaVersion, migrateDatabase } from '../../src/database/migrations';
+import { loadSqlJs, wrapSqlJsDatabase } from '../support/syncHarness';
+import { LEGACY_SCHEMAS } from '../support/legacySchemas';
+
+const LATEST_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+// Columns and indexes of every table, in a form that does not depend on
+// whether a column was created with its table or added later
+const describeSchema = (db: any) => {
+  const [tables] = db.exec(
+    "SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%' ORDER BY name"
+  );
+  const [indexes] = db.exec(
+    "SELECT name FROM sqlite_master WHERE type = 'index' AND name NOT LIKE 'sqlite_%' ORDER BY name"
+  );
+
+  return {
+    tables: tables.values.map(([tableName]: [string]) => {
+      const [columns] = db.exec(`PRAGMA table_info(${tableName})`);
+      return [tableName, columns.values.map(([, ...column]: any[]) => column).sort()];
+    }),
+    indexes: indexes.values.flat(),
+  };
+};
+
+describe('Database migrations', () => {
+  let SQL: any;
+  let latestSchema: ReturnType<typeof describeSchema>;
+
+  beforeAll(async () => {
+    SQL = await loadSqlJs();
+
+    const db = new SQL.Database();
+    await migrateDatabase(wrapSqlJsDatabase(db));
+    latestSchema = describeSchema(db);
+    db.close();
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should create the latest schema on a new database', async () => {
+    const db = new SQL.Database();
+
+    expect(await migrateDatabase(wrapSqlJsDatabase(db))).toBe(LATEST_VERSION);
+    expect(db.exec('PRAGMA user_version')[0].values).toEqual([[LATEST_VERSION]]);
+    expect(latestSchema.tables.map(([tableName]: [string]) => tableName)).toEqual(
+      expect.arrayContaining(['notes', 'groups', 'sync_queue', 'sync_quarantine', 'user_settings'])
+    );
+  });
+
+  it.each(LEGACY_SCHEMAS)('should upgrade a database created by the %s release', async (_release, statements) => {
+    const db = new SQL.Database();
+    statements.forEach(sql => db.run(sql));
+    db.run("INSERT INTO groups (id, name, user_id) VALUES ('group-1', 'Work', 'user-123')");
+    db.run("INSERT INTO notes (id, title, group_id, user_id) VALUES ('note-1', 'Plan', 'group-1', 'user-123')");
+    db.run(`INSERT INTO sync_queue (id, table_name, record_id, operation, data, user_id)
+            VALUES ('sync-1', 'notes', 'note-1', 'INSERT', '{}', 'user-123')`);
+
+    await migrateDatabase(wrapSqlJsDatabase(db));
+
+    expect(describeSchema(db)).toEqual(latestSchema);
+    expect(db.exec('PRAGMA user_version')[0].values).toEqual([[LATEST_VERSION]]);
+    expect(db.exec('SELECT id, title FROM notes')[0].values).toEqual([['note-1', 'Plan']]);
+    expect(db.exec('SELECT sync_policy FROM groups')[0].values).toEqual([['sync']]);
+    expect(db.exec('SELECT id, next_attempt_at, patch FROM sync_queue')[0].values).toEqual([
+      ['sync-1', null, null],
+    ]);
+  });
+
+  it.each(MIGRATIONS.slice(0, -1).map(({ version }) => version))(
+    'should upgrade a database from version %i',
+    async version => {
+      const db = new SQL.Database();
+      await migrateDatabase(wrapSqlJsDatabase(db), MIGRATIONS.filter(migration => migration.version <= version));
+      expect(db.exec('PRAGMA user_version')[0].values).toEqual([[version]]);
+
+      await migrateDatabase(wrapSqlJsDatabase(db));
+
+      expect(describeSchema(db)).toEqual(latestSchema);
+    }
+  );
+
+  it('should index the notes that exist when the search index is created', async () => {
+    const db = new SQL.Database();
+    await migrateDatabase(wrapSqlJsDatabase(db), MIGRATIONS.filter(({ version }) => version < 10));
+    db.run(`INSERT INTO notes (id, title, content_plain, user_id)
+            VALUES ('note-1', 'Star map', 'The northern star', 'user-123')`);
+
+    await migrateDatabase(wrapSqlJsDatabase(db));
+
+    expect(latestSchema.tables.map(([tableName]: [string]) => tableName)).toContain('notes_fts');
+    expect(db.exec("SELECT rowid FROM notes_fts WHERE notes_fts MATCH 'northern'")[0].values).toEqual(
+      db.exec("SELECT rowid FROM notes WHERE id = 'note-1'")[0].values
+    );
+  });
+
+  it('should only create the search index where SQLite has FTS5', () => {
+    const searchIndex = MIGRATIONS.find(({ version }) => version === 10)!;
+    const schema = { hasTable: () => true, hasColumn: () => true };
+
+    // Many Android system libraries are built without FTS5
+    expect(searchIndex.up({ ...schema, hasFts5: false })).toEqual([]);
+    expect(searchIndex.up({ ...schema, hasFts5: true }).join('\n')).toContain('USING fts5');
+  });
+
+  it('should roll back a failing migration and report it', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const db = new SQL.Database();
+    const wrapped = wrapSqlJsDatabase(db);
+    const failing: Migration = {
+      version: LATEST_VERSION + 1,
+      name: 'Add reminders',
+      up: () => [
+        'CREATE TABLE reminders (id TEXT PRIMARY KEY)',
+        'ALTER TABLE missing_table ADD COLUMN due_at TEXT',
+      ],
+    };
+
+    await expect(migrateDatabase(wrapped, [...MIGRATIONS, failing])).rejects.toThrow(
+      `Database migration ${LATEST_VERSION + 1} (Add reminders) failed: no such table: missing_table`
+    );
+
+    // Earlier migrations stay applied, none of the failing one does
+    expect(await getSchemaVersion(wrapped)).toBe(LATEST_VERSION);
+    expect(describeSchema(db)).toEqual(latestSchema);
+  });
+
+  it('should refuse a database written by a newer version of the app', async () => {
+    const db = new SQL.Database();
+    db.run(`PRAGMA user_version = ${LATEST_VERSION + 1}`);
+
+    await expect(migrateDatabase(wrapSqlJsDatabase(db))).rejects.toThrow(
+      `Database schema version ${LATEST_VERSION + 1} is newer than this app supports (${LATEST_VERSION})`
+    );
+  });
+});
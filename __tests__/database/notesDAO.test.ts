@@ -0,0 +1,100 @@
+import { NotesDAO, LocalNote } from '../../src/database/notesDAO';
+import { executeSql } from '../../src/database/sqlite';
+
+jest.mock('../../src/database/sqlite', () => ({
+  executeSql: jest.fn(),
+  generateUUID: jest.fn(() => 'note-new'),
+  getCurrentTimestamp: jest.fn(() => '2024-01-01T00:00:00.000Z'),
+}));
+
+const mockExecuteSql = executeSql as jest.Mock;
+
+const rows = (items: any[]) => ({
+  rows: { length: items.length, item: (i: number) => items[i] },
+});
+
+const makeNote = (overrides: Partial<LocalNote> = {}): LocalNote => ({
+  id: 'note-1',
+  title: 'Untitled',
+  content: '{"ops":[]}',
+  content_markdown: '',
+  content_plain: '',
+  group_id: null,
+  user_id: 'user-123',
+  created_at: '2024-01-01T00:00:00.000Z',
+  updated_at: '2024-01-01T00:00:00.000Z',
+  version: 1,
+  is_deleted: 0,
+  deleted_at: null,
+  needs_sync: 0,
+  ...overrides,
+});
+
+describe('NotesDAO.searchNotes', () => {
+  beforeEach(() => {
+    mockExecuteSql.mockReset();
+  });
+
+  it('should rank matches with the full-text index', async () => {
+    const note = makeNote({ title: 'Star map', content_plain: 'The northern star guides sailors' });
+    mockExecuteSql
+      .mockResolvedValueOnce(rows([{ name: 'notes_fts' }]))
+      .mockResolvedValueOnce(rows([
+        { ...note, search_rank: -2.5, search_snippet: 'The northern <mark>star</mark> guides sailors' },
+      ]));
+
+    const results = await NotesDAO.searchNotes('user-123', 'star -draft', 20);
+
+    const [sql, params] = mockExecuteSql.mock.calls[1];
+    expect(sql).toContain('notes_fts MATCH ?');
+    expect(sql).toContain('ORDER BY search_rank');
+    expect(params).toEqual(['<mark>', '</mark>', '…', '("star") NOT "draft"', 'user-123', 20]);
+    expect(results).toEqual([
+      {
+        note,
+        score: 2.5,
+        snippet: 'The northern <mark>star</mark> guides sailors',
+        matches: [
+          { field: 'title', text: 'Star', start: 0, end: 4 },
+          { field: 'content', text: 'star', start: 13, end: 17 },
+        ],
+      },
+    ]);
+  });
+
+  it('should not query when nothing is included', async () => {
+    expect(await NotesDAO.searchNotes('user-123', '-draft')).toEqual([]);
+    expect(await NotesDAO.searchNotes('user-123', '  ')).toEqual([]);
+    expect(mockExecuteSql).not.toHaveBeenCalled();
+  });
+
+  it('should fall back to LIKE and match whole words when there is no index', async () => {
+    const inTitle = makeNote({ id: 'note-title', title: 'North', content_plain: 'Head north' });
+    const inText = makeNote({ id: 'note-text', title: 'Trip', content_plain: 'Sail north at dawn' });
+    const insideWord = makeNote({ id: 'note-word', title: 'Wind', content_plain: 'A northerly wind' });
+    const excluded = makeNote({ id: 'note-draft', title: 'Draft', content_plain: 'north, draft' });
+    mockExecuteSql
+      .mockResolvedValueOnce(rows([]))
+      .mockResolvedValueOnce(rows([inText, insideWord, excluded, inTitle]));
+
+    const results = await NotesDAO.searchNotes('user-123', 'north -draft');
+
+    const [sql, params] = mockExecuteSql.mock.calls[1];
+    expect(sql).toContain("(title LIKE ? ESCAPE '\\' OR content_plain LIKE ? ESCAPE '\\')");
+    expect(params).toEqual(['user-123', '%north%', '%north%']);
+    expect(results.map(result => result.note.id)).toEqual(['note-title', 'note-text']);
+    expect(results[1]).toMatchObject({
+      score: 1,
+      snippet: 'Sail <mark>north</mark> at dawn',
+      matches: [{ field: 'content', text: 'north', start: 5, end: 10 }],
+    });
+  });
+
+  it('should escape LIKE wildcards in the fallback', async () => {
+    mockExecuteSql.mockResolvedValueOnce(rows([])).mockResolvedValueOnce(rows([]));
+
+    await NotesDAO.searchNotes('user-123', '100%_done');
+
+    expect(mockExecuteSql.mock.calls[1][1]).toEqual(['user-123', '%100\\%\\_done%', '%100\\%\\_done%']);
+  });
+});
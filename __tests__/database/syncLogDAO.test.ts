@@ -0,0 +1,109 @@
+import { SyncLogDAO } from '../../src/database/syncLogDAO';
+import { executeSql } from '../../src/database/sqlite';
+import { CLEANUP } from '../../src/constants';
+
+jest.mock('../../src/database/sqlite', () => ({
+  executeSql: jest.fn(),
+  generateUUID: jest.fn(() => 'log-new'),
+  getCurrentTimestamp: jest.fn(() => '2024-01-01T00:00:00.000Z'),
+}));
+
+const mockExecuteSql = executeSql as jest.Mock;
+
+const rows = (items: any[]) => ({
+  rows: { length: items.length, item: (i: number) => items[i] },
+});
+
+describe('SyncLogDAO', () => {
+  beforeEach(() => {
+    mockExecuteSql.mockReset();
+    mockExecuteSql.mockResolvedValue(rows([]));
+  });
+
+  it('should record a sync run with its counts and errors', async () => {
+    await SyncLogDAO.addRun({
+      startedAt: '2024-01-01T00:00:00.000Z',
+      finishedAt: '2024-01-01T00:00:01.500Z',
+      durationMs: 1500,
+      pushed: 3,
+      pulled: 5,
+      conflicts: 1,
+      errors: ['notes note-1: Network error'],
+    }, 'user-123');
+
+    const [sql, params] = mockExecuteSql.mock.calls[0];
+    expect(sql).toContain('INSERT INTO sync_log');
+    expect(params).toEqual([
+      'log-new',
+      'run',
+      'user-123',
+      '2024-01-01T00:00:00.000Z',
+      '2024-01-01T00:00:01.500Z',
+      1500,
+      3,
+      5,
+      1,
+      JSON.stringify(['notes note-1: Network error']),
+      null,
+      null,
+      null,
+      '2024-01-01T00:00:00.000Z',
+    ]);
+  });
+
+  it('should record a failed realtime event with its error', async () => {
+    await SyncLogDAO.addRealtimeEvent({
+      tableName: 'notes',
+      recordId: 'note-1',
+      eventType: 'UPDATE',
+      error: 'database is locked',
+    }, 'user-123');
+
+    const params = mockExecuteSql.mock.calls[0][1];
+    expect(params[1]).toBe('realtime');
+    expect(params[9]).toBe(JSON.stringify(['database is locked']));
+    expect(params.slice(10, 13)).toEqual(['notes', 'note-1', 'UPDATE']);
+  });
+
+  it('should trim the log to its maximum size after every entry', async () => {
+    await SyncLogDAO.addRealtimeEvent({
+      tableName: 'groups',
+      recordId: 'group-1',
+      eventType: 'INSERT',
+      error: null,
+    }, 'user-123');
+
+    expect(mockExecuteSql).toHaveBeenLastCalledWith(
+      expect.stringContaining('LIMIT -1 OFFSET ?'),
+      [CLEANUP.logMaxEntries]
+    );
+  });
+
+  it('should remove entries older than the retention period', async () => {
+    jest.useFakeTimers().setSystemTime(new Date('2024-01-31T00:00:00.000Z'));
+
+    try {
+      await SyncLogDAO.removeOldEntries();
+    } finally {
+      jest.useRealTimers();
+    }
+
+    const cutoff = new Date('2024-01-31T00:00:00.000Z');
+    cutoff.setDate(cutoff.getDate() - CLEANUP.logRetentionDays);
+    expect(mockExecuteSql.mock.calls[0]).toEqual([
+      'DELETE FROM sync_log WHERE created_at < ?',
+      [cutoff.toISOString()],
+    ]);
+    expect(mockExecuteSql.mock.calls[1][0]).toContain('LIMIT -1 OFFSET ?');
+  });
+
+  it('should list only the requested kind of entries', async () => {
+    const run = { id: 'log-1', kind: 'run' };
+    mockExecuteSql.mockResolvedValueOnce(rows([run]));
+
+    const entries = await SyncLogDAO.getEntries('user-123', 10, 'run');
+
+    expect(entries).toEqual([run]);
+    expect(mockExecuteSql.mock.calls[0][1]).toEqual(['user-123', 'run', 10]);
+  });
+});
@@ -0,0 +1,273 @@
+import {
+  SyncQueueDAO,
+  coalesceOperations,
+  getRetryDelay,
+  setNotePatchesEnabled,
+} from '../../src/database/syncQueueDAO';
+import { SyncBaseDAO } from '../../src/database/syncBaseDAO';
+import { setDataKey } from '../../src/database/encryption';
+import { executeSql } from '../../src/database/sqlite';
+import { encryptText, generateKey } from '../../src/utils/cryptoUtils';
+
+jest.mock('../../src/database/sqlite', () => ({
+  executeSql: jest.fn(),
+  executeSqlBatch: jest.fn(),
+  generateUUID: jest.fn(() => 'queue-new'),
+  getCurrentTimestamp: jest.fn(() => '2024-01-01T00:00:00.000Z'),
+}));
+jest.mock('../../src/database/syncBaseDAO');
+
+const mockExecuteSql = executeSql as jest.Mock;
+const mockSyncBaseDAO = SyncBaseDAO as jest.Mocked<typeof SyncBaseDAO>;
+
+const rows = (items: any[]) => ({
+  rows: { length: items.length, item: (i: number) => items[i] },
+});
+
+const pendingItem = (operation: 'INSERT' | 'UPDATE' | 'DELETE') => ({
+  id: 'queue-1',
+  table_name: 'notes',
+  record_id: 'note-1',
+  operation,
+  data: JSON.stringify({ id: 'note-1', title: 'First' }),
+  user_id: 'user-123',
+  created_at: '2024-01-01T00:00:00.000Z',
+  retry_count: 0,
+  last_error: null,
+  next_attempt_at: null,
+  patch: null,
+  pushed_at: null as string | null,
+});
+
+describe('SyncQueueDAO', () => {
+  describe('coalesceOperations', () => {
+    it.each([
+      ['INSERT', 'INSERT', 'INSERT'],
+      ['INSERT', 'UPDATE', 'INSERT'],
+      ['INSERT', 'DELETE', null],
+      ['UPDATE', 'INSERT', 'UPDATE'],
+      ['UPDATE', 'UPDATE', 'UPDATE'],
+      ['UPDATE', 'DELETE', 'DELETE'],
+      ['DELETE', 'INSERT', 'UPDATE'],
+      ['DELETE', 'UPDATE', 'UPDATE'],
+      ['DELETE', 'DELETE', 'DELETE'],
+    ] as const)('should coalesce %s followed by %s into %s', (pending, incoming, expected) => {
+      expect(coalesceOperations(pending, incoming)).toBe(expected);
+    });
+
+    it('should turn an insert that was already pushed into a delete', () => {
+      expect(coalesceOperations('INSERT', 'DELETE', true)).toBe('DELETE');
+      expect(coalesceOperations('INSERT', 'UPDATE', true)).toBe('INSERT');
+    });
+  });
+
+  describe('addToQueue', () => {
+    beforeEach(() => {
+      mockExecuteSql.mockReset();
+      mockSyncBaseDAO.getBase.mockReset();
+    });
+
+    afterEach(() => {
+      setNotePatchesEnabled(false);
+    });
+
+    it('should add a new item when nothing is pending for the record', async () => {
+      mockExecuteSql.mockResolvedValueOnce(rows([])).mockResolvedValueOnce(rows([]));
+
+      const item = await SyncQueueDAO.addToQueue('notes', 'note-1', 'INSERT', { id: 'note-1' }, 'user-123');
+
+      expect(item?.id).toBe('queue-new');
+      expect(mockExecuteSql.mock.calls[1][0]).toContain('INSERT INTO sync_queue');
+    });
+
+    it('should fold an update into a pending insert with the latest data', async () => {
+      mockExecuteSql.mockResolvedValueOnce(rows([pendingItem('INSERT')])).mockResolvedValueOnce(rows([]));
+
+      const latest = { id: 'note-1', title: 'Latest' };
+      const item = await SyncQueueDAO.addToQueue('notes', 'note-1', 'UPDATE', latest, 'user-123');
+
+      expect(item?.operation).toBe('INSERT');
+      expect(item?.id).toBe('queue-1');
+      expect(mockExecuteSql).toHaveBeenLastCalledWith(
+        'UPDATE sync_queue SET operation = ?, data = ?, patch = ? WHERE id = ?',
+        ['INSERT', JSON.stringify(latest), null, 'queue-1'],
+        undefined
+      );
+    });
+
+    it('should turn a pending update into a delete', async () => {
+      mockExecuteSql.mockResolvedValueOnce(rows([pendingItem('UPDATE')])).mockResolvedValueOnce(rows([]));
+
+      const item = await SyncQueueDAO.addToQueue('notes', 'note-1', 'DELETE', { id: 'note-1' }, 'user-123');
+
+      expect(item?.operation).toBe('DELETE');
+      expect(mockExecuteSql).toHaveBeenCalledTimes(2);
+    });
+
+    // Edits the end of a synced note whose merge base is at version 2
+    const queueNoteEdit = async (text: string) => {
+      const base = {
+        id: 'note-1',
+        title: 'First',
+        content: { ops: [{ insert: `${text}\n` }] },
+        content_markdown: text,
+        content_plain: text,
+        version: 2,
+      };
+      mockSyncBaseDAO.getBase.mockResolvedValueOnce(base);
+      mockExecuteSql.mockResolvedValueOnce(rows([pendingItem('UPDATE')])).mockResolvedValueOnce(rows([]));
+
+      return SyncQueueDAO.addToQueue('notes', 'note-1', 'UPDATE', {
+        ...base,
+        content: JSON.stringify({ ops: [{ insert: `${text}!\n` }] }),
+        content_markdown: `${text}!`,
+        content_plain: `${text}!`,
+        version: 3,
+        is_deleted: 0,
+      }, 'user-123');
+    };
+
+    it('should describe a note update as a patch against the merge base', async () => {
+      const text = 'A long paragraph that stays the same. '.repeat(20);
+      setNotePatchesEnabled(true);
+
+      const item = await queueNoteEdit(text);
+
+      const patch = JSON.parse(item!.patch!);
+      expect(patch.base_version).toBe(2);
+      expect(patch.values.version).toBe(3);
+      expect(patch.content).toEqual([{ retain: text.length }, { insert: '!' }]);
+      expect(patch.content_plain).toEqual({ start: text.length, deleteCount: 0, insert: '!' });
+    });
+
+    it('should not patch a note when the backend cannot apply patches', async () => {
+      const item = await queueNoteEdit('A long paragraph that stays the same. '.repeat(20));
+
+      expect(item?.patch).toBeNull();
+      expect(mockSyncBaseDAO.getBase).not.toHaveBeenCalled();
+    });
+
+    it('should not patch a note that was never synced', async () => {
+      setNotePatchesEnabled(true);
+      mockSyncBaseDAO.getBase.mockResolvedValueOnce(null);
+      mockExecuteSql.mockResolvedValueOnce(rows([])).mockResolvedValueOnce(rows([]));
+
+      const item = await SyncQueueDAO.addToQueue('notes', 'note-1', 'UPDATE', { id: 'note-1' }, 'user-123');
+
+      expect(item?.patch).toBeNull();
+    });
+
+    it('should drop a pending insert when the record is deleted', async () => {
+      mockExecuteSql.mockResolvedValueOnce(rows([pendingItem('INSERT')])).mockResolvedValueOnce(rows([]));
+
+      const item = await SyncQueueDAO.addToQueue('notes', 'note-1', 'DELETE', { id: 'note-1' }, 'user-123');
+
+      expect(item).toBeNull();
+      expect(mockExecuteSql).toHaveBeenLastCalledWith('DELETE FROM sync_queue WHERE id = ?', ['queue-1'], undefined);
+    });
+
+    it('should keep a deleted record queued when its insert is in flight', async () => {
+      const pushed = { ...pendingItem('INSERT'), pushed_at: '2024-01-01T00:00:00.000Z' };
+      mockExecuteSql.mockResolvedValueOnce(rows([pushed])).mockResolvedValueOnce(rows([]));
+
+      const deleted = { id: 'note-1', title: 'First', is_deleted: 1 };
+      const item = await SyncQueueDAO.addToQueue('notes', 'note-1', 'DELETE', deleted, 'user-123');
+
+      expect(item?.operation).toBe('DELETE');
+      expect(mockExecuteSql).toHaveBeenLastCalledWith(
+        'UPDATE sync_queue SET operation = ?, data = ?, patch = ? WHERE id = ?',
+        ['DELETE', JSON.stringify(deleted), null, 'queue-1'],
+        undefined
+      );
+    });
+  });
+
+  describe('getRetryDelay', () => {
+    it('should double the delay on every attempt', () => {
+      expect(getRetryDelay(0, () => 1)).toBe(1000);
+      expect(getRetryDelay(1, () => 1)).toBe(2000);
+      expect(getRetryDelay(3, () => 1)).toBe(8000);
+    });
+
+    it('should jitter the delay down to half', () => {
+      expect(getRetryDelay(2, () => 0)).toBe(2000);
+      expect(getRetryDelay(2, () => 0.5)).toBe(3000);
+    });
+  });
+
+  describe('incrementRetryCount', () => {
+    beforeEach(() => {
+      mockExecuteSql.mockReset();
+    });
+
+    it('should schedule the next attempt after a backoff', async () => {
+      mockExecuteSql.mockResolvedValueOnce(rows([{ retry_count: 1 }])).mockResolvedValueOnce(rows([]));
+      const before = Date.now();
+
+      await SyncQueueDAO.incrementRetryCount('queue-1', 'Network error');
+
+      const [retryCount, error, nextAttemptAt, id] = mockExecuteSql.mock.calls[1][1];
+      expect([retryCount, error, id]).toEqual([2, 'Network error', 'queue-1']);
+      expect(Date.parse(nextAttemptAt) - before).toBeGreaterThanOrEqual(1000);
+    });
+
+    it('should dead-letter an item that reached the retry limit', async () => {
+      mockExecuteSql.mockResolvedValueOnce(rows([{ retry_count: 4 }])).mockResolvedValueOnce(rows([]));
+
+      await SyncQueueDAO.incrementRetryCount('queue-1', 'Network error');
+
+      expect(mockExecuteSql.mock.calls[1][1]).toEqual([5, 'Network error', null, 'queue-1']);
+    });
+
+    it('should skip items that are still backing off', async () => {
+      mockExecuteSql.mockResolvedValueOnce(rows([]));
+
+      await SyncQueueDAO.getPendingItems('user-123', 10);
+
+      expect(mockExecuteSql.mock.calls[0][0]).toContain('next_attempt_at <= ?');
+      expect(mockExecuteSql.mock.calls[0][1]).toEqual(['user-123', 5, '2024-01-01T00:00:00.000Z', null, null, 10, 0]);
+    });
+
+    it('should leave note changes over the size limit queued', async () => {
+      mockExecuteSql.mockResolvedValueOnce(rows([]));
+
+      await SyncQueueDAO.getPendingItems('user-123', 10, 1024);
+
+      expect(mockExecuteSql.mock.calls[0][0]).toContain("table_name != 'notes' OR length(data) <= ?");
+      expect(mockExecuteSql.mock.calls[0][1]).toEqual(['user-123', 5, '2024-01-01T00:00:00.000Z', 1024, 1024, 10, 0]);
+    });
+
+    it('should measure the patch of a note change when the backend applies patches', async () => {
+      setNotePatchesEnabled(true);
+      mockExecuteSql.mockResolvedValueOnce(rows([]));
+
+      await SyncQueueDAO.getPendingItems('user-123', 10, 1024);
+      setNotePatchesEnabled(false);
+
+      expect(mockExecuteSql.mock.calls[0][0]).toContain('length(COALESCE(patch, data)) <= ?');
+    });
+
+    it('should measure encrypted note changes a page of the queue at a time', async () => {
+      const key = generateKey();
+      setDataKey(key);
+      const queued = (id: string, tableName: string, text: string) => ({
+        ...pendingItem('UPDATE'),
+        id,
+        table_name: tableName,
+        data: encryptText(key, JSON.stringify({ id, text })),
+      });
+      mockExecuteSql
+        .mockResolvedValueOnce(rows([queued('large-1', 'notes', 'x'.repeat(2048)), queued('large-2', 'notes', 'x'.repeat(2048))]))
+        .mockResolvedValueOnce(rows([queued('small', 'notes', 'Short'), queued('group', 'groups', 'x'.repeat(2048))]));
+
+      const items = await SyncQueueDAO.getPendingItems('user-123', 2, 1024);
+      setDataKey(null);
+
+      expect(items.map(item => item.id)).toEqual(['small', 'group']);
+      expect(mockExecuteSql.mock.calls.map(([, params]) => params.slice(3))).toEqual([
+        [null, null, 2, 0],
+        [null, null, 2, 2],
+      ]);
+    });
+  });
+});
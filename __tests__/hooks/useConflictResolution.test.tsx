@@ -0,0 +1,117 @@
+import React from 'react';
+import ReactTestRenderer from 'react-test-renderer';
+import { useConflictResolution } from '../../src/hooks/useSync';
+import { SyncService } from '../../src/services/SyncService';
+import { supabase } from '../../src/config/supabase';
+import { SyncConflict } from '../../src/types';
+
+jest.mock('../../src/services/SyncService');
+jest.mock('../../src/services/BackgroundSyncWorker', () => ({}));
+jest.mock('../../src/config/supabase');
+
+const mockSupabase = supabase as jest.Mocked<typeof supabase>;
+const mockSyncService = {
+  getConflicts: jest.fn(),
+  resolveConflict: jest.fn(),
+};
+
+const note = {
+  id: 'note-1',
+  title: 'Phone title',
+  content: { ops: [{ insert: 'Text\n' }] },
+  content_markdown: 'Text',
+  content_plain: 'Text',
+  group_id: null,
+  user_id: 'user-123',
+  created_at: '2024-01-01T00:00:00.000Z',
+  updated_at: '2024-01-02T00:00:00.000Z',
+  version: 2,
+  is_deleted: false,
+  deleted_at: null,
+};
+
+const conflict: SyncConflict = {
+  id: 'conflict-1',
+  table_name: 'notes',
+  record_id: 'note-1',
+  fields: ['title'],
+  localVersion: { ...note, title: 'Laptop title', version: 1 },
+  remoteVersion: note,
+  mergedVersion: { ...note, title: 'Laptop title', version: 3 },
+  created_at: '2024-01-02T00:00:00.000Z',
+};
+
+// Render the hook in a bare component and hand back its latest result
+const renderConflictResolution = async () => {
+  const result: { current: ReturnType<typeof useConflictResolution> | null } = { current: null };
+  const Probe = () => {
+    result.current = useConflictResolution();
+    return null;
+  };
+
+  await ReactTestRenderer.act(async () => {
+    ReactTestRenderer.create(<Probe />);
+  });
+  return result as { current: ReturnType<typeof useConflictResolution> };
+};
+
+describe('useConflictResolution', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (SyncService.getInstance as jest.Mock).mockReturnValue(mockSyncService);
+    (mockSupabase.auth.getUser as jest.Mock).mockResolvedValue({ data: { user: { id: 'user-123' } }, error: null });
+    mockSyncService.getConflicts.mockResolvedValue([conflict]);
+    mockSyncService.resolveConflict.mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should load the open conflicts of the current user', async () => {
+    const result = await renderConflictResolution();
+
+    expect(mockSyncService.getConflicts).toHaveBeenCalledWith('user-123');
+    expect(result.current.conflicts).toEqual([conflict]);
+    expect(result.current.hasConflicts).toBe(true);
+  });
+
+  it.each(['local', 'remote'] as const)('should resolve with the %s version and drop the conflict', async resolution => {
+    const result = await renderConflictResolution();
+
+    await ReactTestRenderer.act(() => result.current.resolveConflict('conflict-1', resolution));
+
+    expect(mockSyncService.resolveConflict).toHaveBeenCalledWith('conflict-1', {
+      localVersion: conflict.localVersion,
+      remoteVersion: conflict.remoteVersion,
+      resolution,
+      resolvedVersion: undefined,
+    });
+    expect(result.current.conflicts).toEqual([]);
+  });
+
+  it('should merge with the suggested version unless given one', async () => {
+    const result = await renderConflictResolution();
+    const edited = { ...note, title: 'Edited in the inbox' };
+
+    await ReactTestRenderer.act(() => result.current.resolveConflict('conflict-1', 'merge'));
+    mockSyncService.getConflicts.mockResolvedValue([conflict]);
+    await ReactTestRenderer.act(() => result.current.checkForConflicts());
+    await ReactTestRenderer.act(() => result.current.resolveConflict('conflict-1', 'merge', edited));
+
+    expect(mockSyncService.resolveConflict.mock.calls.map(([, resolution]) => resolution.resolvedVersion)).toEqual([
+      conflict.mergedVersion,
+      edited,
+    ]);
+  });
+
+  it('should keep the conflict listed when resolving fails', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    mockSyncService.resolveConflict.mockRejectedValue(new Error('Conflict not found'));
+    const result = await renderConflictResolution();
+
+    await ReactTestRenderer.act(() => result.current.resolveConflict('conflict-1', 'local'));
+
+    expect(result.current.conflicts).toEqual([conflict]);
+  });
+});
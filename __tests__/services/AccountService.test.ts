@@ -0,0 +1,220 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AccountService } from '../../src/services/AccountService';
+import { supabase } from '../../src/config/supabase';
+import { STORAGE_KEYS } from '../../src/constants';
+
+const mockCalls: string[] = [];
+
+const mockDbManager = {
+  initialize: jest.fn(async (name?: string, passphrase?: string) => {
+    mockCalls.push(passphrase ? `open ${name} with ${passphrase}` : `open ${name}`);
+  }),
+  close: jest.fn(async () => {
+    mockCalls.push('close');
+  }),
+  deleteDatabase: jest.fn(async (name: string) => {
+    mockCalls.push(`delete ${name}`);
+  }),
+  encrypt: jest.fn(async (name: string, passphrase: string) => {
+    mockCalls.push(`encrypt into ${name} with ${passphrase}`);
+  }),
+  changePassphrase: jest.fn(async (passphrase: string) => {
+    mockCalls.push(`rekey with ${passphrase}`);
+  }),
+};
+const mockSyncService = {
+  reset: jest.fn(async () => {
+    mockCalls.push('reset sync');
+  }),
+};
+let mockWorkerActive = false;
+const mockWorker = {
+  getIsActive: jest.fn(() => mockWorkerActive),
+  start: jest.fn(async (userId: string) => {
+    mockWorkerActive = true;
+    mockCalls.push(`start worker ${userId}`);
+  }),
+  stop: jest.fn(() => {
+    mockWorkerActive = false;
+    mockCalls.push('stop worker');
+  }),
+};
+const mockCleanupService = {
+  isPeriodicCleanupRunning: jest.fn(() => false),
+  startPeriodicCleanup: jest.fn(async () => {}),
+  stopPeriodicCleanup: jest.fn(),
+};
+const mockApplier = {
+  whenIdle: jest.fn(async () => {}),
+};
+
+jest.mock('../../src/database/DatabaseManager', () => ({
+  DatabaseManager: { getInstance: () => mockDbManager },
+}));
+jest.mock('../../src/services/SyncService', () => ({
+  SyncService: { getInstance: () => mockSyncService },
+}));
+jest.mock('../../src/services/BackgroundSyncWorker', () => ({
+  BackgroundSyncWorker: { getInstance: () => mockWorker },
+}));
+jest.mock('../../src/services/CleanupService', () => ({
+  CleanupService: { getInstance: () => mockCleanupService },
+}));
+jest.mock('../../src/services/RemoteChangeApplier', () => ({
+  RemoteChangeApplier: { getInstance: () => mockApplier },
+}));
+jest.mock('../../src/config/supabase', () => ({
+  supabase: {
+    auth: {
+      getSession: jest.fn(),
+      setSession: jest.fn(),
+      signInWithPassword: jest.fn(),
+      signOut: jest.fn(),
+    },
+  },
+}));
+
+const mockAuth = supabase.auth as jest.Mocked<typeof supabase.auth>;
+
+const makeSession = (userId: string, token = `${userId}-token`) => ({
+  access_token: `${token}-access`,
+  refresh_token: `${token}-refresh`,
+  user: { id: userId, email: `${userId}@example.com` },
+});
+
+describe('AccountService', () => {
+  let accountService: AccountService;
+  let currentSession: any;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    await AsyncStorage.clear();
+    mockCalls.length = 0;
+    mockWorkerActive = false;
+
+    currentSession = makeSession('user-1');
+    mockAuth.getSession.mockImplementation(async () => ({
+      data: { session: currentSession },
+      error: null,
+    }) as any);
+    mockAuth.signInWithPassword.mockImplementation(async ({ email }: any) => {
+      currentSession = makeSession(email.split('@')[0]);
+      return { data: { session: currentSession, user: currentSession.user }, error: null } as any;
+    });
+    mockAuth.setSession.mockImplementation(async ({ refresh_token }: any) => {
+      const userId = refresh_token.split('-token')[0];
+      currentSession = makeSession(userId, `${userId}-renewed`);
+      return { data: { session: currentSession, user: currentSession.user }, error: null } as any;
+    });
+    mockAuth.signOut.mockResolvedValue({ error: null });
+
+    accountService = AccountService.getInstance();
+    await accountService.initialize();
+  });
+
+  it('should keep the existing database for the first account and give later accounts their own', async () => {
+    await accountService.signIn('user-2@example.com', 'password');
+
+    const accounts = await accountService.getAccounts();
+    expect(accounts.map(account => [account.userId, account.databaseName]).sort()).toEqual([
+      ['user-1', 'NorthernStarNotes.db'],
+      ['user-2', 'NorthernStarNotes-user-2.db'],
+    ]);
+    expect((await accountService.getActiveAccount())?.userId).toBe('user-2');
+    expect(mockCalls).toEqual([
+      'open NorthernStarNotes.db',
+      'stop worker',
+      'reset sync',
+      'open NorthernStarNotes-user-2.db',
+    ]);
+  });
+
+  it('should stop sync before switching databases and restart it for the other account', async () => {
+    await accountService.signIn('user-2@example.com', 'password');
+    await mockWorker.start('user-2');
+    mockCalls.length = 0;
+
+    await accountService.switchAccount('user-1');
+
+    expect(mockAuth.setSession).toHaveBeenCalledWith({
+      access_token: 'user-1-token-access',
+      refresh_token: 'user-1-token-refresh',
+    });
+    expect(mockCalls).toEqual([
+      'stop worker',
+      'reset sync',
+      'open NorthernStarNotes.db',
+      'start worker user-1',
+    ]);
+
+    // The session of the account switched away from is kept for switching back
+    await accountService.switchAccount('user-2');
+    expect(mockAuth.setSession).toHaveBeenLastCalledWith({
+      access_token: 'user-2-token-access',
+      refresh_token: 'user-2-token-refresh',
+    });
+  });
+
+  it('should keep the current account when signing in fails', async () => {
+    await mockWorker.start('user-1');
+    mockCalls.length = 0;
+    mockAuth.signInWithPassword.mockResolvedValueOnce({
+      data: { session: null, user: null },
+      error: { message: 'Invalid login credentials' },
+    } as any);
+
+    await expect(accountService.signIn('user-2@example.com', 'wrong')).rejects.toThrow(
+      'Invalid login credentials'
+    );
+
+    expect(mockCalls).toEqual(['stop worker', 'reset sync', 'start worker user-1']);
+    expect((await accountService.getActiveAccount())?.userId).toBe('user-1');
+  });
+
+  it('should move the active account to an encrypted database opened with its passphrase', async () => {
+    await mockWorker.start('user-1');
+    mockCalls.length = 0;
+
+    const account = await accountService.encryptActiveAccount('secret');
+
+    expect(account).toEqual(
+      expect.objectContaining({ databaseName: 'NorthernStarNotes-user-1.encrypted.db', encrypted: true })
+    );
+    expect(mockCalls).toEqual([
+      'stop worker',
+      'reset sync',
+      'encrypt into NorthernStarNotes-user-1.encrypted.db with secret',
+      'start worker user-1',
+    ]);
+
+    await accountService.signIn('user-2@example.com', 'password');
+    mockCalls.length = 0;
+
+    // Refused before the current account is stopped
+    await expect(accountService.switchAccount('user-1')).rejects.toThrow(
+      'Enter the passphrase to open these notes'
+    );
+    expect(mockCalls).toEqual([]);
+
+    await accountService.switchAccount('user-1', 'secret');
+    expect(mockCalls).toContain('open NorthernStarNotes-user-1.encrypted.db with secret');
+  });
+
+  it('should only change the passphrase of an encrypted account', async () => {
+    await expect(accountService.changePassphrase('other')).rejects.toThrow('not encrypted');
+
+    await accountService.encryptActiveAccount('secret');
+    await accountService.changePassphrase('other');
+
+    expect(mockDbManager.changePassphrase).toHaveBeenCalledWith('other');
+  });
+
+  it('should sign out and delete the database of a removed active account', async () => {
+    await accountService.removeAccount('user-1');
+
+    expect(mockAuth.signOut).toHaveBeenCalledWith({ scope: 'local' });
+    expect(mockDbManager.deleteDatabase).toHaveBeenCalledWith('NorthernStarNotes.db');
+    expect(await AsyncStorage.getItem(STORAGE_KEYS.activeAccount)).toBeNull();
+    expect(await accountService.getAccounts()).toEqual([]);
+  });
+});
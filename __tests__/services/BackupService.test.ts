@@ -0,0 +1,77 @@
+import RNFS from 'react-native-fs';
+import { BackupService } from '../../src/services/BackupService';
+import { setDataKey } from '../../src/database/encryption';
+import { generateKey } from '../../src/utils/cryptoUtils';
+
+const mockDbManager = {
+  getAllGroups: jest.fn(async () => []),
+  getAllNotes: jest.fn(async () => [
+    {
+      id: 'note-1',
+      title: 'Plan',
+      content: JSON.stringify({ ops: [{ insert: 'Secret\n' }] }),
+      content_markdown: 'Secret',
+      content_plain: 'Secret',
+      group_id: null,
+      user_id: 'user-123',
+      created_at: '2024-01-01T00:00:00.000Z',
+      updated_at: '2024-01-01T00:00:00.000Z',
+      version: 1,
+      is_deleted: 0,
+      deleted_at: null,
+    },
+  ]),
+  getAllSettings: jest.fn(async () => ({})),
+};
+
+jest.mock('../../src/database/DatabaseManager', () => ({
+  DatabaseManager: { getInstance: () => mockDbManager },
+}));
+jest.mock('react-native-fs', () => ({
+  DocumentDirectoryPath: '/documents',
+  DownloadDirectoryPath: '/downloads',
+  writeFile: jest.fn(async () => undefined),
+}));
+jest.mock('../../src/config/supabase', () => ({
+  supabase: {
+    auth: {
+      getUser: async () => ({
+        data: { user: { id: 'user-123', email: 'user@example.com', created_at: '2024-01-01T00:00:00.000Z' } },
+      }),
+    },
+  },
+}));
+
+describe('BackupService', () => {
+  const backupService = BackupService.getInstance();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    setDataKey(null);
+    jest.restoreAllMocks();
+  });
+
+  it('should write a backup of a plaintext database without asking', async () => {
+    expect(backupService.needsPlaintextConsent()).toBe(false);
+
+    await backupService.exportBackupToFile('user-123', 'backup.json');
+
+    expect(RNFS.writeFile).toHaveBeenCalledWith(expect.stringContaining('backup.json'), expect.stringContaining('Secret'), 'utf8');
+  });
+
+  it('should only write encrypted notes to a backup once the user agreed', async () => {
+    setDataKey(generateKey());
+    expect(backupService.needsPlaintextConsent()).toBe(true);
+
+    await expect(backupService.exportBackupToFile('user-123', 'backup.json')).rejects.toThrow('unencrypted backup');
+    expect(RNFS.writeFile).not.toHaveBeenCalled();
+
+    await backupService.exportBackupToFile('user-123', 'backup.json', { allowPlaintext: true });
+    expect(RNFS.writeFile).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,226 @@
+import { LocalSyncBackend, LocalBackendSnapshot } from '../../src/services/LocalSyncBackend';
+import { Note } from '../../src/types';
+
+const makeNote = (id: string, updatedAt: string, overrides: Partial<Note> = {}): Note => ({
+  id,
+  title: `Note ${id}`,
+  content: { ops: [{ insert: `Note ${id}\n` }] },
+  content_markdown: `Note ${id}`,
+  content_plain: `Note ${id}`,
+  group_id: null,
+  user_id: 'user-123',
+  created_at: updatedAt,
+  updated_at: updatedAt,
+  version: 1,
+  is_deleted: false,
+  deleted_at: null,
+  ...overrides,
+});
+
+describe('LocalSyncBackend', () => {
+  let backend: LocalSyncBackend;
+  let serverTime: number;
+
+  beforeEach(() => {
+    serverTime = Date.parse('2024-06-01T00:00:00.000Z');
+    backend = new LocalSyncBackend({ userId: 'user-123', clock: () => serverTime });
+  });
+
+  // Rows of another user are written while signed in as them
+  const insertAs = async (userId: string, rows: Note[]) => {
+    backend.setCurrentUserId(userId);
+    await backend.insertRows('notes', rows);
+    backend.setCurrentUserId('user-123');
+  };
+
+  it('should pull pages ordered by server write time then id after the cursor', async () => {
+    await backend.insertRows('notes', [
+      makeNote('b', '2024-01-01T00:00:00.000Z'),
+      makeNote('a', '2024-01-01T00:00:00.000Z'),
+    ]);
+    await insertAs('user-456', [makeNote('d', '2024-01-01T00:00:00.000Z', { user_id: 'user-456' })]);
+    // Written later by a device whose clock runs behind
+    serverTime += 1000;
+    await backend.insertRow('notes', makeNote('c', '2023-01-01T00:00:00.000Z'));
+
+    const firstPage = await backend.pullPage<Note>('notes', 'user-123', null, 2);
+    expect(firstPage.map(note => note.id)).toEqual(['b', 'a']);
+
+    const secondPage = await backend.pullPage<Note>('notes', 'user-123', {
+      server_updated_at: firstPage[1].server_updated_at!,
+      id: firstPage[1].id,
+    }, 2);
+    expect(secondPage.map(note => note.id)).toEqual(['c']);
+    expect(secondPage[0].server_updated_at).toBe('2024-06-01T00:00:01.000Z');
+  });
+
+  it('should count the rows a pull from the cursor would return', async () => {
+    await backend.insertRows('notes', [
+      makeNote('a', '2024-01-01T00:00:00.000Z'),
+      makeNote('b', '2024-01-01T00:00:00.000Z'),
+    ]);
+    await insertAs('user-456', [makeNote('c', '2024-01-01T00:00:00.000Z', { user_id: 'user-456' })]);
+    const [first] = await backend.pullPage<Note>('notes', 'user-123', null, 1);
+
+    expect(await backend.countChanges('notes', 'user-123', null)).toBe(2);
+    expect(await backend.countChanges('notes', 'user-123', {
+      server_updated_at: first.server_updated_at!,
+      id: first.id,
+    })).toBe(1);
+  });
+
+  it('should never stamp two writes with the same server time', async () => {
+    await backend.insertRow('notes', makeNote('a', '2024-01-01T00:00:00.000Z'));
+    await backend.updateRow('notes', 'a', { title: 'Edited', version: 2 }, 1);
+    serverTime -= 5000;
+    await backend.insertRow('notes', makeNote('b', '2024-01-01T00:00:00.000Z'));
+
+    const stamps = (await backend.pullPage<Note>('notes', 'user-123', null, 10))
+      .map(note => note.server_updated_at);
+    expect(stamps).toEqual(['2024-06-01T00:00:00.001Z', '2024-06-01T00:00:00.002Z']);
+  });
+
+  it('should refuse to insert a row that already exists', async () => {
+    expect(await backend.insertRow('notes', makeNote('a', '2024-01-01T00:00:00.000Z'))).toBe(true);
+    expect(await backend.insertRow('notes', makeNote('a', '2024-01-02T00:00:00.000Z'))).toBe(false);
+
+    const inserted = await backend.insertRows('notes', [
+      makeNote('a', '2024-01-03T00:00:00.000Z'),
+      makeNote('b', '2024-01-03T00:00:00.000Z'),
+    ]);
+    expect(inserted).toEqual(['b']);
+  });
+
+  it('should only update a row still at the expected version', async () => {
+    await backend.insertRow('notes', makeNote('a', '2024-01-01T00:00:00.000Z'));
+
+    expect(await backend.updateRow('notes', 'a', { title: 'Stale', version: 3 }, 2)).toBe(false);
+    expect(await backend.updateRow('notes', 'a', { title: 'Fresh', version: 2 }, 1)).toBe(true);
+
+    const row = await backend.fetchRow<Note>('notes', 'a');
+    expect(row).toEqual(expect.objectContaining({ title: 'Fresh', version: 2 }));
+  });
+
+  it('should apply each row of a bulk update only at its expected version', async () => {
+    await backend.insertRows('notes', [
+      makeNote('a', '2024-01-01T00:00:00.000Z'),
+      makeNote('b', '2024-01-01T00:00:00.000Z', { version: 2 }),
+    ]);
+
+    const updated = await backend.updateRows('notes', [
+      { id: 'a', values: { title: 'Fresh', version: 2 }, expectedVersion: 1 },
+      { id: 'b', values: { title: 'Stale', version: 2 }, expectedVersion: 1 },
+      { id: 'missing', values: { title: 'Gone', version: 2 }, expectedVersion: null },
+    ]);
+
+    expect(updated).toEqual(['a']);
+    expect(await backend.fetchRow<Note>('notes', 'a')).toEqual(expect.objectContaining({ title: 'Fresh' }));
+    expect(await backend.fetchRow<Note>('notes', 'b')).toEqual(expect.objectContaining({ title: 'Note b' }));
+  });
+
+  it('should not write rows of another user', async () => {
+    await insertAs('user-456', [makeNote('theirs', '2024-01-01T00:00:00.000Z', { user_id: 'user-456' })]);
+
+    expect(await backend.insertRow('notes', makeNote('planted', '2024-01-01T00:00:00.000Z', { user_id: 'user-456' })))
+      .toBe(false);
+    expect(await backend.insertRows('notes', [
+      makeNote('mine', '2024-01-01T00:00:00.000Z'),
+      makeNote('also-planted', '2024-01-01T00:00:00.000Z', { user_id: 'user-456' }),
+    ])).toEqual(['mine']);
+
+    expect(await backend.updateRow('notes', 'theirs', { title: 'Taken', version: 2 }, 1)).toBe(false);
+    expect(await backend.updateRow('notes', 'theirs', { title: 'Taken', version: 2 }, null)).toBe(false);
+    expect(await backend.updateRows('notes', [
+      { id: 'theirs', values: { title: 'Taken', version: 2 }, expectedVersion: null },
+    ])).toEqual([]);
+    expect(await backend.patchNote('theirs', {
+      base_version: 1,
+      values: { title: 'Taken', version: 2 },
+    }, 1)).toBe(false);
+
+    await backend.deleteRow('notes', 'theirs', 'user-456');
+
+    expect(await backend.fetchRow<Note>('notes', 'theirs')).toEqual(expect.objectContaining({ title: 'Note theirs' }));
+    expect(await backend.pullPage<Note>('notes', 'user-456', null, 10)).toHaveLength(1);
+    expect(await backend.fetchTombstone('notes', 'theirs')).toBeNull();
+  });
+
+  it('should notify subscribers of the owning user after a write', async () => {
+    const onChange = jest.fn();
+    const otherUserChange = jest.fn();
+    const onStatus = jest.fn();
+    backend.subscribe('notes', 'user-123', onChange, onStatus);
+    backend.subscribe('notes', 'user-456', otherUserChange, jest.fn());
+
+    await backend.insertRow('notes', makeNote('a', '2024-01-01T00:00:00.000Z'));
+    await backend.deleteRow('notes', 'a', 'user-123');
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    expect(onStatus).toHaveBeenCalledWith(true);
+    expect(onChange.mock.calls.map(([change]) => change.eventType)).toEqual(['INSERT', 'DELETE']);
+    expect(onChange.mock.calls[1][0].old).toEqual({ id: 'a' });
+    expect(otherUserChange).not.toHaveBeenCalled();
+  });
+
+  it('should purge rows deleted before the cutoff', async () => {
+    await backend.insertRows('notes', [
+      makeNote('old', '2024-01-01T00:00:00.000Z', {
+        is_deleted: true,
+        deleted_at: '2024-01-01T00:00:00.000Z',
+      }),
+      makeNote('recent', '2024-03-01T00:00:00.000Z', {
+        is_deleted: true,
+        deleted_at: '2024-03-01T00:00:00.000Z',
+      }),
+    ]);
+
+    await backend.purgeDeleted('notes', 'user-123', '2024-02-01T00:00:00.000Z');
+
+    const remaining = await backend.listDeleted<Note>('notes', 'user-123');
+    expect(remaining.map(note => note.id)).toEqual(['recent']);
+  });
+
+  it('should leave a tombstone that refuses the purged version', async () => {
+    await backend.insertRow('notes', makeNote('old', '2024-01-01T00:00:00.000Z', {
+      version: 3,
+      is_deleted: true,
+      deleted_at: '2024-01-01T00:00:00.000Z',
+    }));
+    await backend.purgeDeleted('notes', 'user-123', '2024-02-01T00:00:00.000Z');
+
+    const [tombstone] = await backend.pullTombstones('user-123', null, 10);
+    expect(tombstone).toEqual(expect.objectContaining({
+      id: 'old',
+      table_name: 'notes',
+      version: 3,
+      deleted_at: '2024-01-01T00:00:00.000Z',
+    }));
+
+    // A stale copy cannot come back; a newer version can, and clears the tombstone
+    expect(await backend.insertRow('notes', makeNote('old', '2024-01-01T00:00:00.000Z', { version: 3 }))).toBe(false);
+    expect(await backend.insertRows('notes', [makeNote('old', '2024-01-01T00:00:00.000Z', { version: 2 })])).toEqual([]);
+    expect(await backend.insertRow('notes', makeNote('old', '2024-01-01T00:00:00.000Z', { version: 4 }))).toBe(true);
+    expect(await backend.fetchTombstone('notes', 'old')).toBeNull();
+  });
+
+  it('should load and persist rows through its store', async () => {
+    let saved: LocalBackendSnapshot | null = {
+      notes: [makeNote('a', '2024-01-01T00:00:00.000Z')],
+      groups: [],
+    };
+    const store = {
+      load: jest.fn(async () => saved),
+      save: jest.fn(async (snapshot: LocalBackendSnapshot) => {
+        saved = snapshot;
+      }),
+    };
+
+    const persisted = new LocalSyncBackend({ userId: 'user-123', store });
+    expect(await persisted.fetchRow('notes', 'a')).not.toBeNull();
+
+    await persisted.insertRow('notes', makeNote('b', '2024-01-02T00:00:00.000Z'));
+
+    expect(store.load).toHaveBeenCalledTimes(1);
+    expect(saved!.notes.map(note => note.id)).toEqual(['a', 'b']);
+  });
+});
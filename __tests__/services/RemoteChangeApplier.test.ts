@@ -0,0 +1,194 @@
+import { RemoteChangeApplier } from '../../src/services/RemoteChangeApplier';
+import { RemoteChange } from '../../src/services/SyncBackend';
+import { DatabaseManager } from '../../src/database/DatabaseManager';
+import { NotesDAO } from '../../src/database/notesDAO';
+import { SyncBaseDAO } from '../../src/database/syncBaseDAO';
+import { SyncQueueDAO } from '../../src/database/syncQueueDAO';
+import { SyncConflictsDAO } from '../../src/database/syncConflictsDAO';
+
+jest.mock('../../src/database/DatabaseManager');
+jest.mock('../../src/database/syncQueueDAO');
+jest.mock('../../src/database/groupsDAO');
+jest.mock('../../src/database/notesDAO');
+jest.mock('../../src/database/syncBaseDAO');
+jest.mock('../../src/database/syncConflictsDAO');
+
+const mockDatabaseManager = DatabaseManager as jest.Mocked<typeof DatabaseManager>;
+const mockNotesDAO = NotesDAO as jest.Mocked<typeof NotesDAO>;
+const mockSyncBaseDAO = SyncBaseDAO as jest.Mocked<typeof SyncBaseDAO>;
+const mockSyncQueueDAO = SyncQueueDAO as jest.Mocked<typeof SyncQueueDAO>;
+const mockSyncConflictsDAO = SyncConflictsDAO as jest.Mocked<typeof SyncConflictsDAO>;
+
+const baseNote = {
+  id: 'note-1',
+  title: 'Shared note',
+  content: { ops: [{ insert: 'Hello world\n' }] },
+  content_markdown: 'Hello world',
+  content_plain: 'Hello world',
+  group_id: null,
+  user_id: 'user-123',
+  created_at: '2024-01-01T00:00:00.000Z',
+  updated_at: '2024-01-01T00:00:00.000Z',
+  version: 1,
+  is_deleted: false,
+  deleted_at: null,
+};
+
+const toLocal = (note: any, needsSync: number) => ({
+  ...note,
+  content: JSON.stringify(note.content),
+  is_deleted: note.is_deleted ? 1 : 0,
+  needs_sync: needsSync,
+});
+
+const mockTransaction = { executeSql: jest.fn() };
+
+const realtimeUpdate = (note: any): RemoteChange => ({ eventType: 'UPDATE', new: note, old: { id: note.id } });
+
+describe('RemoteChangeApplier', () => {
+  let applier: RemoteChangeApplier;
+  let localNotes: Map<string, any>;
+  let bases: Map<string, any>;
+  let settings: Map<string, string>;
+  let quarantineSyncPayload: jest.Mock;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    settings = new Map();
+    quarantineSyncPayload = jest.fn().mockResolvedValue(undefined);
+    mockDatabaseManager.getInstance.mockReturnValue({
+      getSetting: jest.fn(async (key: string) => settings.get(key) ?? null),
+      setSetting: jest.fn(async (key: string, value: string) => {
+        settings.set(key, value);
+      }),
+      quarantineSyncPayload,
+      transaction: jest.fn(work => work(mockTransaction)),
+    } as any);
+
+    localNotes = new Map([['note-1', toLocal(baseNote, 0)]]);
+    bases = new Map([['notes:note-1', { ...baseNote }]]);
+
+    mockNotesDAO.getNoteById.mockImplementation(async id => localNotes.get(id) ?? null);
+    mockNotesDAO.upsertNoteFromSync.mockImplementation(async (note, needsSync) => {
+      localNotes.set(note.id, { ...note, needs_sync: needsSync ? 1 : 0 });
+    });
+    mockSyncBaseDAO.getBase.mockImplementation(async (table, id) => bases.get(`${table}:${id}`) ?? null);
+    mockSyncBaseDAO.saveBase.mockImplementation(async (table, id, data) => {
+      bases.set(`${table}:${id}`, data);
+    });
+
+    (RemoteChangeApplier as any).instance = undefined;
+    applier = RemoteChangeApplier.getInstance();
+  });
+
+  it('should apply a version only once when it arrives by realtime and by pull', async () => {
+    const remote = { ...baseNote, title: 'Remote title', version: 2 };
+
+    await Promise.all([
+      applier.applyRealtimeChange('notes', realtimeUpdate(remote)),
+      applier.applyNote(remote),
+    ]);
+
+    expect(mockNotesDAO.upsertNoteFromSync).toHaveBeenCalledTimes(1);
+    expect(localNotes.get('note-1').title).toBe('Remote title');
+  });
+
+  it('should ignore versions older than the last synced one', async () => {
+    bases.set('notes:note-1', { ...baseNote, version: 3 });
+
+    await applier.applyNote({ ...baseNote, title: 'Stale title', version: 2 });
+
+    expect(mockNotesDAO.upsertNoteFromSync).not.toHaveBeenCalled();
+  });
+
+  it('should merge realtime changes with unsynced local edits', async () => {
+    localNotes.set('note-1', toLocal({ ...baseNote, title: 'Local title', version: 2 }, 1));
+    const remote = {
+      ...baseNote,
+      content: { ops: [{ insert: 'Hello world!\n' }] },
+      content_plain: 'Hello world!',
+      version: 2,
+    };
+
+    await applier.applyRealtimeChange('notes', realtimeUpdate(remote));
+
+    const merged = localNotes.get('note-1');
+    expect(merged.title).toBe('Local title');
+    expect(JSON.parse(merged.content)).toEqual(remote.content);
+    expect(merged.version).toBe(3);
+    expect(mockSyncConflictsDAO.addConflict).not.toHaveBeenCalled();
+    // Queued by the DAO with the row, against the new base
+    expect(mockNotesDAO.upsertNoteFromSync).toHaveBeenCalledWith(
+      expect.objectContaining({ title: 'Local title', version: 3 }),
+      true,
+      mockTransaction
+    );
+    expect(mockSyncBaseDAO.saveBase.mock.invocationCallOrder[0]).toBeLessThan(
+      mockNotesDAO.upsertNoteFromSync.mock.invocationCallOrder[0]
+    );
+  });
+
+  it('should only advance the cursor from realtime once a pull has caught up', async () => {
+    const remote = { ...baseNote, server_updated_at: '2024-01-02T00:00:00.000Z', version: 2 };
+
+    await applier.applyRealtimeChange('notes', realtimeUpdate(remote));
+    expect(settings.has('pullCursor:notes')).toBe(false);
+
+    applier.markCaughtUp('notes');
+    await applier.applyRealtimeChange('notes', realtimeUpdate({
+      ...remote,
+      server_updated_at: '2024-01-03T00:00:00.000Z',
+      version: 3,
+    }));
+
+    expect(JSON.parse(settings.get('pullCursor:notes')!)).toEqual({
+      server_updated_at: '2024-01-03T00:00:00.000Z',
+      id: 'note-1',
+    });
+  });
+
+  it('should drop a cursor saved from device timestamps', async () => {
+    settings.set('pullCursor:notes', JSON.stringify({ updated_at: '2024-01-02T00:00:00.000Z', id: 'note-1' }));
+
+    expect(await applier.getCursor('notes')).toBeNull();
+  });
+
+  it('should stop advancing the cursor after the stream falls behind', async () => {
+    applier.markCaughtUp('notes');
+    applier.markBehind();
+
+    await applier.applyRealtimeChange('notes', realtimeUpdate({
+      ...baseNote,
+      server_updated_at: '2024-01-02T00:00:00.000Z',
+      version: 2,
+    }));
+
+    expect(settings.has('pullCursor:notes')).toBe(false);
+  });
+
+  it('should mark a purged note deleted without queueing a push', async () => {
+    await applier.applyRealtimeChange('notes', { eventType: 'DELETE', new: null, old: { id: 'note-1' } });
+
+    expect(localNotes.get('note-1').is_deleted).toBe(1);
+    expect(mockSyncBaseDAO.removeBase).toHaveBeenCalledWith('notes', 'note-1');
+    expect(mockSyncQueueDAO.addToQueue).not.toHaveBeenCalled();
+  });
+
+  it('should quarantine a malformed row instead of overwriting the local note', async () => {
+    const malformed = { ...baseNote, content: 'Hello world', version: 2 };
+
+    await applier.applyRealtimeChange('notes', realtimeUpdate(malformed));
+
+    expect(mockNotesDAO.upsertNoteFromSync).not.toHaveBeenCalled();
+    expect(localNotes.get('note-1').content).toBe(JSON.stringify(baseNote.content));
+    expect(bases.get('notes:note-1').version).toBe(1);
+    expect(quarantineSyncPayload).toHaveBeenCalledWith(
+      'notes',
+      'inbound',
+      malformed,
+      ['content: expected object, received string'],
+      'user-123'
+    );
+  });
+});
@@ -0,0 +1,53 @@
+import { SyncLogService } from '../../src/services/SyncLogService';
+import { setDataKey } from '../../src/database/encryption';
+import { generateKey } from '../../src/utils/cryptoUtils';
+
+const mockDbManager = {
+  getSyncLog: jest.fn(async () => []),
+  getSyncQueueSize: jest.fn(async () => 0),
+  getFailedSyncItems: jest.fn(async () => []),
+  getQuarantinedRecords: jest.fn(async () => [
+    {
+      id: 'quarantined-1',
+      user_id: 'user-123',
+      table_name: 'notes',
+      record_id: 'note-1',
+      direction: 'inbound',
+      data: JSON.stringify({ id: 'note-1', content_plain: 'Secret' }),
+      errors: JSON.stringify(['version: Expected number']),
+      created_at: '2024-01-01T00:00:00.000Z',
+    },
+  ]),
+};
+
+jest.mock('../../src/database/DatabaseManager', () => ({
+  DatabaseManager: { getInstance: () => mockDbManager },
+}));
+jest.mock('react-native-fs', () => ({}));
+
+describe('SyncLogService', () => {
+  const syncLogService = SyncLogService.getInstance();
+
+  afterEach(() => {
+    setDataKey(null);
+  });
+
+  it('should export quarantined payloads of a plaintext database', async () => {
+    const { quarantine: [record] } = await syncLogService.createExport('user-123');
+
+    expect(record.data).toContain('Secret');
+    expect(record.errors).toEqual(['version: Expected number']);
+  });
+
+  it('should keep quarantined note text out of exports from an encrypted database', async () => {
+    setDataKey(generateKey());
+
+    const exported = await syncLogService.createExport('user-123');
+
+    expect(JSON.stringify(exported)).not.toContain('Secret');
+    expect(exported.quarantine[0]).toEqual(expect.objectContaining({
+      recordId: 'note-1',
+      errors: ['version: Expected number'],
+    }));
+  });
+});
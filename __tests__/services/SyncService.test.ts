@@ -1,33 +1,274 @@
 import { SyncService } from '../../src/services/SyncService';
+import { RemoteChangeApplier } from '../../src/services/RemoteChangeApplier';
 import { DatabaseManager } from '../../src/database/DatabaseManager';
 import { supabase } from '../../src/config/supabase';
 import NetInfo from '@react-native-community/netinfo';
+import { GroupsDAO } from '../../src/database/groupsDAO';
+import { NotesDAO } from '../../src/database/notesDAO';
+import { SyncBaseDAO } from '../../src/database/syncBaseDAO';
+import { SyncQueueDAO } from '../../src/database/syncQueueDAO';
+import { SnapshotDAO } from '../../src/database/snapshotDAO';
+import { SyncConflictsDAO } from '../../src/database/syncConflictsDAO';
+import { getServerNow, setClockSkew } from '../../src/utils/clockUtils';
+import { SYNC_CONFIG } from '../../src/constants';
 
 // Mock dependencies
 jest.mock('../../src/database/DatabaseManager');
+jest.mock('../../src/database/syncQueueDAO');
+jest.mock('../../src/database/groupsDAO');
+jest.mock('../../src/database/notesDAO');
+jest.mock('../../src/database/syncBaseDAO');
+jest.mock('../../src/database/syncConflictsDAO');
+jest.mock('../../src/database/snapshotDAO');
 jest.mock('../../src/config/supabase');
 jest.mock('@react-native-community/netinfo');
 
 const mockDatabaseManager = DatabaseManager as jest.Mocked<typeof DatabaseManager>;
 const mockSupabase = supabase as jest.Mocked<typeof supabase>;
 const mockNetInfo = NetInfo as jest.Mocked<typeof NetInfo>;
+const mockGroupsDAO = GroupsDAO as jest.Mocked<typeof GroupsDAO>;
+const mockNotesDAO = NotesDAO as jest.Mocked<typeof NotesDAO>;
+const mockSyncBaseDAO = SyncBaseDAO as jest.Mocked<typeof SyncBaseDAO>;
+const mockSyncQueueDAO = SyncQueueDAO as jest.Mocked<typeof SyncQueueDAO>;
+const mockSnapshotDAO = SnapshotDAO as jest.Mocked<typeof SnapshotDAO>;
+const mockSyncConflictsDAO = SyncConflictsDAO as jest.Mocked<typeof SyncConflictsDAO>;
+const mockTransaction = { executeSql: jest.fn() };
+
+// Split a PostgREST filter list on top-level commas
+const splitFilterTerms = (expression: string): string[] => {
+  const terms: string[] = [];
+  let depth = 0;
+  let inQuotes = false;
+  let current = '';
+
+  for (const char of expression) {
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && char === '(') {
+      depth++;
+    } else if (!inQuotes && char === ')') {
+      depth--;
+    } else if (!inQuotes && depth === 0 && char === ',') {
+      terms.push(current);
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  terms.push(current);
+  return terms;
+};
+
+const compareValues = (op: string, actual: any, expected: any): boolean => {
+  switch (op) {
+    case 'eq':
+      return actual === expected;
+    case 'gt':
+      return actual > expected;
+    case 'gte':
+      return actual >= expected;
+    case 'lt':
+      return actual < expected;
+    case 'lte':
+      return actual <= expected;
+    default:
+      throw new Error(`Unsupported filter operator: ${op}`);
+  }
+};
+
+// Parse the subset of PostgREST's or()/and() syntax used by SyncService
+const parseFilter = (term: string): ((row: any) => boolean) => {
+  const group = term.match(/^(and|or)\((.*)\)$/);
+  if (group) {
+    const predicates = splitFilterTerms(group[2]).map(parseFilter);
+    return group[1] === 'and'
+      ? row => predicates.every(predicate => predicate(row))
+      : row => predicates.some(predicate => predicate(row));
+  }
+
+  const [, column, op, rawValue] = term.match(/^([^.]+)\.([a-z]+)\.(.*)$/)!;
+  const value = rawValue.replace(/^"(.*)"$/, '$1');
+  return row => compareValues(op, row[column], value);
+};
+
+// Minimal stand-in for the Supabase tables that honours the filters used by
+// SyncService, so conditional updates behave like they would on the server.
+// Writes are stamped with server_updated_at like the database trigger does.
+// Queries on a missing column fail the way PostgREST reports it.
+const createFakeServer = (
+  tables: Record<string, any[]>,
+  options: { missingColumns?: Record<string, string[]>; missingTables?: string[] } = {}
+) => {
+  const stamp = () => new Date().toISOString();
+
+  const from = (table: string) => {
+    const rows = tables[table] ?? (tables[table] = []);
+    const filters: Array<(row: any) => boolean> = [];
+    const orderings: string[] = [];
+    let rowLimit = Infinity;
+    let updateValues: any = null;
+    let upsertedRows: any[] | null = null;
+    let insertError: any = null;
+    let columnError: any = null;
+
+    const checkColumns = (text: string) => {
+      const missing = options.missingColumns?.[table]?.find(column => text.includes(column));
+      if (missing) {
+        columnError = { code: '42703', message: `column ${table}.${missing} does not exist` };
+      }
+    };
+
+    const run = () => {
+      if (options.missingTables?.includes(table)) {
+        const error = { code: 'PGRST205', message: `Could not find the table 'public.${table}'` };
+        return { data: null, count: null, error };
+      }
+      if (columnError) {
+        return { data: null, count: null, error: columnError };
+      }
+      if (insertError) {
+        return { data: null, error: insertError };
+      }
+      if (upsertedRows) {
+        return { data: upsertedRows.map(row => ({ id: row.id })), error: null };
+      }
+
+      const matching = rows.filter(row => filters.every(filter => filter(row)));
+      if (updateValues) {
+        matching.forEach(row => Object.assign(row, updateValues, { server_updated_at: stamp() }));
+        return { data: matching.map(row => ({ id: row.id })), error: null };
+      }
+
+      matching.sort((a, b) => {
+        for (const column of orderings) {
+          if (a[column] !== b[column]) {
+            return a[column] < b[column] ? -1 : 1;
+          }
+        }
+        return 0;
+      });
+      return { data: matching.slice(0, rowLimit).map(row => ({ ...row })), error: null };
+    };
+
+    const query: any = {
+      insert: (values: any) => {
+        if (rows.some(row => row.id === values.id)) {
+          insertError = { code: '23505', message: 'duplicate key value' };
+        } else {
+          rows.push({ ...values, server_updated_at: stamp() });
+          upsertedRows = [values];
+        }
+        return query;
+      },
+      upsert: (values: any[], options: { ignoreDuplicates?: boolean }) => {
+        if (!options?.ignoreDuplicates) {
+          throw new Error('Only ignoreDuplicates upserts are supported');
+        }
+        upsertedRows = values.filter(value => !rows.some(row => row.id === value.id));
+        upsertedRows.forEach(value => rows.push({ ...value, server_updated_at: stamp() }));
+        return query;
+      },
+      update: (values: any) => {
+        updateValues = values;
+        return query;
+      },
+      select: () => query,
+      eq: (column: string, value: any) => {
+        filters.push(row => row[column] === value);
+        return query;
+      },
+      gte: (column: string, value: any) => {
+        filters.push(row => row[column] >= value);
+        return query;
+      },
+      or: (expression: string) => {
+        checkColumns(expression);
+        filters.push(parseFilter(`or(${expression})`));
+        return query;
+      },
+      order: (column: string) => {
+        checkColumns(column);
+        orderings.push(column);
+        return query;
+      },
+      limit: (count: number) => {
+        rowLimit = count;
+        return query;
+      },
+      maybeSingle: () => {
+        const { data, error } = run();
+        return Promise.resolve({ data: data?.[0] ?? null, error });
+      },
+      then: (resolve: any, reject: any) => Promise.resolve(run()).then(resolve, reject),
+    };
+    return query;
+  };
+
+  // update_synced_rows() applies each update only at its expected version;
+  // other functions answer with the server time
+  const rpc = async (fn: string, params: any): Promise<{ data: any; error: any }> => {
+    if (fn !== 'update_synced_rows') {
+      return { data: stamp(), error: null };
+    }
+    const rows = tables[params.p_table] ?? [];
+    const updated = params.p_updates.filter(({ id, expected_version }: any) => {
+      const row = rows.find(candidate => candidate.id === id);
+      return row && (expected_version === null || row.version === expected_version);
+    });
+    updated.forEach(({ id, values }: any) =>
+      Object.assign(rows.find(row => row.id === id), values, { server_updated_at: stamp() }));
+    return { data: updated.map(({ id }: any) => id), error: null };
+  };
+
+  return { from: jest.fn(from), rpc: jest.fn(rpc), tables };
+};
+
+// A note as the local database queues it for a push
+const pendingNote = {
+  id: 'note-1',
+  title: 'Test Note',
+  content: JSON.stringify({ ops: [{ insert: 'Test content\n' }] }),
+  content_markdown: 'Test content',
+  content_plain: 'Test content',
+  group_id: null,
+  user_id: 'user-123',
+  created_at: '2024-01-01T00:00:00.000Z',
+  updated_at: '2024-01-01T00:00:00.000Z',
+  version: 1,
+  is_deleted: 0,
+  deleted_at: null,
+  needs_sync: 1,
+};
 
 describe('SyncService', () => {
   let syncService: SyncService;
   let mockDbInstance: any;
 
-  beforeEach(() => {
+  beforeEach(async () => {
     // Reset all mocks
     jest.clearAllMocks();
+    setClockSkew(0);
+    // These devices have synced before; bootstrapping is covered by the sync harness tests
+    mockSnapshotDAO.countBases.mockResolvedValue(1);
 
     // Mock DatabaseManager instance
     mockDbInstance = {
       getSyncQueueSize: jest.fn().mockResolvedValue(0),
       getPendingSyncItems: jest.fn().mockResolvedValue([]),
+      markSyncItemsPushed: jest.fn().mockResolvedValue(undefined),
       removeSyncItem: jest.fn().mockResolvedValue(undefined),
+      acknowledgeSyncItems: jest.fn().mockResolvedValue(undefined),
       incrementSyncRetry: jest.fn().mockResolvedValue(undefined),
       setSetting: jest.fn().mockResolvedValue(undefined),
       getSetting: jest.fn().mockResolvedValue(null),
+      recordSyncRun: jest.fn().mockResolvedValue(undefined),
+      getSyncPreferences: jest.fn().mockResolvedValue({
+        syncLargeNotesOnWifiOnly: false,
+        pauseBackgroundSyncOnCellular: false,
+      }),
+      setSyncPreferences: jest.fn().mockResolvedValue(undefined),
+      quarantineSyncPayload: jest.fn().mockResolvedValue(undefined),
+      transaction: jest.fn(work => work(mockTransaction)),
     };
 
     mockDatabaseManager.getInstance.mockReturnValue(mockDbInstance);
@@ -45,20 +286,33 @@ describe('SyncService', () => {
       error: null,
     });
 
+    mockSupabase.rpc.mockResolvedValue({ data: new Date().toISOString(), error: null } as any);
+
     // Mock Supabase from method
     mockSupabase.from.mockReturnValue({
-      insert: jest.fn().mockResolvedValue({ data: null, error: null }),
+      insert: jest.fn().mockReturnValue({
+        select: jest.fn().mockResolvedValue({ data: [{ id: 'note-1' }], error: null }),
+      }),
       update: jest.fn().mockReturnValue({
-        eq: jest.fn().mockResolvedValue({ data: null, error: null }),
+        eq: jest.fn().mockReturnThis(),
+        select: jest.fn().mockResolvedValue({ data: [{ id: 'note-1' }], error: null }),
       }),
       select: jest.fn().mockReturnValue({
         eq: jest.fn().mockReturnValue({
-          gte: jest.fn().mockResolvedValue({ data: [], error: null }),
+          order: jest.fn().mockReturnThis(),
+          limit: jest.fn().mockResolvedValue({ data: [], error: null }),
         }),
       }),
     } as any);
 
+    // Recreate the singletons so they pick up this test's mocks
+    (RemoteChangeApplier as any).instance = undefined;
+    (SyncService as any).instance = undefined;
     syncService = SyncService.getInstance();
+
+    // Let the sync triggered by the initial online event settle
+    await new Promise(resolve => setImmediate(resolve));
+    Object.values(mockDbInstance).forEach((mockFn: any) => mockFn.mockClear());
   });
 
   describe('Network Status', () => {
@@ -109,11 +363,7 @@ describe('SyncService', () => {
           table_name: 'notes',
           record_id: 'note-1',
           operation: 'INSERT',
-          data: JSON.stringify({
-            id: 'note-1',
-            title: 'Test Note',
-            content: '{}',
-          }),
+          data: JSON.stringify(pendingNote),
         },
       ];
 
@@ -121,8 +371,10 @@ describe('SyncService', () => {
 
       await syncService.startSync('user-123');
 
-      expect(mockDbInstance.getPendingSyncItems).toHaveBeenCalledWith('user-123', 50);
-      expect(mockDbInstance.removeSyncItem).toHaveBeenCalledWith('sync-1');
+      expect(mockDbInstance.getPendingSyncItems).toHaveBeenCalledWith('user-123', 50, null);
+      expect(mockDbInstance.acknowledgeSyncItems).toHaveBeenCalledWith([
+        expect.objectContaining({ queueItemId: 'sync-1', recordId: 'note-1' }),
+      ]);
     });
 
     it('should handle sync item errors', async () => {
@@ -132,10 +384,7 @@ describe('SyncService', () => {
           table_name: 'notes',
           record_id: 'note-1',
           operation: 'INSERT',
-          data: JSON.stringify({
-            id: 'note-1',
-            title: 'Test Note',
-          }),
+          data: JSON.stringify(pendingNote),
         },
       ];
 
@@ -143,7 +392,9 @@ describe('SyncService', () => {
       
       // Mock Supabase to throw error
       mockSupabase.from.mockReturnValue({
-        insert: jest.fn().mockRejectedValue(new Error('Network error')),
+        insert: jest.fn().mockReturnValue({
+          select: jest.fn().mockRejectedValue(new Error('Network error')),
+        }),
       } as any);
 
       await syncService.startSync('user-123');
@@ -154,6 +405,71 @@ describe('SyncService', () => {
       );
     });
 
+    it('should quarantine a malformed queue item instead of pushing it', async () => {
+      const malformed = { ...pendingNote, version: 'two' };
+      mockDbInstance.getPendingSyncItems.mockResolvedValue([
+        {
+          id: 'sync-1',
+          table_name: 'notes',
+          record_id: 'note-1',
+          operation: 'UPDATE',
+          data: JSON.stringify(malformed),
+          user_id: 'user-123',
+        },
+      ]);
+
+      await syncService.startSync('user-123');
+
+      expect(mockDbInstance.acknowledgeSyncItems).not.toHaveBeenCalled();
+      expect(mockDbInstance.incrementSyncRetry).not.toHaveBeenCalled();
+      expect(mockDbInstance.quarantineSyncPayload).toHaveBeenCalledWith(
+        'notes',
+        'outbound',
+        malformed,
+        ['version: expected number, received string'],
+        'user-123',
+        mockTransaction
+      );
+      expect(mockDbInstance.removeSyncItem).toHaveBeenCalledWith('sync-1', mockTransaction);
+      expect(mockDbInstance.recordSyncRun.mock.calls[0][0].errors).toEqual([
+        'notes note-1: quarantined, version: expected number, received string',
+      ]);
+    });
+
+    it('should record each run in the sync log', async () => {
+      mockDbInstance.getPendingSyncItems.mockResolvedValue([
+        {
+          id: 'sync-1',
+          table_name: 'notes',
+          record_id: 'note-1',
+          operation: 'INSERT',
+          data: JSON.stringify(pendingNote),
+        },
+      ]);
+      mockSupabase.from.mockReturnValue({
+        insert: jest.fn().mockReturnValue({
+          select: jest.fn().mockRejectedValue(new Error('Network error')),
+        }),
+        select: jest.fn().mockReturnValue({
+          eq: jest.fn().mockReturnValue({
+            order: jest.fn().mockReturnThis(),
+            limit: jest.fn().mockResolvedValue({ data: [], error: null }),
+          }),
+        }),
+      } as any);
+
+      await syncService.startSync('user-123');
+
+      expect(mockDbInstance.recordSyncRun).toHaveBeenCalledTimes(1);
+      const [run, userId] = mockDbInstance.recordSyncRun.mock.calls[0];
+      expect(userId).toBe('user-123');
+      expect(run).toEqual(expect.objectContaining({
+        pushed: 0,
+        errors: ['notes note-1: Network error'],
+      }));
+      expect(Date.parse(run.finishedAt) - Date.parse(run.startedAt)).toBe(run.durationMs);
+    });
+
     it('should pull remote changes', async () => {
       const mockRemoteNotes = [
         {
@@ -161,13 +477,15 @@ describe('SyncService', () => {
           title: 'Remote Note',
           content: { ops: [{ insert: 'Remote content\n' }] },
           updated_at: new Date().toISOString(),
+          server_updated_at: '2024-01-01T00:00:00.000Z',
         },
       ];
 
       mockSupabase.from.mockReturnValue({
         select: jest.fn().mockReturnValue({
           eq: jest.fn().mockReturnValue({
-            gte: jest.fn().mockResolvedValue({
+            order: jest.fn().mockReturnThis(),
+            limit: jest.fn().mockResolvedValue({
               data: mockRemoteNotes,
               error: null,
             }),
@@ -179,8 +497,8 @@ describe('SyncService', () => {
 
       expect(mockSupabase.from).toHaveBeenCalledWith('notes');
       expect(mockDbInstance.setSetting).toHaveBeenCalledWith(
-        'lastSyncTime',
-        expect.any(String)
+        'pullCursor:notes',
+        JSON.stringify({ server_updated_at: '2024-01-01T00:00:00.000Z', id: 'note-1' })
       );
     });
   });
@@ -210,6 +528,22 @@ describe('SyncService', () => {
       );
     });
 
+    it('should report how far the device clock is from the server', async () => {
+      const mockListener = jest.fn();
+      syncService.addStatusListener(mockListener);
+      mockSupabase.rpc.mockResolvedValue({
+        data: new Date(Date.now() - 10 * 60 * 1000).toISOString(),
+        error: null,
+      } as any);
+
+      await syncService.startSync('user-123');
+
+      const skew = mockListener.mock.calls[mockListener.mock.calls.length - 1][0].clockSkewMs;
+      expect(skew).toBeGreaterThan(10 * 60 * 1000 - 1000);
+      expect(skew).toBeLessThan(10 * 60 * 1000 + 1000);
+      expect(getServerNow().getTime()).toBeLessThan(Date.now() - 10 * 60 * 1000 + 1000);
+    });
+
     it('should remove listeners', () => {
       const mockListener = jest.fn();
       syncService.addStatusListener(mockListener);
@@ -269,6 +603,66 @@ describe('SyncService', () => {
     });
   });
 
+  describe('Sync Schedule', () => {
+    const goCellular = () => {
+      const callback = mockNetInfo.addEventListener.mock.calls[0][0];
+      callback({ isConnected: true, type: 'cellular', details: { isConnectionExpensive: true } } as any);
+    };
+
+    it('should push smaller batches and hold back large notes on cellular', async () => {
+      mockDbInstance.getSyncPreferences.mockResolvedValue({
+        syncLargeNotesOnWifiOnly: true,
+        pauseBackgroundSyncOnCellular: false,
+      });
+      goCellular();
+
+      await syncService.startSync('user-123');
+
+      expect(mockDbInstance.getPendingSyncItems).toHaveBeenCalledWith(
+        'user-123',
+        SYNC_CONFIG.meteredBatchSize,
+        SYNC_CONFIG.largeNoteSize
+      );
+    });
+
+    it('should pause periodic sync in the background on cellular when asked to', async () => {
+      jest.useFakeTimers();
+      try {
+        await syncService.setSyncPreferences({
+          syncLargeNotesOnWifiOnly: false,
+          pauseBackgroundSyncOnCellular: true,
+        });
+        goCellular();
+        syncService.setAppState('background');
+        const startSyncSpy = jest.spyOn(syncService, 'startSync');
+
+        syncService.startPeriodicSync();
+        jest.advanceTimersByTime(SYNC_CONFIG.backgroundSyncInterval);
+
+        expect(syncService.getSyncSchedule().mode).toBe('paused');
+        expect(startSyncSpy).not.toHaveBeenCalled();
+        expect(mockDbInstance.setSyncPreferences).toHaveBeenCalled();
+      } finally {
+        syncService.stopPeriodicSync();
+        jest.useRealTimers();
+      }
+    });
+
+    it('should report schedule changes to status listeners', async () => {
+      const listener = jest.fn();
+      syncService.addStatusListener(listener);
+      await syncService.startSync('user-123');
+
+      goCellular();
+
+      expect(listener).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          schedule: expect.objectContaining({ mode: 'metered', intervalMs: SYNC_CONFIG.meteredSyncInterval }),
+        })
+      );
+    });
+  });
+
   describe('Force Sync', () => {
     it('should force sync immediately', async () => {
       const startSyncSpy = jest.spyOn(syncService, 'startSync');
@@ -279,16 +673,747 @@ describe('SyncService', () => {
     });
   });
 
+  describe('Account Switch', () => {
+    it('should finish the running sync and forget the account on reset', async () => {
+      await syncService.setSyncPreferences({
+        syncLargeNotesOnWifiOnly: true,
+        pauseBackgroundSyncOnCellular: true,
+      });
+      const listener = jest.fn();
+      syncService.addStatusListener(listener);
+
+      const sync = syncService.startSync('user-123');
+      await syncService.reset();
+
+      expect(syncService.getIsSyncing()).toBe(false);
+      expect(syncService.getSyncPreferences()).toEqual({
+        syncLargeNotesOnWifiOnly: false,
+        pauseBackgroundSyncOnCellular: false,
+      });
+      expect(listener).toHaveBeenLastCalledWith(
+        expect.objectContaining({ isSync: false, lastSyncTime: null, pendingOperations: 0, progress: null })
+      );
+      await sync;
+    });
+  });
+
+  describe('Optimistic Concurrency', () => {
+    const baseNote = {
+      id: 'note-1',
+      title: 'Shared note',
+      content: { ops: [{ insert: 'Hello world\n' }] },
+      content_markdown: 'Hello world',
+      content_plain: 'Hello world',
+      group_id: null,
+      user_id: 'user-123',
+      created_at: '2024-01-01T00:00:00.000Z',
+      updated_at: '2024-01-01T00:00:00.000Z',
+      version: 1,
+      is_deleted: false,
+      deleted_at: null,
+    };
+
+    const toLocal = (note: any) => ({
+      ...note,
+      content: JSON.stringify(note.content),
+      is_deleted: note.is_deleted ? 1 : 0,
+      needs_sync: 1,
+    });
+
+    const queueItem = (id: string, operation: string, note: any) => ({
+      id,
+      table_name: 'notes',
+      record_id: note.id,
+      operation,
+      data: JSON.stringify(note),
+      user_id: 'user-123',
+    });
+
+    let server: ReturnType<typeof createFakeServer>;
+    let localNotes: Map<string, any>;
+    let bases: Map<string, any>;
+
+    beforeEach(() => {
+      server = createFakeServer({ notes: [{ ...baseNote }], groups: [] });
+      mockSupabase.from.mockImplementation(server.from as any);
+
+      // Stateful local store so merges see their own writes
+      localNotes = new Map();
+      bases = new Map([['notes:note-1', { ...baseNote }]]);
+
+      mockNotesDAO.getNoteById.mockImplementation(async id => localNotes.get(id) ?? null);
+      mockNotesDAO.upsertNoteFromSync.mockImplementation(async (note, needsSync) => {
+        localNotes.set(note.id, { ...note, needs_sync: needsSync ? 1 : 0 });
+      });
+      mockSyncBaseDAO.getBase.mockImplementation(async (table, id) => bases.get(`${table}:${id}`) ?? null);
+      mockSyncBaseDAO.saveBase.mockImplementation(async (table, id, data) => {
+        bases.set(`${table}:${id}`, data);
+      });
+    });
+
+    it('should push an update conditioned on the last synced version', async () => {
+      const localNote = toLocal({ ...baseNote, title: 'Local title', version: 2 });
+      localNotes.set('note-1', localNote);
+      mockDbInstance.getPendingSyncItems.mockResolvedValueOnce([
+        queueItem('sync-1', 'UPDATE', localNote),
+      ]);
+
+      await syncService.startSync('user-123');
+
+      expect(server.tables.notes[0]).toEqual(
+        expect.objectContaining({ title: 'Local title', version: 2 })
+      );
+      expect(mockDbInstance.acknowledgeSyncItems).toHaveBeenCalledWith([
+        expect.objectContaining({ queueItemId: 'sync-1', recordId: 'note-1' }),
+      ]);
+      expect(mockSyncQueueDAO.removeItemsForRecord).not.toHaveBeenCalled();
+    });
+
+    describe('note patches', () => {
+      const patch = {
+        base_version: 1,
+        values: { title: 'Shared note', version: 2, updated_at: '2024-01-02T00:00:00.000Z' },
+        content: [{ retain: 5 }, { insert: ',' }],
+        content_plain: { start: 5, deleteCount: 0, insert: ',' },
+      };
+      const patchedNote = toLocal({
+        ...baseNote,
+        content: { ops: [{ insert: 'Hello, world\n' }] },
+        content_plain: 'Hello, world',
+        updated_at: '2024-01-02T00:00:00.000Z',
+        version: 2,
+      });
+
+      const patchResult = (result: { data: unknown; error: unknown }) => {
+        mockSupabase.rpc.mockImplementation((async (fn: string) =>
+          fn === 'apply_note_patch' ? result : { data: new Date().toISOString(), error: null }) as any);
+      };
+
+      beforeEach(() => {
+        localNotes.set('note-1', patchedNote);
+        mockDbInstance.getPendingSyncItems.mockResolvedValueOnce([
+          { ...queueItem('sync-1', 'UPDATE', patchedNote), patch: JSON.stringify(patch) },
+        ]);
+      });
+
+      it('should send a note update as a patch to apply_note_patch', async () => {
+        patchResult({ data: true, error: null });
+
+        await syncService.startSync('user-123');
+
+        expect(mockSupabase.rpc).toHaveBeenCalledWith('apply_note_patch', {
+          p_id: 'note-1',
+          p_patch: patch,
+          p_expected_version: 1,
+        });
+        // Applied by the function, not uploaded whole
+        expect(server.tables.notes[0].version).toBe(1);
+        expect(mockDbInstance.acknowledgeSyncItems).toHaveBeenCalledWith([
+          expect.objectContaining({ queueItemId: 'sync-1', recordId: 'note-1' }),
+        ]);
+      });
+
+      it('should upload the note whole when the server does not apply the patch', async () => {
+        patchResult({ data: null, error: { code: 'PGRST202', message: 'Could not find the function public.apply_note_patch' } });
+
+        await syncService.startSync('user-123');
+
+        expect(server.tables.notes[0]).toEqual(expect.objectContaining({
+          content: { ops: [{ insert: 'Hello, world\n' }] },
+          content_plain: 'Hello, world',
+          version: 2,
+        }));
+        expect(mockDbInstance.acknowledgeSyncItems).toHaveBeenCalledTimes(1);
+      });
+    });
+
+    it('should not overwrite a newer version written by another device', async () => {
+      // Device B edits the content and pushes first
+      const remoteContent = { ops: [{ insert: 'Hello world, from device B\n' }] };
+      await server.from('notes').update({
+        content: remoteContent,
+        content_plain: 'Hello world, from device B',
+        updated_at: '2024-01-02T00:00:00.000Z',
+        version: 2,
+      }).eq('id', 'note-1').eq('version', 1).select('id');
+
+      // Device A edited the title offline, also starting from version 1
+      const localNote = toLocal({ ...baseNote, title: 'Title from device A', version: 2 });
+      localNotes.set('note-1', localNote);
+      mockDbInstance.getPendingSyncItems.mockResolvedValueOnce([
+        queueItem('sync-1', 'UPDATE', localNote),
+      ]);
+
+      await syncService.startSync('user-123');
+
+      // Device B's write survives the race
+      expect(server.tables.notes[0]).toEqual(
+        expect.objectContaining({ title: 'Shared note', content: remoteContent, version: 2 })
+      );
+      expect(mockDbInstance.acknowledgeSyncItems).not.toHaveBeenCalled();
+      expect(mockDbInstance.incrementSyncRetry).not.toHaveBeenCalled();
+
+      // Device A queues a merge of both edits on top of version 2
+      expect(mockSyncQueueDAO.removeItemsForRecord).toHaveBeenCalledWith('notes', 'note-1');
+      expect(mockNotesDAO.upsertNoteFromSync).toHaveBeenCalledWith(
+        expect.objectContaining({
+          title: 'Title from device A',
+          content: JSON.stringify(remoteContent),
+          version: 3,
+        }),
+        true,
+        mockTransaction
+      );
+      expect(bases.get('notes:note-1').version).toBe(2);
+    });
+
+    it('should skip stale queue items once a record has conflicted', async () => {
+      await server.from('notes').update({
+        title: 'Title from device B',
+        updated_at: '2024-01-02T00:00:00.000Z',
+        version: 2,
+      }).eq('id', 'note-1').eq('version', 1).select('id');
+
+      const firstEdit = toLocal({ ...baseNote, content_plain: 'first', version: 2 });
+      const secondEdit = toLocal({ ...baseNote, content_plain: 'second', version: 3 });
+      localNotes.set('note-1', secondEdit);
+      mockDbInstance.getPendingSyncItems.mockResolvedValueOnce([
+        queueItem('sync-1', 'UPDATE', firstEdit),
+        queueItem('sync-2', 'UPDATE', secondEdit),
+      ]);
+
+      const updateSpy = jest.fn();
+      server.from.mockImplementation((table: string) => {
+        const query = createFakeServer(server.tables).from(table);
+        const update = query.update;
+        query.update = (values: any) => {
+          updateSpy(values);
+          return update(values);
+        };
+        return query;
+      });
+
+      await syncService.startSync('user-123');
+
+      expect(updateSpy).toHaveBeenCalledTimes(1);
+      expect(server.tables.notes[0].title).toBe('Title from device B');
+      expect(mockDbInstance.acknowledgeSyncItems).not.toHaveBeenCalled();
+    });
+
+    it('should treat a duplicate insert as a conflict rather than a failure', async () => {
+      // Both devices created the same record while offline
+      const localNote = toLocal({ ...baseNote, title: 'Created on device A' });
+      localNotes.set('note-1', localNote);
+      bases.clear();
+      mockDbInstance.getPendingSyncItems.mockResolvedValueOnce([
+        queueItem('sync-1', 'INSERT', localNote),
+      ]);
+
+      await syncService.startSync('user-123');
+
+      expect(mockDbInstance.incrementSyncRetry).not.toHaveBeenCalled();
+      expect(server.tables.notes).toHaveLength(1);
+      expect(server.tables.notes[0].title).toBe('Shared note');
+      expect(mockSyncQueueDAO.removeItemsForRecord).toHaveBeenCalledWith('notes', 'note-1');
+    });
+  });
+
+  describe('Batched Push', () => {
+    const makeLocalNote = (id: string) => ({
+      id,
+      title: `Note ${id}`,
+      content: JSON.stringify({ ops: [{ insert: 'Hello\n' }] }),
+      content_markdown: 'Hello',
+      content_plain: 'Hello',
+      group_id: null,
+      user_id: 'user-123',
+      created_at: '2024-01-01T00:00:00.000Z',
+      updated_at: '2024-01-01T00:00:00.000Z',
+      version: 1,
+      is_deleted: 0,
+      deleted_at: null,
+      needs_sync: 1,
+    });
+
+    const insertItem = (index: number) => ({
+      id: `sync-${index}`,
+      table_name: 'notes',
+      record_id: `note-${index}`,
+      operation: 'INSERT',
+      data: JSON.stringify(makeLocalNote(`note-${index}`)),
+      user_id: 'user-123',
+    });
+
+    // An edit or deletion made on this device to a note synced at version 1
+    const changeItem = (index: number, operation: 'UPDATE' | 'DELETE') => ({
+      ...insertItem(index),
+      operation,
+      data: JSON.stringify({
+        ...makeLocalNote(`note-${index}`),
+        title: `Edited ${index}`,
+        updated_at: '2024-01-02T00:00:00.000Z',
+        version: 2,
+        is_deleted: operation === 'DELETE' ? 1 : 0,
+        deleted_at: operation === 'DELETE' ? '2024-01-02T00:00:00.000Z' : null,
+      }),
+    });
+
+    const syncedNote = (index: number) => ({ ...makeLocalNote(`note-${index}`), is_deleted: false });
+
+    let server: ReturnType<typeof createFakeServer>;
+
+    beforeEach(() => {
+      server = createFakeServer({ notes: [], groups: [] });
+      mockSupabase.from.mockImplementation(server.from as any);
+      mockSupabase.rpc.mockImplementation(server.rpc as any);
+      mockSyncBaseDAO.getBase.mockImplementation(async () => ({ version: 1 }) as any);
+    });
+
+    it('should send consecutive inserts as one bulk write', async () => {
+      const upsertSpy = jest.fn();
+      server.from.mockImplementation((table: string) => {
+        const query = createFakeServer(server.tables).from(table);
+        const upsert = query.upsert;
+        query.upsert = (values: any[], options: any) => {
+          upsertSpy(values);
+          return upsert(values, options);
+        };
+        return query;
+      });
+      mockDbInstance.getPendingSyncItems.mockResolvedValueOnce([1, 2, 3].map(insertItem));
+
+      await syncService.startSync('user-123');
+
+      expect(upsertSpy).toHaveBeenCalledTimes(1);
+      expect(upsertSpy.mock.calls[0][0]).toHaveLength(3);
+      expect(server.tables.notes.map(note => note.id)).toEqual(['note-1', 'note-2', 'note-3']);
+
+      // All acknowledgements are recorded in a single local transaction
+      expect(mockDbInstance.acknowledgeSyncItems).toHaveBeenCalledTimes(1);
+      expect(mockDbInstance.acknowledgeSyncItems.mock.calls[0][0].map((ack: any) => ack.queueItemId))
+        .toEqual(['sync-1', 'sync-2', 'sync-3']);
+    });
+
+    it('should only acknowledge rows the server accepted', async () => {
+      // note-2 already exists on the server
+      server.tables.notes.push({ ...makeLocalNote('note-2'), title: 'Server copy', is_deleted: false });
+      mockNotesDAO.getNoteById.mockResolvedValue(null);
+      mockDbInstance.getPendingSyncItems.mockResolvedValueOnce([1, 2, 3].map(insertItem));
+
+      await syncService.startSync('user-123');
+
+      expect(mockDbInstance.acknowledgeSyncItems.mock.calls[0][0].map((ack: any) => ack.queueItemId))
+        .toEqual(['sync-1', 'sync-3']);
+      expect(mockSyncQueueDAO.removeItemsForRecord).toHaveBeenCalledWith('notes', 'note-2');
+      expect(server.tables.notes.find(note => note.id === 'note-2')!.title).toBe('Server copy');
+    });
+
+    it('should fall back to per-item pushes when a batch is rejected', async () => {
+      const insertSpy = jest.fn();
+      server.from.mockImplementation((table: string) => {
+        const query = createFakeServer(server.tables).from(table);
+        const insert = query.insert;
+        query.upsert = () => ({
+          select: () => Promise.resolve({ data: null, error: { message: 'payload too large' } }),
+        });
+        query.insert = (values: any) => {
+          insertSpy(values);
+          return insert(values);
+        };
+        return query;
+      });
+      mockDbInstance.getPendingSyncItems.mockResolvedValueOnce([1, 2].map(insertItem));
+
+      await syncService.startSync('user-123');
+
+      expect(insertSpy).toHaveBeenCalledTimes(2);
+      expect(server.tables.notes).toHaveLength(2);
+      expect(mockDbInstance.acknowledgeSyncItems).toHaveBeenCalledTimes(2);
+    });
+
+    it('should send consecutive updates as one version-checked bulk write', async () => {
+      server.tables.notes.push(syncedNote(1), syncedNote(2), syncedNote(3));
+      mockDbInstance.getPendingSyncItems.mockResolvedValueOnce([1, 2, 3].map(index => changeItem(index, 'UPDATE')));
+
+      await syncService.startSync('user-123');
+
+      const bulkCalls = server.rpc.mock.calls.filter(([fn]) => fn === 'update_synced_rows');
+      expect(bulkCalls).toHaveLength(1);
+      expect(bulkCalls[0][1].p_table).toBe('notes');
+      expect(bulkCalls[0][1].p_updates).toEqual([1, 2, 3].map(index => expect.objectContaining({
+        id: `note-${index}`,
+        expected_version: 1,
+        values: expect.objectContaining({ title: `Edited ${index}`, version: 2 }),
+      })));
+      expect(server.tables.notes.map(note => note.title)).toEqual(['Edited 1', 'Edited 2', 'Edited 3']);
+      expect(mockDbInstance.acknowledgeSyncItems).toHaveBeenCalledTimes(1);
+      expect(mockDbInstance.acknowledgeSyncItems.mock.calls[0][0].map((ack: any) => ack.queueItemId))
+        .toEqual(['sync-1', 'sync-2', 'sync-3']);
+    });
+
+    it('should send consecutive deletes as one bulk write', async () => {
+      server.tables.notes.push(syncedNote(1), syncedNote(2));
+      mockDbInstance.getPendingSyncItems.mockResolvedValueOnce([1, 2].map(index => changeItem(index, 'DELETE')));
+
+      await syncService.startSync('user-123');
+
+      expect(server.rpc.mock.calls.filter(([fn]) => fn === 'update_synced_rows')).toHaveLength(1);
+      expect(server.tables.notes).toEqual([1, 2].map(() => expect.objectContaining({
+        is_deleted: true,
+        deleted_at: '2024-01-02T00:00:00.000Z',
+        version: 2,
+      })));
+    });
+
+    it('should only handle the rows at another version as conflicts', async () => {
+      // note-2 was edited on another device since this one last synced
+      server.tables.notes.push(syncedNote(1), { ...syncedNote(2), title: 'Server copy', version: 2 }, syncedNote(3));
+      mockNotesDAO.getNoteById.mockResolvedValue(null);
+      mockDbInstance.getPendingSyncItems.mockResolvedValueOnce([1, 2, 3].map(index => changeItem(index, 'UPDATE')));
+
+      await syncService.startSync('user-123');
+
+      expect(mockDbInstance.acknowledgeSyncItems.mock.calls[0][0].map((ack: any) => ack.queueItemId))
+        .toEqual(['sync-1', 'sync-3']);
+      expect(mockSyncQueueDAO.removeItemsForRecord).toHaveBeenCalledWith('notes', 'note-2');
+      expect(server.tables.notes.find(note => note.id === 'note-2')!.title).toBe('Server copy');
+    });
+
+    it('should fall back to per-item updates when a bulk update is rejected', async () => {
+      server.tables.notes.push(syncedNote(1), syncedNote(2));
+      server.rpc.mockImplementation(async (fn: string) => fn === 'update_synced_rows'
+        ? { data: null, error: { code: '54000', message: 'payload too large' } }
+        : { data: new Date().toISOString(), error: null });
+      mockDbInstance.getPendingSyncItems.mockResolvedValueOnce([1, 2].map(index => changeItem(index, 'UPDATE')));
+
+      await syncService.startSync('user-123');
+
+      expect(server.tables.notes.map(note => note.title)).toEqual(['Edited 1', 'Edited 2']);
+      expect(mockDbInstance.acknowledgeSyncItems).toHaveBeenCalledTimes(2);
+    });
+
+    it('should keep draining while full batches succeed', async () => {
+      const fullBatch = Array.from({ length: 50 }, (_, index) => insertItem(index));
+      mockDbInstance.getPendingSyncItems
+        .mockResolvedValueOnce(fullBatch)
+        .mockResolvedValueOnce([insertItem(50)])
+        .mockResolvedValue([]);
+
+      await syncService.startSync('user-123');
+
+      expect(mockDbInstance.getPendingSyncItems).toHaveBeenCalledTimes(2);
+      expect(server.tables.notes).toHaveLength(51);
+    });
+  });
+
+  describe('Paginated Pull', () => {
+    const makeRemoteNote = (index: number, updatedAt: string) => ({
+      id: `note-${String(index).padStart(3, '0')}`,
+      title: `Note ${index}`,
+      content: { ops: [{ insert: `Note ${index}\n` }] },
+      content_markdown: `Note ${index}`,
+      content_plain: `Note ${index}`,
+      group_id: null,
+      user_id: 'user-123',
+      created_at: updatedAt,
+      updated_at: updatedAt,
+      server_updated_at: updatedAt,
+      version: 1,
+      is_deleted: false,
+      deleted_at: null,
+    });
+
+    let server: ReturnType<typeof createFakeServer>;
+    let settings: Map<string, string>;
+
+    beforeEach(() => {
+      // Many rows share a timestamp so the id tie-breaker is exercised
+      const notes = Array.from({ length: 120 }, (_, index) =>
+        makeRemoteNote(index, `2024-01-0${1 + Math.floor(index / 40)}T00:00:00.000Z`)
+      );
+      server = createFakeServer({ notes, groups: [] });
+      mockSupabase.from.mockImplementation(server.from as any);
+
+      settings = new Map();
+      mockDbInstance.getSetting.mockImplementation(async (key: string) => settings.get(key) ?? null);
+      mockDbInstance.setSetting.mockImplementation(async (key: string, value: string) => {
+        settings.set(key, value);
+      });
+      mockNotesDAO.getNoteById.mockResolvedValue(null);
+
+      const bases = new Map<string, any>();
+      mockSyncBaseDAO.getBase.mockImplementation(async (table, id) => bases.get(`${table}:${id}`) ?? null);
+      mockSyncBaseDAO.saveBase.mockImplementation(async (table, id, data) => {
+        bases.set(`${table}:${id}`, data);
+      });
+    });
+
+    it('should pull every row in pages of the configured batch size', async () => {
+      await syncService.startSync('user-123');
+
+      const pulledIds = mockNotesDAO.upsertNoteFromSync.mock.calls.map(([note]) => note.id);
+      expect(pulledIds).toHaveLength(120);
+      expect(new Set(pulledIds).size).toBe(120);
+
+      const cursorWrites = mockDbInstance.setSetting.mock.calls
+        .filter(([key]: [string]) => key === 'pullCursor:notes');
+      expect(cursorWrites).toHaveLength(3);
+      expect(JSON.parse(settings.get('pullCursor:notes')!)).toEqual({
+        server_updated_at: '2024-01-03T00:00:00.000Z',
+        id: 'note-119',
+      });
+    });
+
+    it('should only pull rows changed after the stored cursor', async () => {
+      await syncService.startSync('user-123');
+      mockNotesDAO.upsertNoteFromSync.mockClear();
+
+      // Another device whose clock runs behind edits a note after the first pull
+      server.tables.notes[5].updated_at = '2023-12-01T00:00:00.000Z';
+      server.tables.notes[5].server_updated_at = '2024-01-04T00:00:00.000Z';
+      server.tables.notes[5].version = 2;
+
+      await syncService.startSync('user-123');
+
+      expect(mockNotesDAO.upsertNoteFromSync).toHaveBeenCalledTimes(1);
+      expect(mockNotesDAO.upsertNoteFromSync.mock.calls[0][0].id).toBe('note-005');
+    });
+
+    it('should pull a row committed late behind the stored cursor', async () => {
+      await syncService.startSync('user-123');
+      mockNotesDAO.upsertNoteFromSync.mockClear();
+
+      // A slow transaction commits after the pull, stamped before its cursor
+      server.tables.notes.push(makeRemoteNote(200, '2024-01-02T23:59:30.000Z'));
+
+      await syncService.startSync('user-123');
+
+      const pulledIds = mockNotesDAO.upsertNoteFromSync.mock.calls.map(([note]) => note.id);
+      expect(pulledIds).toEqual(['note-200']);
+      expect(JSON.parse(settings.get('pullCursor:notes')!)).toEqual({
+        server_updated_at: '2024-01-03T00:00:00.000Z',
+        id: 'note-119',
+      });
+    });
+
+    it('should resume from the last applied page after an interruption', async () => {
+      // The app is killed while applying a row on the second page
+      mockNotesDAO.upsertNoteFromSync.mockImplementation(async note => {
+        if (note.id === 'note-070') {
+          throw new Error('App killed');
+        }
+      });
+
+      await syncService.startSync('user-123');
+
+      expect(JSON.parse(settings.get('pullCursor:notes')!)).toEqual({
+        server_updated_at: '2024-01-02T00:00:00.000Z',
+        id: 'note-049',
+      });
+
+      mockNotesDAO.upsertNoteFromSync.mockReset();
+      await syncService.startSync('user-123');
+
+      // Rows of the interrupted page applied before the crash are not applied twice
+      const resumedIds = mockNotesDAO.upsertNoteFromSync.mock.calls.map(([note]) => note.id);
+      expect(resumedIds[0]).toBe('note-070');
+      expect(resumedIds).toHaveLength(50);
+    });
+
+    it('should pull by edit time while the server has no server_updated_at column', async () => {
+      jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      server.tables.notes.forEach(note => delete note.server_updated_at);
+      const legacyServer = createFakeServer(server.tables, {
+        missingColumns: { notes: ['server_updated_at'], groups: ['server_updated_at'] },
+      });
+      mockSupabase.from.mockImplementation(legacyServer.from as any);
+
+      await syncService.startSync('user-123');
+
+      expect(mockNotesDAO.upsertNoteFromSync).toHaveBeenCalledTimes(120);
+      expect(JSON.parse(settings.get('pullCursor:notes')!)).toEqual({
+        server_updated_at: '2024-01-03T00:00:00.000Z',
+        id: 'note-119',
+      });
+
+      mockNotesDAO.upsertNoteFromSync.mockClear();
+      server.tables.notes[5].updated_at = '2024-01-04T00:00:00.000Z';
+      server.tables.notes[5].version = 2;
+      await syncService.startSync('user-123');
+
+      expect(mockNotesDAO.upsertNoteFromSync.mock.calls.map(([note]) => note.id)).toEqual(['note-005']);
+    });
+
+    it('should pull rows while the server has no tombstones table', async () => {
+      const legacyServer = createFakeServer(server.tables, { missingTables: ['tombstones'] });
+      mockSupabase.from.mockImplementation(legacyServer.from as any);
+      const listener = jest.fn();
+      syncService.addStatusListener(listener);
+
+      await syncService.startSync('user-123');
+
+      expect(mockNotesDAO.upsertNoteFromSync).toHaveBeenCalledTimes(120);
+      expect(listener).toHaveBeenLastCalledWith(expect.objectContaining({ error: null }));
+    });
+  });
+
+  describe('Snapshot Bootstrap', () => {
+    it('should load a new device from the sync_snapshot function', async () => {
+      // Timestamps as Postgres renders them in JSON
+      const note = {
+        id: 'note-1',
+        title: 'Test Note',
+        content: { ops: [{ insert: 'Test content\n' }] },
+        content_markdown: 'Test content',
+        content_plain: 'Test content',
+        group_id: null,
+        user_id: 'user-123',
+        created_at: '2024-01-01T00:00:00+00:00',
+        updated_at: '2024-01-01T00:00:00+00:00',
+        server_updated_at: '2024-01-02T00:00:00.123456+00:00',
+        version: 1,
+        is_deleted: false,
+        deleted_at: null,
+      };
+      const cursors = { groups: null, notes: { server_updated_at: note.server_updated_at, id: note.id }, tombstones: null };
+      const settings = new Map<string, string>();
+      mockDbInstance.getSetting.mockImplementation(async (key: string) => settings.get(key) ?? null);
+      mockDbInstance.setSetting.mockImplementation(async (key: string, value: string) => {
+        settings.set(key, value);
+      });
+      mockSnapshotDAO.countBases.mockResolvedValue(0);
+      mockSnapshotDAO.getStagedRows.mockImplementation(async (table: string) => (table === 'notes' ? [note] : []) as any);
+      mockSnapshotDAO.getExistingIds.mockResolvedValue(new Set());
+      mockSupabase.rpc.mockImplementation((async (fn: string) =>
+        fn === 'sync_snapshot'
+          ? { data: { groups: [], notes: [note], cursors }, error: null }
+          : { data: new Date().toISOString(), error: null }) as any);
+      mockSupabase.from.mockImplementation(createFakeServer({ notes: [note], groups: [] }).from as any);
+
+      await syncService.startSync('user-123');
+
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('sync_snapshot', { p_user_id: 'user-123' });
+      expect(mockSnapshotDAO.stageRows).toHaveBeenCalledWith('notes', [note]);
+      expect(mockSnapshotDAO.bulkLoad).toHaveBeenCalledWith(expect.objectContaining({
+        settings: [['pullCursor:notes', JSON.stringify(cursors.notes)]],
+      }));
+    });
+  });
+
   describe('Conflict Resolution', () => {
-    it('should handle note conflicts with last-write-wins', async () => {
-      // This would test the conflict resolution logic
-      // Implementation depends on how conflicts are detected and resolved
-      expect(true).toBe(true); // Placeholder
+    const remoteNote = {
+      id: 'note-1',
+      title: 'Phone title',
+      content: { ops: [{ insert: 'Text\n' }] },
+      content_markdown: 'Text',
+      content_plain: 'Text',
+      group_id: null,
+      user_id: 'user-123',
+      created_at: '2024-01-01T00:00:00.000Z',
+      updated_at: '2024-01-02T00:00:00.000Z',
+      version: 2,
+      is_deleted: false,
+      deleted_at: null,
+    };
+    const conflictVersions = {
+      localVersion: { ...remoteNote, title: 'Laptop title', version: 1 },
+      remoteVersion: remoteNote,
+    };
+    const conflictRow = (overrides: object = {}) => ({
+      id: 'conflict-1',
+      table_name: 'notes' as const,
+      record_id: 'note-1',
+      fields: JSON.stringify(['title']),
+      local_data: JSON.stringify(conflictVersions.localVersion),
+      remote_data: JSON.stringify(remoteNote),
+      merged_data: JSON.stringify({ ...remoteNote, title: 'Merged title', version: 3 }),
+      user_id: 'user-123',
+      created_at: '2024-01-02T00:00:00.000Z',
+      resolved_at: null,
+      resolution: null,
+      ...overrides,
+    });
+
+    beforeEach(() => {
+      mockSyncConflictsDAO.getConflictById.mockResolvedValue(conflictRow());
+      // The merged note as stored locally, edited again since the conflict
+      mockNotesDAO.getNoteById.mockResolvedValue({
+        ...remoteNote,
+        title: 'Laptop title',
+        content: JSON.stringify({ ops: [{ insert: 'Written since\n' }] }),
+        content_markdown: 'Written since',
+        content_plain: 'Written since',
+        updated_at: '2024-01-03T00:00:00.000Z',
+        version: 4,
+        is_deleted: 0,
+        needs_sync: 1,
+      });
     });
 
-    it('should handle group conflicts with last-write-wins', async () => {
-      // This would test group conflict resolution
-      expect(true).toBe(true); // Placeholder
+    it.each([
+      ['the local version', 'local', undefined, 'Laptop title'],
+      ['the remote version', 'remote', undefined, 'Phone title'],
+      ['the suggested merge', 'merge', undefined, 'Merged title'],
+      ['a merge edited in the inbox', 'merge', { ...remoteNote, title: 'Edited in the inbox' }, 'Edited in the inbox'],
+    ] as const)('should write %s and queue the note', async (_name, resolution, resolvedVersion, title) => {
+      await syncService.resolveConflict('conflict-1', { ...conflictVersions, resolution, resolvedVersion });
+
+      // Only the conflicting field is decided; text written since the conflict stays
+      expect(mockNotesDAO.upsertNoteFromSync).toHaveBeenCalledWith(expect.objectContaining({
+        title,
+        content_plain: 'Written since',
+        version: 5,
+      }), true);
+      expect(mockSyncConflictsDAO.markResolved).toHaveBeenCalledWith('conflict-1', resolution);
+    });
+
+    it('should resolve a group conflict', async () => {
+      const remoteGroup = {
+        id: 'group-1',
+        name: 'Phone name',
+        color: '#3b82f6',
+        user_id: 'user-123',
+        created_at: '2024-01-01T00:00:00.000Z',
+        updated_at: '2024-01-02T00:00:00.000Z',
+        version: 2,
+        is_deleted: false,
+      };
+      mockSyncConflictsDAO.getConflictById.mockResolvedValue(conflictRow({
+        table_name: 'groups',
+        record_id: 'group-1',
+        fields: JSON.stringify(['name']),
+      }));
+      mockGroupsDAO.getGroupById.mockResolvedValue({
+        ...remoteGroup,
+        name: 'Laptop name',
+        color: '#ef4444',
+        version: 3,
+        is_deleted: 0,
+        needs_sync: 1,
+        sync_policy: 'sync',
+      });
+
+      await syncService.resolveConflict('conflict-1', {
+        localVersion: { ...remoteGroup, name: 'Laptop name', version: 1 },
+        remoteVersion: remoteGroup,
+        resolution: 'remote',
+      });
+
+      expect(mockGroupsDAO.upsertGroupFromSync).toHaveBeenCalledWith(expect.objectContaining({
+        name: 'Phone name',
+        color: '#ef4444',
+        version: 4,
+      }), true);
+      expect(mockSyncConflictsDAO.markResolved).toHaveBeenCalledWith('conflict-1', 'remote');
+    });
+
+    it('should refuse a conflict that was already resolved', async () => {
+      mockSyncConflictsDAO.getConflictById.mockResolvedValue(null);
+
+      await expect(
+        syncService.resolveConflict('conflict-1', { ...conflictVersions, resolution: 'local' })
+      ).rejects.toThrow('Conflict not found');
+      expect(mockNotesDAO.upsertNoteFromSync).not.toHaveBeenCalled();
     });
   });
 });
@@ -0,0 +1,52 @@
+import { createJsonFileBackendStore } from '../../src/services/jsonFileBackendStore';
+import { LocalSyncBackend } from '../../src/services/LocalSyncBackend';
+import { Note } from '../../src/types';
+
+const mockFiles = new Map<string, string>();
+
+jest.mock('react-native-fs', () => ({
+  DocumentDirectoryPath: '/documents',
+  exists: async (path: string) => mockFiles.has(path),
+  readFile: async (path: string) => mockFiles.get(path),
+  writeFile: async (path: string, contents: string) => {
+    mockFiles.set(path, contents);
+  },
+}));
+
+const makeNote = (id: string): Note => ({
+  id,
+  title: `Note ${id}`,
+  content: { ops: [{ insert: `Note ${id}\n` }] },
+  content_markdown: `Note ${id}`,
+  content_plain: `Note ${id}`,
+  group_id: null,
+  user_id: 'user-123',
+  created_at: '2024-01-01T00:00:00.000Z',
+  updated_at: '2024-01-01T00:00:00.000Z',
+  version: 1,
+  is_deleted: false,
+  deleted_at: null,
+});
+
+describe('createJsonFileBackendStore', () => {
+  beforeEach(() => {
+    mockFiles.clear();
+  });
+
+  it('should load nothing before the file is written', async () => {
+    expect(await createJsonFileBackendStore().load()).toBeNull();
+  });
+
+  it('should keep a backend\'s rows and tombstones across restarts', async () => {
+    const backend = new LocalSyncBackend({ userId: 'user-123', store: createJsonFileBackendStore() });
+    await backend.insertRows('notes', [makeNote('a'), makeNote('b')]);
+    await backend.deleteRow('notes', 'b', 'user-123');
+
+    expect([...mockFiles.keys()]).toEqual(['/documents/sync-server.json']);
+
+    const restarted = new LocalSyncBackend({ userId: 'user-123', store: createJsonFileBackendStore() });
+    const notes = await restarted.pullPage<Note>('notes', 'user-123', null, 10);
+    expect(notes.map(note => note.id)).toEqual(['a']);
+    expect(await restarted.fetchTombstone('notes', 'b')).toEqual(expect.objectContaining({ id: 'b', version: 1 }));
+  });
+});
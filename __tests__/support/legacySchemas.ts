@@ -0,0 +1,168 @@
+// Schemas created by releases before migrations were tracked, exactly as a
+// fresh install of each release left them. All of them are at user_version 0.
+
+const groups = (withSyncPolicy: boolean) => `
+  CREATE TABLE IF NOT EXISTS groups (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    color TEXT DEFAULT '#14b8a6',
+    user_id TEXT,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    updated_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    version INTEGER DEFAULT 1,
+    is_deleted INTEGER DEFAULT 0,
+    needs_sync INTEGER DEFAULT 0${withSyncPolicy ? `,
+    sync_policy TEXT DEFAULT 'sync'` : ''}
+  )
+`;
+
+const notes = `
+  CREATE TABLE IF NOT EXISTS notes (
+    id TEXT PRIMARY KEY,
+    title TEXT NOT NULL DEFAULT 'Untitled',
+    content TEXT DEFAULT '{}',
+    content_markdown TEXT DEFAULT '',
+    content_plain TEXT DEFAULT '',
+    group_id TEXT,
+    user_id TEXT,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    updated_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    version INTEGER DEFAULT 1,
+    is_deleted INTEGER DEFAULT 0,
+    deleted_at TEXT,
+    needs_sync INTEGER DEFAULT 0,
+    FOREIGN KEY (group_id) REFERENCES groups (id)
+  )
+`;
+
+const syncQueue = (extraColumns: string[]) => `
+  CREATE TABLE IF NOT EXISTS sync_queue (
+    id TEXT PRIMARY KEY,
+    table_name TEXT NOT NULL,
+    record_id TEXT NOT NULL,
+    operation TEXT NOT NULL,
+    data TEXT,
+    user_id TEXT,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    retry_count INTEGER DEFAULT 0,
+    last_error TEXT${extraColumns.map(column => `,\n    ${column} TEXT`).join('')}
+  )
+`;
+
+const userSettings = `
+  CREATE TABLE IF NOT EXISTS user_settings (
+    key TEXT PRIMARY KEY,
+    value TEXT,
+    updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+  )
+`;
+
+const baseIndexes = [
+  'CREATE INDEX IF NOT EXISTS idx_notes_user_id ON notes(user_id)',
+  'CREATE INDEX IF NOT EXISTS idx_notes_group_id ON notes(group_id)',
+  'CREATE INDEX IF NOT EXISTS idx_notes_updated_at ON notes(updated_at)',
+  'CREATE INDEX IF NOT EXISTS idx_groups_user_id ON groups(user_id)',
+  'CREATE INDEX IF NOT EXISTS idx_sync_queue_table_record ON sync_queue(table_name, record_id)',
+];
+
+const syncBase = `
+  CREATE TABLE IF NOT EXISTS sync_base (
+    table_name TEXT NOT NULL,
+    record_id TEXT NOT NULL,
+    data TEXT NOT NULL,
+    version INTEGER DEFAULT 1,
+    synced_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (table_name, record_id)
+  )
+`;
+
+const syncConflicts = [
+  `CREATE TABLE IF NOT EXISTS sync_conflicts (
+    id TEXT PRIMARY KEY,
+    table_name TEXT NOT NULL,
+    record_id TEXT NOT NULL,
+    fields TEXT DEFAULT '[]',
+    local_data TEXT NOT NULL,
+    remote_data TEXT NOT NULL,
+    merged_data TEXT NOT NULL,
+    user_id TEXT,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    resolved_at TEXT,
+    resolution TEXT
+  )`,
+  'CREATE INDEX IF NOT EXISTS idx_sync_conflicts_user_id ON sync_conflicts(user_id, resolved_at)',
+];
+
+const syncLog = [
+  `CREATE TABLE IF NOT EXISTS sync_log (
+    id TEXT PRIMARY KEY,
+    kind TEXT NOT NULL CHECK (kind IN ('run', 'realtime')),
+    user_id TEXT,
+    started_at TEXT,
+    finished_at TEXT,
+    duration_ms INTEGER,
+    pushed INTEGER DEFAULT 0,
+    pulled INTEGER DEFAULT 0,
+    conflicts INTEGER DEFAULT 0,
+    errors TEXT DEFAULT '[]',
+    table_name TEXT,
+    record_id TEXT,
+    event_type TEXT,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP
+  )`,
+  'CREATE INDEX IF NOT EXISTS idx_sync_log_user_created ON sync_log(user_id, created_at)',
+];
+
+const syncSnapshot = `
+  CREATE TABLE IF NOT EXISTS sync_snapshot (
+    table_name TEXT NOT NULL,
+    record_id TEXT NOT NULL,
+    data TEXT NOT NULL,
+    PRIMARY KEY (table_name, record_id)
+  )
+`;
+
+const syncQuarantine = `
+  CREATE TABLE IF NOT EXISTS sync_quarantine (
+    id TEXT PRIMARY KEY,
+    table_name TEXT NOT NULL,
+    record_id TEXT,
+    direction TEXT NOT NULL CHECK (direction IN ('inbound', 'outbound')),
+    data TEXT NOT NULL,
+    errors TEXT DEFAULT '[]',
+    user_id TEXT,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP
+  )
+`;
+
+export const LEGACY_SCHEMAS: Array<[string, string[]]> = [
+  ['initial', [groups(false), notes, syncQueue([]), userSettings, ...baseIndexes]],
+  ['merge bases', [groups(false), notes, syncQueue([]), syncBase, userSettings, ...baseIndexes]],
+  ['conflict inbox', [
+    groups(false), notes, syncQueue([]), syncBase, ...syncConflicts, userSettings, ...baseIndexes,
+  ]],
+  ['push back-off', [
+    groups(false), notes, syncQueue(['next_attempt_at']), syncBase, ...syncConflicts, userSettings,
+    ...baseIndexes,
+  ]],
+  ['local-only groups', [
+    groups(true), notes, syncQueue(['next_attempt_at']), syncBase, ...syncConflicts, userSettings,
+    ...baseIndexes,
+  ]],
+  ['sync log', [
+    groups(true), notes, syncQueue(['next_attempt_at']), syncBase, ...syncConflicts, ...syncLog,
+    userSettings, ...baseIndexes,
+  ]],
+  ['note patches', [
+    groups(true), notes, syncQueue(['next_attempt_at', 'patch']), syncBase, ...syncConflicts,
+    ...syncLog, userSettings, ...baseIndexes,
+  ]],
+  ['snapshot bootstrap', [
+    groups(true), notes, syncQueue(['next_attempt_at', 'patch']), syncBase, ...syncConflicts,
+    ...syncLog, syncSnapshot, userSettings, ...baseIndexes,
+  ]],
+  ['sync quarantine', [
+    groups(true), notes, syncQueue(['next_attempt_at', 'patch']), syncBase, ...syncConflicts,
+    ...syncLog, syncQuarantine, syncSnapshot, userSettings, ...baseIndexes,
+  ]],
+];
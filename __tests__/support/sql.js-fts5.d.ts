@@ -0,0 +1,5 @@
+// Minimal typing for the parts of sql.js used by the sync simulation
+declare module 'sql.js-fts5' {
+  const initSqlJs: (config?: { wasmBinary?: ArrayLike<number> }) => Promise<any>;
+  export default initSqlJs;
+}
@@ -0,0 +1,452 @@
+import { readFileSync } from 'fs';
+import initSqlJs from 'sql.js-fts5';
+import { LocalSyncBackend } from '../../src/services/LocalSyncBackend';
+import type { DatabaseManager as DatabaseManagerType } from '../../src/database/DatabaseManager';
+import type { BackupService as BackupServiceType } from '../../src/services/BackupService';
+import type { SyncService as SyncServiceType } from '../../src/services/SyncService';
+import type { SyncBackend } from '../../src/services/SyncBackend';
+import type { BackupData, Group, Note, SyncConflict, SyncPolicy, SyncProgress } from '../../src/types';
+
+// sql.js built with FTS5, so search runs against a real full-text index.
+// Its loader would fetch the wasm file by path, which Node cannot do.
+export const loadSqlJs = () =>
+  initSqlJs({ wasmBinary: readFileSync(require.resolve('sql.js-fts5/dist/sql-wasm.wasm')) });
+
+// Multi-device sync simulation. Every device gets its own module registry, so
+// its own SQLite database (sql.js, in memory), DatabaseManager and SyncService,
+// and they all talk to one shared LocalSyncBackend.
+
+export const USER_ID = 'user-123';
+
+// Clock offset of the device whose step is running. Steps run one at a time.
+let currentSkewMs = 0;
+const RealDate = Date;
+
+class SkewedDate extends RealDate {
+  constructor(...args: any[]) {
+    if (args.length === 0) {
+      super(RealDate.now() + currentSkewMs);
+    } else {
+      super(...(args as [string]));
+    }
+  }
+
+  static now(): number {
+    return RealDate.now() + currentSkewMs;
+  }
+}
+
+export const installSkewedClock = () => {
+  global.Date = SkewedDate as DateConstructor;
+};
+
+export const restoreClock = () => {
+  global.Date = RealDate;
+};
+
+const toSqlParams = (params: any[]) =>
+  params.map(value => {
+    if (value === undefined) {
+      return null;
+    }
+    if (typeof value === 'boolean') {
+      return value ? 1 : 0;
+    }
+    return value;
+  });
+
+const run = (db: any, sql: string, params: any[] = []) => {
+  const statement = db.prepare(sql);
+  const rows: any[] = [];
+  try {
+    statement.bind(toSqlParams(params));
+    while (statement.step()) {
+      rows.push(statement.getAsObject());
+    }
+  } finally {
+    statement.free();
+  }
+
+  return {
+    rows: { length: rows.length, item: (index: number) => rows[index], raw: () => rows },
+    rowsAffected: db.getRowsModified(),
+    insertId: undefined,
+  };
+};
+
+// react-native-sqlite-storage's promise API on top of a sql.js database
+export const wrapSqlJsDatabase = (db: any) => ({
+  executeSql: async (sql: string, params?: any[]): Promise<[ReturnType<typeof run>]> => [run(db, sql, params)],
+  transaction: async (callback: (tx: any) => void) => {
+    db.run('BEGIN');
+    try {
+      callback({ executeSql: (sql: string, params?: any[]) => run(db, sql, params) });
+      db.run('COMMIT');
+    } catch (error) {
+      db.run('ROLLBACK');
+      throw error;
+    }
+  },
+  close: async () => db.close(),
+});
+
+const createSqliteStorage = (SQL: any) => ({
+  DEBUG: () => undefined,
+  enablePromise: () => undefined,
+  openDatabase: async () => wrapSqlJsDatabase(new SQL.Database()),
+});
+
+const createNetwork = (initiallyConnected: boolean) => {
+  const listeners = new Set<(state: { isConnected: boolean }) => void>();
+  let isConnected = initiallyConnected;
+
+  return {
+    netInfo: {
+      addEventListener: (listener: (state: { isConnected: boolean }) => void) => {
+        listeners.add(listener);
+        listener({ isConnected });
+        return () => listeners.delete(listener);
+      },
+      fetch: async () => ({ isConnected }),
+    },
+    setConnected(connected: boolean) {
+      isConnected = connected;
+      listeners.forEach(listener => listener({ isConnected }));
+    },
+  };
+};
+
+const nextTick = () => new Promise(resolve => setImmediate(resolve));
+
+const waitUntil = async (condition: () => boolean) => {
+  while (!condition()) {
+    await nextTick();
+  }
+};
+
+const noteContent = (text: string) => ({ ops: [{ insert: `${text}\n` }] });
+
+export class SimulatedDevice {
+  private constructor(
+    readonly name: string,
+    private dbManager: DatabaseManagerType,
+    private syncService: SyncServiceType,
+    private backupService: BackupServiceType,
+    private network: ReturnType<typeof createNetwork>,
+    private executeSql: (sql: string, params?: any[]) => Promise<any>,
+    private skewMs: number
+  ) {}
+
+  static async create(
+    name: string,
+    SQL: any,
+    server: SyncBackend,
+    options: { skewMs?: number } = {}
+  ): Promise<SimulatedDevice> {
+    const network = createNetwork(false);
+    let modules: any;
+
+    jest.isolateModules(() => {
+      jest.doMock('react-native-sqlite-storage', () => createSqliteStorage(SQL));
+      jest.doMock('@react-native-community/netinfo', () => network.netInfo);
+      jest.doMock('react-native-fs', () => ({}));
+      jest.doMock('../../src/config/supabase', () => ({
+        supabase: {
+          auth: {
+            getUser: async () => ({
+              data: { user: { id: USER_ID, email: 'user@example.com', created_at: '2024-01-01T00:00:00.000Z' } },
+            }),
+          },
+        },
+      }));
+
+      modules = {
+        DatabaseManager: require('../../src/database/DatabaseManager').DatabaseManager,
+        SyncService: require('../../src/services/SyncService').SyncService,
+        BackupService: require('../../src/services/BackupService').BackupService,
+        setSyncBackend: require('../../src/services/SyncBackend').setSyncBackend,
+        executeSql: require('../../src/database/sqlite').executeSql,
+      };
+    });
+
+    modules.setSyncBackend(server);
+    const dbManager: DatabaseManagerType = modules.DatabaseManager.getInstance();
+    await dbManager.initialize();
+
+    return new SimulatedDevice(
+      name,
+      dbManager,
+      modules.SyncService.getInstance(),
+      modules.BackupService.getInstance(),
+      network,
+      modules.executeSql,
+      options.skewMs ?? 0
+    );
+  }
+
+  setClockSkew(skewMs: number) {
+    this.skewMs = skewMs;
+  }
+
+  // Run a step with this device's clock
+  private async step<T>(action: () => Promise<T>): Promise<T> {
+    currentSkewMs = this.skewMs;
+    try {
+      return await action();
+    } finally {
+      currentSkewMs = 0;
+    }
+  }
+
+  // The service syncs on its own when the network comes back. That sync only
+  // starts once the current user has been looked up, so let it begin first.
+  goOnline() {
+    return this.step(async () => {
+      this.network.setConnected(true);
+      await nextTick();
+      await waitUntil(() => !this.syncService.getIsSyncing());
+    });
+  }
+
+  goOffline() {
+    return this.step(async () => {
+      this.network.setConnected(false);
+    });
+  }
+
+  sync() {
+    return this.step(async () => {
+      await waitUntil(() => !this.syncService.getIsSyncing());
+      await this.syncService.startSync(USER_ID);
+    });
+  }
+
+  // Sync while watching progress, cancelling once stopWhen returns true.
+  // Returns every progress update seen.
+  syncWithProgress(stopWhen: (progress: SyncProgress) => boolean = () => false) {
+    return this.step(async () => {
+      const updates: SyncProgress[] = [];
+      const listener = (status: { progress: SyncProgress | null }) => {
+        if (status.progress) {
+          updates.push(status.progress);
+          if (stopWhen(status.progress)) {
+            this.syncService.cancelSync();
+          }
+        }
+      };
+
+      await waitUntil(() => !this.syncService.getIsSyncing());
+      this.syncService.addStatusListener(listener);
+      try {
+        await this.syncService.startSync(USER_ID);
+      } finally {
+        this.syncService.removeStatusListener(listener);
+      }
+      return updates;
+    });
+  }
+
+  createGroup(name: string, color = '#14b8a6') {
+    return this.step(async () => {
+      const group = await this.dbManager.createGroup(name, color, USER_ID);
+      return group.id;
+    });
+  }
+
+  renameGroup(id: string, name: string) {
+    return this.step(async () => {
+      await this.dbManager.updateGroup(id, { name });
+    });
+  }
+
+  setGroupSyncPolicy(id: string, policy: SyncPolicy) {
+    return this.step(() => this.dbManager.setGroupSyncPolicy(id, policy, USER_ID));
+  }
+
+  moveNote(id: string, groupId: string | null) {
+    return this.step(async () => {
+      await this.dbManager.moveNoteToGroup(id, groupId);
+    });
+  }
+
+  createNote(title: string, text: string, groupId: string | null = null) {
+    return this.step(async () => {
+      const note = await this.dbManager.createNote(
+        title,
+        noteContent(text),
+        text,
+        text,
+        groupId,
+        USER_ID
+      );
+      return note.id;
+    });
+  }
+
+  editNote(id: string, updates: { title?: string; text?: string; groupId?: string | null }) {
+    return this.step(async () => {
+      const changes: Parameters<DatabaseManagerType['updateNote']>[1] = {};
+      if (updates.title !== undefined) {
+        changes.title = updates.title;
+      }
+      if (updates.text !== undefined) {
+        changes.content = noteContent(updates.text);
+        changes.content_markdown = updates.text;
+        changes.content_plain = updates.text;
+      }
+      if (updates.groupId !== undefined) {
+        changes.group_id = updates.groupId;
+      }
+
+      await this.dbManager.updateNote(id, changes);
+    });
+  }
+
+  deleteNote(id: string) {
+    return this.step(async () => {
+      await this.dbManager.deleteNote(id);
+    });
+  }
+
+  async findNote(id: string) {
+    const notes = await this.rows('notes');
+    return notes.find(note => note.id === id) ?? null;
+  }
+
+  async findGroup(id: string) {
+    const groups = await this.rows('groups');
+    return groups.find(group => group.id === id) ?? null;
+  }
+
+  // Every local row, deleted ones included
+  private async rows(table: 'notes' | 'groups'): Promise<any[]> {
+    const result = await this.executeSql(`SELECT * FROM ${table}`);
+    return result.rows.raw();
+  }
+
+  // Raw SQL against the device's database, e.g. to make a write fail
+  async runSql(sql: string, params: any[] = []): Promise<any[]> {
+    const result = await this.executeSql(sql, params);
+    return result.rows.raw();
+  }
+
+  createBackup() {
+    return this.step(() => this.backupService.createBackup(USER_ID));
+  }
+
+  restoreBackup(backup: BackupData) {
+    return this.step(() => this.backupService.restoreFromBackup(backup));
+  }
+
+  clearUserData() {
+    return this.step(() => this.backupService.clearUserData(USER_ID));
+  }
+
+  async pendingCount(): Promise<number> {
+    return this.dbManager.getSyncQueueSize(USER_ID);
+  }
+
+  async conflicts(): Promise<SyncConflict[]> {
+    return this.syncService.getConflicts(USER_ID);
+  }
+
+  // As the conflict inbox does, merging with the suggested version unless given one
+  resolveConflict(conflict: SyncConflict, resolution: 'local' | 'remote' | 'merge', resolvedVersion?: Note | Group) {
+    return this.step(() => this.syncService.resolveConflict(conflict.id, {
+      localVersion: conflict.localVersion,
+      remoteVersion: conflict.remoteVersion,
+      resolution,
+      resolvedVersion: resolution === 'merge' ? resolvedVersion ?? conflict.mergedVersion : undefined,
+    }));
+  }
+
+  // Newest first
+  async syncRuns() {
+    return this.dbManager.getSyncLog(USER_ID, undefined, 'run');
+  }
+
+  // Synced state only, without local bookkeeping columns
+  async snapshot() {
+    const strip = (row: any) => {
+      const synced = { ...row };
+      delete synced.needs_sync;
+      return synced;
+    };
+    const byId = (a: any, b: any) => a.id.localeCompare(b.id);
+
+    return {
+      groups: (await this.rows('groups')).map(strip).sort(byId),
+      notes: (await this.rows('notes')).map(strip).sort(byId),
+    };
+  }
+
+  async shutdown() {
+    this.syncService.stopPeriodicSync();
+    await this.dbManager.close();
+  }
+}
+
+export class SyncSimulation {
+  // The server keeps true time whichever device's step is running
+  readonly server = new LocalSyncBackend({ userId: USER_ID, clock: () => RealDate.now() });
+  readonly devices: SimulatedDevice[] = [];
+  private SQL: any;
+
+  static async create(deviceCount: number): Promise<SyncSimulation> {
+    const simulation = new SyncSimulation();
+    simulation.SQL = await loadSqlJs();
+
+    for (let index = 0; index < deviceCount; index++) {
+      const device = await SimulatedDevice.create(`device-${index + 1}`, simulation.SQL, simulation.server);
+      await device.goOnline();
+      simulation.devices.push(device);
+    }
+    return simulation;
+  }
+
+  // Sync every device in turn until a whole round starts and ends with nothing
+  // left to push and changes nothing on any device
+  async syncUntilQuiescent(maxRounds = 6): Promise<void> {
+    let before = await this.observe();
+
+    for (let round = 0; round < maxRounds; round++) {
+      for (const device of this.devices) {
+        await device.sync();
+      }
+
+      const after = await this.observe();
+      if (before.pending === 0 && after.pending === 0 && after.state === before.state) {
+        return;
+      }
+      before = after;
+    }
+
+    throw new Error(`Devices did not settle after ${maxRounds} sync rounds`);
+  }
+
+  private async observe() {
+    const pending = await Promise.all(this.devices.map(device => device.pendingCount()));
+    return {
+      pending: pending.reduce((total, count) => total + count, 0),
+      state: JSON.stringify(await this.snapshots()),
+    };
+  }
+
+  // Hard-delete every soft-deleted row, as the server cleanup does once the
+  // retention period has passed
+  async purgeDeleted(): Promise<void> {
+    const later = new RealDate(RealDate.now() + 60 * 1000).toISOString();
+    await this.server.purgeDeleted('notes', USER_ID, later);
+    await this.server.purgeDeleted('groups', USER_ID, later);
+  }
+
+  async snapshots() {
+    return Promise.all(this.devices.map(device => device.snapshot()));
+  }
+
+  async shutdown() {
+    for (const device of this.devices) {
+      await device.shutdown();
+    }
+  }
+}
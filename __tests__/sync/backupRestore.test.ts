@@ -0,0 +1,92 @@
+import { SyncSimulation, installSkewedClock, restoreClock } from '../support/syncHarness';
+
+describe('Backup restore', () => {
+  let simulation: SyncSimulation;
+
+  beforeAll(() => {
+    installSkewedClock();
+  });
+
+  afterAll(() => {
+    restoreClock();
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    await simulation?.shutdown();
+    jest.restoreAllMocks();
+  });
+
+  const pullCursors = (rows: Array<{ key: string; value: string }>) =>
+    rows.filter(row => row.key.startsWith('pullCursor:'));
+
+  it('should pull every row after restoring a backup into an empty database', async () => {
+    simulation = await SyncSimulation.create(2);
+    const [phone, laptop] = simulation.devices;
+    const planId = await phone.createNote('Plan', 'Day one');
+    const tripId = await phone.createNote('Trip', 'Pack');
+    await phone.sync();
+
+    // A backup from a build that copied the sync state along with the settings
+    const backup = await phone.createBackup();
+    const syncState = {
+      'pullCursor:notes': JSON.stringify({ server_updated_at: '2999-01-01T00:00:00.000Z', id: tripId }),
+      'pullCursor:groups': JSON.stringify({ server_updated_at: '2999-01-01T00:00:00.000Z', id: tripId }),
+      snapshotCursors: JSON.stringify({ notes: null, groups: null, tombstones: null }),
+    };
+    await laptop.restoreBackup({ ...backup, settings: { ...backup.settings, ...syncState } });
+
+    expect(pullCursors(await laptop.runSql('SELECT key, value FROM user_settings'))).toEqual([]);
+    expect(await laptop.runSql("SELECT key FROM user_settings WHERE key = 'snapshotCursors'")).toEqual([]);
+
+    await laptop.sync();
+
+    const noteIds = (await laptop.snapshot()).notes.map(note => note.id);
+    expect(noteIds).toEqual(expect.arrayContaining([planId, tripId]));
+  });
+
+  it('should pull everything again after a restore on a device that has synced', async () => {
+    simulation = await SyncSimulation.create(2);
+    const [phone, laptop] = simulation.devices;
+    await phone.createNote('Plan', 'Day one');
+    await simulation.syncUntilQuiescent();
+    expect(pullCursors(await laptop.runSql('SELECT key, value FROM user_settings'))).not.toEqual([]);
+
+    await laptop.restoreBackup(await phone.createBackup());
+
+    expect(pullCursors(await laptop.runSql('SELECT key, value FROM user_settings'))).toEqual([]);
+    await laptop.sync();
+    const [run] = await laptop.syncRuns();
+    // The phone's note and the copy restored from its backup, pushed first
+    expect(run).toEqual(expect.objectContaining({ pushed: 1, pulled: 2, errors: '[]' }));
+  });
+
+  it('should leave no row marked for sync without a queue item after clearing user data', async () => {
+    simulation = await SyncSimulation.create(1);
+    const [phone] = simulation.devices;
+    const planId = await phone.createNote('Plan', 'Day one');
+    const groupId = await phone.createGroup('Trips');
+    await phone.sync();
+
+    // Changes still waiting to be pushed when the data is cleared
+    await phone.editNote(planId, { text: 'Day two' });
+    await phone.createNote('Draft', 'Unsent');
+    await phone.renameGroup(groupId, 'Travel');
+
+    await phone.clearUserData();
+
+    expect(await phone.runSql('SELECT id FROM notes WHERE is_deleted = 0')).toEqual([]);
+    expect(await phone.runSql("SELECT id FROM groups WHERE is_deleted = 0 AND name = 'Travel'")).toEqual([]);
+    expect(await phone.pendingCount()).toBe(0);
+    expect(await phone.runSql('SELECT id FROM notes WHERE needs_sync = 1')).toEqual([]);
+    expect(await phone.runSql('SELECT id FROM groups WHERE needs_sync = 1')).toEqual([]);
+
+    // The clear stays on this device
+    await phone.sync();
+    const remote = await simulation.server.fetchRow('notes', planId);
+    expect(remote).toEqual(expect.objectContaining({ is_deleted: false, content_plain: 'Day one' }));
+  });
+});
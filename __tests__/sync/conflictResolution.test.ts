@@ -0,0 +1,103 @@
+import { SimulatedDevice, SyncSimulation, installSkewedClock, restoreClock } from '../support/syncHarness';
+
+describe('Conflict resolution', () => {
+  let simulation: SyncSimulation;
+
+  beforeAll(() => {
+    installSkewedClock();
+  });
+
+  afterAll(() => {
+    restoreClock();
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    await simulation?.shutdown();
+    jest.restoreAllMocks();
+  });
+
+  const expectConverged = async () => {
+    const [first, ...others] = await simulation.snapshots();
+    others.forEach(snapshot => expect(snapshot).toEqual(first));
+    return first;
+  };
+
+  // Both devices edit the same fields offline. The laptop syncs second, so it
+  // merges and keeps the conflict.
+  const createConflict = async (
+    phoneEdit: { title?: string; text?: string },
+    laptopEdit: { title?: string; text?: string }
+  ) => {
+    simulation = await SyncSimulation.create(2);
+    const [phone, laptop] = simulation.devices;
+    const noteId = await phone.createNote('Draft', 'Text');
+    await simulation.syncUntilQuiescent();
+
+    await phone.goOffline();
+    await laptop.goOffline();
+    await phone.editNote(noteId, phoneEdit);
+    await laptop.editNote(noteId, laptopEdit);
+    await phone.goOnline();
+    await laptop.goOnline();
+    await simulation.syncUntilQuiescent();
+
+    const [conflict] = await laptop.conflicts();
+    return { phone, laptop, noteId, conflict };
+  };
+
+  const expectResolved = async (laptop: SimulatedDevice, expected: Record<string, any>) => {
+    expect(await laptop.conflicts()).toEqual([]);
+    expect(await laptop.pendingCount()).toBe(1);
+
+    await simulation.syncUntilQuiescent();
+    const state = await expectConverged();
+    expect(state.notes[0]).toEqual(expect.objectContaining(expected));
+  };
+
+  it.each([
+    ['local', 'Laptop title'],
+    ['remote', 'Phone title'],
+  ] as const)('should keep the %s title on every device', async (resolution, title) => {
+    const { laptop, noteId, conflict } = await createConflict({ title: 'Phone title' }, { title: 'Laptop title' });
+
+    await laptop.resolveConflict(conflict, resolution);
+
+    expect(await laptop.findNote(noteId)).toEqual(expect.objectContaining({ title, needs_sync: 1 }));
+    await expectResolved(laptop, { title });
+  });
+
+  it('should keep a merged version edited in the inbox on every device', async () => {
+    const { laptop, noteId, conflict } = await createConflict({ title: 'Phone title' }, { title: 'Laptop title' });
+
+    await laptop.resolveConflict(conflict, 'merge', { ...conflict.mergedVersion, title: 'Shared title' } as any);
+
+    expect(await laptop.findNote(noteId)).toEqual(expect.objectContaining({ title: 'Shared title' }));
+    await expectResolved(laptop, { title: 'Shared title' });
+  });
+
+  it('should take the text of the chosen side with its content', async () => {
+    const { laptop, conflict } = await createConflict({ text: 'Phone text' }, { text: 'Laptop text' });
+    expect(conflict.fields).toEqual(['content']);
+
+    await laptop.resolveConflict(conflict, 'remote');
+
+    await expectResolved(laptop, {
+      content: JSON.stringify({ ops: [{ insert: 'Phone text\n' }] }),
+      content_markdown: 'Phone text',
+      content_plain: 'Phone text',
+    });
+  });
+
+  it('should keep edits made after the conflict was recorded', async () => {
+    const { laptop, noteId, conflict } = await createConflict({ title: 'Phone title' }, { title: 'Laptop title' });
+    await laptop.editNote(noteId, { text: 'Text written since' });
+
+    await laptop.resolveConflict(conflict, 'remote');
+
+    await expectResolved(laptop, { title: 'Phone title', content_plain: 'Text written since' });
+  });
+});
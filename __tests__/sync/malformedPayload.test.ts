@@ -0,0 +1,67 @@
+import { SyncSimulation, installSkewedClock, restoreClock } from '../support/syncHarness';
+
+describe('Malformed sync payloads', () => {
+  let simulation: SyncSimulation;
+
+  beforeAll(() => {
+    installSkewedClock();
+  });
+
+  afterAll(() => {
+    restoreClock();
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    await simulation?.shutdown();
+    jest.restoreAllMocks();
+  });
+
+  it('should quarantine a malformed server row and keep the local note', async () => {
+    simulation = await SyncSimulation.create(2);
+    const [phone, laptop] = simulation.devices;
+    const noteId = await phone.createNote('Plan', 'Day one');
+    await phone.sync();
+    await laptop.sync();
+    const before = await laptop.findNote(noteId);
+
+    // Written by a client that skipped validation
+    await simulation.server.updateRow('notes', noteId, { content: 'Day two', version: 2 } as any, 1);
+    await laptop.sync();
+
+    expect(await laptop.findNote(noteId)).toEqual(before);
+    const quarantine = await laptop.runSql('SELECT * FROM sync_quarantine');
+    expect(quarantine).toEqual([
+      expect.objectContaining({
+        table_name: 'notes',
+        record_id: noteId,
+        direction: 'inbound',
+        errors: JSON.stringify(['content: expected object, received string']),
+      }),
+    ]);
+    expect(JSON.parse(quarantine[0].data).content).toBe('Day two');
+  });
+
+  it('should quarantine a corrupted queue item instead of pushing it', async () => {
+    simulation = await SyncSimulation.create(1);
+    const [phone] = simulation.devices;
+    const noteId = await phone.createNote('Plan', 'Day one');
+    await phone.runSql(
+      "UPDATE sync_queue SET data = json_set(data, '$.content', 'not json') WHERE record_id = ?",
+      [noteId]
+    );
+
+    await phone.sync();
+
+    expect(await simulation.server.fetchRow('notes', noteId)).toBeNull();
+    expect(await phone.pendingCount()).toBe(0);
+    const quarantine = await phone.runSql('SELECT * FROM sync_quarantine');
+    expect(quarantine).toEqual([
+      expect.objectContaining({ table_name: 'notes', record_id: noteId, direction: 'outbound' }),
+    ]);
+  });
+});
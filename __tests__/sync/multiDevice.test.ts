@@ -0,0 +1,304 @@
+import { SyncSimulation, installSkewedClock, restoreClock } from '../support/syncHarness';
+import { SYNC_CONFIG } from '../../src/constants';
+
+describe('Multi-device sync', () => {
+  let simulation: SyncSimulation;
+
+  beforeAll(() => {
+    installSkewedClock();
+  });
+
+  afterAll(() => {
+    restoreClock();
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    await simulation?.shutdown();
+    jest.restoreAllMocks();
+  });
+
+  const expectConverged = async () => {
+    const [first, ...others] = await simulation.snapshots();
+    others.forEach(snapshot => expect(snapshot).toEqual(first));
+    return first;
+  };
+
+  it('should spread a note created on one device to the others', async () => {
+    simulation = await SyncSimulation.create(3);
+    const [phone] = simulation.devices;
+
+    const noteId = await phone.createNote('Groceries', 'Milk');
+    await simulation.syncUntilQuiescent();
+
+    const state = await expectConverged();
+    expect(state.notes).toEqual([expect.objectContaining({ id: noteId, title: 'Groceries' })]);
+  });
+
+  it('should log every sync run with what it pushed and pulled', async () => {
+    simulation = await SyncSimulation.create(2);
+    const [phone, laptop] = simulation.devices;
+
+    await phone.createNote('Groceries', 'Milk');
+    await phone.sync();
+    await laptop.sync();
+
+    const [phoneRun] = await phone.syncRuns();
+    const [laptopRun] = await laptop.syncRuns();
+    expect(phoneRun).toEqual(expect.objectContaining({ pushed: 1, conflicts: 0, errors: '[]' }));
+    expect(laptopRun).toEqual(expect.objectContaining({ pushed: 0, pulled: 1 }));
+    expect(laptopRun.duration_ms).toBeGreaterThanOrEqual(0);
+  });
+
+  it('should report progress through the push and pull phases', async () => {
+    simulation = await SyncSimulation.create(2);
+    const [phone, laptop] = simulation.devices;
+
+    for (const title of ['One', 'Two', 'Three']) {
+      await phone.createNote(title, 'Text');
+    }
+    const pushUpdates = await phone.syncWithProgress();
+    const pullUpdates = await laptop.syncWithProgress();
+
+    const lastPush = pushUpdates.filter(progress => progress.phase === 'push').pop();
+    expect(lastPush?.push).toEqual({ done: 3, total: 3 });
+    const lastPull = pullUpdates[pullUpdates.length - 1];
+    expect(lastPull.pull).toEqual({ done: 3, total: 3 });
+    expect(lastPull.bytesTransferred).toBeGreaterThan(0);
+    expect(lastPull.etaMs).toBe(0);
+  });
+
+  it('should resume a cancelled sync where it stopped', async () => {
+    simulation = await SyncSimulation.create(2);
+    const [phone, laptop] = simulation.devices;
+    const noteCount = SYNC_CONFIG.batchSize + 10;
+
+    // The laptop has synced before, so it pulls new notes a page at a time
+    await phone.createNote('First', 'Text');
+    await simulation.syncUntilQuiescent();
+
+    for (let i = 0; i < noteCount; i++) {
+      await phone.createNote(`Note ${i}`, 'Text');
+    }
+    await phone.sync();
+
+    await laptop.syncWithProgress(progress => progress.phase === 'pull' && progress.pull.done > 0);
+
+    // Stopped after the first page, which stays applied. The page starts a
+    // safety window behind the cursor, so it re-reads the note already pulled.
+    expect((await laptop.snapshot()).notes).toHaveLength(SYNC_CONFIG.batchSize);
+    const [cancelledRun] = await laptop.syncRuns();
+    expect(JSON.parse(cancelledRun.errors)).toEqual(['Cancelled before finishing']);
+
+    const updates = await laptop.syncWithProgress();
+    expect(updates[updates.length - 1].pull).toEqual({ done: 11, total: 11 });
+    await expectConverged();
+  });
+
+  it('should keep edits made to different fields while offline', async () => {
+    simulation = await SyncSimulation.create(2);
+    const [phone, laptop] = simulation.devices;
+    const noteId = await phone.createNote('Plan', 'Day one');
+    await simulation.syncUntilQuiescent();
+
+    await phone.goOffline();
+    await laptop.goOffline();
+    await phone.editNote(noteId, { title: 'Trip plan' });
+    await laptop.editNote(noteId, { text: 'Day one\nDay two' });
+    await phone.goOnline();
+    await laptop.goOnline();
+    await simulation.syncUntilQuiescent();
+
+    const state = await expectConverged();
+    expect(state.notes[0]).toEqual(expect.objectContaining({
+      title: 'Trip plan',
+      content_plain: 'Day one\nDay two',
+    }));
+    expect(await laptop.conflicts()).toEqual([]);
+  });
+
+  it('should converge on concurrent edits to the same field and keep the losing edit', async () => {
+    simulation = await SyncSimulation.create(2);
+    const [phone, laptop] = simulation.devices;
+    const noteId = await phone.createNote('Draft', 'Text');
+    await simulation.syncUntilQuiescent();
+
+    await phone.goOffline();
+    await laptop.goOffline();
+    await phone.editNote(noteId, { title: 'Phone title' });
+    await laptop.editNote(noteId, { title: 'Laptop title' });
+    await phone.goOnline();
+    await laptop.goOnline();
+    await simulation.syncUntilQuiescent();
+
+    const state = await expectConverged();
+    const titles = ['Phone title', 'Laptop title'];
+    expect(titles).toContain(state.notes[0].title);
+
+    // Neither edit is lost silently: the device that merged keeps both in its inbox
+    const [conflict] = await laptop.conflicts();
+    expect(conflict.fields).toEqual(['title']);
+    expect([
+      (conflict.localVersion as any).title,
+      (conflict.remoteVersion as any).title,
+    ].sort()).toEqual([...titles].sort());
+  });
+
+  it('should push a small edit to a long note as a patch', async () => {
+    simulation = await SyncSimulation.create(2);
+    const [phone] = simulation.devices;
+    const text = 'A paragraph that nobody touches. '.repeat(500);
+    const noteId = await phone.createNote('Long read', text);
+    await simulation.syncUntilQuiescent();
+
+    const patchNote = jest.spyOn(simulation.server, 'patchNote');
+    const updateRow = jest.spyOn(simulation.server, 'updateRow');
+    await phone.editNote(noteId, { text: `${text}One more line.` });
+    await simulation.syncUntilQuiescent();
+
+    expect(patchNote).toHaveBeenCalledTimes(1);
+    expect(JSON.stringify(patchNote.mock.calls[0][1]).length).toBeLessThan(1000);
+    expect(updateRow).not.toHaveBeenCalled();
+    const state = await expectConverged();
+    expect(state.notes[0].content_plain).toBe(`${text}One more line.`);
+  });
+
+  it('should fall back to a full upload when a patch is made from an outdated version', async () => {
+    simulation = await SyncSimulation.create(2);
+    const [phone, laptop] = simulation.devices;
+    const text = 'Shared paragraph. '.repeat(200);
+    const noteId = await phone.createNote('Shared', text);
+    await simulation.syncUntilQuiescent();
+
+    await laptop.goOffline();
+    await laptop.editNote(noteId, { text: `${text}Laptop line.` });
+    await phone.editNote(noteId, { title: 'Renamed on phone' });
+    await phone.sync();
+    const updateRow = jest.spyOn(simulation.server, 'updateRow');
+    await laptop.goOnline();
+    await simulation.syncUntilQuiescent();
+
+    expect(updateRow).toHaveBeenCalled();
+    const state = await expectConverged();
+    expect(state.notes[0]).toEqual(expect.objectContaining({
+      title: 'Renamed on phone',
+      content_plain: `${text}Laptop line.`,
+    }));
+  });
+
+  it('should propagate a delete made while another device edits', async () => {
+    simulation = await SyncSimulation.create(2);
+    const [phone, laptop] = simulation.devices;
+    const keptId = await phone.createNote('Keep', 'Stays');
+    const deletedId = await phone.createNote('Remove', 'Goes away');
+    await simulation.syncUntilQuiescent();
+
+    await laptop.goOffline();
+    await phone.deleteNote(deletedId);
+    await laptop.editNote(keptId, { text: 'Still here' });
+    await laptop.goOnline();
+    await simulation.syncUntilQuiescent();
+
+    const state = await expectConverged();
+    const byId = Object.fromEntries(state.notes.map((note: any) => [note.id, note]));
+    expect(byId[deletedId].is_deleted).toBe(1);
+    expect(byId[keptId].content_plain).toBe('Still here');
+  });
+
+  it('should delete a note removed while its insert was being pushed', async () => {
+    simulation = await SyncSimulation.create(2);
+    const [phone, laptop] = simulation.devices;
+    const noteId = await phone.createNote('Scratch', 'Throwaway');
+
+    const insertRow = simulation.server.insertRow.bind(simulation.server);
+    jest.spyOn(simulation.server, 'insertRow').mockImplementationOnce(async (table, row) => {
+      await phone.deleteNote(noteId);
+      return insertRow(table, row);
+    });
+    await phone.sync();
+    await simulation.syncUntilQuiescent();
+
+    const state = await expectConverged();
+    expect(state.notes).toEqual([expect.objectContaining({ id: noteId, is_deleted: 1 })]);
+    expect(await simulation.server.fetchRow('notes', noteId)).toEqual(expect.objectContaining({ is_deleted: true }));
+    expect(await laptop.pendingCount()).toBe(0);
+  });
+
+  it('should delete a note on a device that was offline while it was purged', async () => {
+    simulation = await SyncSimulation.create(3);
+    const [phone, laptop, tablet] = simulation.devices;
+    const noteId = await phone.createNote('Old plans', 'Draft');
+    await simulation.syncUntilQuiescent();
+
+    await laptop.goOffline();
+    await tablet.goOffline();
+    await phone.deleteNote(noteId);
+    await phone.sync();
+    await simulation.purgeDeleted();
+
+    // The laptop edits its stale copy; the tablet never touches it
+    await laptop.editNote(noteId, { text: 'Revived?' });
+    await laptop.goOnline();
+    await tablet.goOnline();
+    await simulation.syncUntilQuiescent();
+
+    expect(await simulation.server.fetchRow('notes', noteId)).toBeNull();
+    expect(await laptop.findNote(noteId)).toBeNull();
+    expect(await tablet.findNote(noteId)).toBeNull();
+    expect(await laptop.pendingCount()).toBe(0);
+  });
+
+  it('should converge on group renames from several devices', async () => {
+    simulation = await SyncSimulation.create(3);
+    const [phone, laptop, tablet] = simulation.devices;
+    const groupId = await phone.createGroup('Work');
+    await phone.createNote('Standup', 'Notes', groupId);
+    await simulation.syncUntilQuiescent();
+
+    await laptop.renameGroup(groupId, 'Office');
+    await tablet.createNote('Ideas', 'Later', groupId);
+    await simulation.syncUntilQuiescent();
+
+    const state = await expectConverged();
+    expect(state.groups[0].name).toBe('Office');
+    expect(state.notes).toHaveLength(2);
+  });
+
+  it('should converge when a device clock runs behind', async () => {
+    simulation = await SyncSimulation.create(2);
+    const [phone, laptop] = simulation.devices;
+    laptop.setClockSkew(-60 * 60 * 1000);
+
+    const noteId = await phone.createNote('Shared', 'Start');
+    await simulation.syncUntilQuiescent();
+
+    await laptop.editNote(noteId, { text: 'Edited on a slow clock' });
+    await simulation.syncUntilQuiescent();
+
+    const state = await expectConverged();
+    expect(state.notes[0].content_plain).toBe('Edited on a slow clock');
+  });
+
+  it('should not let a device with a fast clock win edits it made earlier', async () => {
+    simulation = await SyncSimulation.create(2);
+    const [phone, laptop] = simulation.devices;
+    const noteId = await phone.createNote('Agenda', 'Items');
+    laptop.setClockSkew(60 * 60 * 1000);
+    await simulation.syncUntilQuiescent();
+
+    await phone.goOffline();
+    await laptop.goOffline();
+    await laptop.editNote(noteId, { title: 'Earlier title' });
+    await new Promise(resolve => setTimeout(resolve, 20));
+    await phone.editNote(noteId, { title: 'Later title' });
+    await laptop.goOnline();
+    await phone.goOnline();
+    await simulation.syncUntilQuiescent();
+
+    const state = await expectConverged();
+    expect(state.notes[0].title).toBe('Later title');
+  });
+});
@@ -0,0 +1,158 @@
+import { SyncSimulation, USER_ID, installSkewedClock, restoreClock } from '../support/syncHarness';
+
+describe('Selective sync', () => {
+  let simulation: SyncSimulation;
+
+  beforeAll(() => {
+    installSkewedClock();
+  });
+
+  afterAll(() => {
+    restoreClock();
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    await simulation?.shutdown();
+    jest.restoreAllMocks();
+  });
+
+  const serverNote = async (id: string) => {
+    const notes = await simulation.server.pullPage<any>('notes', USER_ID, null, 100);
+    return notes.find(note => note.id === id) ?? null;
+  };
+
+  it('should never push notes in a local-only group', async () => {
+    simulation = await SyncSimulation.create(2);
+    const [phone, laptop] = simulation.devices;
+    const scratchId = await phone.createGroup('Scratch');
+    await phone.setGroupSyncPolicy(scratchId, 'local_only');
+
+    const noteId = await phone.createNote('Draft', 'Not for the cloud', scratchId);
+    await phone.editNote(noteId, { text: 'Still not for the cloud' });
+    await simulation.syncUntilQuiescent();
+
+    expect(await serverNote(noteId)).toBeNull();
+    expect(await laptop.findNote(noteId)).toBeNull();
+    expect(await phone.findNote(noteId)).toEqual(expect.objectContaining({
+      content_plain: 'Still not for the cloud',
+      is_deleted: 0,
+    }));
+  });
+
+  it('should withdraw a synced group from other devices and keep it locally', async () => {
+    simulation = await SyncSimulation.create(2);
+    const [phone, laptop] = simulation.devices;
+    const groupId = await phone.createGroup('Journal');
+    const noteId = await phone.createNote('Day one', 'Private', groupId);
+    await simulation.syncUntilQuiescent();
+    expect(await laptop.findNote(noteId)).not.toBeNull();
+
+    await phone.setGroupSyncPolicy(groupId, 'local_only');
+    await phone.editNote(noteId, { text: 'More private' });
+    await simulation.syncUntilQuiescent();
+
+    expect(await laptop.findNote(noteId)).toEqual(expect.objectContaining({ is_deleted: 1 }));
+    expect(await laptop.findGroup(groupId)).toEqual(expect.objectContaining({ is_deleted: 1 }));
+    expect((await serverNote(noteId)).content_plain).toBe('Private');
+    expect(await phone.findNote(noteId)).toEqual(expect.objectContaining({
+      content_plain: 'More private',
+      is_deleted: 0,
+    }));
+    expect(await phone.findGroup(groupId)).toEqual(expect.objectContaining({
+      is_deleted: 0,
+      sync_policy: 'local_only',
+    }));
+  });
+
+  it('should share a group again after it was withdrawn', async () => {
+    simulation = await SyncSimulation.create(2);
+    const [phone, laptop] = simulation.devices;
+    const groupId = await phone.createGroup('Recipes');
+    const noteId = await phone.createNote('Bread', 'Flour', groupId);
+    await simulation.syncUntilQuiescent();
+
+    await phone.setGroupSyncPolicy(groupId, 'local_only');
+    await simulation.syncUntilQuiescent();
+    await phone.editNote(noteId, { text: 'Flour, water' });
+    await phone.setGroupSyncPolicy(groupId, 'sync');
+    await simulation.syncUntilQuiescent();
+
+    const [phoneState, laptopState] = await simulation.snapshots();
+    expect(laptopState).toEqual(phoneState);
+    expect(await laptop.findNote(noteId)).toEqual(expect.objectContaining({
+      content_plain: 'Flour, water',
+      is_deleted: 0,
+    }));
+  });
+
+  it('should share a group again after the server purged it', async () => {
+    simulation = await SyncSimulation.create(2);
+    const [phone, laptop] = simulation.devices;
+    const groupId = await phone.createGroup('Recipes');
+    const noteId = await phone.createNote('Bread', 'Flour', groupId);
+    await simulation.syncUntilQuiescent();
+
+    await phone.setGroupSyncPolicy(groupId, 'local_only');
+    await simulation.syncUntilQuiescent();
+    await simulation.purgeDeleted();
+    await simulation.syncUntilQuiescent();
+    expect(await laptop.findNote(noteId)).toBeNull();
+
+    await phone.setGroupSyncPolicy(groupId, 'sync');
+    await simulation.syncUntilQuiescent();
+
+    expect(await serverNote(noteId)).toEqual(expect.objectContaining({ is_deleted: false }));
+    expect(await laptop.findNote(noteId)).toEqual(expect.objectContaining({ is_deleted: 0 }));
+  });
+
+  it('should insert or withdraw a note moved across a local-only boundary', async () => {
+    simulation = await SyncSimulation.create(2);
+    const [phone, laptop] = simulation.devices;
+    const sharedId = await phone.createGroup('Shared');
+    const scratchId = await phone.createGroup('Scratch');
+    await phone.setGroupSyncPolicy(scratchId, 'local_only');
+    const noteId = await phone.createNote('Idea', 'Half formed', scratchId);
+    await simulation.syncUntilQuiescent();
+    expect(await laptop.findNote(noteId)).toBeNull();
+
+    await phone.moveNote(noteId, sharedId);
+    await simulation.syncUntilQuiescent();
+    expect(await laptop.findNote(noteId)).toEqual(expect.objectContaining({
+      group_id: sharedId,
+      is_deleted: 0,
+    }));
+
+    await phone.moveNote(noteId, scratchId);
+    await simulation.syncUntilQuiescent();
+    expect(await laptop.findNote(noteId)).toEqual(expect.objectContaining({ is_deleted: 1 }));
+    expect(await phone.findNote(noteId)).toEqual(expect.objectContaining({
+      group_id: scratchId,
+      is_deleted: 0,
+    }));
+  });
+
+  it('should withdraw a note edited into a local-only group', async () => {
+    simulation = await SyncSimulation.create(2);
+    const [phone, laptop] = simulation.devices;
+    const sharedId = await phone.createGroup('Shared');
+    const scratchId = await phone.createGroup('Scratch');
+    await phone.setGroupSyncPolicy(scratchId, 'local_only');
+    const noteId = await phone.createNote('Idea', 'Half formed', sharedId);
+    await simulation.syncUntilQuiescent();
+
+    await phone.editNote(noteId, { title: 'Private idea', groupId: scratchId });
+    await simulation.syncUntilQuiescent();
+
+    expect(await serverNote(noteId)).toEqual(expect.objectContaining({ title: 'Idea', is_deleted: true }));
+    expect(await laptop.findNote(noteId)).toEqual(expect.objectContaining({ is_deleted: 1 }));
+    expect(await phone.findNote(noteId)).toEqual(expect.objectContaining({
+      title: 'Private idea',
+      group_id: scratchId,
+      is_deleted: 0,
+    }));
+  });
+});
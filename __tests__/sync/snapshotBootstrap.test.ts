@@ -0,0 +1,88 @@
+import { SyncSimulation, installSkewedClock, restoreClock } from '../support/syncHarness';
+import { SYNC_CONFIG } from '../../src/constants';
+import { rewindCursor } from '../../src/services/SyncBackend';
+
+describe('Snapshot bootstrap', () => {
+  let simulation: SyncSimulation;
+
+  beforeAll(() => {
+    installSkewedClock();
+  });
+
+  afterAll(() => {
+    restoreClock();
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    await simulation?.shutdown();
+    jest.restoreAllMocks();
+  });
+
+  it('should load a new device from one snapshot and then pull incrementally', async () => {
+    simulation = await SyncSimulation.create(2);
+    const [phone, laptop] = simulation.devices;
+    const groupId = await phone.createGroup('Work');
+    const noteId = await phone.createNote('Plan', 'Day one', groupId);
+    await phone.sync();
+
+    const fetchSnapshot = jest.spyOn(simulation.server, 'fetchSnapshot');
+    const pullPage = jest.spyOn(simulation.server, 'pullPage');
+    await laptop.sync();
+
+    expect(fetchSnapshot).toHaveBeenCalledTimes(1);
+    // The pulls after the snapshot start a safety window behind its cursors and
+    // find nothing new
+    const { cursors } = await fetchSnapshot.mock.results[0].value;
+    expect(pullPage).toHaveBeenCalledWith(
+      'notes',
+      expect.any(String),
+      rewindCursor(cursors.notes, SYNC_CONFIG.pullSafetyWindow),
+      expect.any(Number)
+    );
+    expect(await laptop.snapshot()).toEqual(await phone.snapshot());
+    const [run] = await laptop.syncRuns();
+    expect(run).toEqual(expect.objectContaining({ pulled: 2, errors: '[]' }));
+
+    await phone.editNote(noteId, { title: 'Trip plan' });
+    await phone.sync();
+    await laptop.sync();
+
+    expect(fetchSnapshot).toHaveBeenCalledTimes(1);
+    expect((await laptop.findNote(noteId))?.title).toBe('Trip plan');
+  });
+
+  it('should load a staged snapshot again after an interrupted load without downloading it again', async () => {
+    simulation = await SyncSimulation.create(2);
+    const [phone, laptop] = simulation.devices;
+    for (const title of ['One', 'Two', 'Three']) {
+      await phone.createNote(title, 'Text');
+    }
+    await phone.sync();
+
+    const fetchSnapshot = jest.spyOn(simulation.server, 'fetchSnapshot');
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    await laptop.runSql(`
+      CREATE TRIGGER interrupt_load BEFORE INSERT ON notes
+      BEGIN SELECT RAISE(ABORT, 'interrupted'); END
+    `);
+    await laptop.sync();
+
+    // The load rolled back as a whole: no rows, and the dropped indexes are back
+    expect((await laptop.snapshot()).notes).toEqual([]);
+    const indexes = await laptop.runSql(
+      "SELECT name FROM sqlite_master WHERE type = 'index' AND name = 'idx_notes_user_id'"
+    );
+    expect(indexes).toHaveLength(1);
+
+    await laptop.runSql('DROP TRIGGER interrupt_load');
+    await laptop.sync();
+
+    expect(fetchSnapshot).toHaveBeenCalledTimes(1);
+    expect(await laptop.snapshot()).toEqual(await phone.snapshot());
+    expect(await laptop.runSql('SELECT * FROM sync_snapshot')).toEqual([]);
+  });
+});
@@ -0,0 +1,22 @@
+import { getServerNow, measureClockSkew, setClockSkew } from '../../src/utils/clockUtils';
+
+describe('clockUtils', () => {
+  afterEach(() => {
+    setClockSkew(0);
+  });
+
+  it('should measure skew against the middle of the round trip', () => {
+    const sentAt = Date.parse('2024-01-01T00:05:00.000Z');
+    const receivedAt = sentAt + 400;
+    const serverTime = Date.parse('2024-01-01T00:00:00.000Z');
+
+    expect(measureClockSkew(sentAt, serverTime, receivedAt)).toBe(5 * 60 * 1000 + 200);
+  });
+
+  it('should correct the current time by the measured skew', () => {
+    setClockSkew(60 * 1000);
+
+    const drift = Date.now() - 60 * 1000 - getServerNow().getTime();
+    expect(Math.abs(drift)).toBeLessThan(50);
+  });
+});
@@ -0,0 +1,38 @@
+import { decryptText, encryptText, generateKey, unwrapKey, wrapKey } from '../../src/utils/cryptoUtils';
+
+describe('cryptoUtils', () => {
+  it('should encrypt text that only the same key decrypts', () => {
+    const key = generateKey();
+    const text = 'Client call notes, café ☕ and 🚀';
+
+    const sealed = encryptText(key, text);
+
+    expect(sealed).not.toContain('Client');
+    expect(decryptText(key, sealed)).toBe(text);
+    expect(() => decryptText(generateKey(), sealed)).toThrow();
+  });
+
+  it('should give the same text a different ciphertext each time', () => {
+    const key = generateKey();
+
+    expect(encryptText(key, 'Plan')).not.toBe(encryptText(key, 'Plan'));
+  });
+
+  it('should refuse a ciphertext that was altered', () => {
+    const key = generateKey();
+    const sealed = atob(encryptText(key, 'Plan'));
+    const last = sealed.charCodeAt(sealed.length - 1);
+    const altered = btoa(sealed.slice(0, -1) + String.fromCharCode(last === 0 ? 1 : last - 1));
+
+    expect(() => decryptText(key, altered)).toThrow();
+  });
+
+  it('should unwrap the data key with the passphrase only', async () => {
+    const dataKey = generateKey();
+
+    const wrapped = await wrapKey(dataKey, 'correct horse');
+
+    expect(await unwrapKey(wrapped, 'correct horse')).toEqual(dataKey);
+    expect(await unwrapKey(wrapped, 'wrong horse')).toBeNull();
+  });
+});
@@ -0,0 +1,162 @@
+import { mergeDeltas, mergeNotes, mergeGroups } from '../../src/utils/mergeUtils';
+import { Note, Group } from '../../src/types';
+
+const makeNote = (overrides: Partial<Note> = {}): Note => ({
+  id: 'note-1',
+  title: 'Base title',
+  content: { ops: [{ insert: 'Hello world\n' }] },
+  content_markdown: 'Hello world',
+  content_plain: 'Hello world',
+  group_id: 'group-1',
+  user_id: 'user-123',
+  created_at: '2024-01-01T00:00:00.000Z',
+  updated_at: '2024-01-01T00:00:00.000Z',
+  version: 1,
+  is_deleted: false,
+  deleted_at: null,
+  ...overrides,
+});
+
+const makeGroup = (overrides: Partial<Group> = {}): Group => ({
+  id: 'group-1',
+  name: 'Work',
+  color: '#3b82f6',
+  user_id: 'user-123',
+  created_at: '2024-01-01T00:00:00.000Z',
+  updated_at: '2024-01-01T00:00:00.000Z',
+  version: 1,
+  is_deleted: false,
+  ...overrides,
+});
+
+describe('mergeUtils', () => {
+  describe('mergeDeltas', () => {
+    it('should merge edits to different parts of the document', () => {
+      const base = { ops: [{ insert: 'Hello world\n' }] };
+      const local = { ops: [{ insert: 'Hello brave world\n' }] };
+      const remote = { ops: [{ insert: 'Hello world!\n' }] };
+
+      const merged = mergeDeltas(base, local, remote);
+
+      expect(merged).toEqual({ ops: [{ insert: 'Hello brave world!\n' }] });
+    });
+
+    it('should merge formatting and text edits', () => {
+      const base = { ops: [{ insert: 'Hello world\n' }] };
+      const local = {
+        ops: [{ insert: 'Hello', attributes: { bold: true } }, { insert: ' world\n' }],
+      };
+      const remote = { ops: [{ insert: 'Hello world, again\n' }] };
+
+      const merged = mergeDeltas(base, local, remote);
+
+      expect(merged).toEqual({
+        ops: [
+          { insert: 'Hello', attributes: { bold: true } },
+          { insert: ' world, again\n' },
+        ],
+      });
+    });
+
+    it('should return null for overlapping edits', () => {
+      const base = { ops: [{ insert: 'Hello world\n' }] };
+      const local = { ops: [{ insert: 'Hello there\n' }] };
+      const remote = { ops: [{ insert: 'Hello everyone\n' }] };
+
+      expect(mergeDeltas(base, local, remote)).toBeNull();
+    });
+
+    it('should return null for inserts at the same position', () => {
+      const base = { ops: [{ insert: 'Hello\n' }] };
+      const local = { ops: [{ insert: 'Hello A\n' }] };
+      const remote = { ops: [{ insert: 'Hello B\n' }] };
+
+      expect(mergeDeltas(base, local, remote)).toBeNull();
+    });
+  });
+
+  describe('mergeNotes', () => {
+    it('should keep a local title edit alongside a remote content edit', () => {
+      const base = makeNote();
+      const local = makeNote({ title: 'Offline title', version: 2 });
+      const remote = makeNote({
+        content: { ops: [{ insert: 'Hello world, from another device\n' }] },
+        content_plain: 'Hello world, from another device',
+        updated_at: '2024-01-02T00:00:00.000Z',
+        version: 2,
+      });
+
+      const { merged, conflicts, hasLocalChanges } = mergeNotes(base, local, remote);
+
+      expect(conflicts).toEqual([]);
+      expect(hasLocalChanges).toBe(true);
+      expect(merged.title).toBe('Offline title');
+      expect(merged.content).toEqual(remote.content);
+      expect(merged.version).toBe(3);
+    });
+
+    it('should merge non-overlapping content edits and rebuild derived text', () => {
+      const base = makeNote();
+      const local = makeNote({ content: { ops: [{ insert: 'Oh, Hello world\n' }] } });
+      const remote = makeNote({ content: { ops: [{ insert: 'Hello world!\n' }] } });
+
+      const { merged, conflicts } = mergeNotes(base, local, remote);
+
+      expect(conflicts).toEqual([]);
+      expect(merged.content).toEqual({ ops: [{ insert: 'Oh, Hello world!\n' }] });
+      expect(merged.content_plain).toBe('Oh, Hello world!');
+    });
+
+    it('should report overlapping edits as conflicts', () => {
+      const base = makeNote();
+      const local = makeNote({
+        title: 'Local title',
+        updated_at: '2024-01-03T00:00:00.000Z',
+      });
+      const remote = makeNote({
+        title: 'Remote title',
+        updated_at: '2024-01-02T00:00:00.000Z',
+      });
+
+      const { merged, conflicts } = mergeNotes(base, local, remote);
+
+      expect(conflicts).toEqual(['title']);
+      expect(merged.title).toBe('Local title');
+    });
+
+    it('should take the remote version when there are no local edits', () => {
+      const base = makeNote();
+      const remote = makeNote({ title: 'Remote title', group_id: 'group-2', version: 2 });
+
+      const { merged, conflicts, hasLocalChanges } = mergeNotes(base, base, remote);
+
+      expect(conflicts).toEqual([]);
+      expect(hasLocalChanges).toBe(false);
+      expect(merged).toEqual(remote);
+    });
+
+    it('should treat every differing field as a conflict without a base', () => {
+      const local = makeNote({ title: 'Local title' });
+      const remote = makeNote({ group_id: 'group-2' });
+
+      const { conflicts } = mergeNotes(null, local, remote);
+
+      expect(conflicts).toEqual(['title', 'group_id']);
+    });
+  });
+
+  describe('mergeGroups', () => {
+    it('should merge independent name and color edits', () => {
+      const base = makeGroup();
+      const local = makeGroup({ name: 'Office' });
+      const remote = makeGroup({ color: '#ef4444' });
+
+      const { merged, conflicts, hasLocalChanges } = mergeGroups(base, local, remote);
+
+      expect(conflicts).toEqual([]);
+      expect(hasLocalChanges).toBe(true);
+      expect(merged.name).toBe('Office');
+      expect(merged.color).toBe('#ef4444');
+    });
+  });
+});
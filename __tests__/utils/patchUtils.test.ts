@@ -0,0 +1,64 @@
+import { applyNotePatch, applyTextSplice, createNotePatch, diffText } from '../../src/utils/patchUtils';
+import { Note } from '../../src/types';
+
+const paragraph = 'Northern lights over the fjord, seen from the cabin window. ';
+
+const makeNote = (text: string, overrides: Partial<Note> = {}): Note => ({
+  id: 'note-1',
+  title: 'Journal',
+  content: { ops: [{ insert: 'Journal', attributes: { bold: true } }, { insert: `\n${text}\n` }] },
+  content_markdown: `**Journal**\n${text}`,
+  content_plain: `Journal\n${text}`,
+  group_id: null,
+  user_id: 'user-123',
+  created_at: '2024-01-01T00:00:00.000Z',
+  updated_at: '2024-01-01T00:00:00.000Z',
+  version: 4,
+  is_deleted: false,
+  deleted_at: null,
+  ...overrides,
+});
+
+describe('patchUtils', () => {
+  it.each([
+    ['hello world', 'hello brave world'],
+    ['hello world', 'hello'],
+    ['', 'new text'],
+    ['aaaa', 'aaaaa'],
+    ['same', 'same'],
+  ])('should splice %p into %p', (before, after) => {
+    const splice = diffText(before, after);
+
+    expect(splice === null ? before : applyTextSplice(before, splice)).toBe(after);
+  });
+
+  it('should rebuild the edited note from its base and the patch', () => {
+    const base = makeNote(paragraph.repeat(50));
+    const edited = makeNote(paragraph.repeat(25) + 'Aurora! ' + paragraph.repeat(25), {
+      title: 'Journal entry',
+      updated_at: '2024-01-02T00:00:00.000Z',
+      version: 5,
+    });
+
+    const patch = createNotePatch(base, edited)!;
+
+    expect(patch.base_version).toBe(4);
+    expect(JSON.stringify(patch).length).toBeLessThan(JSON.stringify(edited.content).length);
+    expect(applyNotePatch(base, patch)).toEqual(edited);
+  });
+
+  it('should leave unchanged content out of the patch', () => {
+    const base = makeNote(paragraph.repeat(10));
+    const patch = createNotePatch(base, { ...base, title: 'Renamed', version: 5 })!;
+
+    expect(patch.content).toBeUndefined();
+    expect(patch.content_markdown).toBeUndefined();
+    expect(patch.values).toEqual(expect.objectContaining({ title: 'Renamed', version: 5 }));
+  });
+
+  it('should not patch a note whose content was replaced wholesale', () => {
+    const base = makeNote('Short draft');
+
+    expect(createNotePatch(base, makeNote('Completely different words'))).toBeNull();
+  });
+});
@@ -0,0 +1,94 @@
+import {
+  array,
+  nullable,
+  number,
+  object,
+  string,
+  quillDeltaSchema,
+  tombstoneSchema,
+  validateSyncRow,
+} from '../../src/utils/schemaUtils';
+import { Group, Note } from '../../src/types';
+
+const makeNote = (overrides: Record<string, unknown> = {}): Note => ({
+  id: 'note-1',
+  title: 'Journal',
+  content: { ops: [{ insert: 'Journal', attributes: { bold: true } }, { insert: '\nDay one\n' }] },
+  content_markdown: '**Journal**\nDay one',
+  content_plain: 'Journal\nDay one',
+  group_id: null,
+  user_id: 'user-123',
+  created_at: '2024-01-01T00:00:00.000Z',
+  updated_at: '2024-01-01T00:00:00.000Z',
+  server_updated_at: '2024-01-01T00:00:01.000Z',
+  version: 4,
+  is_deleted: false,
+  deleted_at: null,
+  ...overrides,
+} as Note);
+
+const makeGroup = (overrides: Record<string, unknown> = {}): Group => ({
+  id: 'group-1',
+  name: 'Work',
+  color: '#3b82f6',
+  user_id: 'user-123',
+  created_at: '2024-01-01T00:00:00.000Z',
+  updated_at: '2024-01-01T00:00:00.000Z',
+  version: 1,
+  is_deleted: false,
+  ...overrides,
+} as Group);
+
+describe('schemaUtils', () => {
+  it('should report every problem with its path', () => {
+    const schema = object<{ name: string; tags: string[]; parent: { id: number } | null }>({
+      name: string(),
+      tags: array(string()),
+      parent: nullable(object({ id: number({ integer: true }) })),
+    });
+
+    expect(schema.safeParse({ name: 'Work', tags: ['a'], parent: null })).toEqual({
+      success: true,
+      data: { name: 'Work', tags: ['a'], parent: null },
+    });
+    expect(schema.safeParse({ tags: ['a', 2], parent: { id: 1.5 } })).toEqual({
+      success: false,
+      errors: [
+        'name: expected string, received undefined',
+        'tags[1]: expected string, received number',
+        'parent.id: expected an integer',
+      ],
+    });
+  });
+
+  it('should accept rows from the server and rows about to be pushed', () => {
+    expect(validateSyncRow('notes', makeNote())).toEqual([]);
+    expect(validateSyncRow('notes', makeNote({ server_updated_at: undefined }))).toEqual([]);
+    expect(validateSyncRow('groups', makeGroup({ is_deleted: true }))).toEqual([]);
+  });
+
+  it.each([
+    [{ content: '{"ops":[]}' }, 'content: expected object, received string'],
+    [{ content: { ops: [{ insert: 'a', delete: 1 }] } }, 'content.ops[0]: expected exactly one of insert, delete, retain'],
+    [{ content: { ops: [{ retain: -1 }] } }, 'content.ops[0].retain: expected at least 1'],
+    [{ version: 0 }, 'version: expected at least 1'],
+    [{ is_deleted: 1 }, 'is_deleted: expected boolean, received number'],
+    [{ updated_at: 'yesterday' }, 'updated_at: expected an ISO timestamp'],
+    [{ id: '' }, 'id: expected at least 1 character(s)'],
+  ])('should reject a note with %p', (overrides, error) => {
+    expect(validateSyncRow('notes', makeNote(overrides))).toEqual([error]);
+  });
+
+  it('should reject payloads that are not rows', () => {
+    expect(validateSyncRow('groups', null)).toEqual(['value: expected object, received null']);
+    expect(quillDeltaSchema.safeParse([]).success).toBe(false);
+    expect(tombstoneSchema.safeParse({
+      id: 'note-1',
+      table_name: 'sync_queue',
+      user_id: 'user-123',
+      version: 2,
+      deleted_at: '2024-01-01T00:00:00.000Z',
+      server_updated_at: '2024-01-01T00:00:00.000Z',
+    })).toEqual({ success: false, errors: ['table_name: expected one of notes, groups'] });
+  });
+});
@@ -0,0 +1,99 @@
+import {
+  buildSnippet,
+  findMatches,
+  parseSearchQuery,
+  toFtsQuery,
+} from '../../src/utils/searchUtils';
+
+describe('searchUtils', () => {
+  describe('parseSearchQuery', () => {
+    it('should parse words, prefixes, phrases and exclusions', () => {
+      expect(parseSearchQuery('north* "northern star" -draft sailing')).toEqual([
+        { text: 'north', prefix: true, phrase: false, exclude: false },
+        { text: 'northern star', prefix: false, phrase: true, exclude: false },
+        { text: 'draft', prefix: false, phrase: false, exclude: true },
+        { text: 'sailing', prefix: false, phrase: false, exclude: false },
+      ]);
+    });
+
+    it('should drop punctuation around words and terms with no word in them', () => {
+      expect(parseSearchQuery('hello, (world) - "" *')).toEqual([
+        { text: 'hello', prefix: false, phrase: false, exclude: false },
+        { text: 'world', prefix: false, phrase: false, exclude: false },
+      ]);
+    });
+
+    it('should treat an unclosed quote as a phrase to the end', () => {
+      expect(parseSearchQuery('"northern star')).toEqual([
+        { text: 'northern star', prefix: false, phrase: true, exclude: false },
+      ]);
+    });
+  });
+
+  describe('toFtsQuery', () => {
+    it('should quote every term so none is read as FTS5 syntax', () => {
+      expect(toFtsQuery(parseSearchQuery('north* say"hi -draft -OR'))).toBe(
+        '("north"* AND "say""hi") NOT "draft" NOT "OR"'
+      );
+    });
+
+    it('should return null when nothing is included', () => {
+      expect(toFtsQuery(parseSearchQuery('-draft'))).toBeNull();
+      expect(toFtsQuery([])).toBeNull();
+    });
+  });
+
+  describe('findMatches', () => {
+    const text = 'The Northern star, north of Northumberland';
+
+    it('should find whole words regardless of case', () => {
+      expect(findMatches(text, 'content', parseSearchQuery('north'))).toEqual([
+        { field: 'content', text: 'north', start: 19, end: 24 },
+      ]);
+    });
+
+    it('should extend prefixes to the end of the word', () => {
+      expect(findMatches(text, 'title', parseSearchQuery('north*')).map(match => match.text)).toEqual([
+        'Northern',
+        'north',
+        'Northumberland',
+      ]);
+    });
+
+    it('should match phrases and ignore excluded terms', () => {
+      expect(findMatches(text, 'content', parseSearchQuery('"northern star" -north'))).toEqual([
+        { field: 'content', text: 'Northern star', start: 4, end: 17 },
+      ]);
+    });
+
+    it('should keep the longer of two overlapping matches', () => {
+      expect(findMatches(text, 'content', parseSearchQuery('star "northern star"'))).toEqual([
+        { field: 'content', text: 'Northern star', start: 4, end: 17 },
+      ]);
+    });
+  });
+
+  describe('buildSnippet', () => {
+    it('should mark every match around the first one', () => {
+      const text = 'Plot a course by the northern star and keep the star ahead';
+
+      expect(buildSnippet(text, findMatches(text, 'content', parseSearchQuery('star')))).toBe(
+        'Plot a course by the northern <mark>star</mark> and keep the <mark>star</mark> ahead'
+      );
+    });
+
+    it('should trim long text to the context around the first match', () => {
+      const text = `${'a '.repeat(50)}star${' b'.repeat(50)}`;
+      const snippet = buildSnippet(text, findMatches(text, 'content', parseSearchQuery('star')));
+
+      expect(snippet.startsWith('…')).toBe(true);
+      expect(snippet.endsWith('…')).toBe(true);
+      expect(snippet).toContain('<mark>star</mark>');
+    });
+
+    it('should show the start of the text when nothing matched', () => {
+      expect(buildSnippet('Short note', [])).toBe('Short note');
+      expect(buildSnippet('x'.repeat(100), [])).toBe(`${'x'.repeat(80)}…`);
+    });
+  });
+});
@@ -0,0 +1,72 @@
+import {
+  DEFAULT_SYNC_PREFERENCES,
+  SyncConditions,
+  getSyncSchedule,
+} from '../../src/utils/syncScheduleUtils';
+import { SYNC_CONFIG } from '../../src/constants';
+
+const wifi: SyncConditions = {
+  isConnected: true,
+  connectionType: 'wifi',
+  isExpensive: false,
+  appState: 'active',
+};
+
+const cellular: SyncConditions = { ...wifi, connectionType: 'cellular', isExpensive: true };
+
+describe('syncScheduleUtils', () => {
+  it('should sync at the normal pace on Wi-Fi', () => {
+    expect(getSyncSchedule(wifi, DEFAULT_SYNC_PREFERENCES)).toEqual({
+      mode: 'unmetered',
+      intervalMs: SYNC_CONFIG.syncInterval,
+      batchSize: SYNC_CONFIG.batchSize,
+      maxNoteSize: null,
+      reason: null,
+    });
+  });
+
+  it('should slow down in the background', () => {
+    const schedule = getSyncSchedule({ ...wifi, appState: 'background' }, DEFAULT_SYNC_PREFERENCES);
+
+    expect(schedule.intervalMs).toBe(SYNC_CONFIG.backgroundSyncInterval);
+  });
+
+  it('should sync less often in smaller batches on cellular', () => {
+    const schedule = getSyncSchedule(cellular, DEFAULT_SYNC_PREFERENCES);
+
+    expect(schedule.mode).toBe('metered');
+    expect(schedule.intervalMs).toBe(SYNC_CONFIG.meteredSyncInterval);
+    expect(schedule.batchSize).toBe(SYNC_CONFIG.meteredBatchSize);
+    expect(schedule.maxNoteSize).toBeNull();
+  });
+
+  it('should treat expensive Wi-Fi as metered', () => {
+    const schedule = getSyncSchedule({ ...wifi, isExpensive: true }, DEFAULT_SYNC_PREFERENCES);
+
+    expect(schedule.mode).toBe('metered');
+  });
+
+  it('should hold back large notes on cellular when asked to', () => {
+    const schedule = getSyncSchedule(cellular, {
+      ...DEFAULT_SYNC_PREFERENCES,
+      syncLargeNotesOnWifiOnly: true,
+    });
+
+    expect(schedule.maxNoteSize).toBe(SYNC_CONFIG.largeNoteSize);
+    expect(schedule.reason).not.toBeNull();
+  });
+
+  it('should pause background sync on cellular only while in the background', () => {
+    const preferences = { ...DEFAULT_SYNC_PREFERENCES, pauseBackgroundSyncOnCellular: true };
+
+    expect(getSyncSchedule({ ...cellular, appState: 'background' }, preferences).mode).toBe('paused');
+    expect(getSyncSchedule(cellular, preferences).mode).toBe('metered');
+    expect(getSyncSchedule({ ...wifi, appState: 'background' }, preferences).mode).toBe('unmetered');
+  });
+
+  it('should report offline when disconnected', () => {
+    const schedule = getSyncSchedule({ ...wifi, isConnected: false }, DEFAULT_SYNC_PREFERENCES);
+
+    expect(schedule.mode).toBe('offline');
+  });
+});
@@ -2,6 +2,8 @@
  * @format
  */
 
+// Random keys and nonces for encrypted databases; must load before anything uses them
+import 'react-native-get-random-values';
 import {AppRegistry} from 'react-native';
 import App from './App';
 import {name as appName} from './app.json';
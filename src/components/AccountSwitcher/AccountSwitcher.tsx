@@ -0,0 +1,400 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  ScrollView,
+  Modal,
+} from 'react-native';
+import { useTheme } from '../../hooks/useTheme';
+import { useAccounts } from '../../hooks/useAccounts';
+import { commonStyles } from '../../theme';
+import { formatDateTime } from '../../utils/dataUtils';
+import { Account } from '../../types';
+
+interface AccountSwitcherProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+export const AccountSwitcher: React.FC<AccountSwitcherProps> = ({
+  visible,
+  onClose,
+}) => {
+  const theme = useTheme();
+  const {
+    accounts,
+    activeAccount,
+    isSwitching,
+    switchAccount,
+    signIn,
+    encryptNotes,
+    changePassphrase,
+    removeAccount,
+  } = useAccounts();
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [passphrase, setPassphrase] = useState('');
+
+  const handleSwitch = async (account: Account) => {
+    if (account.userId === activeAccount?.userId) {
+      return;
+    }
+
+    try {
+      await switchAccount(account.userId, account.encrypted ? passphrase : undefined);
+      setPassphrase('');
+      onClose();
+    } catch (error) {
+      console.error('Failed to switch account:', error);
+      Alert.alert(
+        'Error',
+        error instanceof Error ? error.message : 'Failed to switch account'
+      );
+    }
+  };
+
+  const handleSignIn = async () => {
+    if (!email.trim() || !password) {
+      Alert.alert('Error', 'Enter an email and password');
+      return;
+    }
+
+    try {
+      await signIn(email.trim(), password, passphrase || undefined);
+      setEmail('');
+      setPassword('');
+      setPassphrase('');
+      onClose();
+    } catch (error) {
+      console.error('Failed to sign in:', error);
+      Alert.alert(
+        'Error',
+        error instanceof Error ? error.message : 'Failed to sign in'
+      );
+    }
+  };
+
+  const handleEncrypt = () => {
+    if (!passphrase) {
+      Alert.alert('Error', 'Enter a passphrase');
+      return;
+    }
+
+    if (activeAccount?.encrypted) {
+      performEncrypt(() => changePassphrase(passphrase), 'Passphrase changed');
+      return;
+    }
+
+    Alert.alert(
+      'Encrypt Notes',
+      'Your notes on this device will only open with this passphrase. It cannot be recovered if you forget it.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Encrypt',
+          onPress: () => performEncrypt(() => encryptNotes(passphrase), 'Notes encrypted'),
+        },
+      ]
+    );
+  };
+
+  const performEncrypt = async (change: () => Promise<unknown>, message: string) => {
+    try {
+      await change();
+      setPassphrase('');
+      Alert.alert('Success', message);
+    } catch (error) {
+      console.error('Failed to encrypt notes:', error);
+      Alert.alert(
+        'Error',
+        error instanceof Error ? error.message : 'Failed to encrypt notes'
+      );
+    }
+  };
+
+  const handleRemove = (account: Account) => {
+    Alert.alert(
+      'Remove Account',
+      `This signs ${account.email} out of this device and deletes its local notes. Changes not synced yet will be lost.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: () => performRemove(account),
+        },
+      ]
+    );
+  };
+
+  const performRemove = async (account: Account) => {
+    try {
+      await removeAccount(account.userId);
+    } catch (error) {
+      console.error('Failed to remove account:', error);
+      Alert.alert('Error', 'Failed to remove the account');
+    }
+  };
+
+  const renderAccount = (account: Account) => {
+    const isActive = account.userId === activeAccount?.userId;
+
+    return (
+      <View
+        key={account.userId}
+        style={[styles.account, { borderBottomColor: theme.colors.border }]}
+      >
+        <TouchableOpacity
+          style={styles.accountInfo}
+          onPress={() => handleSwitch(account)}
+          disabled={isSwitching || isActive}
+        >
+          <Text style={[styles.accountEmail, { color: theme.colors.text }]}>
+            {account.email}
+          </Text>
+          <Text style={[styles.accountDetails, { color: theme.colors.textSecondary }]}>
+            {isActive ? 'Active' : `Last used ${formatDateTime(account.lastActiveAt)}`}
+            {account.encrypted ? ' · Encrypted' : ''}
+          </Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          onPress={() => handleRemove(account)}
+          disabled={isSwitching}
+        >
+          <Text style={[styles.removeText, { color: theme.colors.error }]}>
+            Remove
+          </Text>
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet">
+      <View style={[styles.container, { backgroundColor: theme.colors.background }]}>
+        <View style={[styles.header, { borderBottomColor: theme.colors.border }]}>
+          <Text style={[styles.title, { color: theme.colors.text }]}>
+            Accounts
+          </Text>
+          <TouchableOpacity
+            style={[styles.closeButton, { backgroundColor: theme.colors.border }]}
+            onPress={onClose}
+          >
+            <Text style={[styles.closeButtonText, { color: theme.colors.text }]}>
+              ✕
+            </Text>
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+          {/* Accounts Section */}
+          <View style={[styles.section, { backgroundColor: theme.colors.surface }]}>
+            <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>
+              Signed In
+            </Text>
+
+            {accounts.length === 0 ? (
+              <Text style={[styles.emptyText, { color: theme.colors.textSecondary }]}>
+                No accounts on this device
+              </Text>
+            ) : (
+              accounts.map(renderAccount)
+            )}
+          </View>
+
+          {/* Encryption Section */}
+          <View style={[styles.section, { backgroundColor: theme.colors.surface }]}>
+            <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>
+              Encryption
+            </Text>
+            <Text style={[styles.description, { color: theme.colors.textSecondary }]}>
+              {activeAccount?.encrypted
+                ? 'Notes of this account are encrypted on this device. Enter a new passphrase to change it.'
+                : 'Encrypt the notes of this account on this device with a passphrase.'}
+              {' '}Encrypted accounts also need their passphrase to switch to them.
+              {' '}Search in an encrypted account reads every note instead of a search index, so it is slower
+              {' '}with many notes.
+            </Text>
+
+            <TextInput
+              style={[
+                styles.input,
+                commonStyles.input,
+                {
+                  backgroundColor: theme.colors.background,
+                  borderColor: theme.colors.border,
+                  color: theme.colors.text,
+                },
+              ]}
+              value={passphrase}
+              onChangeText={setPassphrase}
+              placeholder="Passphrase"
+              placeholderTextColor={theme.colors.textSecondary}
+              autoCapitalize="none"
+              secureTextEntry
+            />
+
+            <TouchableOpacity
+              style={[
+                styles.signInButton,
+                commonStyles.button,
+                { backgroundColor: theme.colors.primary },
+              ]}
+              onPress={handleEncrypt}
+              disabled={isSwitching || !activeAccount}
+            >
+              <Text style={styles.signInButtonText}>
+                {activeAccount?.encrypted ? 'Change Passphrase' : 'Encrypt Notes'}
+              </Text>
+            </TouchableOpacity>
+          </View>
+
+          {/* Add Account Section */}
+          <View style={[styles.section, { backgroundColor: theme.colors.surface }]}>
+            <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>
+              Add Account
+            </Text>
+
+            <TextInput
+              style={[
+                styles.input,
+                commonStyles.input,
+                {
+                  backgroundColor: theme.colors.background,
+                  borderColor: theme.colors.border,
+                  color: theme.colors.text,
+                },
+              ]}
+              value={email}
+              onChangeText={setEmail}
+              placeholder="Email"
+              placeholderTextColor={theme.colors.textSecondary}
+              autoCapitalize="none"
+              keyboardType="email-address"
+            />
+            <TextInput
+              style={[
+                styles.input,
+                commonStyles.input,
+                {
+                  backgroundColor: theme.colors.background,
+                  borderColor: theme.colors.border,
+                  color: theme.colors.text,
+                },
+              ]}
+              value={password}
+              onChangeText={setPassword}
+              placeholder="Password"
+              placeholderTextColor={theme.colors.textSecondary}
+              secureTextEntry
+            />
+
+            <TouchableOpacity
+              style={[
+                styles.signInButton,
+                commonStyles.button,
+                { backgroundColor: theme.colors.primary },
+              ]}
+              onPress={handleSignIn}
+              disabled={isSwitching}
+            >
+              <Text style={styles.signInButtonText}>
+                {isSwitching ? 'Switching...' : 'Sign In'}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '600',
+  },
+  closeButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  closeButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  section: {
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 16,
+    textAlign: 'center',
+    marginVertical: 24,
+  },
+  account: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+  },
+  accountInfo: {
+    flex: 1,
+  },
+  accountEmail: {
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  accountDetails: {
+    fontSize: 12,
+    marginTop: 4,
+  },
+  removeText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  description: {
+    fontSize: 14,
+    marginBottom: 12,
+  },
+  input: {
+    marginBottom: 12,
+  },
+  signInButton: {
+    alignItems: 'center',
+  },
+  signInButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: 'white',
+  },
+});
+
+export default AccountSwitcher;
@@ -76,7 +76,27 @@ export const BackupManager: React.FC<BackupManagerProps> = ({
     }
   };
 
-  const handleCreateBackup = async () => {
+  const handleCreateBackup = () => {
+    if (!backupService.needsPlaintextConsent()) {
+      performCreateBackup(false);
+      return;
+    }
+
+    Alert.alert(
+      'Unencrypted Backup',
+      'Your notes are encrypted on this device, but backup files are not. Anyone with the file can read your notes.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Create Anyway',
+          style: 'destructive',
+          onPress: () => performCreateBackup(true),
+        },
+      ]
+    );
+  };
+
+  const performCreateBackup = async (allowPlaintext: boolean) => {
     try {
       setIsLoading(true);
       
@@ -86,7 +106,7 @@ export const BackupManager: React.FC<BackupManagerProps> = ({
         return;
       }
 
-      const filePath = await backupService.exportBackupToFile(user.id);
+      const filePath = await backupService.exportBackupToFile(user.id, undefined, { allowPlaintext });
       
       Alert.alert(
         'Backup Created',
@@ -8,9 +8,10 @@ import {
   Alert,
   Modal,
   TextInput,
+  Switch,
 } from 'react-native';
 import { useTheme } from '../../hooks/useTheme';
-import { Group } from '../../types';
+import { Group, SyncPolicy } from '../../types';
 import { commonStyles, defaultGroupColors } from '../../theme';
 
 interface GroupListProps {
@@ -20,6 +21,7 @@ interface GroupListProps {
   onGroupCreate?: (name: string, color: string) => void;
   onGroupUpdate?: (group: Group, updates: { name?: string; color?: string }) => void;
   onGroupDelete?: (group: Group) => void;
+  onGroupSyncPolicyChange?: (group: Group, policy: SyncPolicy) => void;
   loading?: boolean;
 }
 
@@ -29,6 +31,7 @@ interface GroupItemProps {
   onPress: () => void;
   onEdit?: () => void;
   onDelete?: () => void;
+  onSyncToggle?: (synced: boolean) => void;
   theme: any;
 }
 
@@ -38,8 +41,11 @@ const GroupItem: React.FC<GroupItemProps> = ({
   onPress,
   onEdit,
   onDelete,
+  onSyncToggle,
   theme,
 }) => {
+  const isSynced = group.sync_policy !== 'local_only';
+
   const handleLongPress = useCallback(() => {
     Alert.alert(
       group.name,
@@ -84,6 +90,20 @@ const GroupItem: React.FC<GroupItemProps> = ({
       >
         {group.name}
       </Text>
+      {!isSynced && (
+        <Text style={[styles.localOnlyLabel, { color: theme.colors.textSecondary }]}>
+          This device
+        </Text>
+      )}
+      {onSyncToggle && (
+        <Switch
+          style={styles.syncToggle}
+          value={isSynced}
+          onValueChange={onSyncToggle}
+          trackColor={{ false: theme.colors.border, true: theme.colors.primary }}
+          accessibilityLabel={`Sync ${group.name}`}
+        />
+      )}
       {isSelected && (
         <View style={[styles.selectedIndicator, { backgroundColor: theme.colors.primary }]} />
       )}
@@ -199,6 +219,7 @@ export const GroupList: React.FC<GroupListProps> = ({
   onGroupCreate,
   onGroupUpdate,
   onGroupDelete,
+  onGroupSyncPolicyChange,
   loading = false,
 }) => {
   const theme = useTheme();
@@ -242,9 +263,12 @@ export const GroupList: React.FC<GroupListProps> = ({
       onPress={() => onGroupSelect(item)}
       onEdit={() => handleGroupEdit(item)}
       onDelete={() => handleGroupDelete(item)}
+      onSyncToggle={onGroupSyncPolicyChange
+        ? (synced) => onGroupSyncPolicyChange(item, synced ? 'sync' : 'local_only')
+        : undefined}
       theme={theme}
     />
-  ), [selectedGroupId, onGroupSelect, handleGroupEdit, handleGroupDelete, theme]);
+  ), [selectedGroupId, onGroupSelect, handleGroupEdit, handleGroupDelete, onGroupSyncPolicyChange, theme]);
 
   const renderHeader = () => (
     <View style={styles.header}>
@@ -389,6 +413,14 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '500',
   },
+  localOnlyLabel: {
+    fontSize: 12,
+    marginLeft: 8,
+  },
+  syncToggle: {
+    marginLeft: 8,
+    marginRight: 12,
+  },
   selectedIndicator: {
     position: 'absolute',
     right: 12,
@@ -6,10 +6,13 @@ import {
   StyleSheet,
   TextInput,
   Modal,
+  Switch,
 } from 'react-native';
 import { useTheme, useThemeMode } from '../../hooks/useTheme';
 import { SyncIndicator } from '../SyncIndicator/SyncIndicator';
+import { AccountSwitcher } from '../AccountSwitcher/AccountSwitcher';
 import { useSync } from '../../hooks/useSync';
+import { useAccounts } from '../../hooks/useAccounts';
 import { commonStyles } from '../../theme';
 
 interface HeaderProps {
@@ -47,9 +50,11 @@ export const Header: React.FC<HeaderProps> = ({
 }) => {
   const theme = useTheme();
   const { isDark, toggleTheme } = useThemeMode();
-  const { forceSync } = useSync();
+  const { forceSync, syncPreferences, setSyncPreferences } = useSync();
   const [isSearchVisible, setIsSearchVisible] = useState(false);
   const [settingsModalVisible, setSettingsModalVisible] = useState(false);
+  const [accountSwitcherVisible, setAccountSwitcherVisible] = useState(false);
+  const { activeAccount } = useAccounts();
 
   const handleSyncPress = () => {
     forceSync();
@@ -107,6 +112,21 @@ export const Header: React.FC<HeaderProps> = ({
             Settings
           </Text>
           
+          <TouchableOpacity
+            style={[styles.settingItem, { borderBottomColor: theme.colors.border }]}
+            onPress={() => {
+              setSettingsModalVisible(false);
+              setAccountSwitcherVisible(true);
+            }}
+          >
+            <Text style={[styles.settingText, { color: theme.colors.text }]}>
+              Account
+            </Text>
+            <Text style={[styles.settingValue, { color: theme.colors.primary }]}>
+              {activeAccount?.email ?? 'Sign In'}
+            </Text>
+          </TouchableOpacity>
+
           <TouchableOpacity
             style={[styles.settingItem, { borderBottomColor: theme.colors.border }]}
             onPress={toggleTheme}
@@ -130,6 +150,32 @@ export const Header: React.FC<HeaderProps> = ({
               Sync Now
             </Text>
           </TouchableOpacity>
+
+          <View style={[styles.settingItem, { borderBottomColor: theme.colors.border }]}>
+            <Text style={[styles.settingText, { color: theme.colors.text }]}>
+              Large Notes on Wi-Fi Only
+            </Text>
+            <Switch
+              value={syncPreferences.syncLargeNotesOnWifiOnly}
+              onValueChange={value =>
+                setSyncPreferences({ ...syncPreferences, syncLargeNotesOnWifiOnly: value })
+              }
+              trackColor={{ false: theme.colors.border, true: theme.colors.primary }}
+            />
+          </View>
+
+          <View style={[styles.settingItem, { borderBottomColor: theme.colors.border }]}>
+            <Text style={[styles.settingText, { color: theme.colors.text }]}>
+              Pause Background Sync on Cellular
+            </Text>
+            <Switch
+              value={syncPreferences.pauseBackgroundSyncOnCellular}
+              onValueChange={value =>
+                setSyncPreferences({ ...syncPreferences, pauseBackgroundSyncOnCellular: value })
+              }
+              trackColor={{ false: theme.colors.border, true: theme.colors.primary }}
+            />
+          </View>
           
           <TouchableOpacity
             style={[styles.modalButton, { backgroundColor: theme.colors.primary }]}
@@ -225,6 +271,10 @@ export const Header: React.FC<HeaderProps> = ({
       
       {renderSearchBar()}
       {renderSettingsModal()}
+      <AccountSwitcher
+        visible={accountSwitcherVisible}
+        onClose={() => setAccountSwitcherVisible(false)}
+      />
     </View>
   );
 };
@@ -3,14 +3,13 @@ import {
   View,
   StyleSheet,
   Dimensions,
-  Platform,
 } from 'react-native';
 import { useTheme } from '../../hooks/useTheme';
 import { Header } from '../Header/Header';
 import { GroupList } from '../GroupList/GroupList';
 import { NoteList } from '../NoteList/NoteList';
 import { NoteEditor } from '../NoteEditor/NoteEditor';
-import { Group, Note, WindowLayout } from '../../types';
+import { Group, Note, SyncPolicy, WindowLayout } from '../../types';
 import { FEATURES } from '../../constants';
 
 interface MainLayoutProps {
@@ -25,6 +24,7 @@ interface MainLayoutProps {
   onGroupCreate: (name: string, color: string) => void;
   onGroupUpdate: (group: Group, updates: { name?: string; color?: string }) => void;
   onGroupDelete: (group: Group) => void;
+  onGroupSyncPolicyChange?: (group: Group, policy: SyncPolicy) => void;
   onNoteCreate: () => void;
   onNoteUpdate: (note: Note) => void;
   onNoteDelete: (note: Note) => void;
@@ -43,6 +43,7 @@ export const MainLayout: React.FC<MainLayoutProps> = ({
   onGroupCreate,
   onGroupUpdate,
   onGroupDelete,
+  onGroupSyncPolicyChange,
   onNoteCreate,
   onNoteUpdate,
   onNoteDelete,
@@ -135,6 +136,7 @@ export const MainLayout: React.FC<MainLayoutProps> = ({
           onGroupCreate={onGroupCreate}
           onGroupUpdate={onGroupUpdate}
           onGroupDelete={onGroupDelete}
+          onGroupSyncPolicyChange={onGroupSyncPolicyChange}
           loading={loading}
         />
       )}
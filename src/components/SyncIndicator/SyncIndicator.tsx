@@ -1,7 +1,9 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { View, Text, StyleSheet, TouchableOpacity, Animated } from 'react-native';
 import { useTheme } from '../../hooks/useTheme';
 import { useSync } from '../../hooks/useSync';
+import { SyncInspector } from '../SyncInspector/SyncInspector';
+import { PERFORMANCE, SYNC_CONFIG } from '../../constants';
 
 interface SyncIndicatorProps {
   onPress?: () => void;
@@ -13,14 +15,28 @@ export const SyncIndicator: React.FC<SyncIndicatorProps> = ({
   showDetails = false,
 }) => {
   const theme = useTheme();
+  const [inspectorVisible, setInspectorVisible] = useState(false);
   const {
     isOnline,
     isSyncing,
     lastSyncTime,
     pendingOperations,
     syncError,
+    clockSkewMs,
+    syncSchedule,
+    syncProgress,
+    cancelSync,
   } = useSync();
 
+  const isPaused = syncSchedule.mode === 'paused';
+
+  const hasClockSkew =
+    clockSkewMs !== null && Math.abs(clockSkewMs) > SYNC_CONFIG.clockSkewWarningThreshold;
+
+  // A running sync, with its Cancel button, and anything the user should act
+  // on are shown even where the indicator is compact
+  const detailsVisible = showDetails || isSyncing || hasClockSkew || isPaused;
+
   const spinValue = React.useRef(new Animated.Value(0)).current;
 
   React.useEffect(() => {
@@ -44,35 +60,115 @@ export const SyncIndicator: React.FC<SyncIndicatorProps> = ({
   });
 
   const getStatusIcon = (): string => {
-    if (!isOnline) return '📴';
-    if (syncError) return '⚠️';
-    if (isSyncing) return '🔄';
-    if (pendingOperations > 0) return '⏳';
+    if (!isOnline) {
+      return '📴';
+    }
+    if (syncError) {
+      return '⚠️';
+    }
+    if (hasClockSkew) {
+      return '🕒';
+    }
+    if (isSyncing) {
+      return '🔄';
+    }
+    if (isPaused) {
+      return '⏸️';
+    }
+    if (pendingOperations > 0) {
+      return '⏳';
+    }
     return '✅';
   };
 
   const getStatusText = (): string => {
-    if (!isOnline) return 'Offline';
-    if (syncError) return 'Sync Error';
-    if (isSyncing) return 'Syncing...';
-    if (pendingOperations > 0) return `${pendingOperations} pending`;
+    if (!isOnline) {
+      return 'Offline';
+    }
+    if (syncError) {
+      return 'Sync Error';
+    }
+    if (isSyncing && syncProgress) {
+      const { done, total } = syncProgress[syncProgress.phase];
+      const verb = syncProgress.phase === 'push' ? 'Pushing' : 'Pulling';
+      return total === null ? `${verb} ${done}...` : `${verb} ${done}/${total}`;
+    }
+    if (isSyncing) {
+      return 'Syncing...';
+    }
+    if (isPaused) {
+      return 'Sync paused';
+    }
+    if (pendingOperations > 0) {
+      return `${pendingOperations} pending`;
+    }
     if (lastSyncTime) {
       const now = new Date();
       const diffMs = now.getTime() - lastSyncTime.getTime();
       const diffMinutes = Math.floor(diffMs / (1000 * 60));
       
-      if (diffMinutes < 1) return 'Just synced';
-      if (diffMinutes < 60) return `Synced ${diffMinutes}m ago`;
+      if (diffMinutes < 1) {
+        return 'Just synced';
+      }
+      if (diffMinutes < 60) {
+        return `Synced ${diffMinutes}m ago`;
+      }
       return `Synced ${Math.floor(diffMinutes / 60)}h ago`;
     }
     return 'Ready';
   };
 
+  const getClockSkewText = (): string => {
+    const minutes = Math.round(Math.abs(clockSkewMs ?? 0) / (1000 * 60));
+    const amount = minutes < 60 ? `${minutes}m` : `${Math.round(minutes / 60)}h`;
+    const direction = (clockSkewMs ?? 0) > 0 ? 'ahead' : 'behind';
+    return `Device clock is ${amount} ${direction} of the server`;
+  };
+
+  // Share of the known work done across both phases, null while nothing is known
+  const getProgressRatio = (): number | null => {
+    if (!syncProgress) {
+      return null;
+    }
+    const done = syncProgress.push.done + syncProgress.pull.done;
+    const total = (syncProgress.push.total ?? 0) + (syncProgress.pull.total ?? 0);
+    return total > 0 ? Math.min(done / total, 1) : null;
+  };
+
+  const getProgressDetails = (): string => {
+    if (!syncProgress) {
+      return '';
+    }
+    const kilobytes = Math.round(syncProgress.bytesTransferred / 1024);
+    const details = [`${kilobytes} KB`];
+    if (syncProgress.etaMs !== null) {
+      const seconds = Math.ceil(syncProgress.etaMs / 1000);
+      details.push(seconds < 60 ? `${seconds}s left` : `${Math.ceil(seconds / 60)}m left`);
+    }
+    return details.join(' · ');
+  };
+
+  const progressRatio = getProgressRatio();
+
   const getStatusColor = (): string => {
-    if (!isOnline) return theme.colors.textSecondary;
-    if (syncError) return theme.colors.error;
-    if (isSyncing) return theme.colors.primary;
-    if (pendingOperations > 0) return theme.colors.warning;
+    if (!isOnline) {
+      return theme.colors.textSecondary;
+    }
+    if (syncError) {
+      return theme.colors.error;
+    }
+    if (hasClockSkew) {
+      return theme.colors.warning;
+    }
+    if (isSyncing) {
+      return theme.colors.primary;
+    }
+    if (isPaused) {
+      return theme.colors.textSecondary;
+    }
+    if (pendingOperations > 0) {
+      return theme.colors.warning;
+    }
     return theme.colors.success;
   };
 
@@ -95,7 +191,7 @@ export const SyncIndicator: React.FC<SyncIndicatorProps> = ({
         )}
       </View>
       
-      {showDetails && (
+      {detailsVisible && (
         <View style={styles.textContainer}>
           <Text style={[styles.statusText, { color: getStatusColor() }]}>
             {getStatusText()}
@@ -106,20 +202,67 @@ export const SyncIndicator: React.FC<SyncIndicatorProps> = ({
               {syncError}
             </Text>
           )}
+
+          {hasClockSkew && (
+            <Text style={[styles.errorText, { color: theme.colors.warning }]}>
+              {getClockSkewText()}
+            </Text>
+          )}
+
+          {isSyncing && syncProgress && (
+            <View style={styles.progressContainer}>
+              <View style={[styles.progressTrack, { backgroundColor: theme.colors.border }]}>
+                {progressRatio !== null && (
+                  <View
+                    style={[
+                      styles.progressFill,
+                      { backgroundColor: theme.colors.primary, width: `${progressRatio * 100}%` },
+                    ]}
+                  />
+                )}
+              </View>
+              <View style={styles.progressRow}>
+                <Text style={[styles.errorText, { color: theme.colors.textSecondary }]}>
+                  {getProgressDetails()}
+                </Text>
+                <TouchableOpacity onPress={cancelSync} accessibilityLabel="Cancel sync">
+                  <Text style={[styles.cancelText, { color: theme.colors.error }]}>
+                    Cancel
+                  </Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          )}
+
+          {isOnline && syncSchedule.reason && (
+            <Text style={[styles.errorText, { color: theme.colors.textSecondary }]}>
+              {syncSchedule.reason}
+            </Text>
+          )}
         </View>
       )}
     </View>
   );
 
-  if (onPress) {
-    return (
-      <TouchableOpacity onPress={onPress} style={styles.touchable}>
+  // Long press opens the sync inspector whether or not a tap does anything
+  return (
+    <>
+      <TouchableOpacity
+        onPress={onPress}
+        onLongPress={() => setInspectorVisible(true)}
+        delayLongPress={PERFORMANCE.longPressDelay}
+        activeOpacity={onPress ? 0.2 : 1}
+        style={styles.touchable}
+      >
         {content}
       </TouchableOpacity>
-    );
-  }
 
-  return content;
+      <SyncInspector
+        visible={inspectorVisible}
+        onClose={() => setInspectorVisible(false)}
+      />
+    </>
+  );
 };
 
 const styles = StyleSheet.create({
@@ -152,6 +295,27 @@ const styles = StyleSheet.create({
     fontSize: 10,
     marginTop: 2,
   },
+  progressContainer: {
+    marginTop: 4,
+  },
+  progressTrack: {
+    height: 3,
+    borderRadius: 2,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: 3,
+  },
+  progressRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  cancelText: {
+    fontSize: 10,
+    fontWeight: '600',
+    marginTop: 2,
+  },
 });
 
 export default SyncIndicator;
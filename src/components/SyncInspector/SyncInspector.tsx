@@ -0,0 +1,438 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  ScrollView,
+  Modal,
+} from 'react-native';
+import { useTheme } from '../../hooks/useTheme';
+import { SyncLogService } from '../../services/SyncLogService';
+import { supabase } from '../../config/supabase';
+import { commonStyles } from '../../theme';
+import { formatDateTime } from '../../utils/dataUtils';
+import { QuarantinedRecord, SyncLogEntry } from '../../types';
+
+interface SyncInspectorProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+const MAX_REALTIME_EVENTS = 20;
+
+export const SyncInspector: React.FC<SyncInspectorProps> = ({
+  visible,
+  onClose,
+}) => {
+  const theme = useTheme();
+  const [runs, setRuns] = useState<SyncLogEntry[]>([]);
+  const [realtimeEvents, setRealtimeEvents] = useState<SyncLogEntry[]>([]);
+  const [quarantine, setQuarantine] = useState<QuarantinedRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const syncLogService = SyncLogService.getInstance();
+
+  const getUserId = async (): Promise<string | null> => {
+    const { data: { user } } = await supabase.auth.getUser();
+    return user?.id ?? null;
+  };
+
+  const loadData = useCallback(async () => {
+    try {
+      setIsLoading(true);
+
+      const userId = await getUserId();
+      if (!userId) {
+        return;
+      }
+
+      const entries = await syncLogService.getEntries(userId);
+      setRuns(entries.filter(entry => entry.kind === 'run'));
+      setRealtimeEvents(
+        entries.filter(entry => entry.kind === 'realtime').slice(0, MAX_REALTIME_EVENTS)
+      );
+      setQuarantine(await syncLogService.getQuarantine(userId));
+    } catch (error) {
+      console.error('Failed to load sync log:', error);
+      Alert.alert('Error', 'Failed to load the sync log');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [syncLogService]);
+
+  useEffect(() => {
+    if (visible) {
+      loadData();
+    }
+  }, [visible, loadData]);
+
+  const handleExport = async () => {
+    try {
+      setIsLoading(true);
+
+      const userId = await getUserId();
+      if (!userId) {
+        Alert.alert('Error', 'User not authenticated');
+        return;
+      }
+
+      const filePath = await syncLogService.exportLogToFile(userId);
+
+      Alert.alert(
+        'Sync Log Exported',
+        `Attach this file to your bug report: ${filePath}`
+      );
+    } catch (error) {
+      console.error('Failed to export sync log:', error);
+      Alert.alert('Error', 'Failed to export the sync log');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleClear = () => {
+    Alert.alert(
+      'Clear Sync Log',
+      'This removes every recorded sync run and realtime event from this device.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Clear',
+          style: 'destructive',
+          onPress: performClear,
+        },
+      ]
+    );
+  };
+
+  const performClear = async () => {
+    try {
+      const userId = await getUserId();
+      if (userId) {
+        await syncLogService.clearLog(userId);
+      }
+      loadData();
+    } catch (error) {
+      console.error('Failed to clear sync log:', error);
+      Alert.alert('Error', 'Failed to clear the sync log');
+    }
+  };
+
+  const handleDiscardQuarantined = (record: QuarantinedRecord) => {
+    Alert.alert(
+      'Discard Record',
+      'The payload is removed from this device. The local and server copies of the record are not changed.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Discard',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await syncLogService.discardQuarantinedRecord(record.id);
+              loadData();
+            } catch (error) {
+              console.error('Failed to discard quarantined record:', error);
+              Alert.alert('Error', 'Failed to discard the record');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const formatDuration = (durationMs: number | null): string => {
+    if (durationMs === null) {
+      return '-';
+    }
+    if (durationMs < 1000) {
+      return `${durationMs} ms`;
+    }
+    return `${(durationMs / 1000).toFixed(1)} s`;
+  };
+
+  const renderRun = (run: SyncLogEntry) => {
+    const failed = run.errors.length > 0;
+
+    return (
+      <View
+        key={run.id}
+        style={[styles.entry, { borderBottomColor: theme.colors.border }]}
+      >
+        <View style={styles.entryHeader}>
+          <Text style={[styles.entryTitle, { color: theme.colors.text }]}>
+            {formatDateTime(run.startedAt ?? run.createdAt)}
+          </Text>
+          <Text
+            style={[
+              styles.entryStatus,
+              { color: failed ? theme.colors.error : theme.colors.success },
+            ]}
+          >
+            {failed ? `${run.errors.length} error(s)` : 'OK'}
+          </Text>
+        </View>
+
+        <Text style={[styles.entryDetails, { color: theme.colors.textSecondary }]}>
+          {`↑ ${run.pushed} pushed  ↓ ${run.pulled} pulled  ${run.conflicts} conflict(s)  ${formatDuration(run.durationMs)}`}
+        </Text>
+
+        {run.errors.map((error, index) => (
+          <Text
+            key={index}
+            style={[styles.entryError, { color: theme.colors.error }]}
+          >
+            {error}
+          </Text>
+        ))}
+      </View>
+    );
+  };
+
+  const renderRealtimeEvent = (event: SyncLogEntry) => (
+    <View
+      key={event.id}
+      style={[styles.entry, { borderBottomColor: theme.colors.border }]}
+    >
+      <View style={styles.entryHeader}>
+        <Text style={[styles.entryTitle, { color: theme.colors.text }]}>
+          {`${event.eventType} ${event.tableName}`}
+        </Text>
+        <Text style={[styles.entryDetails, { color: theme.colors.textSecondary }]}>
+          {formatDateTime(event.createdAt)}
+        </Text>
+      </View>
+
+      <Text style={[styles.entryDetails, { color: theme.colors.textSecondary }]}>
+        {event.recordId}
+      </Text>
+
+      {event.errors.map((error, index) => (
+        <Text
+          key={index}
+          style={[styles.entryError, { color: theme.colors.error }]}
+        >
+          {error}
+        </Text>
+      ))}
+    </View>
+  );
+
+  const renderQuarantinedRecord = (record: QuarantinedRecord) => (
+    <View
+      key={record.id}
+      style={[styles.entry, { borderBottomColor: theme.colors.border }]}
+    >
+      <View style={styles.entryHeader}>
+        <Text style={[styles.entryTitle, { color: theme.colors.text }]}>
+          {`${record.direction === 'inbound' ? '↓' : '↑'} ${record.tableName} ${record.recordId ?? '(no id)'}`}
+        </Text>
+        <TouchableOpacity onPress={() => handleDiscardQuarantined(record)}>
+          <Text style={[styles.entryStatus, { color: theme.colors.error }]}>
+            Discard
+          </Text>
+        </TouchableOpacity>
+      </View>
+
+      <Text style={[styles.entryDetails, { color: theme.colors.textSecondary }]}>
+        {formatDateTime(record.createdAt)}
+      </Text>
+
+      {record.errors.map((error, index) => (
+        <Text
+          key={index}
+          style={[styles.entryError, { color: theme.colors.error }]}
+        >
+          {error}
+        </Text>
+      ))}
+    </View>
+  );
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet">
+      <View style={[styles.container, { backgroundColor: theme.colors.background }]}>
+        <View style={[styles.header, { borderBottomColor: theme.colors.border }]}>
+          <Text style={[styles.title, { color: theme.colors.text }]}>
+            Sync Inspector
+          </Text>
+          <TouchableOpacity
+            style={[styles.closeButton, { backgroundColor: theme.colors.border }]}
+            onPress={onClose}
+          >
+            <Text style={[styles.closeButtonText, { color: theme.colors.text }]}>
+              ✕
+            </Text>
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.actions}>
+          <TouchableOpacity
+            style={[
+              styles.actionButton,
+              commonStyles.button,
+              { backgroundColor: theme.colors.primary },
+            ]}
+            onPress={handleExport}
+            disabled={isLoading}
+          >
+            <Text style={styles.actionButtonText}>
+              Export Log
+            </Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={[
+              styles.actionButton,
+              commonStyles.button,
+              { backgroundColor: theme.colors.error },
+            ]}
+            onPress={handleClear}
+            disabled={isLoading}
+          >
+            <Text style={styles.actionButtonText}>
+              Clear
+            </Text>
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+          {/* Quarantine Section */}
+          {quarantine.length > 0 && (
+            <View style={[styles.section, { backgroundColor: theme.colors.surface }]}>
+              <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>
+                Quarantined Records
+              </Text>
+              <Text style={[styles.entryDetails, { color: theme.colors.textSecondary }]}>
+                These sync payloads failed validation and were not applied. Export the log to attach them to a bug report.
+              </Text>
+
+              {quarantine.map(renderQuarantinedRecord)}
+            </View>
+          )}
+
+          {/* Sync Runs Section */}
+          <View style={[styles.section, { backgroundColor: theme.colors.surface }]}>
+            <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>
+              Sync Runs
+            </Text>
+
+            {runs.length === 0 ? (
+              <Text style={[styles.emptyText, { color: theme.colors.textSecondary }]}>
+                No sync runs recorded
+              </Text>
+            ) : (
+              runs.map(renderRun)
+            )}
+          </View>
+
+          {/* Realtime Events Section */}
+          <View style={[styles.section, { backgroundColor: theme.colors.surface }]}>
+            <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>
+              Recent Realtime Events
+            </Text>
+
+            {realtimeEvents.length === 0 ? (
+              <Text style={[styles.emptyText, { color: theme.colors.textSecondary }]}>
+                No realtime events recorded
+              </Text>
+            ) : (
+              realtimeEvents.map(renderRealtimeEvent)
+            )}
+          </View>
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '600',
+  },
+  closeButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  closeButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 12,
+    paddingHorizontal: 16,
+    paddingTop: 16,
+  },
+  actionButton: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  actionButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: 'white',
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  section: {
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 16,
+    textAlign: 'center',
+    marginVertical: 24,
+  },
+  entry: {
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+  },
+  entryHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  entryTitle: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  entryStatus: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  entryDetails: {
+    fontSize: 12,
+    marginTop: 4,
+  },
+  entryError: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+});
+
+export default SyncInspector;
@@ -27,6 +27,7 @@ export interface Database {
           user_id: string;
           created_at: string;
           updated_at: string;
+          server_updated_at: string;
           version: number;
           is_deleted: boolean;
         };
@@ -37,6 +38,7 @@ export interface Database {
           user_id: string;
           created_at?: string;
           updated_at?: string;
+          server_updated_at?: string;
           version?: number;
           is_deleted?: boolean;
         };
@@ -47,6 +49,7 @@ export interface Database {
           user_id?: string;
           created_at?: string;
           updated_at?: string;
+          server_updated_at?: string;
           version?: number;
           is_deleted?: boolean;
         };
@@ -62,6 +65,7 @@ export interface Database {
           user_id: string;
           created_at: string;
           updated_at: string;
+          server_updated_at: string;
           version: number;
           is_deleted: boolean;
           deleted_at: string | null;
@@ -76,6 +80,7 @@ export interface Database {
           user_id: string;
           created_at?: string;
           updated_at?: string;
+          server_updated_at?: string;
           version?: number;
           is_deleted?: boolean;
           deleted_at?: string | null;
@@ -90,6 +95,7 @@ export interface Database {
           user_id?: string;
           created_at?: string;
           updated_at?: string;
+          server_updated_at?: string;
           version?: number;
           is_deleted?: boolean;
           deleted_at?: string | null;
@@ -127,6 +133,35 @@ export interface Database {
           processed?: boolean;
         };
       };
+      tombstones: {
+        // Written by triggers when a notes or groups row is deleted; read-only to users
+        Row: {
+          id: string;
+          table_name: 'notes' | 'groups';
+          user_id: string;
+          version: number;
+          deleted_at: string;
+          server_updated_at: string;
+        };
+        Insert: never;
+        Update: never;
+      };
+    };
+    Functions: {
+      // now() on the database clock, used to measure device clock skew
+      server_time: {
+        Args: Record<string, never>;
+        Returns: string;
+      };
+      // Every group and note of the user with the cursors to pull on from
+      sync_snapshot: {
+        Args: { p_user_id: string };
+        Returns: {
+          groups: Database['public']['Tables']['groups']['Row'][];
+          notes: Database['public']['Tables']['notes']['Row'][];
+          cursors: Record<'groups' | 'notes' | 'tombstones', { server_updated_at: string; id: string } | null>;
+        };
+      };
     };
   };
 }
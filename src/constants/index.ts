@@ -22,7 +22,13 @@ export const SYNC_CONFIG = {
   retryDelay: 1000, // milliseconds
   batchSize: 50,
   syncInterval: 30000, // 30 seconds
+  meteredSyncInterval: 120000, // 2 minutes on cellular or other expensive connections
+  backgroundSyncInterval: 300000, // 5 minutes while the app is in the background
+  meteredBatchSize: 20,
+  largeNoteSize: 100 * 1024, // Characters pushed for one note, patch or whole
   offlineTimeout: 5000, // 5 seconds
+  clockSkewWarningThreshold: 120000, // 2 minutes
+  pullSafetyWindow: 60000, // Re-read behind the pull cursor for rows of transactions that committed late
 };
 
 // UI configuration
@@ -44,6 +50,8 @@ export const STORAGE_KEYS = {
   windowLayout: 'windowLayout',
   lastSelectedNote: 'lastSelectedNote',
   lastSelectedGroup: 'lastSelectedGroup',
+  accounts: 'accounts',
+  activeAccount: 'activeAccount',
 };
 
 // Default values
@@ -53,6 +61,8 @@ export const DEFAULTS = {
   autoSaveDelay: 300,
   offlineMode: false,
   syncOnStartup: true,
+  syncLargeNotesOnWifiOnly: false,
+  pauseBackgroundSyncOnCellular: false,
   groupColor: '#14b8a6',
   noteTitle: 'Untitled',
   windowLayout: {
@@ -88,6 +98,7 @@ export const ERROR_CODES = {
   DB_CONNECTION_FAILED: 'DB_CONNECTION_FAILED',
   DB_QUERY_FAILED: 'DB_QUERY_FAILED',
   DB_CONSTRAINT_VIOLATION: 'DB_CONSTRAINT_VIOLATION',
+  DB_LOCKED: 'DB_LOCKED',
   
   // Sync errors
   SYNC_NETWORK_ERROR: 'SYNC_NETWORK_ERROR',
@@ -114,6 +125,7 @@ export const ERROR_MESSAGES = {
   [ERROR_CODES.DB_CONNECTION_FAILED]: 'Failed to connect to database',
   [ERROR_CODES.DB_QUERY_FAILED]: 'Database operation failed',
   [ERROR_CODES.DB_CONSTRAINT_VIOLATION]: 'Data constraint violation',
+  [ERROR_CODES.DB_LOCKED]: 'Enter the passphrase to open these notes',
   
   [ERROR_CODES.SYNC_NETWORK_ERROR]: 'Network error during sync',
   [ERROR_CODES.SYNC_CONFLICT]: 'Sync conflict detected',
@@ -213,5 +225,6 @@ export const CLEANUP = {
   deletedNotesRetentionDays: 30,
   syncQueueRetentionDays: 7,
   logRetentionDays: 14,
+  logMaxEntries: 1000,
   maintenanceInterval: 24 * 60 * 60 * 1000, // 24 hours
 };
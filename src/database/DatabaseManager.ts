@@ -1,12 +1,25 @@
-import { initDatabase, closeDatabase } from './sqlite';
-import { GroupsDAO } from './groupsDAO';
-import { NotesDAO } from './notesDAO';
-import { SyncQueueDAO } from './syncQueueDAO';
+import {
+  Transaction,
+  initDatabase,
+  closeDatabase,
+  deleteDatabaseFile,
+  encryptDatabase,
+  rekeyDatabase,
+  getCurrentTimestamp,
+  runInTransaction,
+} from './sqlite';
+import { GroupsDAO, LocalGroup } from './groupsDAO';
+import { LocalNote, NotesDAO } from './notesDAO';
+import { SyncQueueDAO, SyncAcknowledgement } from './syncQueueDAO';
 import { UserSettingsDAO } from './userSettingsDAO';
+import { SyncLogDAO, SyncLogKind, SyncRunRecord, RealtimeEventRecord } from './syncLogDAO';
+import { SyncQuarantineDAO, QuarantineDirection } from './syncQuarantineDAO';
+import { SearchResult, SyncPolicy, SyncPreferences } from '../types';
 
 export class DatabaseManager {
   private static instance: DatabaseManager;
   private isInitialized = false;
+  private databaseName: string | undefined;
 
   private constructor() {}
 
@@ -17,14 +30,17 @@ export class DatabaseManager {
     return DatabaseManager.instance;
   }
 
-  async initialize(): Promise<void> {
-    if (this.isInitialized) {
+  // Without a name the open database is kept, or the default one is opened.
+  // An encrypted database is opened with its passphrase.
+  async initialize(databaseName?: string, passphrase?: string): Promise<void> {
+    if (this.isInitialized && (!databaseName || databaseName === this.databaseName)) {
       return;
     }
 
     try {
-      await initDatabase();
+      await initDatabase(databaseName, passphrase);
       this.isInitialized = true;
+      this.databaseName = databaseName;
       console.log('DatabaseManager initialized successfully');
     } catch (error) {
       console.error('Failed to initialize DatabaseManager:', error);
@@ -36,10 +52,34 @@ export class DatabaseManager {
     if (this.isInitialized) {
       await closeDatabase();
       this.isInitialized = false;
+      this.databaseName = undefined;
       console.log('DatabaseManager closed');
     }
   }
 
+  async deleteDatabase(databaseName: string): Promise<void> {
+    if (databaseName === this.databaseName) {
+      await this.close();
+    }
+    await deleteDatabaseFile(databaseName);
+  }
+
+  // Encryption operations
+  async encrypt(encryptedName: string, passphrase: string): Promise<void> {
+    await encryptDatabase(encryptedName, passphrase);
+    this.databaseName = encryptedName;
+  }
+
+  async changePassphrase(passphrase: string): Promise<void> {
+    await rekeyDatabase(passphrase);
+  }
+
+  // Run several operations atomically. Pass tx to every operation inside:
+  // one without it waits for the transaction to end and never runs.
+  async transaction<T>(work: (tx: Transaction) => Promise<T>): Promise<T> {
+    return runInTransaction(work);
+  }
+
   // Groups operations
   async getAllGroups(userId: string) {
     return GroupsDAO.getAllGroups(userId);
@@ -49,24 +89,55 @@ export class DatabaseManager {
     return GroupsDAO.getGroupById(id);
   }
 
-  async createGroup(name: string, color: string, userId: string) {
-    return GroupsDAO.createGroup(name, color, userId);
+  async createGroup(name: string, color: string, userId: string, tx?: Transaction) {
+    return GroupsDAO.createGroup(name, color, userId, tx);
   }
 
-  async updateGroup(id: string, updates: { name?: string; color?: string }) {
-    return GroupsDAO.updateGroup(id, updates);
+  async updateGroup(id: string, updates: { name?: string; color?: string }, tx?: Transaction) {
+    return GroupsDAO.updateGroup(id, updates, tx);
   }
 
-  async deleteGroup(id: string) {
-    return GroupsDAO.deleteGroup(id);
+  async deleteGroup(id: string, tx?: Transaction) {
+    return GroupsDAO.deleteGroup(id, tx);
+  }
+
+  async clearGroups(userId: string, keepNames: string[], tx?: Transaction) {
+    return GroupsDAO.clearGroups(userId, keepNames, tx);
   }
 
   async seedDefaultGroups(userId: string) {
     return GroupsDAO.seedDefaultGroups(userId);
   }
 
-  async getUncategorizedGroup(userId: string) {
-    return GroupsDAO.getUncategorizedGroup(userId);
+  async getUncategorizedGroup(userId: string, tx?: Transaction) {
+    return GroupsDAO.getUncategorizedGroup(userId, tx);
+  }
+
+  // Switching to local-only withdraws the group and its notes from the server;
+  // switching back shares them again
+  async setGroupSyncPolicy(groupId: string, policy: SyncPolicy, userId: string) {
+    const group = await GroupsDAO.getGroupById(groupId);
+    if (!group || group.sync_policy === policy) {
+      return;
+    }
+
+    const notes = await NotesDAO.getNotesByGroup(userId, groupId);
+
+    await this.transaction(async tx => {
+      if (policy === 'local_only') {
+        for (const note of notes) {
+          await this.withdrawFromSync('notes', note.id, userId, tx);
+        }
+        await this.withdrawFromSync('groups', groupId, userId, tx);
+        await GroupsDAO.setSyncPolicy(groupId, policy, tx);
+      } else {
+        await GroupsDAO.setSyncPolicy(groupId, policy, tx);
+        await this.shareForSync('groups', groupId, userId, tx);
+        for (const note of notes) {
+          await this.shareForSync('notes', note.id, userId, tx);
+        }
+      }
+    });
   }
 
   // Notes operations
@@ -88,9 +159,10 @@ export class DatabaseManager {
     contentMarkdown: string,
     contentPlain: string,
     groupId: string | null,
-    userId: string
+    userId: string,
+    tx?: Transaction
   ) {
-    return NotesDAO.createNote(title, content, contentMarkdown, contentPlain, groupId, userId);
+    return NotesDAO.createNote(title, content, contentMarkdown, contentPlain, groupId, userId, tx);
   }
 
   async updateNote(
@@ -101,52 +173,175 @@ export class DatabaseManager {
       content_markdown?: string;
       content_plain?: string;
       group_id?: string | null;
-    }
+    },
+    tx?: Transaction
   ) {
-    return NotesDAO.updateNote(id, updates);
+    return NotesDAO.updateNote(id, updates, tx);
   }
 
-  async deleteNote(id: string) {
-    return NotesDAO.deleteNote(id);
+  async deleteNote(id: string, tx?: Transaction) {
+    return NotesDAO.deleteNote(id, tx);
   }
 
-  async searchNotes(userId: string, query: string) {
-    return NotesDAO.searchNotes(userId, query);
+  async clearNotes(userId: string, tx?: Transaction) {
+    return NotesDAO.clearNotes(userId, tx);
   }
 
-  async moveNotesToGroup(fromGroupId: string, toGroupId: string, userId: string) {
-    return NotesDAO.moveNotesToGroup(fromGroupId, toGroupId, userId);
+  async searchNotes(userId: string, query: string): Promise<SearchResult[]> {
+    const results = await NotesDAO.searchNotes(userId, query);
+    return results.map(({ note, ...result }) => ({
+      ...result,
+      note: {
+        id: note.id,
+        title: note.title,
+        content: JSON.parse(note.content),
+        content_markdown: note.content_markdown,
+        content_plain: note.content_plain,
+        group_id: note.group_id,
+        user_id: note.user_id,
+        created_at: note.created_at,
+        updated_at: note.updated_at,
+        version: note.version,
+        is_deleted: note.is_deleted === 1,
+        deleted_at: note.deleted_at,
+      },
+    }));
   }
 
-  // Sync queue operations
-  async addToSyncQueue(
-    tableName: string,
-    recordId: string,
-    operation: 'INSERT' | 'UPDATE' | 'DELETE',
-    data: any,
-    userId: string
+  async moveNotesToGroup(fromGroupId: string, toGroupId: string, userId: string, tx?: Transaction) {
+    return NotesDAO.moveNotesToGroup(fromGroupId, toGroupId, userId, tx);
+  }
+
+  // Moving across a local-only boundary withdraws the note from the server or
+  // shares it for the first time; the move is captured like any other edit
+  async moveNoteToGroup(noteId: string, groupId: string | null) {
+    return NotesDAO.updateNote(noteId, { group_id: groupId });
+  }
+
+  // Sync queue operations. Local edits are queued by the DAOs as they are
+  // written; withdrawing and sharing are not edits, so they queue here.
+
+  // The server copy becomes a tombstone one version ahead of what other
+  // devices have, so they drop it; the local copy is left as it is
+  private async withdrawFromSync(
+    tableName: 'notes' | 'groups',
+    id: string,
+    userId: string,
+    tx: Transaction
   ) {
-    return SyncQueueDAO.addToQueue(tableName, recordId, operation, data, userId);
+    const record = tableName === 'notes'
+      ? await NotesDAO.incrementVersion(id, tx)
+      : await GroupsDAO.incrementVersion(id, tx);
+    if (!record) {
+      return;
+    }
+
+    const timestamp = getCurrentTimestamp();
+    const tombstone = tableName === 'notes'
+      ? { ...record, is_deleted: 1, deleted_at: timestamp, updated_at: timestamp }
+      : { ...record, is_deleted: 1, updated_at: timestamp };
+    await SyncQueueDAO.addToQueue(tableName, id, 'DELETE', tombstone, userId, tx);
   }
 
-  async getPendingSyncItems(userId: string, limit?: number) {
-    return SyncQueueDAO.getPendingItems(userId, limit);
+  // The version moves past the withdrawn one, so the server lets the record
+  // back in even after purging it
+  private async shareForSync(
+    tableName: 'notes' | 'groups',
+    id: string,
+    userId: string,
+    tx: Transaction
+  ) {
+    const record = tableName === 'notes'
+      ? await NotesDAO.incrementVersion(id, tx)
+      : await GroupsDAO.incrementVersion(id, tx);
+    if (record) {
+      await SyncQueueDAO.addToQueue(tableName, id, 'INSERT', record, userId, tx);
+    }
   }
 
-  async removeSyncItem(id: string) {
-    return SyncQueueDAO.removeFromQueue(id);
+  async getPendingSyncItems(userId: string, limit?: number, maxNoteSize?: number | null) {
+    return SyncQueueDAO.getPendingItems(userId, limit, maxNoteSize);
+  }
+
+  async markSyncItemsPushed(ids: string[]) {
+    return SyncQueueDAO.markPushed(ids);
+  }
+
+  async removeSyncItem(id: string, tx?: Transaction) {
+    return SyncQueueDAO.removeFromQueue(id, tx);
+  }
+
+  async acknowledgeSyncItems(acks: SyncAcknowledgement[]) {
+    return SyncQueueDAO.acknowledgeItems(acks);
   }
 
   async incrementSyncRetry(id: string, error: string) {
     return SyncQueueDAO.incrementRetryCount(id, error);
   }
 
+  async getFailedSyncItems(userId: string) {
+    return SyncQueueDAO.getFailedItems(userId);
+  }
+
+  async retryFailedSyncItem(id: string) {
+    return SyncQueueDAO.retryFailedItem(id);
+  }
+
+  async discardFailedSyncItem(id: string) {
+    return SyncQueueDAO.discardFailedItem(id);
+  }
+
   async getSyncQueueSize(userId: string) {
     return SyncQueueDAO.getQueueSize(userId);
   }
 
-  async clearSyncQueue(userId: string) {
-    return SyncQueueDAO.clearAllQueue(userId);
+  async clearSyncQueue(userId: string, tx?: Transaction) {
+    return SyncQueueDAO.clearAllQueue(userId, tx);
+  }
+
+  // Sync log operations
+  async recordSyncRun(run: SyncRunRecord, userId: string) {
+    return SyncLogDAO.addRun(run, userId);
+  }
+
+  async recordRealtimeEvent(event: RealtimeEventRecord, userId: string) {
+    return SyncLogDAO.addRealtimeEvent(event, userId);
+  }
+
+  async getSyncLog(userId: string, limit?: number, kind?: SyncLogKind) {
+    return SyncLogDAO.getEntries(userId, limit, kind);
+  }
+
+  async clearSyncLog(userId: string) {
+    return SyncLogDAO.clearLog(userId);
+  }
+
+  // Sync quarantine operations
+  async quarantineSyncPayload(
+    tableName: string,
+    direction: QuarantineDirection,
+    payload: unknown,
+    errors: string[],
+    userId: string | null,
+    tx?: Transaction
+  ) {
+    return SyncQuarantineDAO.addRecord(tableName, direction, payload, errors, userId, tx);
+  }
+
+  async getQuarantinedRecords(userId: string) {
+    return SyncQuarantineDAO.getRecords(userId);
+  }
+
+  async getQuarantineCount(userId: string) {
+    return SyncQuarantineDAO.getCount(userId);
+  }
+
+  async removeQuarantinedRecord(id: string) {
+    return SyncQuarantineDAO.removeRecord(id);
+  }
+
+  async clearQuarantine(userId: string) {
+    return SyncQuarantineDAO.clearRecords(userId);
   }
 
   // User settings operations
@@ -154,14 +349,30 @@ export class DatabaseManager {
     return UserSettingsDAO.getSetting(key);
   }
 
-  async setSetting(key: string, value: string) {
-    return UserSettingsDAO.setSetting(key, value);
+  async setSetting(key: string, value: string, tx?: Transaction) {
+    return UserSettingsDAO.setSetting(key, value, tx);
   }
 
   async getAllSettings() {
     return UserSettingsDAO.getAllSettings();
   }
 
+  async importSettings(settings: object, tx?: Transaction) {
+    return UserSettingsDAO.importSettings(settings, tx);
+  }
+
+  async clearSyncState(tx?: Transaction) {
+    return UserSettingsDAO.clearSyncState(tx);
+  }
+
+  async getSyncPreferences() {
+    return UserSettingsDAO.getSyncPreferences();
+  }
+
+  async setSyncPreferences(preferences: SyncPreferences) {
+    return UserSettingsDAO.setSyncPreferences(preferences);
+  }
+
   async getLastSelectedNoteId() {
     return UserSettingsDAO.getLastSelectedNoteId();
   }
@@ -183,6 +394,7 @@ export class DatabaseManager {
     try {
       await NotesDAO.cleanupOldDeletedNotes();
       await SyncQueueDAO.removeOldItems();
+      await SyncLogDAO.removeOldEntries();
       console.log('Database maintenance completed');
     } catch (error) {
       console.error('Database maintenance failed:', error);
@@ -204,9 +416,45 @@ export class DatabaseManager {
     };
   }
 
-  async importData(data: any, userId: string) {
-    // This would be implemented to restore from backup
-    // For now, just a placeholder
-    console.log('Import data functionality to be implemented');
+  // Adds the groups, notes and settings of an export to this account, all or
+  // nothing. Imported records get new ids, so notes follow their group through
+  // the map, and groups that were local-only stay off the server.
+  async importData(
+    data: { groups: LocalGroup[]; notes: LocalNote[]; settings: Record<string, string> },
+    userId: string
+  ) {
+    await this.transaction(async tx => {
+      const groupIds = new Map<string, string>();
+      for (const group of data.groups) {
+        if (group.is_deleted) {
+          continue;
+        }
+
+        const imported = await GroupsDAO.createGroup(group.name, group.color, userId, tx);
+        if (group.sync_policy === 'local_only') {
+          await this.withdrawFromSync('groups', imported.id, userId, tx);
+          await GroupsDAO.setSyncPolicy(imported.id, 'local_only', tx);
+        }
+        groupIds.set(group.id, imported.id);
+      }
+
+      for (const note of data.notes) {
+        if (note.is_deleted) {
+          continue;
+        }
+
+        await NotesDAO.createNote(
+          note.title,
+          JSON.parse(note.content),
+          note.content_markdown,
+          note.content_plain,
+          note.group_id ? groupIds.get(note.group_id) ?? null : null,
+          userId,
+          tx
+        );
+      }
+
+      await UserSettingsDAO.importSettings(data.settings, tx);
+    });
   }
 }
@@ -0,0 +1,55 @@
+import { Transaction, executeSql, getCurrentTimestamp } from './sqlite';
+import { SyncQueueDAO } from './syncQueueDAO';
+import { SyncPolicy } from '../types';
+
+export type CapturedTable = 'notes' | 'groups';
+export type CapturedOperation = 'INSERT' | 'UPDATE' | 'DELETE';
+
+// A notes or groups row as written, queued as the payload to push
+export interface CapturedRow {
+  id: string;
+  user_id: string;
+  group_id?: string | null;
+  sync_policy?: SyncPolicy;
+}
+
+const isLocalOnlyGroup = async (groupId: string | null | undefined, tx: Transaction): Promise<boolean> => {
+  if (!groupId) {
+    return false;
+  }
+
+  const result = await executeSql('SELECT sync_policy FROM groups WHERE id = ?', [groupId], tx);
+  return result.rows.length > 0 && result.rows.item(0).sync_policy === 'local_only';
+};
+
+// The one place local writes to notes and groups reach the sync queue. The
+// DAOs call it in the transaction of the write, so a row flagged needs_sync
+// always has its queue item and no write is queued twice.
+export const captureChange = async (
+  tableName: CapturedTable,
+  operation: CapturedOperation,
+  row: CapturedRow,
+  tx: Transaction,
+  previousGroupId?: string | null
+): Promise<void> => {
+  const moved = operation === 'UPDATE' && previousGroupId !== undefined && previousGroupId !== row.group_id;
+  const localOnly = tableName === 'groups'
+    ? row.sync_policy === 'local_only'
+    : await isLocalOnlyGroup(row.group_id, tx);
+  if (localOnly) {
+    // A note moved in from a shared group is withdrawn from the server: its
+    // copy there becomes a tombstone one version ahead of other devices
+    if (moved && !await isLocalOnlyGroup(previousGroupId, tx)) {
+      const timestamp = getCurrentTimestamp();
+      const tombstone = { ...row, group_id: previousGroupId, is_deleted: 1, deleted_at: timestamp, updated_at: timestamp };
+      await SyncQueueDAO.addToQueue(tableName, row.id, 'DELETE', tombstone, row.user_id, tx);
+    }
+    // Otherwise it never leaves the device
+    return;
+  }
+
+  // A note moved out of a local-only group reaches the server for the first time
+  const sharedNow = moved && await isLocalOnlyGroup(previousGroupId, tx);
+
+  await SyncQueueDAO.addToQueue(tableName, row.id, sharedNow ? 'INSERT' : operation, row, row.user_id, tx);
+};
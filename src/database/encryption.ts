@@ -0,0 +1,46 @@
+import { decryptText, encryptText } from '../utils/cryptoUtils';
+
+// Columns holding note text, or copies of notes kept for sync. In an
+// encrypted database they are stored sealed; titles and the rest are not.
+export const ENCRYPTED_COLUMNS: Record<string, string[]> = {
+  notes: ['content', 'content_markdown', 'content_plain'],
+  sync_queue: ['data', 'patch'],
+  sync_base: ['data'],
+  sync_snapshot: ['data'],
+  sync_conflicts: ['local_data', 'remote_data', 'merged_data'],
+  sync_quarantine: ['data'],
+};
+
+// Key of the open database, null while it is plaintext
+let dataKey: Uint8Array | null = null;
+
+export const setDataKey = (key: Uint8Array | null): void => {
+  dataKey = key;
+};
+
+export const getDataKey = (): Uint8Array | null => dataKey;
+
+export const isDatabaseEncrypted = (): boolean => dataKey !== null;
+
+// Value to write to an encrypted column. Null stays null.
+export const encryptValue = <T extends string | null>(value: T): T =>
+  dataKey && value !== null ? (encryptText(dataKey, value) as T) : value;
+
+// Value read from an encrypted column
+export const decryptValue = <T extends string | null>(value: T): T =>
+  dataKey && value !== null ? (decryptText(dataKey, value) as T) : value;
+
+// Open the encrypted columns of a row read from tableName
+export const decryptRow = <T extends object>(tableName: string, row: T): T => {
+  if (!dataKey) {
+    return row;
+  }
+
+  const decrypted: Record<string, any> = { ...row };
+  ENCRYPTED_COLUMNS[tableName].forEach(column => {
+    if (column in decrypted) {
+      decrypted[column] = decryptValue(decrypted[column]);
+    }
+  });
+  return decrypted as T;
+};
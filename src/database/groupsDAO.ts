@@ -1,4 +1,6 @@
-import { executeSql, generateUUID, getCurrentTimestamp } from './sqlite';
+import { Transaction, executeSql, generateUUID, getCurrentTimestamp, withTransaction } from './sqlite';
+import { captureChange } from './changeCapture';
+import { SyncPolicy } from '../types';
 
 export interface LocalGroup {
   id: string;
@@ -10,6 +12,7 @@ export interface LocalGroup {
   version: number;
   is_deleted: number;
   needs_sync: number;
+  sync_policy: SyncPolicy;
 }
 
 export class GroupsDAO {
@@ -26,10 +29,17 @@ export class GroupsDAO {
     return groups;
   }
 
-  static async getGroupById(id: string): Promise<LocalGroup | null> {
+  static async getGroupById(
+    id: string,
+    includeDeleted: boolean = false,
+    tx?: Transaction
+  ): Promise<LocalGroup | null> {
     const result = await executeSql(
-      'SELECT * FROM groups WHERE id = ? AND is_deleted = 0',
-      [id]
+      includeDeleted
+        ? 'SELECT * FROM groups WHERE id = ?'
+        : 'SELECT * FROM groups WHERE id = ? AND is_deleted = 0',
+      [id],
+      tx
     );
 
     if (result.rows.length > 0) {
@@ -41,7 +51,8 @@ export class GroupsDAO {
   static async createGroup(
     name: string,
     color: string,
-    userId: string
+    userId: string,
+    tx?: Transaction
   ): Promise<LocalGroup> {
     const id = generateUUID();
     const timestamp = getCurrentTimestamp();
@@ -56,74 +67,175 @@ export class GroupsDAO {
       version: 1,
       is_deleted: 0,
       needs_sync: 1,
+      sync_policy: 'sync',
     };
 
-    await executeSql(
-      `INSERT INTO groups (id, name, color, user_id, created_at, updated_at, version, is_deleted, needs_sync)
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-      [
-        group.id,
-        group.name,
-        group.color,
-        group.user_id,
-        group.created_at,
-        group.updated_at,
-        group.version,
-        group.is_deleted,
-        group.needs_sync,
-      ]
-    );
+    return withTransaction(tx, async transaction => {
+      await executeSql(
+        `INSERT INTO groups (id, name, color, user_id, created_at, updated_at, version, is_deleted, needs_sync, sync_policy)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          group.id,
+          group.name,
+          group.color,
+          group.user_id,
+          group.created_at,
+          group.updated_at,
+          group.version,
+          group.is_deleted,
+          group.needs_sync,
+          group.sync_policy,
+        ],
+        transaction
+      );
+      await captureChange('groups', 'INSERT', group, transaction);
 
-    return group;
+      return group;
+    });
   }
 
   static async updateGroup(
     id: string,
-    updates: Partial<Pick<LocalGroup, 'name' | 'color'>>
+    updates: Partial<Pick<LocalGroup, 'name' | 'color'>>,
+    tx?: Transaction
   ): Promise<LocalGroup | null> {
-    const existingGroup = await this.getGroupById(id);
-    if (!existingGroup) {
-      return null;
-    }
+    return withTransaction(tx, async transaction => {
+      const existingGroup = await this.getGroupById(id, false, transaction);
+      if (!existingGroup) {
+        return null;
+      }
+
+      const timestamp = getCurrentTimestamp();
+      const newVersion = existingGroup.version + 1;
+
+      const updatedGroup: LocalGroup = {
+        ...existingGroup,
+        ...updates,
+        updated_at: timestamp,
+        version: newVersion,
+        needs_sync: 1,
+      };
+
+      await executeSql(
+        `UPDATE groups 
+         SET name = ?, color = ?, updated_at = ?, version = ?, needs_sync = 1
+         WHERE id = ?`,
+        [
+          updatedGroup.name,
+          updatedGroup.color,
+          updatedGroup.updated_at,
+          updatedGroup.version,
+          id,
+        ],
+        transaction
+      );
+      await captureChange('groups', 'UPDATE', updatedGroup, transaction);
 
+      return updatedGroup;
+    });
+  }
+
+  static async deleteGroup(id: string, tx?: Transaction): Promise<boolean> {
     const timestamp = getCurrentTimestamp();
-    const newVersion = existingGroup.version + 1;
 
-    const updatedGroup: LocalGroup = {
-      ...existingGroup,
-      ...updates,
-      updated_at: timestamp,
-      version: newVersion,
-      needs_sync: 1,
-    };
+    return withTransaction(tx, async transaction => {
+      const result = await executeSql(
+        `UPDATE groups 
+         SET is_deleted = 1, updated_at = ?, version = version + 1, needs_sync = 1
+         WHERE id = ? AND is_deleted = 0`,
+        [timestamp, id],
+        transaction
+      );
+      if (result.rowsAffected === 0) {
+        return false;
+      }
+
+      // Pushed as a tombstone, the whole row at its new version
+      const deletedGroup = await this.getGroupById(id, true, transaction);
+      if (deletedGroup) {
+        await captureChange('groups', 'DELETE', deletedGroup, transaction);
+      }
+      return true;
+    });
+  }
+
+  // Delete the user's groups on this device only, like NotesDAO.clearNotes.
+  // Groups named in keepNames stay, but are no longer marked for sync either.
+  static async clearGroups(userId: string, keepNames: string[], tx?: Transaction): Promise<void> {
+    const timestamp = getCurrentTimestamp();
 
+    await withTransaction(tx, async transaction => {
+      await executeSql(
+        `UPDATE groups 
+         SET is_deleted = 1, updated_at = ?
+         WHERE user_id = ? AND is_deleted = 0 AND name NOT IN (${keepNames.map(() => '?').join(', ')})`,
+        [timestamp, userId, ...keepNames],
+        transaction
+      );
+      await executeSql('UPDATE groups SET needs_sync = 0 WHERE user_id = ?', [userId], transaction);
+    });
+  }
+
+  // Remove the row for good, once the server has purged it. Notes still
+  // pointing at it become uncategorized.
+  static async hardDeleteGroup(id: string): Promise<void> {
+    await executeSql('UPDATE notes SET group_id = NULL WHERE group_id = ?', [id]);
+    await executeSql('DELETE FROM groups WHERE id = ?', [id]);
+  }
+
+  static async setSyncPolicy(id: string, policy: SyncPolicy, tx?: Transaction): Promise<void> {
     await executeSql(
-      `UPDATE groups 
-       SET name = ?, color = ?, updated_at = ?, version = ?, needs_sync = 1
-       WHERE id = ?`,
-      [
-        updatedGroup.name,
-        updatedGroup.color,
-        updatedGroup.updated_at,
-        updatedGroup.version,
-        id,
-      ]
+      'UPDATE groups SET sync_policy = ? WHERE id = ?',
+      [policy, id],
+      tx
     );
+  }
 
-    return updatedGroup;
+  static async getSyncPolicy(id: string | null, tx?: Transaction): Promise<SyncPolicy> {
+    if (!id) {
+      return 'sync';
+    }
+
+    const result = await executeSql(
+      'SELECT sync_policy FROM groups WHERE id = ?',
+      [id],
+      tx
+    );
+    return result.rows.length > 0 && result.rows.item(0).sync_policy === 'local_only'
+      ? 'local_only'
+      : 'sync';
   }
 
-  static async deleteGroup(id: string): Promise<boolean> {
-    const timestamp = getCurrentTimestamp();
+  // A group's own policy, or for a note the policy of the group it is in
+  static async getRecordSyncPolicy(
+    tableName: string,
+    record: { id: string; group_id?: string | null },
+    tx?: Transaction
+  ): Promise<SyncPolicy> {
+    return this.getSyncPolicy(tableName === 'groups' ? record.id : record.group_id ?? null, tx);
+  }
 
+  static async getLocalOnlyGroupIds(userId: string): Promise<string[]> {
     const result = await executeSql(
-      `UPDATE groups 
-       SET is_deleted = 1, updated_at = ?, needs_sync = 1
-       WHERE id = ? AND is_deleted = 0`,
-      [timestamp, id]
+      "SELECT id FROM groups WHERE user_id = ? AND sync_policy = 'local_only'",
+      [userId]
     );
 
-    return result.rowsAffected > 0;
+    const ids: string[] = [];
+    for (let i = 0; i < result.rows.length; i++) {
+      ids.push(result.rows.item(i).id);
+    }
+    return ids;
+  }
+
+  // Record a change that is not an edit, such as the group leaving sync
+  static async incrementVersion(id: string, tx?: Transaction): Promise<LocalGroup | null> {
+    await executeSql(
+      'UPDATE groups SET version = version + 1 WHERE id = ?',
+      [id],
+      tx
+    );
+    return this.getGroupById(id, true, tx);
   }
 
   static async getGroupsNeedingSync(userId: string): Promise<LocalGroup[]> {
@@ -139,18 +251,34 @@ export class GroupsDAO {
     return groups;
   }
 
-  static async markGroupSynced(id: string): Promise<void> {
+  static async markGroupSynced(id: string, version?: number): Promise<void> {
+    if (version === undefined) {
+      await executeSql(
+        'UPDATE groups SET needs_sync = 0 WHERE id = ?',
+        [id]
+      );
+      return;
+    }
+
+    // Only clear the flag if the group was not edited again while the push was in flight
     await executeSql(
-      'UPDATE groups SET needs_sync = 0 WHERE id = ?',
-      [id]
+      'UPDATE groups SET needs_sync = 0 WHERE id = ? AND version = ?',
+      [id, version]
     );
   }
 
-  static async upsertGroupFromSync(group: Omit<LocalGroup, 'needs_sync'>): Promise<void> {
-    await executeSql(
+  // The sync policy is device-local, so an existing group keeps its own.
+  // With needsSync the row holds local changes merged in, and is queued to
+  // be pushed like any other local edit.
+  static async upsertGroupFromSync(
+    group: Omit<LocalGroup, 'needs_sync' | 'sync_policy'>,
+    needsSync: boolean = false,
+    tx?: Transaction
+  ): Promise<void> {
+    const upsert = (transaction?: Transaction) => executeSql(
       `INSERT OR REPLACE INTO groups 
-       (id, name, color, user_id, created_at, updated_at, version, is_deleted, needs_sync)
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?, 0)`,
+       (id, name, color, user_id, created_at, updated_at, version, is_deleted, needs_sync, sync_policy)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, COALESCE((SELECT sync_policy FROM groups WHERE id = ?), 'sync'))`,
       [
         group.id,
         group.name,
@@ -160,8 +288,24 @@ export class GroupsDAO {
         group.updated_at,
         group.version,
         group.is_deleted,
-      ]
+        needsSync ? 1 : 0,
+        group.id,
+      ],
+      transaction
     );
+
+    if (!needsSync) {
+      await upsert(tx);
+      return;
+    }
+
+    await withTransaction(tx, async transaction => {
+      await upsert(transaction);
+      const upserted = await this.getGroupById(group.id, true, transaction);
+      if (upserted) {
+        await captureChange('groups', 'UPDATE', upserted, transaction);
+      }
+    });
   }
 
   static async seedDefaultGroups(userId: string): Promise<void> {
@@ -178,10 +322,11 @@ export class GroupsDAO {
     }
   }
 
-  static async getUncategorizedGroup(userId: string): Promise<LocalGroup | null> {
+  static async getUncategorizedGroup(userId: string, tx?: Transaction): Promise<LocalGroup | null> {
     const result = await executeSql(
       'SELECT * FROM groups WHERE user_id = ? AND name = ? AND is_deleted = 0',
-      [userId, 'Uncategorized']
+      [userId, 'Uncategorized'],
+      tx
     );
 
     if (result.rows.length > 0) {
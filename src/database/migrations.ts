@@ -0,0 +1,318 @@
+// The part of an open react-native-sqlite-storage database migrations use
+export interface MigrationDatabase {
+  executeSql(sql: string, params?: any[]): Promise<[{ rows: { length: number; item(index: number): any } }]>;
+  transaction(callback: (tx: { executeSql(sql: string, params?: any[]): void }) => void): Promise<unknown>;
+}
+
+// What a migration can see of the database before it runs
+export interface SchemaInfo {
+  hasTable(tableName: string): boolean;
+  hasColumn(tableName: string, columnName: string): boolean;
+  // Whether this SQLite build has the FTS5 module; many Android builds do not
+  hasFts5: boolean;
+}
+
+export interface Migration {
+  version: number;
+  name: string;
+  // Statements to run, all in one transaction with the version bump
+  up(schema: SchemaInfo): string[];
+}
+
+// Databases created before migrations were tracked are at version 0 with any
+// earlier schema, so columns added since then are only added when missing
+const addColumn = (
+  schema: SchemaInfo,
+  tableName: string,
+  columnName: string,
+  definition: string
+): string[] =>
+  schema.hasColumn(tableName, columnName)
+    ? []
+    : [`ALTER TABLE ${tableName} ADD COLUMN ${columnName} ${definition}`];
+
+// Append only: a released migration never changes, a new one is added instead
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'Create notes, groups, sync queue and settings',
+    up: () => [
+      `CREATE TABLE IF NOT EXISTS groups (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        color TEXT DEFAULT '#14b8a6',
+        user_id TEXT,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        updated_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        version INTEGER DEFAULT 1,
+        is_deleted INTEGER DEFAULT 0,
+        needs_sync INTEGER DEFAULT 0
+      )`,
+      `CREATE TABLE IF NOT EXISTS notes (
+        id TEXT PRIMARY KEY,
+        title TEXT NOT NULL DEFAULT 'Untitled',
+        content TEXT DEFAULT '{}',
+        content_markdown TEXT DEFAULT '',
+        content_plain TEXT DEFAULT '',
+        group_id TEXT,
+        user_id TEXT,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        updated_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        version INTEGER DEFAULT 1,
+        is_deleted INTEGER DEFAULT 0,
+        deleted_at TEXT,
+        needs_sync INTEGER DEFAULT 0,
+        FOREIGN KEY (group_id) REFERENCES groups (id)
+      )`,
+      `CREATE TABLE IF NOT EXISTS sync_queue (
+        id TEXT PRIMARY KEY,
+        table_name TEXT NOT NULL,
+        record_id TEXT NOT NULL,
+        operation TEXT NOT NULL,
+        data TEXT,
+        user_id TEXT,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        retry_count INTEGER DEFAULT 0,
+        last_error TEXT
+      )`,
+      `CREATE TABLE IF NOT EXISTS user_settings (
+        key TEXT PRIMARY KEY,
+        value TEXT,
+        updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+      )`,
+      'CREATE INDEX IF NOT EXISTS idx_notes_user_id ON notes(user_id)',
+      'CREATE INDEX IF NOT EXISTS idx_notes_group_id ON notes(group_id)',
+      'CREATE INDEX IF NOT EXISTS idx_notes_updated_at ON notes(updated_at)',
+      'CREATE INDEX IF NOT EXISTS idx_groups_user_id ON groups(user_id)',
+      'CREATE INDEX IF NOT EXISTS idx_sync_queue_table_record ON sync_queue(table_name, record_id)',
+    ],
+  },
+  {
+    version: 2,
+    name: 'Keep the last-synced version of each record as a merge base',
+    up: () => [
+      `CREATE TABLE IF NOT EXISTS sync_base (
+        table_name TEXT NOT NULL,
+        record_id TEXT NOT NULL,
+        data TEXT NOT NULL,
+        version INTEGER DEFAULT 1,
+        synced_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (table_name, record_id)
+      )`,
+    ],
+  },
+  {
+    version: 3,
+    name: 'Store divergent edits awaiting review',
+    up: () => [
+      `CREATE TABLE IF NOT EXISTS sync_conflicts (
+        id TEXT PRIMARY KEY,
+        table_name TEXT NOT NULL,
+        record_id TEXT NOT NULL,
+        fields TEXT DEFAULT '[]',
+        local_data TEXT NOT NULL,
+        remote_data TEXT NOT NULL,
+        merged_data TEXT NOT NULL,
+        user_id TEXT,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        resolved_at TEXT,
+        resolution TEXT
+      )`,
+      'CREATE INDEX IF NOT EXISTS idx_sync_conflicts_user_id ON sync_conflicts(user_id, resolved_at)',
+    ],
+  },
+  {
+    version: 4,
+    name: 'Back off failed pushes',
+    up: schema => addColumn(schema, 'sync_queue', 'next_attempt_at', 'TEXT'),
+  },
+  {
+    version: 5,
+    name: 'Add per-group sync policy',
+    up: schema => addColumn(schema, 'groups', 'sync_policy', "TEXT DEFAULT 'sync'"),
+  },
+  {
+    version: 6,
+    name: 'Record sync runs and realtime events',
+    up: () => [
+      `CREATE TABLE IF NOT EXISTS sync_log (
+        id TEXT PRIMARY KEY,
+        kind TEXT NOT NULL CHECK (kind IN ('run', 'realtime')),
+        user_id TEXT,
+        started_at TEXT,
+        finished_at TEXT,
+        duration_ms INTEGER,
+        pushed INTEGER DEFAULT 0,
+        pulled INTEGER DEFAULT 0,
+        conflicts INTEGER DEFAULT 0,
+        errors TEXT DEFAULT '[]',
+        table_name TEXT,
+        record_id TEXT,
+        event_type TEXT,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP
+      )`,
+      'CREATE INDEX IF NOT EXISTS idx_sync_log_user_created ON sync_log(user_id, created_at)',
+    ],
+  },
+  {
+    version: 7,
+    name: 'Queue note updates as patches',
+    up: schema => addColumn(schema, 'sync_queue', 'patch', 'TEXT'),
+  },
+  {
+    version: 8,
+    name: 'Stage downloaded snapshots until they are loaded',
+    up: () => [
+      `CREATE TABLE IF NOT EXISTS sync_snapshot (
+        table_name TEXT NOT NULL,
+        record_id TEXT NOT NULL,
+        data TEXT NOT NULL,
+        PRIMARY KEY (table_name, record_id)
+      )`,
+    ],
+  },
+  {
+    version: 9,
+    name: 'Quarantine sync payloads that fail validation',
+    up: () => [
+      `CREATE TABLE IF NOT EXISTS sync_quarantine (
+        id TEXT PRIMARY KEY,
+        table_name TEXT NOT NULL,
+        record_id TEXT,
+        direction TEXT NOT NULL CHECK (direction IN ('inbound', 'outbound')),
+        data TEXT NOT NULL,
+        errors TEXT DEFAULT '[]',
+        user_id TEXT,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP
+      )`,
+    ],
+  },
+  {
+    version: 10,
+    name: 'Index note titles and text for full-text search',
+    // Without FTS5 nothing is created and search falls back to LIKE
+    up: schema =>
+      schema.hasFts5
+        ? [
+            // External content: the index reads title and text from notes by rowid
+            `CREATE VIRTUAL TABLE IF NOT EXISTS notes_fts USING fts5(
+              title, content_plain, content='notes', content_rowid='rowid'
+            )`,
+            `CREATE TRIGGER IF NOT EXISTS notes_fts_insert AFTER INSERT ON notes BEGIN
+              INSERT INTO notes_fts (rowid, title, content_plain)
+              VALUES (new.rowid, new.title, new.content_plain);
+            END`,
+            `CREATE TRIGGER IF NOT EXISTS notes_fts_delete AFTER DELETE ON notes BEGIN
+              INSERT INTO notes_fts (notes_fts, rowid, title, content_plain)
+              VALUES ('delete', old.rowid, old.title, old.content_plain);
+            END`,
+            `CREATE TRIGGER IF NOT EXISTS notes_fts_update AFTER UPDATE OF title, content_plain ON notes BEGIN
+              INSERT INTO notes_fts (notes_fts, rowid, title, content_plain)
+              VALUES ('delete', old.rowid, old.title, old.content_plain);
+              INSERT INTO notes_fts (rowid, title, content_plain)
+              VALUES (new.rowid, new.title, new.content_plain);
+            END`,
+            // Index the notes that already exist
+            "INSERT INTO notes_fts (notes_fts) VALUES ('rebuild')",
+          ]
+        : [],
+  },
+  {
+    version: 11,
+    name: 'Remember queue items handed to a push',
+    up: schema => addColumn(schema, 'sync_queue', 'pushed_at', 'TEXT'),
+  },
+  {
+    version: 12,
+    name: 'Keep the wrapped key of an encrypted database',
+    // Empty in a plaintext database; encrypting one writes its single row
+    up: () => [
+      `CREATE TABLE IF NOT EXISTS database_key (
+        id INTEGER PRIMARY KEY CHECK (id = 1),
+        salt TEXT NOT NULL,
+        iterations INTEGER NOT NULL,
+        wrapped_key TEXT NOT NULL
+      )`,
+    ],
+  },
+];
+
+export const getSchemaVersion = async (db: MigrationDatabase): Promise<number> => {
+  const [result] = await db.executeSql('PRAGMA user_version');
+  return result.rows.item(0).user_version;
+};
+
+// Creating a throwaway FTS5 table is the only check that works on every build
+const supportsFts5 = (db: MigrationDatabase): Promise<boolean> =>
+  db.executeSql('CREATE VIRTUAL TABLE temp.fts5_probe USING fts5(probe)').then(
+    async () => {
+      await db.executeSql('DROP TABLE temp.fts5_probe');
+      return true;
+    },
+    () => false
+  );
+
+const readSchema = async (db: MigrationDatabase): Promise<SchemaInfo> => {
+  const [tables] = await db.executeSql(
+    "SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%'"
+  );
+
+  const columns = new Map<string, Set<string>>();
+  for (let i = 0; i < tables.rows.length; i++) {
+    const tableName: string = tables.rows.item(i).name;
+    const [info] = await db.executeSql(`PRAGMA table_info(${tableName})`);
+
+    const names = new Set<string>();
+    for (let j = 0; j < info.rows.length; j++) {
+      names.add(info.rows.item(j).name);
+    }
+    columns.set(tableName, names);
+  }
+
+  return {
+    hasTable: tableName => columns.has(tableName),
+    hasColumn: (tableName, columnName) => columns.get(tableName)?.has(columnName) ?? false,
+    hasFts5: await supportsFts5(db),
+  };
+};
+
+// Bring the database up to the newest migration. Each migration commits with
+// its version, so a failing one is rolled back whole and the next launch
+// retries it from the last version that succeeded.
+export const migrateDatabase = async (
+  db: MigrationDatabase,
+  migrations: Migration[] = MIGRATIONS
+): Promise<number> => {
+  let version = await getSchemaVersion(db);
+  const latestVersion = migrations[migrations.length - 1]?.version ?? 0;
+
+  if (version > latestVersion) {
+    // Written by a newer build; running against it could corrupt data
+    throw new Error(
+      `Database schema version ${version} is newer than this app supports (${latestVersion})`
+    );
+  }
+
+  for (const migration of migrations.filter(({ version: target }) => target > version)) {
+    const statements = migration.up(await readSchema(db));
+
+    try {
+      await db.transaction(tx => {
+        statements.forEach(sql => tx.executeSql(sql, []));
+        tx.executeSql(`PRAGMA user_version = ${migration.version}`, []);
+      });
+    } catch (error) {
+      // The native driver rejects with a SQLError, which is not an Error
+      const message = (error as { message?: string } | null)?.message ?? String(error);
+      console.error(`Migration ${migration.version} (${migration.name}) failed:`, error);
+      throw new Error(
+        `Database migration ${migration.version} (${migration.name}) failed: ${message}`
+      );
+    }
+
+    version = migration.version;
+    console.log(`Database migrated to version ${version}: ${migration.name}`);
+  }
+
+  return version;
+};
@@ -1,4 +1,16 @@
-import { executeSql, generateUUID, getCurrentTimestamp } from './sqlite';
+import { Transaction, executeSql, generateUUID, getCurrentTimestamp, withTransaction } from './sqlite';
+import { captureChange } from './changeCapture';
+import { decryptRow, encryptValue, isDatabaseEncrypted } from './encryption';
+import { SearchMatch } from '../types';
+import { PERFORMANCE } from '../constants';
+import {
+  SearchTerm,
+  SNIPPET_MARKERS,
+  buildSnippet,
+  findMatches,
+  parseSearchQuery,
+  toFtsQuery,
+} from '../utils/searchUtils';
 
 export interface LocalNote {
   id: string;
@@ -16,6 +28,22 @@ export interface LocalNote {
   needs_sync: number;
 }
 
+export interface LocalNoteSearchResult {
+  note: LocalNote;
+  score: number;
+  snippet: string; // Text around the matches, each wrapped in <mark>
+  matches: SearchMatch[];
+}
+
+// Rows are read through here, so that their text is opened when sealed
+const readNotes = (result: { rows: { length: number; item(index: number): any } }): LocalNote[] => {
+  const notes: LocalNote[] = [];
+  for (let i = 0; i < result.rows.length; i++) {
+    notes.push(decryptRow('notes', result.rows.item(i)));
+  }
+  return notes;
+};
+
 export class NotesDAO {
   static async getAllNotes(userId: string): Promise<LocalNote[]> {
     const result = await executeSql(
@@ -23,11 +51,7 @@ export class NotesDAO {
       [userId]
     );
 
-    const notes: LocalNote[] = [];
-    for (let i = 0; i < result.rows.length; i++) {
-      notes.push(result.rows.item(i));
-    }
-    return notes;
+    return readNotes(result);
   }
 
   static async getNotesByGroup(userId: string, groupId: string | null): Promise<LocalNote[]> {
@@ -44,23 +68,23 @@ export class NotesDAO {
 
     const result = await executeSql(sql, params);
 
-    const notes: LocalNote[] = [];
-    for (let i = 0; i < result.rows.length; i++) {
-      notes.push(result.rows.item(i));
-    }
-    return notes;
+    return readNotes(result);
   }
 
-  static async getNoteById(id: string): Promise<LocalNote | null> {
+  static async getNoteById(
+    id: string,
+    includeDeleted: boolean = false,
+    tx?: Transaction
+  ): Promise<LocalNote | null> {
     const result = await executeSql(
-      'SELECT * FROM notes WHERE id = ? AND is_deleted = 0',
-      [id]
+      includeDeleted
+        ? 'SELECT * FROM notes WHERE id = ?'
+        : 'SELECT * FROM notes WHERE id = ? AND is_deleted = 0',
+      [id],
+      tx
     );
 
-    if (result.rows.length > 0) {
-      return result.rows.item(0);
-    }
-    return null;
+    return readNotes(result)[0] ?? null;
   }
 
   static async createNote(
@@ -69,7 +93,8 @@ export class NotesDAO {
     contentMarkdown: string,
     contentPlain: string,
     groupId: string | null,
-    userId: string
+    userId: string,
+    tx?: Transaction
   ): Promise<LocalNote> {
     const id = generateUUID();
     const timestamp = getCurrentTimestamp();
@@ -90,96 +115,233 @@ export class NotesDAO {
       needs_sync: 1,
     };
 
-    await executeSql(
-      `INSERT INTO notes (id, title, content, content_markdown, content_plain, group_id, user_id, created_at, updated_at, version, is_deleted, deleted_at, needs_sync)
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-      [
-        note.id,
-        note.title,
-        note.content,
-        note.content_markdown,
-        note.content_plain,
-        note.group_id,
-        note.user_id,
-        note.created_at,
-        note.updated_at,
-        note.version,
-        note.is_deleted,
-        note.deleted_at,
-        note.needs_sync,
-      ]
-    );
+    return withTransaction(tx, async transaction => {
+      await executeSql(
+        `INSERT INTO notes (id, title, content, content_markdown, content_plain, group_id, user_id, created_at, updated_at, version, is_deleted, deleted_at, needs_sync)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          note.id,
+          note.title,
+          encryptValue(note.content),
+          encryptValue(note.content_markdown),
+          encryptValue(note.content_plain),
+          note.group_id,
+          note.user_id,
+          note.created_at,
+          note.updated_at,
+          note.version,
+          note.is_deleted,
+          note.deleted_at,
+          note.needs_sync,
+        ],
+        transaction
+      );
+      await captureChange('notes', 'INSERT', note, transaction);
 
-    return note;
+      return note;
+    });
   }
 
   static async updateNote(
     id: string,
-    updates: Partial<Pick<LocalNote, 'title' | 'content' | 'content_markdown' | 'content_plain' | 'group_id'>>
+    updates: Partial<Pick<LocalNote, 'title' | 'content' | 'content_markdown' | 'content_plain' | 'group_id'>>,
+    tx?: Transaction
   ): Promise<LocalNote | null> {
-    const existingNote = await this.getNoteById(id);
-    if (!existingNote) {
-      return null;
-    }
+    return withTransaction(tx, async transaction => {
+      const existingNote = await this.getNoteById(id, false, transaction);
+      if (!existingNote) {
+        return null;
+      }
+
+      const timestamp = getCurrentTimestamp();
+      const newVersion = existingNote.version + 1;
+
+      const updatedNote: LocalNote = {
+        ...existingNote,
+        ...updates,
+        content: updates.content ? JSON.stringify(updates.content) : existingNote.content,
+        updated_at: timestamp,
+        version: newVersion,
+        needs_sync: 1,
+      };
 
+      await executeSql(
+        `UPDATE notes 
+         SET title = ?, content = ?, content_markdown = ?, content_plain = ?, group_id = ?, updated_at = ?, version = ?, needs_sync = 1
+         WHERE id = ?`,
+        [
+          updatedNote.title,
+          encryptValue(updatedNote.content),
+          encryptValue(updatedNote.content_markdown),
+          encryptValue(updatedNote.content_plain),
+          updatedNote.group_id,
+          updatedNote.updated_at,
+          updatedNote.version,
+          id,
+        ],
+        transaction
+      );
+      await captureChange('notes', 'UPDATE', updatedNote, transaction, existingNote.group_id);
+
+      return updatedNote;
+    });
+  }
+
+  static async deleteNote(id: string, tx?: Transaction): Promise<boolean> {
     const timestamp = getCurrentTimestamp();
-    const newVersion = existingNote.version + 1;
 
-    const updatedNote: LocalNote = {
-      ...existingNote,
-      ...updates,
-      content: updates.content ? JSON.stringify(updates.content) : existingNote.content,
-      updated_at: timestamp,
-      version: newVersion,
-      needs_sync: 1,
-    };
+    return withTransaction(tx, async transaction => {
+      const result = await executeSql(
+        `UPDATE notes 
+         SET is_deleted = 1, deleted_at = ?, updated_at = ?, version = version + 1, needs_sync = 1
+         WHERE id = ? AND is_deleted = 0`,
+        [timestamp, timestamp, id],
+        transaction
+      );
+      if (result.rowsAffected === 0) {
+        return false;
+      }
+
+      // Pushed as a tombstone, the whole row at its new version
+      const deletedNote = await this.getNoteById(id, true, transaction);
+      if (deletedNote) {
+        await captureChange('notes', 'DELETE', deletedNote, transaction);
+      }
+      return true;
+    });
+  }
 
+  // Delete every note of the user on this device only. Nothing is queued and
+  // pending edits are dropped with the queue, so no note is left marked for sync.
+  static async clearNotes(userId: string, tx?: Transaction): Promise<void> {
+    const timestamp = getCurrentTimestamp();
+
+    await withTransaction(tx, async transaction => {
+      await executeSql(
+        `UPDATE notes 
+         SET is_deleted = 1, deleted_at = ?, updated_at = ?
+         WHERE user_id = ? AND is_deleted = 0`,
+        [timestamp, timestamp, userId],
+        transaction
+      );
+      await executeSql('UPDATE notes SET needs_sync = 0 WHERE user_id = ?', [userId], transaction);
+    });
+  }
+
+  // Remove the row for good, once the server has purged it
+  static async hardDeleteNote(id: string): Promise<void> {
+    await executeSql('DELETE FROM notes WHERE id = ?', [id]);
+  }
+
+  // Record a change that is not an edit, such as the note leaving sync
+  static async incrementVersion(id: string, tx?: Transaction): Promise<LocalNote | null> {
     await executeSql(
-      `UPDATE notes 
-       SET title = ?, content = ?, content_markdown = ?, content_plain = ?, group_id = ?, updated_at = ?, version = ?, needs_sync = 1
-       WHERE id = ?`,
-      [
-        updatedNote.title,
-        updatedNote.content,
-        updatedNote.content_markdown,
-        updatedNote.content_plain,
-        updatedNote.group_id,
-        updatedNote.updated_at,
-        updatedNote.version,
-        id,
-      ]
+      'UPDATE notes SET version = version + 1 WHERE id = ?',
+      [id],
+      tx
     );
-
-    return updatedNote;
+    return this.getNoteById(id, true, tx);
   }
 
-  static async deleteNote(id: string): Promise<boolean> {
-    const timestamp = getCurrentTimestamp();
+  // Ranked search over title and text. Supports word prefixes (`north*`),
+  // phrases (`"northern star"`) and exclusions (`-draft`).
+  static async searchNotes(
+    userId: string,
+    query: string,
+    limit: number = PERFORMANCE.maxSearchResults
+  ): Promise<LocalNoteSearchResult[]> {
+    const terms = parseSearchQuery(query);
+    const ftsQuery = toFtsQuery(terms);
+    if (!ftsQuery) {
+      return [];
+    }
 
+    // The index only exists where SQLite was built with FTS5
+    const index = await executeSql(
+      "SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'notes_fts'"
+    );
+    if (index.rows.length === 0) {
+      return this.searchNotesWithoutIndex(userId, terms, limit);
+    }
+
+    // bm25() is lower for better matches; a title match weighs five times as much
     const result = await executeSql(
-      `UPDATE notes 
-       SET is_deleted = 1, deleted_at = ?, updated_at = ?, needs_sync = 1
-       WHERE id = ? AND is_deleted = 0`,
-      [timestamp, timestamp, id]
+      `SELECT notes.*, bm25(notes_fts, 5.0, 1.0) AS search_rank,
+              snippet(notes_fts, 1, ?, ?, ?, 12) AS search_snippet
+       FROM notes_fts
+       JOIN notes ON notes.rowid = notes_fts.rowid
+       WHERE notes_fts MATCH ? AND notes.user_id = ? AND notes.is_deleted = 0
+       ORDER BY search_rank
+       LIMIT ?`,
+      [SNIPPET_MARKERS.start, SNIPPET_MARKERS.end, SNIPPET_MARKERS.ellipsis, ftsQuery, userId, limit]
     );
 
-    return result.rowsAffected > 0;
+    const results: LocalNoteSearchResult[] = [];
+    for (let i = 0; i < result.rows.length; i++) {
+      const { search_rank, search_snippet, ...note } = result.rows.item(i);
+      const matches = [
+        ...findMatches(note.title, 'title', terms),
+        ...findMatches(note.content_plain ?? '', 'content', terms),
+      ];
+
+      results.push({
+        note,
+        score: -search_rank,
+        snippet: search_snippet ?? '',
+        matches,
+      });
+    }
+    return results;
   }
 
-  static async searchNotes(userId: string, query: string): Promise<LocalNote[]> {
+  // LIKE narrows the candidates, then matching and ranking happen here
+  private static async searchNotesWithoutIndex(
+    userId: string,
+    terms: SearchTerm[],
+    limit: number
+  ): Promise<LocalNoteSearchResult[]> {
+    const conditions = ['user_id = ? AND is_deleted = 0'];
+    const params: any[] = [userId];
+    // Sealed text cannot be matched in SQL, and encrypting drops the index, so an
+    // encrypted database has every note checked here. The account screen says so.
+    if (!isDatabaseEncrypted()) {
+      terms.filter(term => !term.exclude).forEach(term => {
+        const pattern = `%${term.text.replace(/[\\%_]/g, '\\$&')}%`;
+        conditions.push("(title LIKE ? ESCAPE '\\' OR content_plain LIKE ? ESCAPE '\\')");
+        params.push(pattern, pattern);
+      });
+    }
+
     const result = await executeSql(
-      `SELECT * FROM notes 
-       WHERE user_id = ? AND is_deleted = 0 
-       AND (title LIKE ? OR content_plain LIKE ?)
+      `SELECT * FROM notes
+       WHERE ${conditions.join(' AND ')}
        ORDER BY updated_at DESC`,
-      [userId, `%${query}%`, `%${query}%`]
+      params
     );
 
-    const notes: LocalNote[] = [];
-    for (let i = 0; i < result.rows.length; i++) {
-      notes.push(result.rows.item(i));
+    const results: LocalNoteSearchResult[] = [];
+    for (const note of readNotes(result)) {
+      const content = note.content_plain ?? '';
+
+      // LIKE also matches inside words, which the index would not
+      const contains = (term: SearchTerm) =>
+        findMatches(`${note.title}\n${content}`, 'content', [{ ...term, exclude: false }]).length > 0;
+      if (!terms.every(term => contains(term) !== term.exclude)) {
+        continue;
+      }
+
+      const titleMatches = findMatches(note.title, 'title', terms);
+      const contentMatches = findMatches(content, 'content', terms);
+      results.push({
+        note,
+        score: titleMatches.length * 5 + contentMatches.length,
+        snippet: buildSnippet(content, contentMatches),
+        matches: [...titleMatches, ...contentMatches],
+      });
     }
-    return notes;
+
+    // Stable sort, so equal scores stay most recently updated first
+    return results.sort((a, b) => b.score - a.score).slice(0, limit);
   }
 
   static async getNotesNeedingSync(userId: string): Promise<LocalNote[]> {
@@ -188,31 +350,42 @@ export class NotesDAO {
       [userId]
     );
 
-    const notes: LocalNote[] = [];
-    for (let i = 0; i < result.rows.length; i++) {
-      notes.push(result.rows.item(i));
-    }
-    return notes;
+    return readNotes(result);
   }
 
-  static async markNoteSynced(id: string): Promise<void> {
+  static async markNoteSynced(id: string, version?: number): Promise<void> {
+    if (version === undefined) {
+      await executeSql(
+        'UPDATE notes SET needs_sync = 0 WHERE id = ?',
+        [id]
+      );
+      return;
+    }
+
+    // Only clear the flag if the note was not edited again while the push was in flight
     await executeSql(
-      'UPDATE notes SET needs_sync = 0 WHERE id = ?',
-      [id]
+      'UPDATE notes SET needs_sync = 0 WHERE id = ? AND version = ?',
+      [id, version]
     );
   }
 
-  static async upsertNoteFromSync(note: Omit<LocalNote, 'needs_sync'>): Promise<void> {
-    await executeSql(
+  // With needsSync the row holds local changes merged in, and is queued to
+  // be pushed like any other local edit
+  static async upsertNoteFromSync(
+    note: Omit<LocalNote, 'needs_sync'>,
+    needsSync: boolean = false,
+    tx?: Transaction
+  ): Promise<void> {
+    const upsert = (transaction?: Transaction) => executeSql(
       `INSERT OR REPLACE INTO notes 
        (id, title, content, content_markdown, content_plain, group_id, user_id, created_at, updated_at, version, is_deleted, deleted_at, needs_sync)
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 0)`,
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
       [
         note.id,
         note.title,
-        note.content,
-        note.content_markdown,
-        note.content_plain,
+        encryptValue(note.content),
+        encryptValue(note.content_markdown),
+        encryptValue(note.content_plain),
         note.group_id,
         note.user_id,
         note.created_at,
@@ -220,19 +393,52 @@ export class NotesDAO {
         note.version,
         note.is_deleted,
         note.deleted_at,
-      ]
+        needsSync ? 1 : 0,
+      ],
+      transaction
     );
+
+    if (!needsSync) {
+      await upsert(tx);
+      return;
+    }
+
+    await withTransaction(tx, async transaction => {
+      await upsert(transaction);
+      const upserted: LocalNote = { ...note, needs_sync: 1 };
+      await captureChange('notes', 'UPDATE', upserted, transaction);
+    });
   }
 
-  static async moveNotesToGroup(fromGroupId: string, toGroupId: string, userId: string): Promise<void> {
+  static async moveNotesToGroup(
+    fromGroupId: string,
+    toGroupId: string,
+    userId: string,
+    tx?: Transaction
+  ): Promise<void> {
     const timestamp = getCurrentTimestamp();
-    
-    await executeSql(
-      `UPDATE notes 
-       SET group_id = ?, updated_at = ?, needs_sync = 1
-       WHERE group_id = ? AND user_id = ? AND is_deleted = 0`,
-      [toGroupId, timestamp, fromGroupId, userId]
-    );
+
+    await withTransaction(tx, async transaction => {
+      const moved = await executeSql(
+        'SELECT id FROM notes WHERE group_id = ? AND user_id = ? AND is_deleted = 0',
+        [fromGroupId, userId],
+        transaction
+      );
+      await executeSql(
+        `UPDATE notes 
+         SET group_id = ?, updated_at = ?, version = version + 1, needs_sync = 1
+         WHERE group_id = ? AND user_id = ? AND is_deleted = 0`,
+        [toGroupId, timestamp, fromGroupId, userId],
+        transaction
+      );
+
+      for (let i = 0; i < moved.rows.length; i++) {
+        const note = await this.getNoteById(moved.rows.item(i).id, false, transaction);
+        if (note) {
+          await captureChange('notes', 'UPDATE', note, transaction, fromGroupId);
+        }
+      }
+    });
   }
 
   static async cleanupOldDeletedNotes(): Promise<void> {
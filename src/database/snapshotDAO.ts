@@ -0,0 +1,153 @@
+import { executeSql, executeSqlBatch, getCurrentTimestamp } from './sqlite';
+import { decryptValue, encryptValue } from './encryption';
+import { LocalGroup } from './groupsDAO';
+import { LocalNote } from './notesDAO';
+
+// Staged rows are written in chunks, each in a transaction of its own
+const STAGE_CHUNK_SIZE = 500;
+
+// Indexes on the bulk-loaded tables. Dropped for the load and built once at
+// the end, instead of being updated for every inserted row.
+const DEFERRED_INDEXES: Array<[string, string]> = [
+  ['idx_notes_user_id', 'notes(user_id)'],
+  ['idx_notes_group_id', 'notes(group_id)'],
+  ['idx_notes_updated_at', 'notes(updated_at)'],
+  ['idx_groups_user_id', 'groups(user_id)'],
+];
+
+export interface SnapshotLoad {
+  groups: Omit<LocalGroup, 'needs_sync' | 'sync_policy'>[];
+  notes: Omit<LocalNote, 'needs_sync'>[];
+  // Merge bases for the loaded rows, in the server shape
+  bases: Array<{ tableName: 'notes' | 'groups'; data: { id: string; version: number } }>;
+  // Written in the same transaction, so the rows and pull cursors land together
+  settings: Array<[string, string]>;
+  // Removed in the same transaction, e.g. the marker of a staged snapshot
+  removedSettings: string[];
+}
+
+export class SnapshotDAO {
+  static async stageRows(
+    tableName: 'notes' | 'groups',
+    rows: Array<{ id: string }>
+  ): Promise<void> {
+    for (let start = 0; start < rows.length; start += STAGE_CHUNK_SIZE) {
+      await executeSqlBatch(
+        rows.slice(start, start + STAGE_CHUNK_SIZE).map(row => [
+          'INSERT OR REPLACE INTO sync_snapshot (table_name, record_id, data) VALUES (?, ?, ?)',
+          [tableName, row.id, encryptValue(JSON.stringify(row))],
+        ])
+      );
+    }
+  }
+
+  static async getStagedRows<T>(tableName: 'notes' | 'groups'): Promise<T[]> {
+    const result = await executeSql(
+      'SELECT data FROM sync_snapshot WHERE table_name = ?',
+      [tableName]
+    );
+
+    const rows: T[] = [];
+    for (let i = 0; i < result.rows.length; i++) {
+      rows.push(JSON.parse(decryptValue(result.rows.item(i).data)));
+    }
+    return rows;
+  }
+
+  static async clearStaged(): Promise<void> {
+    await executeSql('DELETE FROM sync_snapshot', []);
+  }
+
+  // Ids of every local row, deleted ones included
+  static async getExistingIds(tableName: 'notes' | 'groups'): Promise<Set<string>> {
+    const result = await executeSql(`SELECT id FROM ${tableName}`, []);
+
+    const ids = new Set<string>();
+    for (let i = 0; i < result.rows.length; i++) {
+      ids.add(result.rows.item(i).id);
+    }
+    return ids;
+  }
+
+  static async countBases(): Promise<number> {
+    const result = await executeSql('SELECT COUNT(*) as count FROM sync_base', []);
+    return result.rows.item(0).count;
+  }
+
+  // Insert rows this device does not have yet in one transaction. Killing the
+  // app part way rolls it all back, staging included, so the load can run again.
+  static async bulkLoad(load: SnapshotLoad): Promise<void> {
+    const timestamp = getCurrentTimestamp();
+    const statements: Array<[string, any[]]> = [];
+
+    DEFERRED_INDEXES.forEach(([name]) => {
+      statements.push([`DROP INDEX IF EXISTS ${name}`, []]);
+    });
+
+    load.groups.forEach(group => {
+      statements.push([
+        `INSERT OR IGNORE INTO groups
+         (id, name, color, user_id, created_at, updated_at, version, is_deleted, needs_sync, sync_policy)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, 0, 'sync')`,
+        [
+          group.id,
+          group.name,
+          group.color,
+          group.user_id,
+          group.created_at,
+          group.updated_at,
+          group.version,
+          group.is_deleted,
+        ],
+      ]);
+    });
+
+    load.notes.forEach(note => {
+      statements.push([
+        `INSERT OR IGNORE INTO notes
+         (id, title, content, content_markdown, content_plain, group_id, user_id, created_at, updated_at, version, is_deleted, deleted_at, needs_sync)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 0)`,
+        [
+          note.id,
+          note.title,
+          encryptValue(note.content),
+          encryptValue(note.content_markdown),
+          encryptValue(note.content_plain),
+          note.group_id,
+          note.user_id,
+          note.created_at,
+          note.updated_at,
+          note.version,
+          note.is_deleted,
+          note.deleted_at,
+        ],
+      ]);
+    });
+
+    load.bases.forEach(({ tableName, data }) => {
+      statements.push([
+        `INSERT OR REPLACE INTO sync_base (table_name, record_id, data, version, synced_at)
+         VALUES (?, ?, ?, ?, ?)`,
+        [tableName, data.id, encryptValue(JSON.stringify(data)), data.version, timestamp],
+      ]);
+    });
+
+    load.settings.forEach(([key, value]) => {
+      statements.push([
+        'INSERT OR REPLACE INTO user_settings (key, value, updated_at) VALUES (?, ?, ?)',
+        [key, value, timestamp],
+      ]);
+    });
+    load.removedSettings.forEach(key => {
+      statements.push(['DELETE FROM user_settings WHERE key = ?', [key]]);
+    });
+
+    statements.push(['DELETE FROM sync_snapshot', []]);
+
+    DEFERRED_INDEXES.forEach(([name, definition]) => {
+      statements.push([`CREATE INDEX IF NOT EXISTS ${name} ON ${definition}`, []]);
+    });
+
+    await executeSqlBatch(statements);
+  }
+}
@@ -1,31 +1,92 @@
 import SQLite from 'react-native-sqlite-storage';
+import { getServerNow } from '../utils/clockUtils';
+import { WrappedKey, encryptText, generateKey, unwrapKey, wrapKey } from '../utils/cryptoUtils';
+import { ENCRYPTED_COLUMNS, getDataKey, isDatabaseEncrypted, setDataKey } from './encryption';
+import { migrateDatabase } from './migrations';
 
 // Enable debugging
 SQLite.DEBUG(true);
 SQLite.enablePromise(true);
 
 const DATABASE_NAME = 'NorthernStarNotes.db';
+// Required by openDatabase but unused by SQLite; the schema version is kept
+// in PRAGMA user_version by the migrations
 const DATABASE_VERSION = '1.0';
 const DATABASE_DISPLAYNAME = 'Northern Star Notes Database';
 const DATABASE_SIZE = 200000;
 
 let database: SQLite.SQLiteDatabase | null = null;
+let databaseName: string | null = null;
 
-export const initDatabase = async (): Promise<SQLite.SQLiteDatabase> => {
-  if (database) {
+// Open a database file and bring its schema up to date
+const openDatabaseFile = async (name: string): Promise<SQLite.SQLiteDatabase> => {
+  const db = await SQLite.openDatabase({
+    name,
+    version: DATABASE_VERSION,
+    displayName: DATABASE_DISPLAYNAME,
+    size: DATABASE_SIZE,
+  });
+
+  try {
+    // INSERT OR REPLACE only fires the search index's delete trigger with this on
+    await db.executeSql('PRAGMA recursive_triggers = ON');
+    await migrateDatabase(db);
+    return db;
+  } catch (error) {
+    await db.close();
+    throw error;
+  }
+};
+
+// An encrypted file keeps its data key wrapped with the passphrase; a
+// plaintext one has no key. Returns the data key, null for plaintext.
+const unlockDatabase = async (
+  db: SQLite.SQLiteDatabase,
+  passphrase?: string
+): Promise<Uint8Array | null> => {
+  const [result] = await db.executeSql('SELECT salt, iterations, wrapped_key FROM database_key WHERE id = 1');
+  if (result.rows.length === 0) {
+    if (passphrase) {
+      throw new Error('The database is not encrypted');
+    }
+    return null;
+  }
+  if (!passphrase) {
+    throw new Error('A passphrase is required to open the encrypted database');
+  }
+
+  const key = await unwrapKey(result.rows.item(0), passphrase);
+  if (!key) {
+    throw new Error('Wrong passphrase for the encrypted database');
+  }
+  return key;
+};
+
+// Each account keeps its data in a database file of its own; opening another
+// file closes the one currently open. An encrypted file needs its passphrase.
+export const initDatabase = async (
+  name: string = DATABASE_NAME,
+  passphrase?: string
+): Promise<SQLite.SQLiteDatabase> => {
+  if (database && databaseName === name) {
     return database;
   }
+  if (database) {
+    await closeDatabase();
+  }
 
   try {
-    database = await SQLite.openDatabase({
-      name: DATABASE_NAME,
-      version: DATABASE_VERSION,
-      displayName: DATABASE_DISPLAYNAME,
-      size: DATABASE_SIZE,
-    });
+    const db = await openDatabaseFile(name);
+    try {
+      setDataKey(await unlockDatabase(db, passphrase));
+    } catch (error) {
+      await db.close();
+      throw error;
+    }
+    database = db;
+    databaseName = name;
 
     console.log('Database opened successfully');
-    await createTables();
     return database;
   } catch (error) {
     console.error('Error opening database:', error);
@@ -33,94 +94,6 @@ export const initDatabase = async (): Promise<SQLite.SQLiteDatabase> => {
   }
 };
 
-const createTables = async () => {
-  if (!database) {
-    throw new Error('Database not initialized');
-  }
-
-  // Create groups table
-  await database.executeSql(`
-    CREATE TABLE IF NOT EXISTS groups (
-      id TEXT PRIMARY KEY,
-      name TEXT NOT NULL,
-      color TEXT DEFAULT '#14b8a6',
-      user_id TEXT,
-      created_at TEXT DEFAULT CURRENT_TIMESTAMP,
-      updated_at TEXT DEFAULT CURRENT_TIMESTAMP,
-      version INTEGER DEFAULT 1,
-      is_deleted INTEGER DEFAULT 0,
-      needs_sync INTEGER DEFAULT 0
-    )
-  `);
-
-  // Create notes table
-  await database.executeSql(`
-    CREATE TABLE IF NOT EXISTS notes (
-      id TEXT PRIMARY KEY,
-      title TEXT NOT NULL DEFAULT 'Untitled',
-      content TEXT DEFAULT '{}',
-      content_markdown TEXT DEFAULT '',
-      content_plain TEXT DEFAULT '',
-      group_id TEXT,
-      user_id TEXT,
-      created_at TEXT DEFAULT CURRENT_TIMESTAMP,
-      updated_at TEXT DEFAULT CURRENT_TIMESTAMP,
-      version INTEGER DEFAULT 1,
-      is_deleted INTEGER DEFAULT 0,
-      deleted_at TEXT,
-      needs_sync INTEGER DEFAULT 0,
-      FOREIGN KEY (group_id) REFERENCES groups (id)
-    )
-  `);
-
-  // Create sync_queue table for offline operations
-  await database.executeSql(`
-    CREATE TABLE IF NOT EXISTS sync_queue (
-      id TEXT PRIMARY KEY,
-      table_name TEXT NOT NULL,
-      record_id TEXT NOT NULL,
-      operation TEXT NOT NULL,
-      data TEXT,
-      user_id TEXT,
-      created_at TEXT DEFAULT CURRENT_TIMESTAMP,
-      retry_count INTEGER DEFAULT 0,
-      last_error TEXT
-    )
-  `);
-
-  // Create user_settings table
-  await database.executeSql(`
-    CREATE TABLE IF NOT EXISTS user_settings (
-      key TEXT PRIMARY KEY,
-      value TEXT,
-      updated_at TEXT DEFAULT CURRENT_TIMESTAMP
-    )
-  `);
-
-  // Create indexes for performance
-  await database.executeSql(`
-    CREATE INDEX IF NOT EXISTS idx_notes_user_id ON notes(user_id)
-  `);
-  
-  await database.executeSql(`
-    CREATE INDEX IF NOT EXISTS idx_notes_group_id ON notes(group_id)
-  `);
-  
-  await database.executeSql(`
-    CREATE INDEX IF NOT EXISTS idx_notes_updated_at ON notes(updated_at)
-  `);
-  
-  await database.executeSql(`
-    CREATE INDEX IF NOT EXISTS idx_groups_user_id ON groups(user_id)
-  `);
-  
-  await database.executeSql(`
-    CREATE INDEX IF NOT EXISTS idx_sync_queue_table_record ON sync_queue(table_name, record_id)
-  `);
-
-  console.log('All tables created successfully');
-};
-
 export const getDatabase = (): SQLite.SQLiteDatabase => {
   if (!database) {
     throw new Error('Database not initialized. Call initDatabase() first.');
@@ -132,15 +105,40 @@ export const closeDatabase = async (): Promise<void> => {
   if (database) {
     await database.close();
     database = null;
+    databaseName = null;
+    setDataKey(null);
     console.log('Database closed');
   }
 };
 
-// Utility function to execute SQL with error handling
-export const executeSql = async (
-  sql: string,
-  params: any[] = []
-): Promise<SQLite.ResultSet> => {
+export const deleteDatabaseFile = async (name: string): Promise<void> => {
+  if (databaseName === name) {
+    await closeDatabase();
+  }
+  await SQLite.deleteDatabase({ name, location: 'default' });
+  console.log(`Database ${name} deleted`);
+};
+
+// Statements of a transaction in progress. Passed to the DAOs, so that what
+// they run joins the transaction instead of waiting for it to end.
+export interface Transaction {
+  executeSql(sql: string, params?: any[]): Promise<SQLite.ResultSet>;
+}
+
+// Settles once every transaction started so far has ended
+let transactionQueue: Promise<unknown> = Promise.resolve();
+
+// Statements outside a transaction wait for it, so they are neither run
+// between its statements nor rolled back with it
+const waitForTransactions = async (): Promise<void> => {
+  let queue: Promise<unknown>;
+  do {
+    queue = transactionQueue;
+    await queue;
+  } while (queue !== transactionQueue);
+};
+
+const runStatement = async (sql: string, params: any[]): Promise<SQLite.ResultSet> => {
   const db = getDatabase();
   try {
     const [result] = await db.executeSql(sql, params);
@@ -153,6 +151,215 @@ export const executeSql = async (
   }
 };
 
+// Utility function to execute SQL with error handling
+export const executeSql = async (
+  sql: string,
+  params: any[] = [],
+  tx?: Transaction
+): Promise<SQLite.ResultSet> => {
+  if (tx) {
+    return tx.executeSql(sql, params);
+  }
+
+  await waitForTransactions();
+  return runStatement(sql, params);
+};
+
+// Utility function to run several statements in a single transaction
+export const executeSqlBatch = async (
+  statements: Array<[string, any[]]>,
+  tx?: Transaction
+): Promise<void> => {
+  if (statements.length === 0) {
+    return;
+  }
+  if (tx) {
+    for (const [sql, params] of statements) {
+      await tx.executeSql(sql, params);
+    }
+    return;
+  }
+
+  await waitForTransactions();
+  const db = getDatabase();
+  try {
+    await db.transaction((transaction: SQLite.Transaction) => {
+      statements.forEach(([sql, params]) => transaction.executeSql(sql, params));
+    });
+  } catch (error) {
+    console.error('SQL transaction error:', error);
+    console.error('Statements:', statements.map(([sql]) => sql));
+    throw error;
+  }
+};
+
+// Run work once every transaction started before it has ended. Statements
+// outside a transaction wait until it is done.
+const runExclusively = async <T>(work: () => Promise<T>): Promise<T> => {
+  const previous = transactionQueue;
+  let finish!: () => void;
+  const finished = new Promise<void>(resolve => {
+    finish = resolve;
+  });
+  transactionQueue = previous.then(() => finished);
+
+  await previous;
+  try {
+    return await work();
+  } finally {
+    finish();
+  }
+};
+
+// Run work in one transaction: committed when it resolves, rolled back when
+// it throws. Every statement in it must go through tx; one that does not
+// waits for the transaction to end, which never happens.
+export const runInTransaction = <T>(
+  work: (tx: Transaction) => Promise<T>
+): Promise<T> =>
+  runExclusively(async () => {
+    const tx: Transaction = {
+      executeSql: (sql, params = []) => runStatement(sql, params),
+    };
+
+    await runStatement('BEGIN', []);
+    try {
+      const result = await work(tx);
+      await runStatement('COMMIT', []);
+      return result;
+    } catch (error) {
+      await runStatement('ROLLBACK', []).catch(rollbackError =>
+        console.error('SQL rollback error:', rollbackError)
+      );
+      throw error;
+    }
+  });
+
+// Join the caller's transaction, or run in one of its own
+export const withTransaction = <T>(
+  tx: Transaction | undefined,
+  work: (tx: Transaction) => Promise<T>
+): Promise<T> => (tx ? work(tx) : runInTransaction(work));
+
+// Tables copied into an encrypted file. The search index is left out:
+// sealed text cannot be indexed, so the copy searches its notes directly.
+const COPIED_TABLES_SQL = `SELECT name FROM sqlite_master
+  WHERE type = 'table' AND name NOT LIKE 'sqlite_%' AND name NOT LIKE 'notes_fts%' AND name != 'database_key'`;
+
+const DROP_SEARCH_INDEX = [
+  'DROP TRIGGER IF EXISTS notes_fts_insert',
+  'DROP TRIGGER IF EXISTS notes_fts_delete',
+  'DROP TRIGGER IF EXISTS notes_fts_update',
+  'DROP TABLE IF EXISTS notes_fts',
+];
+
+// Copy every row of source into the new file target, sealing the encrypted
+// columns with key, in one transaction of the target
+const copyEncrypted = async (
+  source: SQLite.SQLiteDatabase,
+  target: SQLite.SQLiteDatabase,
+  key: Uint8Array,
+  wrapped: WrappedKey
+): Promise<void> => {
+  const [tables] = await source.executeSql(COPIED_TABLES_SQL);
+
+  await target.executeSql('BEGIN');
+  for (const sql of DROP_SEARCH_INDEX) {
+    await target.executeSql(sql);
+  }
+  await target.executeSql(
+    'INSERT INTO database_key (id, salt, iterations, wrapped_key) VALUES (1, ?, ?, ?)',
+    [wrapped.salt, wrapped.iterations, wrapped.wrapped_key]
+  );
+
+  for (let i = 0; i < tables.rows.length; i++) {
+    const tableName: string = tables.rows.item(i).name;
+    const sealed = ENCRYPTED_COLUMNS[tableName] ?? [];
+    const [rows] = await source.executeSql(`SELECT * FROM ${tableName}`);
+    for (let j = 0; j < rows.rows.length; j++) {
+      const row = rows.rows.item(j);
+      const columns = Object.keys(row);
+      await target.executeSql(
+        `INSERT INTO ${tableName} (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`,
+        columns.map(column =>
+          sealed.includes(column) && row[column] !== null ? encryptText(key, row[column]) : row[column]
+        )
+      );
+    }
+  }
+  await target.executeSql('COMMIT');
+};
+
+// Move the open plaintext database to a new file encrypted under passphrase,
+// and switch to it. The plaintext file is only deleted once the database in
+// use is the complete encrypted copy.
+export const encryptDatabase = async (encryptedName: string, passphrase: string): Promise<void> => {
+  if (!passphrase) {
+    throw new Error('A passphrase is required to encrypt the database');
+  }
+  // Throws when no database is open
+  getDatabase();
+  if (isDatabaseEncrypted()) {
+    throw new Error('The open database is already encrypted');
+  }
+
+  const plaintextName = databaseName!;
+  const key = generateKey();
+  const wrapped = await wrapKey(key, passphrase);
+  // Start over from any copy an interrupted attempt left behind
+  await SQLite.deleteDatabase({ name: encryptedName, location: 'default' }).catch(() => undefined);
+
+  // Held exclusively so no write lands in the plaintext file mid-copy
+  const plaintext = await runExclusively(async () => {
+    const source = getDatabase();
+    let encrypted: SQLite.SQLiteDatabase | null = null;
+    try {
+      encrypted = await openDatabaseFile(encryptedName);
+      await copyEncrypted(source, encrypted, key, wrapped);
+    } catch (error) {
+      console.error('Error encrypting database:', error);
+      await encrypted?.close();
+      await SQLite.deleteDatabase({ name: encryptedName, location: 'default' }).catch(() => undefined);
+      throw error;
+    }
+
+    database = encrypted;
+    databaseName = encryptedName;
+    setDataKey(key);
+    return source;
+  });
+  console.log(`Database ${plaintextName} encrypted into ${encryptedName}`);
+
+  // The notes are safe in the encrypted file whatever happens here
+  try {
+    await plaintext.close();
+    await SQLite.deleteDatabase({ name: plaintextName, location: 'default' });
+    console.log(`Database ${plaintextName} deleted`);
+  } catch (error) {
+    console.error(`Error deleting the plaintext database ${plaintextName}:`, error);
+  }
+};
+
+// Change the passphrase of the open encrypted database. Only the wrapped key
+// is rewritten; the data stays sealed with the same key.
+export const rekeyDatabase = async (passphrase: string): Promise<void> => {
+  if (!passphrase) {
+    throw new Error('A passphrase is required to encrypt the database');
+  }
+  // Throws when no database is open
+  getDatabase();
+  const key = getDataKey();
+  if (!key) {
+    throw new Error('The open database is not encrypted');
+  }
+
+  const wrapped = await wrapKey(key, passphrase);
+  await executeSql(
+    'UPDATE database_key SET salt = ?, iterations = ?, wrapped_key = ? WHERE id = 1',
+    [wrapped.salt, wrapped.iterations, wrapped.wrapped_key]
+  );
+};
+
 // Utility function to generate UUID
 export const generateUUID = (): string => {
   return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, function (c) {
@@ -162,7 +369,7 @@ export const generateUUID = (): string => {
   });
 };
 
-// Utility function to get current timestamp
+// Utility function to get current timestamp, corrected to the sync server's clock
 export const getCurrentTimestamp = (): string => {
-  return new Date().toISOString();
+  return getServerNow().toISOString();
 };
@@ -0,0 +1,53 @@
+import { Transaction, executeSql, getCurrentTimestamp } from './sqlite';
+import { decryptValue, encryptValue } from './encryption';
+
+// Last version of a record known to be identical on this device and the server.
+// Used as the common ancestor when merging concurrent edits.
+export interface SyncBaseSnapshot {
+  table_name: string;
+  record_id: string;
+  data: string; // JSON string of the server row
+  version: number;
+  synced_at: string;
+}
+
+export class SyncBaseDAO {
+  static async getBase<T>(tableName: string, recordId: string, tx?: Transaction): Promise<T | null> {
+    const result = await executeSql(
+      'SELECT * FROM sync_base WHERE table_name = ? AND record_id = ?',
+      [tableName, recordId],
+      tx
+    );
+
+    if (result.rows.length > 0) {
+      const snapshot: SyncBaseSnapshot = result.rows.item(0);
+      return JSON.parse(decryptValue(snapshot.data));
+    }
+    return null;
+  }
+
+  static async saveBase(
+    tableName: string,
+    recordId: string,
+    data: { version: number },
+    tx?: Transaction
+  ): Promise<void> {
+    await executeSql(
+      `INSERT OR REPLACE INTO sync_base (table_name, record_id, data, version, synced_at)
+       VALUES (?, ?, ?, ?, ?)`,
+      [tableName, recordId, encryptValue(JSON.stringify(data)), data.version, getCurrentTimestamp()],
+      tx
+    );
+  }
+
+  static async removeBase(tableName: string, recordId: string): Promise<void> {
+    await executeSql(
+      'DELETE FROM sync_base WHERE table_name = ? AND record_id = ?',
+      [tableName, recordId]
+    );
+  }
+
+  static async clearAll(): Promise<void> {
+    await executeSql('DELETE FROM sync_base', []);
+  }
+}
@@ -0,0 +1,145 @@
+import { executeSql, generateUUID, getCurrentTimestamp } from './sqlite';
+import { decryptRow, encryptValue } from './encryption';
+
+export interface LocalSyncConflict {
+  id: string;
+  table_name: 'notes' | 'groups';
+  record_id: string;
+  fields: string; // JSON array of conflicting field names
+  local_data: string; // JSON string
+  remote_data: string; // JSON string
+  merged_data: string; // JSON string
+  user_id: string;
+  created_at: string;
+  resolved_at: string | null;
+  resolution: 'local' | 'remote' | 'merge' | null;
+}
+
+export class SyncConflictsDAO {
+  static async addConflict(
+    tableName: 'notes' | 'groups',
+    recordId: string,
+    fields: string[],
+    localData: any,
+    remoteData: any,
+    mergedData: any,
+    userId: string
+  ): Promise<LocalSyncConflict> {
+    const conflict: LocalSyncConflict = {
+      id: generateUUID(),
+      table_name: tableName,
+      record_id: recordId,
+      fields: JSON.stringify(fields),
+      local_data: JSON.stringify(localData),
+      remote_data: JSON.stringify(remoteData),
+      merged_data: JSON.stringify(mergedData),
+      user_id: userId,
+      created_at: getCurrentTimestamp(),
+      resolved_at: null,
+      resolution: null,
+    };
+
+    // Keep a single open conflict per record, the newest one supersedes older ones
+    await executeSql(
+      `DELETE FROM sync_conflicts
+       WHERE table_name = ? AND record_id = ? AND resolved_at IS NULL`,
+      [tableName, recordId]
+    );
+
+    await executeSql(
+      `INSERT INTO sync_conflicts (id, table_name, record_id, fields, local_data, remote_data, merged_data, user_id, created_at, resolved_at, resolution)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        conflict.id,
+        conflict.table_name,
+        conflict.record_id,
+        conflict.fields,
+        encryptValue(conflict.local_data),
+        encryptValue(conflict.remote_data),
+        encryptValue(conflict.merged_data),
+        conflict.user_id,
+        conflict.created_at,
+        conflict.resolved_at,
+        conflict.resolution,
+      ]
+    );
+
+    return conflict;
+  }
+
+  static async getUnresolvedConflicts(userId: string): Promise<LocalSyncConflict[]> {
+    const result = await executeSql(
+      `SELECT * FROM sync_conflicts
+       WHERE user_id = ? AND resolved_at IS NULL
+       ORDER BY created_at DESC`,
+      [userId]
+    );
+
+    const conflicts: LocalSyncConflict[] = [];
+    for (let i = 0; i < result.rows.length; i++) {
+      conflicts.push(decryptRow('sync_conflicts', result.rows.item(i)));
+    }
+    return conflicts;
+  }
+
+  static async getConflictById(id: string): Promise<LocalSyncConflict | null> {
+    const result = await executeSql(
+      'SELECT * FROM sync_conflicts WHERE id = ?',
+      [id]
+    );
+
+    if (result.rows.length > 0) {
+      return decryptRow('sync_conflicts', result.rows.item(0));
+    }
+    return null;
+  }
+
+  static async markResolved(
+    id: string,
+    resolution: 'local' | 'remote' | 'merge'
+  ): Promise<void> {
+    await executeSql(
+      'UPDATE sync_conflicts SET resolved_at = ?, resolution = ? WHERE id = ?',
+      [getCurrentTimestamp(), resolution, id]
+    );
+  }
+
+  static async getUnresolvedCount(userId: string): Promise<number> {
+    const result = await executeSql(
+      'SELECT COUNT(*) as count FROM sync_conflicts WHERE user_id = ? AND resolved_at IS NULL',
+      [userId]
+    );
+
+    return result.rows.item(0).count;
+  }
+
+  static async countCreatedSince(userId: string, since: string): Promise<number> {
+    const result = await executeSql(
+      'SELECT COUNT(*) as count FROM sync_conflicts WHERE user_id = ? AND created_at >= ?',
+      [userId, since]
+    );
+
+    return result.rows.item(0).count;
+  }
+
+  static async removeConflictsForRecord(tableName: string, recordId: string): Promise<void> {
+    await executeSql(
+      'DELETE FROM sync_conflicts WHERE table_name = ? AND record_id = ?',
+      [tableName, recordId]
+    );
+  }
+
+  static async removeResolvedConflicts(before: string): Promise<void> {
+    await executeSql(
+      'DELETE FROM sync_conflicts WHERE resolved_at IS NOT NULL AND resolved_at < ?',
+      [before]
+    );
+  }
+
+  static async clearAllConflicts(userId: string): Promise<void> {
+    await executeSql(
+      'DELETE FROM sync_conflicts WHERE user_id = ?',
+      [userId]
+    );
+  }
+}
@@ -0,0 +1,146 @@
+import { executeSql, generateUUID, getCurrentTimestamp } from './sqlite';
+import { CLEANUP } from '../constants';
+
+export type SyncLogKind = 'run' | 'realtime';
+
+export interface LocalSyncLogEntry {
+  id: string;
+  kind: SyncLogKind;
+  user_id: string;
+  started_at: string | null;
+  finished_at: string | null;
+  duration_ms: number | null;
+  pushed: number;
+  pulled: number;
+  conflicts: number;
+  errors: string; // JSON array of error messages
+  table_name: string | null; // Realtime events only
+  record_id: string | null;
+  event_type: string | null;
+  created_at: string;
+}
+
+export interface SyncRunRecord {
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+  pushed: number;
+  pulled: number;
+  conflicts: number;
+  errors: string[];
+}
+
+export interface RealtimeEventRecord {
+  tableName: string;
+  recordId: string | null;
+  eventType: string;
+  error: string | null;
+}
+
+export class SyncLogDAO {
+  static async addRun(run: SyncRunRecord, userId: string): Promise<void> {
+    await SyncLogDAO.addEntry({
+      kind: 'run',
+      user_id: userId,
+      started_at: run.startedAt,
+      finished_at: run.finishedAt,
+      duration_ms: run.durationMs,
+      pushed: run.pushed,
+      pulled: run.pulled,
+      conflicts: run.conflicts,
+      errors: JSON.stringify(run.errors),
+      table_name: null,
+      record_id: null,
+      event_type: null,
+    });
+  }
+
+  static async addRealtimeEvent(event: RealtimeEventRecord, userId: string): Promise<void> {
+    await SyncLogDAO.addEntry({
+      kind: 'realtime',
+      user_id: userId,
+      started_at: null,
+      finished_at: null,
+      duration_ms: null,
+      pushed: 0,
+      pulled: 0,
+      conflicts: 0,
+      errors: JSON.stringify(event.error ? [event.error] : []),
+      table_name: event.tableName,
+      record_id: event.recordId,
+      event_type: event.eventType,
+    });
+  }
+
+  // Newest first
+  static async getEntries(
+    userId: string,
+    limit: number = CLEANUP.logMaxEntries,
+    kind?: SyncLogKind
+  ): Promise<LocalSyncLogEntry[]> {
+    const result = kind
+      ? await executeSql(
+          `SELECT * FROM sync_log WHERE user_id = ? AND kind = ?
+           ORDER BY created_at DESC LIMIT ?`,
+          [userId, kind, limit]
+        )
+      : await executeSql(
+          `SELECT * FROM sync_log WHERE user_id = ?
+           ORDER BY created_at DESC LIMIT ?`,
+          [userId, limit]
+        );
+
+    const entries: LocalSyncLogEntry[] = [];
+    for (let i = 0; i < result.rows.length; i++) {
+      entries.push(result.rows.item(i));
+    }
+    return entries;
+  }
+
+  static async removeOldEntries(): Promise<void> {
+    const cutoff = new Date();
+    cutoff.setDate(cutoff.getDate() - CLEANUP.logRetentionDays);
+
+    await executeSql('DELETE FROM sync_log WHERE created_at < ?', [cutoff.toISOString()]);
+    await SyncLogDAO.trimToMaxEntries();
+  }
+
+  static async clearLog(userId: string): Promise<void> {
+    await executeSql('DELETE FROM sync_log WHERE user_id = ?', [userId]);
+  }
+
+  private static async addEntry(entry: Omit<LocalSyncLogEntry, 'id' | 'created_at'>): Promise<void> {
+    await executeSql(
+      `INSERT INTO sync_log (id, kind, user_id, started_at, finished_at, duration_ms, pushed, pulled, conflicts, errors, table_name, record_id, event_type, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        generateUUID(),
+        entry.kind,
+        entry.user_id,
+        entry.started_at,
+        entry.finished_at,
+        entry.duration_ms,
+        entry.pushed,
+        entry.pulled,
+        entry.conflicts,
+        entry.errors,
+        entry.table_name,
+        entry.record_id,
+        entry.event_type,
+        getCurrentTimestamp(),
+      ]
+    );
+
+    // Realtime events can be frequent, so keep the table bounded between cleanups
+    await SyncLogDAO.trimToMaxEntries();
+  }
+
+  private static async trimToMaxEntries(): Promise<void> {
+    await executeSql(
+      `DELETE FROM sync_log WHERE id IN (
+         SELECT id FROM sync_log ORDER BY created_at DESC LIMIT -1 OFFSET ?
+       )`,
+      [CLEANUP.logMaxEntries]
+    );
+  }
+}
@@ -0,0 +1,92 @@
+import { Transaction, executeSql, generateUUID, getCurrentTimestamp } from './sqlite';
+import { decryptRow, encryptValue } from './encryption';
+
+export type QuarantineDirection = 'inbound' | 'outbound';
+
+export interface LocalQuarantinedRecord {
+  id: string;
+  table_name: string;
+  record_id: string | null; // Null when the payload has no usable id
+  direction: QuarantineDirection;
+  data: string; // The payload as received or queued
+  errors: string; // JSON array of validation errors
+  user_id: string | null;
+  created_at: string;
+}
+
+export class SyncQuarantineDAO {
+  static async addRecord(
+    tableName: string,
+    direction: QuarantineDirection,
+    payload: unknown,
+    errors: string[],
+    userId: string | null,
+    tx?: Transaction
+  ): Promise<LocalQuarantinedRecord> {
+    const id = (payload as { id?: unknown } | null)?.id;
+    const record: LocalQuarantinedRecord = {
+      id: generateUUID(),
+      table_name: tableName,
+      record_id: typeof id === 'string' && id ? id : null,
+      direction,
+      data: typeof payload === 'string' ? payload : JSON.stringify(payload ?? null),
+      errors: JSON.stringify(errors),
+      user_id: userId,
+      created_at: getCurrentTimestamp(),
+    };
+
+    await executeSql(
+      `INSERT INTO sync_quarantine (id, table_name, record_id, direction, data, errors, user_id, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        record.id,
+        record.table_name,
+        record.record_id,
+        record.direction,
+        encryptValue(record.data),
+        record.errors,
+        record.user_id,
+        record.created_at,
+      ],
+      tx
+    );
+
+    return record;
+  }
+
+  // Records without a valid user id are shown to whoever is signed in
+  static async getRecords(userId: string): Promise<LocalQuarantinedRecord[]> {
+    const result = await executeSql(
+      `SELECT * FROM sync_quarantine
+       WHERE user_id = ? OR user_id IS NULL
+       ORDER BY created_at DESC`,
+      [userId]
+    );
+
+    const records: LocalQuarantinedRecord[] = [];
+    for (let i = 0; i < result.rows.length; i++) {
+      records.push(decryptRow('sync_quarantine', result.rows.item(i)));
+    }
+    return records;
+  }
+
+  static async getCount(userId: string): Promise<number> {
+    const result = await executeSql(
+      'SELECT COUNT(*) as count FROM sync_quarantine WHERE user_id = ? OR user_id IS NULL',
+      [userId]
+    );
+
+    return result.rows.item(0).count;
+  }
+
+  static async removeRecord(id: string): Promise<void> {
+    await executeSql('DELETE FROM sync_quarantine WHERE id = ?', [id]);
+  }
+
+  static async clearRecords(userId: string): Promise<void> {
+    await executeSql(
+      'DELETE FROM sync_quarantine WHERE user_id = ? OR user_id IS NULL',
+      [userId]
+    );
+  }
+}
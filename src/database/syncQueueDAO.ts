@@ -1,4 +1,10 @@
-import { executeSql, generateUUID, getCurrentTimestamp } from './sqlite';
+import { Transaction, executeSql, executeSqlBatch, generateUUID, getCurrentTimestamp } from './sqlite';
+import { SyncBaseDAO } from './syncBaseDAO';
+import { decryptRow, decryptValue, encryptValue, isDatabaseEncrypted } from './encryption';
+import { SYNC_CONFIG } from '../constants';
+import { Note } from '../types';
+import { getServerNow } from '../utils/clockUtils';
+import { createNotePatch } from '../utils/patchUtils';
 
 export interface SyncQueueItem {
   id: string;
@@ -8,8 +14,63 @@ export interface SyncQueueItem {
   data: string; // JSON string
   user_id: string;
   created_at: string;
-  retry_count: number;
+  retry_count: number; // Dead-lettered once it reaches SYNC_CONFIG.maxRetries
   last_error: string | null;
+  next_attempt_at: string | null; // Backoff, not pushed before this time
+  patch: string | null; // JSON NotePatch against the merge base, note updates only
+  pushed_at: string | null; // First handed to a push; the server may have it from then on
+}
+
+type SyncOperationType = 'INSERT' | 'UPDATE' | 'DELETE';
+
+// Whether the sync backend can apply note patches. A patch it cannot apply
+// would never be sent, so none is made. Off until a backend is chosen.
+let notePatchesEnabled = false;
+
+export const setNotePatchesEnabled = (enabled: boolean): void => {
+  notePatchesEnabled = enabled;
+};
+
+// Combine a pending operation with a newer one for the same record.
+// Returns null when the two cancel out and nothing needs to reach the server.
+export const coalesceOperations = (
+  pending: SyncOperationType,
+  incoming: SyncOperationType,
+  pendingPushed: boolean = false
+): SyncOperationType | null => {
+  switch (pending) {
+    case 'INSERT':
+      if (incoming !== 'DELETE') {
+        return 'INSERT';
+      }
+      // An insert that was never pushed has not reached the server. Once
+      // pushed it may have, even without an acknowledgement, so delete it there.
+      return pendingPushed ? 'DELETE' : null;
+    case 'UPDATE':
+      return incoming === 'DELETE' ? 'DELETE' : 'UPDATE';
+    case 'DELETE':
+      // Recreating or restoring a deleted record updates the server row
+      return incoming === 'DELETE' ? 'DELETE' : 'UPDATE';
+  }
+};
+
+// Exponential backoff with jitter, so devices that failed together do not
+// all retry at the same moment
+export const getRetryDelay = (
+  retryCount: number,
+  random: () => number = Math.random
+): number => {
+  const delay = SYNC_CONFIG.retryDelay * Math.pow(2, retryCount);
+  return Math.round(delay / 2 + random() * (delay / 2));
+};
+
+// Server acknowledgement of a pushed queue item
+export interface SyncAcknowledgement {
+  queueItemId: string;
+  pushedData: string; // Queue item data as it was pushed
+  tableName: 'notes' | 'groups';
+  recordId: string;
+  syncedRow: { version: number } | null; // New merge base, null once deleted
 }
 
 export class SyncQueueDAO {
@@ -18,8 +79,36 @@ export class SyncQueueDAO {
     recordId: string,
     operation: 'INSERT' | 'UPDATE' | 'DELETE',
     data: any,
-    userId: string
-  ): Promise<SyncQueueItem> {
+    userId: string,
+    tx?: Transaction
+  ): Promise<SyncQueueItem | null> {
+    // Merge with an operation still waiting for this record, so rapid
+    // autosaves produce a single server write
+    const pendingItem = await this.getPendingItemForRecord(tableName, recordId, userId, tx);
+    if (pendingItem) {
+      const coalescedOperation = coalesceOperations(pendingItem.operation, operation, !!pendingItem.pushed_at);
+
+      if (coalescedOperation === null) {
+        await this.removeFromQueue(pendingItem.id, tx);
+        return null;
+      }
+
+      const coalescedItem: SyncQueueItem = {
+        ...pendingItem,
+        operation: coalescedOperation,
+        data: JSON.stringify(data),
+        patch: await this.createPatch(tableName, coalescedOperation, data, tx),
+      };
+
+      await executeSql(
+        'UPDATE sync_queue SET operation = ?, data = ?, patch = ? WHERE id = ?',
+        [coalescedItem.operation, encryptValue(coalescedItem.data), encryptValue(coalescedItem.patch), coalescedItem.id],
+        tx
+      );
+
+      return coalescedItem;
+    }
+
     const id = generateUUID();
     const timestamp = getCurrentTimestamp();
 
@@ -33,94 +122,261 @@ export class SyncQueueDAO {
       created_at: timestamp,
       retry_count: 0,
       last_error: null,
+      next_attempt_at: null,
+      patch: await this.createPatch(tableName, operation, data, tx),
+      pushed_at: null,
     };
 
     await executeSql(
-      `INSERT INTO sync_queue (id, table_name, record_id, operation, data, user_id, created_at, retry_count, last_error)
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      `INSERT INTO sync_queue (id, table_name, record_id, operation, data, user_id, created_at, retry_count, last_error, next_attempt_at, patch)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
       [
         queueItem.id,
         queueItem.table_name,
         queueItem.record_id,
         queueItem.operation,
-        queueItem.data,
+        encryptValue(queueItem.data),
         queueItem.user_id,
         queueItem.created_at,
         queueItem.retry_count,
         queueItem.last_error,
-      ]
+        queueItem.next_attempt_at,
+        encryptValue(queueItem.patch),
+      ],
+      tx
     );
 
     return queueItem;
   }
 
-  static async getPendingItems(userId: string, limit: number = 50): Promise<SyncQueueItem[]> {
+  // A note update is also described as an edit of the last synced version,
+  // so it can be pushed without uploading the whole document
+  private static async createPatch(
+    tableName: string,
+    operation: SyncOperationType,
+    data: any,
+    tx?: Transaction
+  ): Promise<string | null> {
+    if (!notePatchesEnabled || tableName !== 'notes' || operation !== 'UPDATE') {
+      return null;
+    }
+
+    const base = await SyncBaseDAO.getBase<Note>('notes', data.id, tx);
+    if (!base) {
+      return null;
+    }
+
+    const note: Note = {
+      ...data,
+      content: typeof data.content === 'string' ? JSON.parse(data.content) : data.content,
+      is_deleted: data.is_deleted === 1 || data.is_deleted === true,
+    };
+    const patch = createNotePatch(base, note);
+    return patch ? JSON.stringify(patch) : null;
+  }
+
+  static async getPendingItemForRecord(
+    tableName: string,
+    recordId: string,
+    userId: string,
+    tx?: Transaction
+  ): Promise<SyncQueueItem | null> {
     const result = await executeSql(
-      `SELECT * FROM sync_queue 
-       WHERE user_id = ? AND retry_count < 5
-       ORDER BY created_at ASC 
-       LIMIT ?`,
-      [userId, limit]
+      `SELECT * FROM sync_queue
+       WHERE table_name = ? AND record_id = ? AND user_id = ? AND retry_count < ?
+       ORDER BY created_at DESC
+       LIMIT 1`,
+      [tableName, recordId, userId, SYNC_CONFIG.maxRetries],
+      tx
     );
 
+    if (result.rows.length > 0) {
+      return decryptRow('sync_queue', result.rows.item(0));
+    }
+    return null;
+  }
+
+  // Items that are not dead-lettered and whose backoff has elapsed
+  // Note changes larger than maxNoteSize stay queued for a later sync. The patch
+  // is measured instead of the note only when the backend can apply it.
+  static async getPendingItems(
+    userId: string,
+    limit: number = 50,
+    maxNoteSize: number | null = null
+  ): Promise<SyncQueueItem[]> {
+    // Sealed values are longer than what is sent, so they are measured once
+    // opened, reading the queue a page at a time until enough items fit
+    const measureOpened = maxNoteSize !== null && isDatabaseEncrypted();
+    const sentSize = notePatchesEnabled ? 'length(COALESCE(patch, data))' : 'length(data)';
+    const sent = (item: SyncQueueItem) => (notePatchesEnabled && item.patch) || item.data;
+    const now = getCurrentTimestamp();
     const items: SyncQueueItem[] = [];
-    for (let i = 0; i < result.rows.length; i++) {
-      items.push(result.rows.item(i));
+
+    for (let offset = 0; items.length < limit; offset += limit) {
+      const result = await executeSql(
+        `SELECT * FROM sync_queue 
+         WHERE user_id = ? AND retry_count < ?
+           AND (next_attempt_at IS NULL OR next_attempt_at <= ?)
+           AND (? IS NULL OR table_name != 'notes' OR ${sentSize} <= ?)
+         ORDER BY created_at ASC, id ASC 
+         LIMIT ? OFFSET ?`,
+        measureOpened
+          ? [userId, SYNC_CONFIG.maxRetries, now, null, null, limit, offset]
+          : [userId, SYNC_CONFIG.maxRetries, now, maxNoteSize, maxNoteSize, limit, offset]
+      );
+
+      for (let i = 0; i < result.rows.length; i++) {
+        const item: SyncQueueItem = decryptRow('sync_queue', result.rows.item(i));
+        if (!measureOpened || item.table_name !== 'notes' || sent(item).length <= maxNoteSize!) {
+          items.push(item);
+        }
+      }
+      if (!measureOpened || result.rows.length < limit) {
+        break;
+      }
     }
-    return items;
+
+    return items.slice(0, limit);
   }
 
-  static async removeFromQueue(id: string): Promise<void> {
+  // Called before items are sent, so an item never reaches the server unmarked
+  static async markPushed(ids: string[]): Promise<void> {
+    if (ids.length === 0) {
+      return;
+    }
+
+    await executeSql(
+      `UPDATE sync_queue SET pushed_at = ?
+       WHERE pushed_at IS NULL AND id IN (${ids.map(() => '?').join(', ')})`,
+      [getCurrentTimestamp(), ...ids]
+    );
+  }
+
+  static async removeFromQueue(id: string, tx?: Transaction): Promise<void> {
     await executeSql(
       'DELETE FROM sync_queue WHERE id = ?',
-      [id]
+      [id],
+      tx
     );
   }
 
-  static async incrementRetryCount(id: string, error: string): Promise<void> {
+  // Remove acknowledged items together with recording their new merge base, so
+  // a crash can never drop a queue item without the acknowledgement being kept
+  static async acknowledgeItems(acks: SyncAcknowledgement[]): Promise<void> {
+    const timestamp = getCurrentTimestamp();
+    const statements: Array<[string, any[]]> = [];
+
+    for (const ack of acks) {
+      // An item coalesced with newer data while in flight stays queued; the
+      // record now exists on the server so a pending INSERT becomes an UPDATE
+      const storedData = await this.findPushedData(ack);
+      if (storedData !== null) {
+        statements.push([
+          'DELETE FROM sync_queue WHERE id = ? AND data = ?',
+          [ack.queueItemId, storedData],
+        ]);
+      }
+      statements.push([
+        "UPDATE sync_queue SET operation = 'UPDATE' WHERE id = ? AND operation = 'INSERT'",
+        [ack.queueItemId],
+      ]);
+
+      if (ack.syncedRow) {
+        statements.push([
+          `INSERT OR REPLACE INTO sync_base (table_name, record_id, data, version, synced_at)
+           VALUES (?, ?, ?, ?, ?)`,
+          [ack.tableName, ack.recordId, encryptValue(JSON.stringify(ack.syncedRow)), ack.syncedRow.version, timestamp],
+        ]);
+        statements.push([
+          `UPDATE ${ack.tableName === 'notes' ? 'notes' : 'groups'} SET needs_sync = 0 WHERE id = ? AND version = ?`,
+          [ack.recordId, ack.syncedRow.version],
+        ]);
+      } else {
+        statements.push([
+          'DELETE FROM sync_base WHERE table_name = ? AND record_id = ?',
+          [ack.tableName, ack.recordId],
+        ]);
+      }
+    }
+
+    await executeSqlBatch(statements);
+  }
+
+  // Stored data of an acknowledged item while it is still what was pushed.
+  // Sealing the same data twice gives different values, so an encrypted one
+  // is opened to compare; the delete then matches the sealed value exactly.
+  private static async findPushedData(ack: SyncAcknowledgement): Promise<string | null> {
+    if (!isDatabaseEncrypted()) {
+      return ack.pushedData;
+    }
+
+    const result = await executeSql('SELECT data FROM sync_queue WHERE id = ?', [ack.queueItemId]);
+    if (result.rows.length === 0) {
+      return null;
+    }
+    const storedData: string = result.rows.item(0).data;
+    return decryptValue(storedData) === ack.pushedData ? storedData : null;
+  }
+
+  static async removeItemsForRecord(tableName: string, recordId: string): Promise<void> {
     await executeSql(
-      `UPDATE sync_queue 
-       SET retry_count = retry_count + 1, last_error = ?
-       WHERE id = ?`,
-      [error, id]
+      'DELETE FROM sync_queue WHERE table_name = ? AND record_id = ?',
+      [tableName, recordId]
     );
   }
 
-  static async clearProcessedItems(userId: string): Promise<void> {
-    // Remove items that have been retried too many times (> 5)
+  // Record a failed push and schedule the next attempt. Items that reach
+  // SYNC_CONFIG.maxRetries are dead-lettered until retried or discarded.
+  static async incrementRetryCount(id: string, error: string): Promise<void> {
+    const result = await executeSql(
+      'SELECT retry_count FROM sync_queue WHERE id = ?',
+      [id]
+    );
+    if (result.rows.length === 0) {
+      return;
+    }
+
+    const retryCount = result.rows.item(0).retry_count + 1;
+    const nextAttemptAt = retryCount < SYNC_CONFIG.maxRetries
+      ? new Date(getServerNow().getTime() + getRetryDelay(retryCount - 1)).toISOString()
+      : null;
+
     await executeSql(
-      'DELETE FROM sync_queue WHERE user_id = ? AND retry_count >= 5',
-      [userId]
+      `UPDATE sync_queue 
+       SET retry_count = ?, last_error = ?, next_attempt_at = ?
+       WHERE id = ?`,
+      [retryCount, error, nextAttemptAt, id]
     );
   }
 
   static async getQueueSize(userId: string): Promise<number> {
     const result = await executeSql(
-      'SELECT COUNT(*) as count FROM sync_queue WHERE user_id = ? AND retry_count < 5',
-      [userId]
+      'SELECT COUNT(*) as count FROM sync_queue WHERE user_id = ? AND retry_count < ?',
+      [userId, SYNC_CONFIG.maxRetries]
     );
 
     return result.rows.item(0).count;
   }
 
-  static async clearAllQueue(userId: string): Promise<void> {
+  static async clearAllQueue(userId: string, tx?: Transaction): Promise<void> {
     await executeSql(
       'DELETE FROM sync_queue WHERE user_id = ?',
-      [userId]
+      [userId],
+      tx
     );
   }
 
   static async getFailedItems(userId: string): Promise<SyncQueueItem[]> {
     const result = await executeSql(
       `SELECT * FROM sync_queue 
-       WHERE user_id = ? AND retry_count >= 5
+       WHERE user_id = ? AND retry_count >= ?
        ORDER BY created_at DESC`,
-      [userId]
+      [userId, SYNC_CONFIG.maxRetries]
     );
 
     const items: SyncQueueItem[] = [];
     for (let i = 0; i < result.rows.length; i++) {
-      items.push(result.rows.item(i));
+      items.push(decryptRow('sync_queue', result.rows.item(i)));
     }
     return items;
   }
@@ -128,21 +384,28 @@ export class SyncQueueDAO {
   static async retryFailedItem(id: string): Promise<void> {
     await executeSql(
       `UPDATE sync_queue 
-       SET retry_count = 0, last_error = NULL
+       SET retry_count = 0, last_error = NULL, next_attempt_at = NULL
        WHERE id = ?`,
       [id]
     );
   }
 
+  static async discardFailedItem(id: string): Promise<void> {
+    await executeSql(
+      'DELETE FROM sync_queue WHERE id = ? AND retry_count >= ?',
+      [id, SYNC_CONFIG.maxRetries]
+    );
+  }
+
   static async removeOldItems(): Promise<void> {
-    // Remove items older than 7 days
+    // Remove items older than 7 days, dead-lettered items wait for the user
     const sevenDaysAgo = new Date();
     sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
     const cutoffDate = sevenDaysAgo.toISOString();
 
     await executeSql(
-      'DELETE FROM sync_queue WHERE created_at < ?',
-      [cutoffDate]
+      'DELETE FROM sync_queue WHERE created_at < ? AND retry_count < ?',
+      [cutoffDate, SYNC_CONFIG.maxRetries]
     );
   }
 }
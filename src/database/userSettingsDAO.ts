@@ -1,4 +1,11 @@
-import { executeSql, getCurrentTimestamp } from './sqlite';
+import { Transaction, executeSql, getCurrentTimestamp } from './sqlite';
+import { SyncPreferences } from '../types';
+
+// Pull cursors, and those of a staged snapshot, share the table with the
+// settings. They record what this database has pulled from the server, so
+// they never leave it in an export or a backup, and never come in with one.
+const isSyncStateKey = (key: string): boolean =>
+  key.startsWith('pullCursor:') || key === 'snapshotCursors';
 
 export class UserSettingsDAO {
   static async getSetting(key: string): Promise<string | null> {
@@ -13,13 +20,14 @@ export class UserSettingsDAO {
     return null;
   }
 
-  static async setSetting(key: string, value: string): Promise<void> {
+  static async setSetting(key: string, value: string, tx?: Transaction): Promise<void> {
     const timestamp = getCurrentTimestamp();
     
     await executeSql(
       `INSERT OR REPLACE INTO user_settings (key, value, updated_at)
        VALUES (?, ?, ?)`,
-      [key, value, timestamp]
+      [key, value, timestamp],
+      tx
     );
   }
 
@@ -30,6 +38,7 @@ export class UserSettingsDAO {
     );
   }
 
+  // Every setting of the user, without the sync state kept beside them
   static async getAllSettings(): Promise<Record<string, string>> {
     const result = await executeSql(
       'SELECT key, value FROM user_settings',
@@ -39,11 +48,31 @@ export class UserSettingsDAO {
     const settings: Record<string, string> = {};
     for (let i = 0; i < result.rows.length; i++) {
       const row = result.rows.item(i);
-      settings[row.key] = row.value;
+      if (!isSyncStateKey(row.key)) {
+        settings[row.key] = row.value;
+      }
     }
     return settings;
   }
 
+  // Settings read from an export or a backup. Sync state in it is skipped.
+  static async importSettings(settings: object, tx?: Transaction): Promise<void> {
+    for (const [key, value] of Object.entries(settings)) {
+      if (!isSyncStateKey(key)) {
+        await this.setSetting(key, String(value), tx);
+      }
+    }
+  }
+
+  // Forget what has been pulled, so the next sync pulls everything again
+  static async clearSyncState(tx?: Transaction): Promise<void> {
+    await executeSql(
+      "DELETE FROM user_settings WHERE key LIKE 'pullCursor:%' OR key = 'snapshotCursors'",
+      [],
+      tx
+    );
+  }
+
   // Convenience methods for common settings
   static async getLastSelectedNoteId(): Promise<string | null> {
     return this.getSetting('lastSelectedNoteId');
@@ -105,6 +134,20 @@ export class UserSettingsDAO {
     return this.setSetting('offlineMode', enabled.toString());
   }
 
+  static async getSyncPreferences(): Promise<SyncPreferences> {
+    const largeNotes = await this.getSetting('syncLargeNotesOnWifiOnly');
+    const pauseBackground = await this.getSetting('pauseBackgroundSyncOnCellular');
+    return {
+      syncLargeNotesOnWifiOnly: largeNotes === 'true', // Default to false
+      pauseBackgroundSyncOnCellular: pauseBackground === 'true', // Default to false
+    };
+  }
+
+  static async setSyncPreferences(preferences: SyncPreferences): Promise<void> {
+    await this.setSetting('syncLargeNotesOnWifiOnly', preferences.syncLargeNotesOnWifiOnly.toString());
+    await this.setSetting('pauseBackgroundSyncOnCellular', preferences.pauseBackgroundSyncOnCellular.toString());
+  }
+
   static async clearAllSettings(): Promise<void> {
     await executeSql('DELETE FROM user_settings', []);
   }
@@ -0,0 +1,82 @@
+import { useState, useEffect, useCallback } from 'react';
+import { AccountService } from '../services/AccountService';
+import { Account } from '../types';
+
+export const useAccounts = () => {
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [activeAccount, setActiveAccount] = useState<Account | null>(null);
+  const [isSwitching, setIsSwitching] = useState(false);
+  const accountService = AccountService.getInstance();
+
+  const loadAccounts = useCallback(async () => {
+    try {
+      setAccounts(await accountService.getAccounts());
+      setActiveAccount(await accountService.getActiveAccount());
+    } catch (error) {
+      console.error('Failed to load accounts:', error);
+    }
+  }, [accountService]);
+
+  useEffect(() => {
+    loadAccounts();
+
+    const handleAccountChange = () => {
+      loadAccounts();
+    };
+
+    accountService.addAccountListener(handleAccountChange);
+    return () => {
+      accountService.removeAccountListener(handleAccountChange);
+    };
+  }, [accountService, loadAccounts]);
+
+  // Account changes reject with a message to show the user
+  const runChange = useCallback(async <T>(change: () => Promise<T>): Promise<T> => {
+    setIsSwitching(true);
+    try {
+      return await change();
+    } finally {
+      setIsSwitching(false);
+      loadAccounts();
+    }
+  }, [loadAccounts]);
+
+  // An account with encrypted notes needs its passphrase to be opened
+  const switchAccount = useCallback(
+    (userId: string, passphrase?: string) =>
+      runChange(() => accountService.switchAccount(userId, passphrase)),
+    [accountService, runChange]
+  );
+
+  const signIn = useCallback(
+    (email: string, password: string, passphrase?: string) =>
+      runChange(() => accountService.signIn(email, password, passphrase)),
+    [accountService, runChange]
+  );
+
+  const encryptNotes = useCallback(
+    (passphrase: string) => runChange(() => accountService.encryptActiveAccount(passphrase)),
+    [accountService, runChange]
+  );
+
+  const changePassphrase = useCallback(
+    (passphrase: string) => runChange(() => accountService.changePassphrase(passphrase)),
+    [accountService, runChange]
+  );
+
+  const removeAccount = useCallback(
+    (userId: string) => runChange(() => accountService.removeAccount(userId)),
+    [accountService, runChange]
+  );
+
+  return {
+    accounts,
+    activeAccount,
+    isSwitching,
+    switchAccount,
+    signIn,
+    encryptNotes,
+    changePassphrase,
+    removeAccount,
+  };
+};
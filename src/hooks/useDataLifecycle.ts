@@ -49,7 +49,9 @@ export const useDataLifecycle = () => {
     };
   }, []);
 
-  const createBackup = useCallback(async (): Promise<string | null> => {
+  // Pass allowPlaintext once the user has agreed to an unencrypted backup of
+  // encrypted notes; see BackupService.needsPlaintextConsent
+  const createBackup = useCallback(async (allowPlaintext = false): Promise<string | null> => {
     setState(prev => ({ ...prev, isBackupInProgress: true, backupError: null }));
 
     try {
@@ -58,7 +60,7 @@ export const useDataLifecycle = () => {
         throw new Error('User not authenticated');
       }
 
-      const filePath = await backupService.exportBackupToFile(user.id);
+      const filePath = await backupService.exportBackupToFile(user.id, undefined, { allowPlaintext });
       
       setState(prev => ({
         ...prev,
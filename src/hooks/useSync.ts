@@ -1,7 +1,9 @@
 import { useState, useEffect, useCallback } from 'react';
 import { SyncService, SyncStatus } from '../services/SyncService';
 import { BackgroundSyncWorker } from '../services/BackgroundSyncWorker';
+import { SyncQueueItem } from '../database/syncQueueDAO';
 import { supabase } from '../config/supabase';
+import { ConflictResolution, Group, Note, SyncConflict, SyncPreferences } from '../types';
 
 export const useSync = () => {
   const [syncStatus, setSyncStatus] = useState<SyncStatus>({
@@ -9,16 +11,24 @@ export const useSync = () => {
     lastSyncTime: null,
     pendingOperations: 0,
     error: null,
+    clockSkewMs: null,
+    schedule: SyncService.getInstance().getSyncSchedule(),
+    progress: null,
   });
 
   const [isOnline, setIsOnline] = useState(false);
   const syncService = SyncService.getInstance();
+  const [syncPreferences, setSyncPreferencesState] = useState<SyncPreferences>(
+    syncService.getSyncPreferences()
+  );
   const backgroundWorker = BackgroundSyncWorker.getInstance();
 
   useEffect(() => {
     // Add sync status listener
     const handleStatusChange = (status: SyncStatus) => {
       setSyncStatus(status);
+      // Stored preferences are loaded by the first sync
+      setSyncPreferencesState(syncService.getSyncPreferences());
     };
 
     syncService.addStatusListener(handleStatusChange);
@@ -57,6 +67,11 @@ export const useSync = () => {
     }
   }, [syncService]);
 
+  // Takes effect at the next batch boundary
+  const cancelSync = useCallback(() => {
+    syncService.cancelSync();
+  }, [syncService]);
+
   const startBackgroundSync = useCallback(async () => {
     try {
       const { data: { user } } = await supabase.auth.getUser();
@@ -72,6 +87,15 @@ export const useSync = () => {
     backgroundWorker.stop();
   }, [backgroundWorker]);
 
+  const setSyncPreferences = useCallback(async (preferences: SyncPreferences) => {
+    try {
+      await syncService.setSyncPreferences(preferences);
+      setSyncPreferencesState(preferences);
+    } catch (error) {
+      console.error('Failed to save sync preferences:', error);
+    }
+  }, [syncService]);
+
   const performMaintenance = useCallback(async () => {
     try {
       const { data: { user } } = await supabase.auth.getUser();
@@ -88,37 +112,59 @@ export const useSync = () => {
     isOnline,
     startSync,
     forceSync,
+    cancelSync,
     startBackgroundSync,
     stopBackgroundSync,
     performMaintenance,
+    syncPreferences,
+    setSyncPreferences,
     isSyncing: syncStatus.isSync,
     lastSyncTime: syncStatus.lastSyncTime,
     pendingOperations: syncStatus.pendingOperations,
     syncError: syncStatus.error,
+    clockSkewMs: syncStatus.clockSkewMs,
+    syncSchedule: syncStatus.schedule,
+    syncProgress: syncStatus.progress,
   };
 };
 
 // Hook for managing offline queue
 export const useOfflineQueue = () => {
   const [queueSize, setQueueSize] = useState(0);
-  const [failedItems, setFailedItems] = useState(0);
+  const [failedItems, setFailedItems] = useState<SyncQueueItem[]>([]);
 
   const updateQueueStatus = useCallback(async () => {
     try {
       const { data: { user } } = await supabase.auth.getUser();
       if (user) {
         const syncService = SyncService.getInstance();
-        // This would need to be implemented in SyncService
-        // const size = await syncService.getQueueSize(user.id);
-        // const failed = await syncService.getFailedItemsCount(user.id);
-        // setQueueSize(size);
-        // setFailedItems(failed);
+        setQueueSize(await syncService.getQueueSize(user.id));
+        setFailedItems(await syncService.getFailedItems(user.id));
       }
     } catch (error) {
       console.error('Failed to update queue status:', error);
     }
   }, []);
 
+  // Give a dead-lettered item a fresh set of attempts
+  const retryItem = useCallback(async (id: string) => {
+    try {
+      await SyncService.getInstance().retryFailedItem(id);
+      await updateQueueStatus();
+    } catch (error) {
+      console.error('Failed to retry queue item:', error);
+    }
+  }, [updateQueueStatus]);
+
+  const discardItem = useCallback(async (id: string) => {
+    try {
+      await SyncService.getInstance().discardFailedItem(id);
+      await updateQueueStatus();
+    } catch (error) {
+      console.error('Failed to discard queue item:', error);
+    }
+  }, [updateQueueStatus]);
+
   useEffect(() => {
     updateQueueStatus();
     
@@ -131,40 +177,62 @@ export const useOfflineQueue = () => {
   return {
     queueSize,
     failedItems,
+    failedCount: failedItems.length,
     updateQueueStatus,
+    retryItem,
+    discardItem,
   };
 };
 
 // Hook for conflict resolution
 export const useConflictResolution = () => {
-  const [conflicts, setConflicts] = useState<any[]>([]);
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
 
   const resolveConflict = useCallback(async (
     conflictId: string,
-    resolution: 'local' | 'remote' | 'merge'
+    resolution: 'local' | 'remote' | 'merge',
+    resolvedVersion?: Note | Group
   ) => {
     try {
-      // Implementation would depend on how conflicts are stored and managed
-      console.log(`Resolving conflict ${conflictId} with ${resolution}`);
-      
+      const conflict = conflicts.find(c => c.id === conflictId);
+      if (!conflict) {
+        return;
+      }
+
+      const conflictResolution: ConflictResolution = {
+        localVersion: conflict.localVersion,
+        remoteVersion: conflict.remoteVersion,
+        resolution,
+        resolvedVersion: resolution === 'merge'
+          ? resolvedVersion ?? conflict.mergedVersion
+          : undefined,
+      };
+
+      await SyncService.getInstance().resolveConflict(conflictId, conflictResolution);
+
       // Remove resolved conflict from list
       setConflicts(prev => prev.filter(c => c.id !== conflictId));
     } catch (error) {
       console.error('Failed to resolve conflict:', error);
     }
-  }, []);
+  }, [conflicts]);
 
   const checkForConflicts = useCallback(async () => {
     try {
-      // Implementation would check for conflicts in the database
-      // This is a placeholder
-      const foundConflicts: any[] = [];
-      setConflicts(foundConflicts);
+      const { data: { user } } = await supabase.auth.getUser();
+      if (user) {
+        const foundConflicts = await SyncService.getInstance().getConflicts(user.id);
+        setConflicts(foundConflicts);
+      }
     } catch (error) {
       console.error('Failed to check for conflicts:', error);
     }
   }, []);
 
+  useEffect(() => {
+    checkForConflicts();
+  }, [checkForConflicts]);
+
   return {
     conflicts,
     resolveConflict,
@@ -0,0 +1,347 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Session } from '@supabase/supabase-js';
+import { supabase } from '../config/supabase';
+import { DatabaseManager } from '../database/DatabaseManager';
+import { SyncService } from './SyncService';
+import { BackgroundSyncWorker } from './BackgroundSyncWorker';
+import { CleanupService } from './CleanupService';
+import { RemoteChangeApplier } from './RemoteChangeApplier';
+import { DATABASE_CONFIG, ERROR_CODES, ERROR_MESSAGES, STORAGE_KEYS } from '../constants';
+import { Account } from '../types';
+
+// Tokens that restore an account's session when switching back to it
+interface StoredSession {
+  access_token: string;
+  refresh_token: string;
+}
+
+interface StoredAccount extends Account {
+  session: StoredSession | null;
+}
+
+// Services that were running for the previous account and run again for the next
+interface RunningServices {
+  backgroundSync: boolean;
+  cleanup: boolean;
+}
+
+const toAccount = ({ session: _session, ...account }: StoredAccount): Account => account;
+
+const toStoredSession = (session: Session): StoredSession => ({
+  access_token: session.access_token,
+  refresh_token: session.refresh_token,
+});
+
+// The first account keeps the database file used before accounts were separated
+const getDatabaseName = (userId: string, accounts: StoredAccount[]): string =>
+  accounts.length === 0 ? DATABASE_CONFIG.name : `NorthernStarNotes-${userId}.db`;
+
+const getEncryptedDatabaseName = (userId: string): string =>
+  `NorthernStarNotes-${userId}.encrypted.db`;
+
+export class AccountService {
+  private static instance: AccountService;
+  private dbManager: DatabaseManager;
+  private syncService: SyncService;
+  private backgroundWorker: BackgroundSyncWorker;
+  private cleanupService: CleanupService;
+  private applier: RemoteChangeApplier;
+  private pending: Promise<void> = Promise.resolve();
+  private listeners: ((account: Account | null) => void)[] = [];
+
+  private constructor() {
+    this.dbManager = DatabaseManager.getInstance();
+    this.syncService = SyncService.getInstance();
+    this.backgroundWorker = BackgroundSyncWorker.getInstance();
+    this.cleanupService = CleanupService.getInstance();
+    this.applier = RemoteChangeApplier.getInstance();
+  }
+
+  static getInstance(): AccountService {
+    if (!AccountService.instance) {
+      AccountService.instance = new AccountService();
+    }
+    return AccountService.instance;
+  }
+
+  // Open the active account's database. A session restored at startup that
+  // was never recorded as an account becomes the first one.
+  async initialize(passphrase?: string): Promise<Account | null> {
+    return this.serialize(async () => {
+      let account = await this.getActiveRecord();
+      if (!account) {
+        const { data: { session } } = await supabase.auth.getSession();
+        if (session) {
+          account = await this.register(session);
+          await AsyncStorage.setItem(STORAGE_KEYS.activeAccount, account.userId);
+        }
+      }
+
+      await this.openDatabase(account, passphrase);
+      return account ? toAccount(account) : null;
+    });
+  }
+
+  // Most recently used first
+  async getAccounts(): Promise<Account[]> {
+    const accounts = await this.loadAccounts();
+    return accounts
+      .sort((a, b) => b.lastActiveAt.localeCompare(a.lastActiveAt))
+      .map(toAccount);
+  }
+
+  async getActiveAccount(): Promise<Account | null> {
+    const account = await this.getActiveRecord();
+    return account ? toAccount(account) : null;
+  }
+
+  // Sign in to another account, or again to a known one, and make it active
+  async signIn(email: string, password: string, passphrase?: string): Promise<Account> {
+    return this.serialize(async () => {
+      const previous = await this.getActiveRecord();
+      const running = await this.stopServices();
+
+      const { data, error } = await supabase.auth.signInWithPassword({ email, password });
+      if (error || !data.session) {
+        // The previous session and database are still in place
+        this.startServices(running, previous);
+        throw new Error(error?.message ?? ERROR_MESSAGES[ERROR_CODES.AUTH_INVALID_CREDENTIALS]);
+      }
+
+      const account = await this.register(data.session);
+      await this.activate(account, running, passphrase);
+      return toAccount(account);
+    });
+  }
+
+  async switchAccount(userId: string, passphrase?: string): Promise<Account> {
+    return this.serialize(async () => {
+      const target = (await this.loadAccounts()).find(account => account.userId === userId);
+      if (!target) {
+        throw new Error('Account not found');
+      }
+
+      const previous = await this.getActiveRecord();
+      if (previous?.userId === userId) {
+        return toAccount(target);
+      }
+      if (target.encrypted && !passphrase) {
+        // Asked for before anything of the current account is stopped
+        throw new Error(ERROR_MESSAGES[ERROR_CODES.DB_LOCKED]);
+      }
+
+      const running = await this.stopServices();
+
+      const session = await this.resumeSession(target);
+      if (!session) {
+        await this.resumeSession(previous);
+        this.startServices(running, previous);
+        throw new Error(ERROR_MESSAGES[ERROR_CODES.AUTH_SESSION_EXPIRED]);
+      }
+
+      const account = await this.register(session);
+      await this.activate(account, running, passphrase);
+      return toAccount(account);
+    });
+  }
+
+  // Move the active account's notes to a database encrypted with the
+  // passphrase. It is needed from then on to open them and cannot be recovered.
+  async encryptActiveAccount(passphrase: string): Promise<Account> {
+    return this.serialize(async () => {
+      const account = await this.getActiveRecord();
+      if (!account) {
+        throw new Error('No account is signed in');
+      }
+      if (account.encrypted) {
+        throw new Error('The notes of this account are already encrypted');
+      }
+
+      const running = await this.stopServices();
+      const databaseName = getEncryptedDatabaseName(account.userId);
+      try {
+        await this.dbManager.encrypt(databaseName, passphrase);
+        await this.updateAccount(account.userId, { databaseName, encrypted: true });
+      } finally {
+        // On failure the plaintext database is still the open one
+        this.startServices(running, account);
+      }
+
+      const encrypted = toAccount({ ...account, databaseName, encrypted: true });
+      this.notifyListeners(encrypted);
+      return encrypted;
+    });
+  }
+
+  // Re-encrypt the active account's notes with a new passphrase
+  async changePassphrase(passphrase: string): Promise<void> {
+    return this.serialize(async () => {
+      const account = await this.getActiveRecord();
+      if (!account?.encrypted) {
+        throw new Error('The notes of this account are not encrypted');
+      }
+      await this.dbManager.changePassphrase(passphrase);
+    });
+  }
+
+  // Sign the account out of this device and delete its local database.
+  // Changes it has not synced yet are lost.
+  async removeAccount(userId: string): Promise<void> {
+    return this.serialize(async () => {
+      const accounts = await this.loadAccounts();
+      const target = accounts.find(account => account.userId === userId);
+      if (!target) {
+        return;
+      }
+
+      const active = await this.getActiveRecord();
+      if (active?.userId === userId) {
+        await this.stopServices();
+        await supabase.auth.signOut({ scope: 'local' });
+        await AsyncStorage.removeItem(STORAGE_KEYS.activeAccount);
+        await this.dbManager.close();
+        this.notifyListeners(null);
+      }
+
+      await this.dbManager.deleteDatabase(target.databaseName);
+      await this.saveAccounts(accounts.filter(account => account.userId !== userId));
+    });
+  }
+
+  addAccountListener(listener: (account: Account | null) => void) {
+    this.listeners.push(listener);
+  }
+
+  removeAccountListener(listener: (account: Account | null) => void) {
+    this.listeners = this.listeners.filter(l => l !== listener);
+  }
+
+  private notifyListeners(account: Account | null) {
+    this.listeners.forEach(listener => listener(account));
+  }
+
+  // Stop everything that reads or writes the open database, and keep the
+  // current session so the account can be switched back to
+  private async stopServices(): Promise<RunningServices> {
+    const running: RunningServices = {
+      backgroundSync: this.backgroundWorker.getIsActive(),
+      cleanup: this.cleanupService.isPeriodicCleanupRunning(),
+    };
+
+    this.backgroundWorker.stop();
+    this.cleanupService.stopPeriodicCleanup();
+    await this.syncService.reset();
+    await this.applier.whenIdle();
+
+    const { data: { session } } = await supabase.auth.getSession();
+    if (session) {
+      await this.updateAccount(session.user.id, { session: toStoredSession(session) });
+    }
+
+    return running;
+  }
+
+  // Long-running work is not awaited so switching returns once the database is open
+  private startServices(running: RunningServices, account: StoredAccount | null): void {
+    if (!account) {
+      return;
+    }
+
+    if (running.cleanup) {
+      this.cleanupService.startPeriodicCleanup().catch(error => {
+        console.error('Failed to restart periodic cleanup:', error);
+      });
+    }
+    if (running.backgroundSync) {
+      this.backgroundWorker.start(account.userId).catch(error => {
+        console.error('Failed to restart background sync:', error);
+      });
+    }
+  }
+
+  // The passphrase is only passed on for an encrypted database
+  private async openDatabase(account: StoredAccount | null, passphrase?: string): Promise<void> {
+    if (account?.encrypted && !passphrase) {
+      throw new Error(ERROR_MESSAGES[ERROR_CODES.DB_LOCKED]);
+    }
+    await this.dbManager.initialize(account?.databaseName, account?.encrypted ? passphrase : undefined);
+  }
+
+  private async activate(
+    account: StoredAccount,
+    running: RunningServices,
+    passphrase?: string
+  ): Promise<void> {
+    await this.openDatabase(account, passphrase);
+    await AsyncStorage.setItem(STORAGE_KEYS.activeAccount, account.userId);
+    this.startServices(running, account);
+    this.notifyListeners(toAccount(account));
+  }
+
+  // Null when the account's refresh token is no longer accepted
+  private async resumeSession(account: StoredAccount | null): Promise<Session | null> {
+    if (!account?.session) {
+      return null;
+    }
+
+    const { data, error } = await supabase.auth.setSession(account.session);
+    if (error) {
+      console.error(`Failed to resume the session of ${account.email}:`, error);
+      return null;
+    }
+    return data.session;
+  }
+
+  // Record the session's account, keeping the database file of a known one
+  private async register(session: Session): Promise<StoredAccount> {
+    const accounts = await this.loadAccounts();
+    const existing = accounts.find(account => account.userId === session.user.id);
+
+    const account: StoredAccount = {
+      userId: session.user.id,
+      email: session.user.email ?? existing?.email ?? '',
+      databaseName: existing?.databaseName ?? getDatabaseName(session.user.id, accounts),
+      encrypted: existing?.encrypted,
+      lastActiveAt: new Date().toISOString(),
+      session: toStoredSession(session),
+    };
+
+    await this.saveAccounts([
+      ...accounts.filter(other => other.userId !== account.userId),
+      account,
+    ]);
+    return account;
+  }
+
+  private async updateAccount(userId: string, changes: Partial<StoredAccount>): Promise<void> {
+    const accounts = await this.loadAccounts();
+    await this.saveAccounts(
+      accounts.map(account => (account.userId === userId ? { ...account, ...changes } : account))
+    );
+  }
+
+  private async getActiveRecord(): Promise<StoredAccount | null> {
+    const userId = await AsyncStorage.getItem(STORAGE_KEYS.activeAccount);
+    if (!userId) {
+      return null;
+    }
+    const accounts = await this.loadAccounts();
+    return accounts.find(account => account.userId === userId) ?? null;
+  }
+
+  private async loadAccounts(): Promise<StoredAccount[]> {
+    const value = await AsyncStorage.getItem(STORAGE_KEYS.accounts);
+    return value ? JSON.parse(value) : [];
+  }
+
+  private async saveAccounts(accounts: StoredAccount[]): Promise<void> {
+    await AsyncStorage.setItem(STORAGE_KEYS.accounts, JSON.stringify(accounts));
+  }
+
+  // Account changes run one at a time so a switch never overlaps another
+  private serialize<T>(change: () => Promise<T>): Promise<T> {
+    const result = this.pending.then(change);
+    this.pending = result.then(() => undefined, () => undefined);
+    return result;
+  }
+}
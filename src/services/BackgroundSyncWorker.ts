@@ -1,20 +1,26 @@
 import { AppState, AppStateStatus } from 'react-native';
 import { SyncService } from './SyncService';
+import { RemoteChangeApplier } from './RemoteChangeApplier';
 import { DatabaseManager } from '../database/DatabaseManager';
-import { supabase } from '../config/supabase';
+import { RemoteChange, SyncBackend, SyncTable, getSyncBackend } from './SyncBackend';
 
 export class BackgroundSyncWorker {
   private static instance: BackgroundSyncWorker;
   private syncService: SyncService;
   private dbManager: DatabaseManager;
+  private applier: RemoteChangeApplier;
+  private backend: SyncBackend;
   private appStateSubscription: any;
   private realtimeSubscription: any;
   private isActive = false;
+  private userId: string | null = null;
   private retryTimeouts: Map<string, NodeJS.Timeout> = new Map();
 
   private constructor() {
     this.syncService = SyncService.getInstance();
     this.dbManager = DatabaseManager.getInstance();
+    this.applier = RemoteChangeApplier.getInstance();
+    this.backend = getSyncBackend();
   }
 
   static getInstance(): BackgroundSyncWorker {
@@ -30,10 +36,12 @@ export class BackgroundSyncWorker {
     }
 
     this.isActive = true;
+    this.userId = userId;
     console.log('Starting background sync worker');
 
-    // Start periodic sync
-    this.syncService.startPeriodicSync(30000); // 30 seconds
+    // Start periodic sync, paced by the sync schedule
+    this.syncService.setAppState(AppState.currentState);
+    this.syncService.startPeriodicSync();
 
     // Listen for app state changes
     this.setupAppStateListener();
@@ -51,6 +59,7 @@ export class BackgroundSyncWorker {
     }
 
     this.isActive = false;
+    this.userId = null;
     console.log('Stopping background sync worker');
 
     // Stop periodic sync
@@ -65,12 +74,17 @@ export class BackgroundSyncWorker {
     if (this.realtimeSubscription) {
       this.realtimeSubscription.unsubscribe();
     }
+    this.applier.markBehind();
 
     // Clear retry timeouts
     this.retryTimeouts.forEach(timeout => clearTimeout(timeout));
     this.retryTimeouts.clear();
   }
 
+  getIsActive(): boolean {
+    return this.isActive;
+  }
+
   private setupAppStateListener(): void {
     this.appStateSubscription = AppState.addEventListener(
       'change',
@@ -79,46 +93,34 @@ export class BackgroundSyncWorker {
   }
 
   private async handleAppStateChange(nextAppState: AppStateStatus): Promise<void> {
+    this.syncService.setAppState(nextAppState);
+
     if (nextAppState === 'active') {
       // App became active, trigger sync
       console.log('App became active, triggering sync');
-      const { data: { user } } = await supabase.auth.getUser();
-      if (user) {
-        await this.syncService.startSync(user.id);
+      const userId = await this.backend.getCurrentUserId();
+      if (userId) {
+        await this.syncService.startSync(userId);
       }
     }
   }
 
   private async setupRealtimeSubscriptions(userId: string): Promise<void> {
-    // Subscribe to notes changes
-    const notesSubscription = supabase
-      .channel('notes_changes')
-      .on(
-        'postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: 'notes',
-          filter: `user_id=eq.${userId}`,
-        },
-        this.handleRealtimeNotesChange.bind(this)
-      )
-      .subscribe();
-
-    // Subscribe to groups changes
-    const groupsSubscription = supabase
-      .channel('groups_changes')
-      .on(
-        'postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: 'groups',
-          filter: `user_id=eq.${userId}`,
-        },
-        this.handleRealtimeGroupsChange.bind(this)
-      )
-      .subscribe();
+    const onStatus = this.handleChannelStatus.bind(this);
+
+    const notesSubscription = this.backend.subscribe(
+      'notes',
+      userId,
+      this.handleRealtimeNotesChange.bind(this),
+      onStatus
+    );
+
+    const groupsSubscription = this.backend.subscribe(
+      'groups',
+      userId,
+      this.handleRealtimeGroupsChange.bind(this),
+      onStatus
+    );
 
     this.realtimeSubscription = {
       unsubscribe: () => {
@@ -128,118 +130,60 @@ export class BackgroundSyncWorker {
     };
   }
 
-  private async handleRealtimeNotesChange(payload: any): Promise<void> {
-    console.log('Realtime notes change:', payload);
+  private async handleRealtimeNotesChange(change: RemoteChange): Promise<void> {
+    console.log('Realtime notes change:', change);
     
     try {
-      const { eventType, new: newRecord, old: oldRecord } = payload;
-      
-      switch (eventType) {
-        case 'INSERT':
-        case 'UPDATE':
-          if (newRecord) {
-            await this.handleRemoteNoteUpdate(newRecord);
-          }
-          break;
-        case 'DELETE':
-          if (oldRecord) {
-            await this.handleRemoteNoteDelete(oldRecord);
-          }
-          break;
-      }
+      await this.applier.applyRealtimeChange('notes', change);
+      await this.recordRealtimeEvent('notes', change, null);
     } catch (error) {
       console.error('Error handling realtime notes change:', error);
-      this.scheduleRetry('notes', () => this.handleRealtimeNotesChange(payload));
+      await this.recordRealtimeEvent('notes', change, error);
+      this.scheduleRetry('notes', () => this.handleRealtimeNotesChange(change));
     }
   }
 
-  private async handleRealtimeGroupsChange(payload: any): Promise<void> {
-    console.log('Realtime groups change:', payload);
+  private async handleRealtimeGroupsChange(change: RemoteChange): Promise<void> {
+    console.log('Realtime groups change:', change);
     
     try {
-      const { eventType, new: newRecord, old: oldRecord } = payload;
-      
-      switch (eventType) {
-        case 'INSERT':
-        case 'UPDATE':
-          if (newRecord) {
-            await this.handleRemoteGroupUpdate(newRecord);
-          }
-          break;
-        case 'DELETE':
-          if (oldRecord) {
-            await this.handleRemoteGroupDelete(oldRecord);
-          }
-          break;
-      }
+      await this.applier.applyRealtimeChange('groups', change);
+      await this.recordRealtimeEvent('groups', change, null);
     } catch (error) {
       console.error('Error handling realtime groups change:', error);
-      this.scheduleRetry('groups', () => this.handleRealtimeGroupsChange(payload));
+      await this.recordRealtimeEvent('groups', change, error);
+      this.scheduleRetry('groups', () => this.handleRealtimeGroupsChange(change));
     }
   }
 
-  private async handleRemoteNoteUpdate(remoteNote: any): Promise<void> {
-    const localNote = await this.dbManager.getNoteById(remoteNote.id);
-    
-    if (!localNote) {
-      // New note from server, add it locally
-      await this.dbManager.createNote(
-        remoteNote.title,
-        remoteNote.content,
-        remoteNote.content_markdown,
-        remoteNote.content_plain,
-        remoteNote.group_id,
-        remoteNote.user_id
-      );
-    } else {
-      // Check for conflicts
-      const localTime = new Date(localNote.updated_at).getTime();
-      const remoteTime = new Date(remoteNote.updated_at).getTime();
-      
-      if (remoteTime > localTime) {
-        // Remote is newer, update local
-        await this.dbManager.updateNote(remoteNote.id, {
-          title: remoteNote.title,
-          content: remoteNote.content,
-          content_markdown: remoteNote.content_markdown,
-          content_plain: remoteNote.content_plain,
-          group_id: remoteNote.group_id,
-        });
-      }
+  // Logging must never get in the way of applying the change
+  private async recordRealtimeEvent(
+    tableName: SyncTable,
+    change: RemoteChange,
+    error: unknown
+  ): Promise<void> {
+    if (!this.userId) {
+      return;
     }
-  }
-
-  private async handleRemoteNoteDelete(remoteNote: any): Promise<void> {
-    await this.dbManager.deleteNote(remoteNote.id);
-  }
 
-  private async handleRemoteGroupUpdate(remoteGroup: any): Promise<void> {
-    const localGroup = await this.dbManager.getGroupById(remoteGroup.id);
-    
-    if (!localGroup) {
-      // New group from server, add it locally
-      await this.dbManager.createGroup(
-        remoteGroup.name,
-        remoteGroup.color,
-        remoteGroup.user_id
-      );
-    } else {
-      // Check for conflicts
-      const localTime = new Date(localGroup.updated_at).getTime();
-      const remoteTime = new Date(remoteGroup.updated_at).getTime();
-      
-      if (remoteTime > localTime) {
-        // Remote is newer, update local
-        await this.dbManager.updateGroup(remoteGroup.id, {
-          name: remoteGroup.name,
-          color: remoteGroup.color,
-        });
-      }
+    try {
+      await this.dbManager.recordRealtimeEvent({
+        tableName,
+        recordId: change.new?.id ?? change.old?.id ?? null,
+        eventType: change.eventType,
+        error: error ? (error instanceof Error ? error.message : String(error)) : null,
+      }, this.userId);
+    } catch (logError) {
+      console.error('Failed to record realtime event:', logError);
     }
   }
 
-  private async handleRemoteGroupDelete(remoteGroup: any): Promise<void> {
-    await this.dbManager.deleteGroup(remoteGroup.id);
+  // Events sent while the channel was down are never replayed, so the pull
+  // cursor has to catch up again before realtime may move it
+  private handleChannelStatus(connected: boolean): void {
+    if (!connected) {
+      this.applier.markBehind();
+    }
   }
 
   private scheduleRetry(operation: string, retryFn: () => Promise<void>): void {
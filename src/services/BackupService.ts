@@ -1,6 +1,7 @@
 import { Platform } from 'react-native';
 import RNFS from 'react-native-fs';
 import { DatabaseManager } from '../database/DatabaseManager';
+import { isDatabaseEncrypted } from '../database/encryption';
 import { supabase } from '../config/supabase';
 import { BackupData, Group, Note, AppSettings } from '../types';
 import { exportToJSON, importFromJSON } from '../utils/dataUtils';
@@ -76,8 +77,22 @@ export class BackupService {
     }
   }
 
-  async exportBackupToFile(userId: string, filename?: string): Promise<string> {
+  // Backup files are plain JSON. With the notes encrypted on this device,
+  // writing one has to be confirmed by the user first.
+  needsPlaintextConsent(): boolean {
+    return isDatabaseEncrypted();
+  }
+
+  async exportBackupToFile(
+    userId: string,
+    filename?: string,
+    options: { allowPlaintext?: boolean } = {}
+  ): Promise<string> {
     try {
+      if (this.needsPlaintextConsent() && !options.allowPlaintext) {
+        throw new Error('Notes are encrypted on this device; confirm before writing them to an unencrypted backup');
+      }
+
       const backupData = await this.createBackup(userId);
       const jsonData = exportToJSON(backupData);
       
@@ -140,31 +155,36 @@ export class BackupService {
       // Clear existing data (optional - could be a user choice)
       // await this.clearUserData(user.id);
 
-      // Restore groups
-      for (const group of backupData.groups) {
-        if (!group.is_deleted) {
-          await this.dbManager.createGroup(group.name, group.color, user.id);
+      // A backup is restored whole or not at all
+      await this.dbManager.transaction(async tx => {
+        // Restore groups
+        for (const group of backupData.groups) {
+          if (!group.is_deleted) {
+            await this.dbManager.createGroup(group.name, group.color, user.id, tx);
+          }
         }
-      }
 
-      // Restore notes
-      for (const note of backupData.notes) {
-        if (!note.is_deleted) {
-          await this.dbManager.createNote(
-            note.title,
-            note.content,
-            note.content_markdown,
-            note.content_plain,
-            note.group_id,
-            user.id
-          );
+        // Restore notes
+        for (const note of backupData.notes) {
+          if (!note.is_deleted) {
+            await this.dbManager.createNote(
+              note.title,
+              note.content,
+              note.content_markdown,
+              note.content_plain,
+              note.group_id,
+              user.id,
+              tx
+            );
+          }
         }
-      }
 
-      // Restore settings
-      for (const [key, value] of Object.entries(backupData.settings)) {
-        await this.dbManager.setSetting(key, String(value));
-      }
+        // Restore settings
+        await this.dbManager.importSettings(backupData.settings, tx);
+
+        // Pull everything again, so rows the server has are back on this device
+        await this.dbManager.clearSyncState(tx);
+      });
 
       console.log('Backup restored successfully');
     } catch (error) {
@@ -192,6 +212,8 @@ export class BackupService {
       autoSaveDelay: parseInt(settings.autoSaveDelay || '300', 10),
       offlineMode: settings.offlineMode === 'true',
       syncOnStartup: settings.syncOnStartup !== 'false',
+      syncLargeNotesOnWifiOnly: settings.syncLargeNotesOnWifiOnly === 'true',
+      pauseBackgroundSyncOnCellular: settings.pauseBackgroundSyncOnCellular === 'true',
       windowLayout: settings.windowLayout ? JSON.parse(settings.windowLayout) : {
         type: 'single',
         panes: [{ id: 'main', noteId: null, width: 100, isActive: true }],
@@ -201,27 +223,21 @@ export class BackupService {
     };
   }
 
+  // Clears this device only: the deletions are not synced, and pending
+  // changes are dropped from the queue along with their needs_sync flags
   async clearUserData(userId: string): Promise<void> {
     try {
-      // Get all user's notes and groups
-      const notes = await this.dbManager.getAllNotes(userId);
-      const groups = await this.dbManager.getAllGroups(userId);
+      // Cleared all at once, so a failure leaves the data as it was
+      await this.dbManager.transaction(async tx => {
+        await this.dbManager.clearNotes(userId, tx);
 
-      // Delete all notes
-      for (const note of notes) {
-        await this.dbManager.deleteNote(note.id);
-      }
-
-      // Delete all groups (except default ones)
-      const defaultGroupNames = ['Work', 'Personal', 'Ideas', 'Tasks', 'Uncategorized'];
-      for (const group of groups) {
-        if (!defaultGroupNames.includes(group.name)) {
-          await this.dbManager.deleteGroup(group.id);
-        }
-      }
+        // Delete all groups (except default ones)
+        const defaultGroupNames = ['Work', 'Personal', 'Ideas', 'Tasks', 'Uncategorized'];
+        await this.dbManager.clearGroups(userId, defaultGroupNames, tx);
 
-      // Clear sync queue
-      await this.dbManager.clearSyncQueue(userId);
+        // Clear sync queue
+        await this.dbManager.clearSyncQueue(userId, tx);
+      });
 
       console.log('User data cleared');
     } catch (error) {
@@ -1,16 +1,19 @@
 import { DatabaseManager } from '../database/DatabaseManager';
 import { NotesDAO } from '../database/notesDAO';
 import { SyncQueueDAO } from '../database/syncQueueDAO';
-import { supabase } from '../config/supabase';
+import { SyncLogDAO } from '../database/syncLogDAO';
+import { SyncBackend, getSyncBackend } from './SyncBackend';
 import { CLEANUP } from '../constants';
 
 export class CleanupService {
   private static instance: CleanupService;
   private dbManager: DatabaseManager;
+  private backend: SyncBackend;
   private cleanupInterval: NodeJS.Timeout | null = null;
 
   private constructor() {
     this.dbManager = DatabaseManager.getInstance();
+    this.backend = getSyncBackend();
   }
 
   static getInstance(): CleanupService {
@@ -48,6 +51,10 @@ export class CleanupService {
     }
   }
 
+  isPeriodicCleanupRunning(): boolean {
+    return this.cleanupInterval !== null;
+  }
+
   async performCleanup(): Promise<void> {
     try {
       console.log('Starting cleanup process...');
@@ -56,9 +63,9 @@ export class CleanupService {
       await this.cleanupLocalData();
 
       // Clean up server data (if user is authenticated)
-      const { data: { user } } = await supabase.auth.getUser();
-      if (user) {
-        await this.cleanupServerData(user.id);
+      const userId = await this.backend.getCurrentUserId();
+      if (userId) {
+        await this.cleanupServerData(userId);
       }
 
       console.log('Cleanup process completed');
@@ -76,11 +83,8 @@ export class CleanupService {
       // Clean up old sync queue items (7+ days)
       await SyncQueueDAO.removeOldItems();
 
-      // Clean up processed sync operations
-      const { data: { user } } = await supabase.auth.getUser();
-      if (user) {
-        await SyncQueueDAO.clearProcessedItems(user.id);
-      }
+      // Clean up old sync log entries (14+ days)
+      await SyncLogDAO.removeOldEntries();
 
       console.log('Local data cleanup completed');
     } catch (error) {
@@ -91,35 +95,21 @@ export class CleanupService {
 
   private async cleanupServerData(userId: string): Promise<void> {
     try {
-      // Clean up old deleted notes on server
+      // Clean up old deleted notes on server. Purged rows leave tombstones,
+      // so devices that missed the deletion still learn of it.
       const thirtyDaysAgo = new Date();
       thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - CLEANUP.deletedNotesRetentionDays);
 
-      await supabase
-        .from('notes')
-        .delete()
-        .eq('user_id', userId)
-        .eq('is_deleted', true)
-        .lt('deleted_at', thirtyDaysAgo.toISOString());
+      await this.backend.purgeDeleted('notes', userId, thirtyDaysAgo.toISOString());
 
       // Clean up old deleted groups on server
-      await supabase
-        .from('groups')
-        .delete()
-        .eq('user_id', userId)
-        .eq('is_deleted', true)
-        .lt('updated_at', thirtyDaysAgo.toISOString());
+      await this.backend.purgeDeleted('groups', userId, thirtyDaysAgo.toISOString());
 
       // Clean up old processed sync operations
       const sevenDaysAgo = new Date();
       sevenDaysAgo.setDate(sevenDaysAgo.getDate() - CLEANUP.syncQueueRetentionDays);
 
-      await supabase
-        .from('sync_operations')
-        .delete()
-        .eq('user_id', userId)
-        .eq('processed', true)
-        .lt('created_at', sevenDaysAgo.toISOString());
+      await this.backend.purgeProcessedOperations(userId, sevenDaysAgo.toISOString());
 
       console.log('Server data cleanup completed');
     } catch (error) {
@@ -135,21 +125,9 @@ export class CleanupService {
         throw new Error('Note not found');
       }
 
-      // Mark as deleted locally
+      // Mark as deleted locally, which queues the server deletion
       await this.dbManager.deleteNote(noteId);
 
-      // Add to sync queue for server deletion
-      const { data: { user } } = await supabase.auth.getUser();
-      if (user) {
-        await this.dbManager.addToSyncQueue(
-          'notes',
-          noteId,
-          'DELETE',
-          { id: noteId, deleted_at: new Date().toISOString() },
-          user.id
-        );
-      }
-
       console.log(`Note ${noteId} soft deleted`);
     } catch (error) {
       console.error('Failed to soft delete note:', error);
@@ -165,30 +143,24 @@ export class CleanupService {
       }
 
       // Get uncategorized group
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) {
+      const userId = await this.backend.getCurrentUserId();
+      if (!userId) {
         throw new Error('User not authenticated');
       }
 
-      const uncategorizedGroup = await this.dbManager.getUncategorizedGroup(user.id);
+      const uncategorizedGroup = await this.dbManager.getUncategorizedGroup(userId);
       if (!uncategorizedGroup) {
         throw new Error('Uncategorized group not found');
       }
 
-      // Move all notes from this group to uncategorized
-      await this.dbManager.moveNotesToGroup(groupId, uncategorizedGroup.id, user.id);
-
-      // Mark group as deleted locally
-      await this.dbManager.deleteGroup(groupId);
+      // All or nothing, so a crash never leaves notes in a deleted group
+      await this.dbManager.transaction(async tx => {
+        // Move all notes from this group to uncategorized
+        await this.dbManager.moveNotesToGroup(groupId, uncategorizedGroup.id, userId, tx);
 
-      // Add to sync queue for server deletion
-      await this.dbManager.addToSyncQueue(
-        'groups',
-        groupId,
-        'DELETE',
-        { id: groupId },
-        user.id
-      );
+        // Mark group as deleted locally, which queues the server deletion
+        await this.dbManager.deleteGroup(groupId, tx);
+      });
 
       console.log(`Group ${groupId} soft deleted and notes moved to uncategorized`);
     } catch (error) {
@@ -202,17 +174,13 @@ export class CleanupService {
       // This would permanently delete a note from both local and server
       // Only use for notes that have been soft-deleted for 30+ days
       
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) {
+      const userId = await this.backend.getCurrentUserId();
+      if (!userId) {
         throw new Error('User not authenticated');
       }
 
       // Delete from server
-      await supabase
-        .from('notes')
-        .delete()
-        .eq('id', noteId)
-        .eq('user_id', user.id);
+      await this.backend.deleteRow('notes', noteId, userId);
 
       // Delete from local database (if still exists)
       const note = await this.dbManager.getNoteById(noteId);
@@ -230,21 +198,17 @@ export class CleanupService {
   async restoreDeletedNote(noteId: string): Promise<void> {
     try {
       // This would restore a soft-deleted note
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) {
+      const userId = await this.backend.getCurrentUserId();
+      if (!userId) {
         throw new Error('User not authenticated');
       }
 
       // Update on server
-      await supabase
-        .from('notes')
-        .update({
-          is_deleted: false,
-          deleted_at: null,
-          updated_at: new Date().toISOString(),
-        })
-        .eq('id', noteId)
-        .eq('user_id', user.id);
+      await this.backend.updateRow('notes', noteId, {
+        is_deleted: false,
+        deleted_at: null,
+        updated_at: new Date().toISOString(),
+      }, null);
 
       // Update locally (if exists)
       const note = await this.dbManager.getNoteById(noteId);
@@ -268,35 +232,25 @@ export class CleanupService {
     nextCleanupDate: Date;
   }> {
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) {
+      const userId = await this.backend.getCurrentUserId();
+      if (!userId) {
         throw new Error('User not authenticated');
       }
 
       // Count deleted notes
-      const { count: deletedNotesCount } = await supabase
-        .from('notes')
-        .select('*', { count: 'exact', head: true })
-        .eq('user_id', user.id)
-        .eq('is_deleted', true);
+      const deletedNotesCount = (await this.backend.listDeleted('notes', userId)).length;
 
       // Count deleted groups
-      const { count: deletedGroupsCount } = await supabase
-        .from('groups')
-        .select('*', { count: 'exact', head: true })
-        .eq('user_id', user.id)
-        .eq('is_deleted', true);
+      const deletedGroupsCount = (await this.backend.listDeleted('groups', userId)).length;
 
       // Count old sync operations
       const sevenDaysAgo = new Date();
       sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
 
-      const { count: oldSyncOperationsCount } = await supabase
-        .from('sync_operations')
-        .select('*', { count: 'exact', head: true })
-        .eq('user_id', user.id)
-        .eq('processed', true)
-        .lt('created_at', sevenDaysAgo.toISOString());
+      const oldSyncOperationsCount = await this.backend.countProcessedOperations(
+        userId,
+        sevenDaysAgo.toISOString()
+      );
 
       // Calculate next cleanup date
       const nextCleanupDate = new Date();
@@ -320,14 +274,7 @@ export class CleanupService {
 
   async getDeletedNotes(userId: string): Promise<any[]> {
     try {
-      const { data: deletedNotes } = await supabase
-        .from('notes')
-        .select('*')
-        .eq('user_id', userId)
-        .eq('is_deleted', true)
-        .order('deleted_at', { ascending: false });
-
-      return deletedNotes || [];
+      return await this.backend.listDeleted('notes', userId);
     } catch (error) {
       console.error('Failed to get deleted notes:', error);
       return [];
@@ -336,14 +283,7 @@ export class CleanupService {
 
   async getDeletedGroups(userId: string): Promise<any[]> {
     try {
-      const { data: deletedGroups } = await supabase
-        .from('groups')
-        .select('*')
-        .eq('user_id', userId)
-        .eq('is_deleted', true)
-        .order('updated_at', { ascending: false });
-
-      return deletedGroups || [];
+      return await this.backend.listDeleted('groups', userId);
     } catch (error) {
       console.error('Failed to get deleted groups:', error);
       return [];
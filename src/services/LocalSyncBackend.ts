@@ -0,0 +1,408 @@
+import { Group, Note, NotePatch } from '../types';
+import { applyNotePatch } from '../utils/patchUtils';
+import type {
+  BackendSubscription,
+  PullCursor,
+  RemoteChange,
+  RowUpdate,
+  SyncBackend,
+  SyncRow,
+  SyncSnapshot,
+  SyncTable,
+  Tombstone,
+} from './SyncBackend';
+
+export interface LocalBackendSnapshot {
+  notes: Note[];
+  groups: Group[];
+  tombstones?: Tombstone[]; // Missing from snapshots saved before tombstones were kept
+}
+
+// Where a LocalSyncBackend keeps its rows between runs
+export interface LocalBackendStore {
+  load(): Promise<LocalBackendSnapshot | null>;
+  save(snapshot: LocalBackendSnapshot): Promise<void>;
+}
+
+interface Subscriber {
+  table: SyncTable;
+  userId: string;
+  onChange: (change: RemoteChange) => void;
+}
+
+// Rows cross the "network" as copies, like they would with a real server
+const copy = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+const tombstoneKey = (table: SyncTable, id: string) => `${table}:${id}`;
+
+const byServerOrder = (a: PullCursor, b: PullCursor): number =>
+  a.server_updated_at === b.server_updated_at
+    ? a.id.localeCompare(b.id)
+    : a.server_updated_at.localeCompare(b.server_updated_at);
+
+const isAfterCursor = (row: { server_updated_at?: string; id: string }, cursor: PullCursor | null): boolean =>
+  !cursor ||
+  row.server_updated_at! > cursor.server_updated_at ||
+  (row.server_updated_at === cursor.server_updated_at && row.id > cursor.id);
+
+// In-process sync server. Without a store it lives in memory, which is what
+// the sync simulation runs devices against; with a store, e.g. the JSON file
+// one, it keeps its rows between runs and can stand in for Supabase when
+// self-hosting. Like row-level security on Supabase, it only lets the current
+// user write their own rows.
+export class LocalSyncBackend implements SyncBackend {
+  private tables: Record<SyncTable, Map<string, SyncRow>> = {
+    notes: new Map(),
+    groups: new Map(),
+  };
+  private tombstones = new Map<string, Tombstone>();
+  private subscribers = new Set<Subscriber>();
+  private loaded: Promise<void> | null = null;
+  private store: LocalBackendStore | null;
+  private userId: string | null;
+  private clock: () => number;
+  private lastStamp = 0;
+
+  constructor(options: {
+    userId?: string | null;
+    store?: LocalBackendStore;
+    clock?: () => number;
+  } = {}) {
+    this.userId = options.userId ?? null;
+    this.store = options.store ?? null;
+    this.clock = options.clock ?? (() => Date.now());
+  }
+
+  async getCurrentUserId(): Promise<string | null> {
+    return this.userId;
+  }
+
+  async getServerTime(): Promise<string> {
+    return new Date(this.clock()).toISOString();
+  }
+
+  setCurrentUserId(userId: string | null): void {
+    this.userId = userId;
+  }
+
+  async pullPage<T extends SyncRow>(
+    table: SyncTable,
+    userId: string,
+    cursor: PullCursor | null,
+    limit: number
+  ): Promise<T[]> {
+    await this.load();
+
+    const rows = [...this.tables[table].values()]
+      .filter(row => row.user_id === userId && isAfterCursor(row, cursor))
+      .sort((a, b) => byServerOrder(a as PullCursor, b as PullCursor))
+      .slice(0, limit);
+
+    return copy(rows) as T[];
+  }
+
+  async pullTombstones(
+    userId: string,
+    cursor: PullCursor | null,
+    limit: number
+  ): Promise<Tombstone[]> {
+    await this.load();
+
+    const tombstones = [...this.tombstones.values()]
+      .filter(tombstone => tombstone.user_id === userId && isAfterCursor(tombstone, cursor))
+      .sort(byServerOrder)
+      .slice(0, limit);
+
+    return copy(tombstones);
+  }
+
+  async fetchTombstone(table: SyncTable, id: string): Promise<Tombstone | null> {
+    await this.load();
+    const tombstone = this.tombstones.get(tombstoneKey(table, id));
+    return tombstone ? copy(tombstone) : null;
+  }
+
+  async countChanges(table: SyncTable, userId: string, cursor: PullCursor | null): Promise<number> {
+    await this.load();
+
+    return [...this.tables[table].values()]
+      .filter(row => row.user_id === userId && isAfterCursor(row, cursor))
+      .length;
+  }
+
+  async fetchRow<T extends SyncRow>(table: SyncTable, id: string): Promise<T | null> {
+    await this.load();
+    const row = this.tables[table].get(id);
+    return row ? (copy(row) as T) : null;
+  }
+
+  async listDeleted<T extends SyncRow>(table: SyncTable, userId: string): Promise<T[]> {
+    await this.load();
+    const rows = [...this.tables[table].values()]
+      .filter(row => row.user_id === userId && row.is_deleted);
+    return copy(rows) as T[];
+  }
+
+  // Built from the rows in memory; nothing writes between reading them
+  async fetchSnapshot(userId: string): Promise<SyncSnapshot> {
+    await this.load();
+
+    const rowsOf = (table: SyncTable) => [...this.tables[table].values()]
+      .filter(row => row.user_id === userId)
+      .sort((a, b) => byServerOrder(a as PullCursor, b as PullCursor));
+    const lastCursor = (rows: PullCursor[]): PullCursor | null => {
+      const last = rows[rows.length - 1];
+      return last ? { server_updated_at: last.server_updated_at, id: last.id } : null;
+    };
+
+    const groups = rowsOf('groups') as Group[];
+    const notes = rowsOf('notes') as Note[];
+    const tombstones = [...this.tombstones.values()]
+      .filter(tombstone => tombstone.user_id === userId)
+      .sort(byServerOrder);
+
+    return copy({
+      groups,
+      notes,
+      cursors: {
+        groups: lastCursor(groups as PullCursor[]),
+        notes: lastCursor(notes as PullCursor[]),
+        tombstones: lastCursor(tombstones),
+      },
+    });
+  }
+
+  async insertRow(table: SyncTable, row: SyncRow): Promise<boolean> {
+    await this.load();
+    if (!this.isOwn(row) || !this.canInsert(table, row)) {
+      return false;
+    }
+
+    const inserted = this.stamp(row);
+    this.tables[table].set(row.id, inserted);
+    this.tombstones.delete(tombstoneKey(table, row.id));
+    await this.commit([{
+      table,
+      userId: row.user_id,
+      change: { eventType: 'INSERT', new: inserted, old: null },
+    }]);
+    return true;
+  }
+
+  async insertRows(table: SyncTable, rows: SyncRow[]): Promise<string[]> {
+    await this.load();
+    const inserted = rows
+      .filter(row => this.isOwn(row) && this.canInsert(table, row))
+      .map(row => this.stamp(row));
+
+    inserted.forEach(row => {
+      this.tables[table].set(row.id, row);
+      this.tombstones.delete(tombstoneKey(table, row.id));
+    });
+    await this.commit(inserted.map(row => ({
+      table,
+      userId: row.user_id,
+      change: { eventType: 'INSERT' as const, new: row, old: null },
+    })));
+
+    return inserted.map(row => row.id);
+  }
+
+  async updateRow(
+    table: SyncTable,
+    id: string,
+    values: Partial<Note> | Partial<Group>,
+    expectedVersion: number | null
+  ): Promise<boolean> {
+    await this.load();
+    const current = this.tables[table].get(id);
+    if (!current || !this.isOwn(current) || (expectedVersion !== null && current.version !== expectedVersion)) {
+      return false;
+    }
+
+    const updated = this.stamp({ ...current, ...values } as SyncRow);
+    this.tables[table].set(id, updated);
+    await this.commit([{
+      table,
+      userId: updated.user_id,
+      change: { eventType: 'UPDATE', new: updated, old: { id } },
+    }]);
+    return true;
+  }
+
+  // Each row is checked like updateRow, and the rows that pass are written together
+  async updateRows(table: SyncTable, updates: RowUpdate[]): Promise<string[]> {
+    await this.load();
+    const updated = updates.flatMap(({ id, values, expectedVersion }) => {
+      const current = this.tables[table].get(id);
+      if (!current || !this.isOwn(current) || (expectedVersion !== null && current.version !== expectedVersion)) {
+        return [];
+      }
+      const row = this.stamp({ ...current, ...values } as SyncRow);
+      this.tables[table].set(id, row);
+      return [row];
+    });
+
+    await this.commit(updated.map(row => ({
+      table,
+      userId: row.user_id,
+      change: { eventType: 'UPDATE' as const, new: row, old: { id: row.id } },
+    })));
+    return updated.map(row => row.id);
+  }
+
+  async patchNote(id: string, patch: NotePatch, expectedVersion: number): Promise<boolean> {
+    await this.load();
+    const current = this.tables.notes.get(id) as Note | undefined;
+    if (!current || !this.isOwn(current) || current.version !== expectedVersion) {
+      return false;
+    }
+
+    const updated = this.stamp(applyNotePatch(current, patch));
+    this.tables.notes.set(id, updated);
+    await this.commit([{
+      table: 'notes',
+      userId: updated.user_id,
+      change: { eventType: 'UPDATE', new: updated, old: { id } },
+    }]);
+    return true;
+  }
+
+  // Filtered by userId like the Supabase delete, and refused for rows the
+  // current user does not own like its row-level security would
+  async deleteRow(table: SyncTable, id: string, userId: string): Promise<void> {
+    await this.load();
+    const current = this.tables[table].get(id);
+    if (!current || !this.isOwn(current) || current.user_id !== userId) {
+      return;
+    }
+
+    this.tables[table].delete(id);
+    this.addTombstone(table, current);
+    await this.commit([{ table, userId, change: { eventType: 'DELETE', new: null, old: { id } } }]);
+  }
+
+  async purgeDeleted(table: SyncTable, userId: string, before: string): Promise<void> {
+    await this.load();
+    const purged = [...this.tables[table].values()].filter(row => {
+      const deletedAt = table === 'notes' ? (row as Note).deleted_at : row.updated_at;
+      return row.user_id === userId && this.isOwn(row) && row.is_deleted && !!deletedAt && deletedAt < before;
+    });
+
+    purged.forEach(row => {
+      this.tables[table].delete(row.id);
+      this.addTombstone(table, row);
+    });
+    await this.commit(purged.map(row => ({
+      table,
+      userId,
+      change: { eventType: 'DELETE' as const, new: null, old: { id: row.id } },
+    })));
+  }
+
+  // No server-side operation log is kept
+  async purgeProcessedOperations(_userId: string, _before: string): Promise<void> {}
+
+  async countProcessedOperations(_userId: string, _before: string): Promise<number> {
+    return 0;
+  }
+
+  subscribe(
+    table: SyncTable,
+    userId: string,
+    onChange: (change: RemoteChange) => void,
+    onStatus: (connected: boolean) => void
+  ): BackendSubscription {
+    const subscriber: Subscriber = { table, userId, onChange };
+    this.subscribers.add(subscriber);
+    onStatus(true);
+
+    return {
+      unsubscribe: () => {
+        this.subscribers.delete(subscriber);
+      },
+    };
+  }
+
+  // A copy of the row carrying the server's write time. Stamps never repeat
+  // or go backwards, so no write can sort before one already pulled.
+  private nextStamp(): string {
+    this.lastStamp = Math.max(this.clock(), this.lastStamp + 1);
+    return new Date(this.lastStamp).toISOString();
+  }
+
+  private stamp(row: SyncRow): SyncRow {
+    return { ...copy(row), server_updated_at: this.nextStamp() };
+  }
+
+  // Rows of other users cannot be written, as with Supabase's row-level security
+  private isOwn(row: SyncRow): boolean {
+    return this.userId !== null && row.user_id === this.userId;
+  }
+
+  // A tombstoned id only comes back at a newer version than the one purged,
+  // e.g. a group shared again from the device that withdrew it
+  private canInsert(table: SyncTable, row: SyncRow): boolean {
+    const tombstone = this.tombstones.get(tombstoneKey(table, row.id));
+    return !this.tables[table].has(row.id) && (!tombstone || row.version > tombstone.version);
+  }
+
+  private addTombstone(table: SyncTable, row: SyncRow): void {
+    const serverUpdatedAt = this.nextStamp();
+    this.tombstones.set(tombstoneKey(table, row.id), {
+      id: row.id,
+      table_name: table,
+      user_id: row.user_id,
+      version: row.version,
+      deleted_at: (table === 'notes' ? (row as Note).deleted_at : null) ?? serverUpdatedAt,
+      server_updated_at: serverUpdatedAt,
+    });
+  }
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = (async () => {
+        const snapshot = this.store ? await this.store.load() : null;
+        if (snapshot) {
+          snapshot.notes.forEach(note => this.tables.notes.set(note.id, note));
+          snapshot.groups.forEach(group => this.tables.groups.set(group.id, group));
+          (snapshot.tombstones ?? []).forEach(tombstone =>
+            this.tombstones.set(tombstoneKey(tombstone.table_name, tombstone.id), tombstone)
+          );
+
+          const stamps = [...snapshot.notes, ...snapshot.groups, ...(snapshot.tombstones ?? [])]
+            .map(row => (row.server_updated_at ? Date.parse(row.server_updated_at) : 0));
+          this.lastStamp = Math.max(this.lastStamp, ...stamps);
+        }
+      })();
+    }
+    return this.loaded;
+  }
+
+  // Persist, then notify subscribers after the write returns, the way
+  // realtime events trail the request that caused them
+  private async commit(
+    changes: Array<{ table: SyncTable; userId: string; change: RemoteChange }>
+  ): Promise<void> {
+    if (changes.length === 0) {
+      return;
+    }
+
+    if (this.store) {
+      await this.store.save({
+        notes: [...this.tables.notes.values()] as Note[],
+        groups: [...this.tables.groups.values()] as Group[],
+        tombstones: [...this.tombstones.values()],
+      });
+    }
+
+    for (const { table, userId, change } of changes) {
+      this.subscribers.forEach(subscriber => {
+        if (subscriber.table === table && subscriber.userId === userId) {
+          const delivered = copy(change);
+          setTimeout(() => subscriber.onChange(delivered), 0);
+        }
+      });
+    }
+  }
+}
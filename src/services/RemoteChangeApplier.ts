@@ -0,0 +1,468 @@
+import { DatabaseManager } from '../database/DatabaseManager';
+import { SyncQueueDAO } from '../database/syncQueueDAO';
+import { GroupsDAO, LocalGroup } from '../database/groupsDAO';
+import { NotesDAO, LocalNote } from '../database/notesDAO';
+import { SyncBaseDAO } from '../database/syncBaseDAO';
+import { SyncConflictsDAO } from '../database/syncConflictsDAO';
+import { SnapshotDAO } from '../database/snapshotDAO';
+import { Group, Note } from '../types';
+import { mergeGroups, mergeNotes } from '../utils/mergeUtils';
+import { getServerNow } from '../utils/clockUtils';
+import { tombstoneSchema, validateSyncRow } from '../utils/schemaUtils';
+import { isAfterCursor } from './SyncBackend';
+import type {
+  PullCursor,
+  RemoteChange,
+  SyncRow,
+  SyncSnapshot,
+  SyncTable,
+  Tombstone,
+} from './SyncBackend';
+
+const pullCursorKey = (tableName: string) => `pullCursor:${tableName}`;
+
+// Cursors of a staged snapshot, saved once all of its rows are staged
+const SNAPSHOT_CURSORS_KEY = 'snapshotCursors';
+
+// Applies server rows to the local database. Realtime events, periodic pulls
+// and maintenance syncs all go through here so a change is merged the same way
+// whichever path delivers it.
+export class RemoteChangeApplier {
+  private static instance: RemoteChangeApplier;
+  private dbManager: DatabaseManager;
+  private applyQueue: Promise<void> = Promise.resolve();
+  private caughtUpTables = new Set<SyncTable>();
+
+  private constructor() {
+    this.dbManager = DatabaseManager.getInstance();
+  }
+
+  static getInstance(): RemoteChangeApplier {
+    if (!RemoteChangeApplier.instance) {
+      RemoteChangeApplier.instance = new RemoteChangeApplier();
+    }
+    return RemoteChangeApplier.instance;
+  }
+
+  async applyGroup(remoteGroup: Group): Promise<void> {
+    return this.serialize(() => this.applyRemoteGroup(remoteGroup));
+  }
+
+  async applyNote(remoteNote: Note): Promise<void> {
+    return this.serialize(() => this.applyRemoteNote(remoteNote));
+  }
+
+  async applyTombstone(tombstone: Tombstone): Promise<void> {
+    return this.serialize(() => this.applyRemoteTombstone(tombstone));
+  }
+
+  // A device that has synced nothing yet, or was interrupted loading a
+  // snapshot, bootstraps from one instead of pulling every row a page at a time
+  async needsSnapshot(): Promise<boolean> {
+    if (await this.hasStagedSnapshot()) {
+      return true;
+    }
+    for (const tableName of ['groups', 'notes', 'tombstones'] as const) {
+      if (await this.getCursor(tableName)) {
+        return false;
+      }
+    }
+    return (await SnapshotDAO.countBases()) === 0;
+  }
+
+  async hasStagedSnapshot(): Promise<boolean> {
+    return (await this.dbManager.getSetting(SNAPSHOT_CURSORS_KEY)) !== null;
+  }
+
+  // Keep a downloaded snapshot on disk until it has been loaded. Malformed
+  // rows are quarantined here and never staged.
+  async stageSnapshot(snapshot: SyncSnapshot): Promise<void> {
+    await SnapshotDAO.clearStaged();
+    await SnapshotDAO.stageRows('groups', await this.dropInvalidRows('groups', snapshot.groups));
+    await SnapshotDAO.stageRows('notes', await this.dropInvalidRows('notes', snapshot.notes));
+    await this.dbManager.setSetting(SNAPSHOT_CURSORS_KEY, JSON.stringify(snapshot.cursors));
+  }
+
+  // Returns the number of rows in the snapshot
+  async applyStagedSnapshot(): Promise<number> {
+    return this.serialize(() => this.applyRemoteSnapshot());
+  }
+
+  // Realtime changes carry the full row for inserts and updates, and only
+  // the primary key for hard deletes
+  async applyRealtimeChange(tableName: SyncTable, change: RemoteChange): Promise<void> {
+    const { eventType, new: newRecord, old: oldRecord } = change;
+
+    switch (eventType) {
+      case 'INSERT':
+      case 'UPDATE':
+        if (newRecord) {
+          if (tableName === 'notes') {
+            await this.applyNote(newRecord as Note);
+          } else {
+            await this.applyGroup(newRecord as Group);
+          }
+          await this.advanceRealtimeCursor(tableName, newRecord as SyncRow);
+        }
+        break;
+      case 'DELETE':
+        if (typeof oldRecord?.id === 'string' && oldRecord.id) {
+          await this.serialize(() => this.applyRemoteDelete(tableName, oldRecord.id));
+        }
+        break;
+    }
+  }
+
+  async getCursor(tableName: SyncTable | 'tombstones'): Promise<PullCursor | null> {
+    const storedCursor = await this.dbManager.getSetting(pullCursorKey(tableName));
+    const cursor = storedCursor ? JSON.parse(storedCursor) : null;
+
+    // Cursors saved before pulls followed server time hold a device timestamp.
+    // Pull everything again instead; rows already applied are skipped.
+    return cursor?.server_updated_at ? cursor : null;
+  }
+
+  async setCursor(tableName: SyncTable | 'tombstones', row: PullCursor): Promise<void> {
+    const cursor: PullCursor = { server_updated_at: row.server_updated_at, id: row.id };
+    await this.dbManager.setSetting(pullCursorKey(tableName), JSON.stringify(cursor));
+  }
+
+  // A pull has applied every row up to the cursor. Realtime events may move
+  // the cursor from now on, since none can have been missed in between.
+  markCaughtUp(tableName: SyncTable): void {
+    this.caughtUpTables.add(tableName);
+  }
+
+  // The realtime stream dropped or the device went offline; only a pull can
+  // move the cursor until it has caught up again
+  markBehind(): void {
+    this.caughtUpTables.clear();
+  }
+
+  // Resolves once every change queued so far has been applied
+  whenIdle(): Promise<void> {
+    return this.applyQueue;
+  }
+
+  // A row committed late behind the new position is picked up by the safety
+  // window the next pull re-reads behind the cursor
+  private async advanceRealtimeCursor(tableName: SyncTable, row: SyncRow): Promise<void> {
+    if (!this.caughtUpTables.has(tableName) || !row.server_updated_at) {
+      return;
+    }
+
+    const position: PullCursor = { server_updated_at: row.server_updated_at, id: row.id };
+    if (isAfterCursor(position, await this.getCursor(tableName))) {
+      await this.setCursor(tableName, position);
+    }
+  }
+
+  // Apply changes one at a time so a row delivered by realtime and by a pull
+  // at the same moment is only merged once
+  private serialize<T>(apply: () => Promise<T>): Promise<T> {
+    const result = this.applyQueue.then(apply);
+    this.applyQueue = result.then(() => undefined, () => undefined);
+    return result;
+  }
+
+  // Malformed server rows are kept aside for inspection instead of
+  // overwriting the local copy. Returns true when the row was quarantined.
+  private async quarantineIfInvalid(tableName: SyncTable, row: unknown): Promise<boolean> {
+    const errors = validateSyncRow(tableName, row);
+    if (errors.length === 0) {
+      return false;
+    }
+
+    console.error(`Quarantined malformed ${tableName} row from the server:`, errors);
+    const userId = (row as { user_id?: unknown } | null)?.user_id;
+    await this.dbManager.quarantineSyncPayload(
+      tableName,
+      'inbound',
+      row,
+      errors,
+      typeof userId === 'string' ? userId : null
+    );
+    return true;
+  }
+
+  private async dropInvalidRows<T extends SyncRow>(tableName: SyncTable, rows: T[]): Promise<T[]> {
+    const validRows: T[] = [];
+    for (const row of rows) {
+      if (!(await this.quarantineIfInvalid(tableName, row))) {
+        validRows.push(row);
+      }
+    }
+    return validRows;
+  }
+
+  private async applyRemoteGroup(remoteGroup: Group): Promise<void> {
+    if (await this.quarantineIfInvalid('groups', remoteGroup)) {
+      return;
+    }
+
+    const base = await SyncBaseDAO.getBase<Group>('groups', remoteGroup.id);
+    if (base && base.version >= remoteGroup.version) {
+      // Already applied, or older than what this device last synced
+      return;
+    }
+
+    const localGroup = await GroupsDAO.getGroupById(remoteGroup.id, true);
+    if (localGroup?.sync_policy === 'local_only') {
+      // Kept on this device only; the server copy is a withdrawn tombstone
+      return;
+    }
+
+    if (!localGroup || !localGroup.needs_sync) {
+      // No unsynced local edits, take the server version as is
+      await GroupsDAO.upsertGroupFromSync(this.toLocalGroup(remoteGroup));
+      await SyncBaseDAO.saveBase('groups', remoteGroup.id, remoteGroup);
+      return;
+    }
+
+    const { merged, conflicts, hasLocalChanges } = mergeGroups(
+      base,
+      this.toRemoteGroup(localGroup),
+      remoteGroup
+    );
+
+    if (conflicts.length > 0) {
+      await SyncConflictsDAO.addConflict(
+        'groups',
+        remoteGroup.id,
+        conflicts,
+        this.toRemoteGroup(localGroup),
+        remoteGroup,
+        merged,
+        remoteGroup.user_id
+      );
+    }
+
+    // The base goes first, so that local changes still to push are queued
+    // as a patch against the server version they were merged with
+    const mergedLocal = this.toLocalGroup(merged);
+    await this.dbManager.transaction(async tx => {
+      await SyncBaseDAO.saveBase('groups', remoteGroup.id, remoteGroup, tx);
+      await GroupsDAO.upsertGroupFromSync(mergedLocal, hasLocalChanges, tx);
+    });
+  }
+
+  private async applyRemoteNote(remoteNote: Note): Promise<void> {
+    if (await this.quarantineIfInvalid('notes', remoteNote)) {
+      return;
+    }
+
+    const base = await SyncBaseDAO.getBase<Note>('notes', remoteNote.id);
+    if (base && base.version >= remoteNote.version) {
+      // Already applied, or older than what this device last synced
+      return;
+    }
+
+    const localNote = await NotesDAO.getNoteById(remoteNote.id, true);
+    if (localNote && await GroupsDAO.getSyncPolicy(localNote.group_id) === 'local_only') {
+      // Kept on this device only; the server copy is a withdrawn tombstone
+      return;
+    }
+
+    if (!localNote || !localNote.needs_sync) {
+      // No unsynced local edits, take the server version as is
+      await NotesDAO.upsertNoteFromSync(this.toLocalNote(remoteNote));
+      await SyncBaseDAO.saveBase('notes', remoteNote.id, remoteNote);
+      return;
+    }
+
+    const { merged, conflicts, hasLocalChanges } = mergeNotes(
+      base,
+      this.toRemoteNote(localNote),
+      remoteNote
+    );
+
+    if (conflicts.length > 0) {
+      await SyncConflictsDAO.addConflict(
+        'notes',
+        remoteNote.id,
+        conflicts,
+        this.toRemoteNote(localNote),
+        remoteNote,
+        merged,
+        remoteNote.user_id
+      );
+    }
+
+    // Base first, as for groups
+    const mergedLocal = this.toLocalNote(merged);
+    await this.dbManager.transaction(async tx => {
+      await SyncBaseDAO.saveBase('notes', remoteNote.id, remoteNote, tx);
+      await NotesDAO.upsertNoteFromSync(mergedLocal, hasLocalChanges, tx);
+    });
+  }
+
+  // Rows this device already has are merged like pulled rows. The rest are
+  // bulk loaded with their bases and the pull cursors in one transaction.
+  private async applyRemoteSnapshot(): Promise<number> {
+    const storedCursors = await this.dbManager.getSetting(SNAPSHOT_CURSORS_KEY);
+    if (!storedCursors) {
+      return 0;
+    }
+
+    const cursors: SyncSnapshot['cursors'] = JSON.parse(storedCursors);
+    const groups = await SnapshotDAO.getStagedRows<Group>('groups');
+    const notes = await SnapshotDAO.getStagedRows<Note>('notes');
+    const localGroupIds = await SnapshotDAO.getExistingIds('groups');
+    const localNoteIds = await SnapshotDAO.getExistingIds('notes');
+
+    for (const group of groups.filter(row => localGroupIds.has(row.id))) {
+      await this.applyRemoteGroup(group);
+    }
+    for (const note of notes.filter(row => localNoteIds.has(row.id))) {
+      await this.applyRemoteNote(note);
+    }
+
+    const newGroups = groups.filter(row => !localGroupIds.has(row.id));
+    const newNotes = notes.filter(row => !localNoteIds.has(row.id));
+
+    await SnapshotDAO.bulkLoad({
+      groups: newGroups.map(group => this.toLocalGroup(group)),
+      notes: newNotes.map(note => this.toLocalNote(note)),
+      bases: [
+        ...newGroups.map(data => ({ tableName: 'groups' as const, data })),
+        ...newNotes.map(data => ({ tableName: 'notes' as const, data })),
+      ],
+      settings: (Object.keys(cursors) as Array<keyof SyncSnapshot['cursors']>)
+        .filter(tableName => cursors[tableName] !== null)
+        .map(tableName => [pullCursorKey(tableName), JSON.stringify(cursors[tableName])]),
+      removedSettings: [SNAPSHOT_CURSORS_KEY],
+    });
+
+    return groups.length + notes.length;
+  }
+
+  // The record was purged from the server and may never come back. Local edits
+  // are dropped with it; deletion won long ago on every other device.
+  private async applyRemoteTombstone(tombstone: Tombstone): Promise<void> {
+    const validation = tombstoneSchema.safeParse(tombstone);
+    if (!validation.success) {
+      console.error('Quarantined malformed tombstone from the server:', validation.errors);
+      await this.dbManager.quarantineSyncPayload(
+        'tombstones',
+        'inbound',
+        tombstone,
+        validation.errors,
+        typeof tombstone?.user_id === 'string' ? tombstone.user_id : null
+      );
+      return;
+    }
+
+    const { table_name: tableName, id } = tombstone;
+    const local = tableName === 'notes'
+      ? await NotesDAO.getNoteById(id, true)
+      : await GroupsDAO.getGroupById(id, true);
+
+    if (local) {
+      if (await GroupsDAO.getRecordSyncPolicy(tableName, local) === 'local_only') {
+        // Withdrawn from sync and purged since; the local copy is the only one
+        await SyncBaseDAO.removeBase(tableName, id);
+        return;
+      }
+
+      const base = await SyncBaseDAO.getBase(tableName, id);
+      if (!base && local.version > tombstone.version) {
+        // Shared again after the purge; the server accepts this newer version
+        return;
+      }
+
+      if (tableName === 'notes') {
+        await NotesDAO.hardDeleteNote(id);
+      } else {
+        await GroupsDAO.hardDeleteGroup(id);
+      }
+    }
+
+    await SyncBaseDAO.removeBase(tableName, id);
+    await SyncQueueDAO.removeItemsForRecord(tableName, id);
+    await SyncConflictsDAO.removeConflictsForRecord(tableName, id);
+  }
+
+  // The row was purged from the server. Unsynced local edits are kept until
+  // the next push, which finds the tombstone left by the purge.
+  private async applyRemoteDelete(tableName: SyncTable, id: string): Promise<void> {
+    const timestamp = getServerNow().toISOString();
+
+    if (tableName === 'notes') {
+      const localNote = await NotesDAO.getNoteById(id, true);
+      if (localNote && !localNote.needs_sync && await GroupsDAO.getSyncPolicy(localNote.group_id) !== 'local_only') {
+        await NotesDAO.upsertNoteFromSync({
+          ...localNote,
+          is_deleted: 1,
+          deleted_at: localNote.deleted_at ?? timestamp,
+        });
+      }
+    } else {
+      const localGroup = await GroupsDAO.getGroupById(id, true);
+      if (localGroup && !localGroup.needs_sync && localGroup.sync_policy !== 'local_only') {
+        await GroupsDAO.upsertGroupFromSync({ ...localGroup, is_deleted: 1 });
+      }
+    }
+
+    await SyncBaseDAO.removeBase(tableName, id);
+  }
+
+  toLocalGroup(group: Group): Omit<LocalGroup, 'needs_sync' | 'sync_policy'> {
+    return {
+      id: group.id,
+      name: group.name,
+      color: group.color,
+      user_id: group.user_id,
+      created_at: group.created_at,
+      updated_at: group.updated_at,
+      version: group.version,
+      is_deleted: group.is_deleted ? 1 : 0,
+    };
+  }
+
+  toRemoteGroup(group: Omit<LocalGroup, 'needs_sync' | 'sync_policy'>): Group {
+    return {
+      id: group.id,
+      name: group.name,
+      color: group.color,
+      user_id: group.user_id,
+      created_at: group.created_at,
+      updated_at: group.updated_at,
+      version: group.version,
+      is_deleted: group.is_deleted === 1,
+    };
+  }
+
+  toLocalNote(note: Note): Omit<LocalNote, 'needs_sync'> {
+    return {
+      id: note.id,
+      title: note.title,
+      content: JSON.stringify(note.content),
+      content_markdown: note.content_markdown,
+      content_plain: note.content_plain,
+      group_id: note.group_id,
+      user_id: note.user_id,
+      created_at: note.created_at,
+      updated_at: note.updated_at,
+      version: note.version,
+      is_deleted: note.is_deleted ? 1 : 0,
+      deleted_at: note.deleted_at,
+    };
+  }
+
+  toRemoteNote(note: Omit<LocalNote, 'needs_sync'>): Note {
+    return {
+      id: note.id,
+      title: note.title,
+      content: JSON.parse(note.content),
+      content_markdown: note.content_markdown,
+      content_plain: note.content_plain,
+      group_id: note.group_id,
+      user_id: note.user_id,
+      created_at: note.created_at,
+      updated_at: note.updated_at,
+      version: note.version,
+      is_deleted: note.is_deleted === 1,
+      deleted_at: note.deleted_at,
+    };
+  }
+}
@@ -0,0 +1,368 @@
+import { supabase } from '../config/supabase';
+import { Group, Note, NotePatch } from '../types';
+import type {
+  BackendSubscription,
+  PullCursor,
+  RemoteChange,
+  RowUpdate,
+  SyncBackend,
+  SyncRow,
+  SyncSnapshot,
+  SyncTable,
+  Tombstone,
+} from './SyncBackend';
+
+// Postgres error code returned when inserting a row whose id already exists
+const UNIQUE_VIOLATION = '23505';
+
+// Postgres error code for a column the project does not have, e.g. when the
+// migrations in supabase/migrations have not been deployed to it yet
+const UNDEFINED_COLUMN = '42703';
+
+// PostgREST and Postgres error codes for a table the project does not have
+const UNDEFINED_TABLE = ['PGRST205', '42P01'];
+
+// PostgREST and Postgres error codes for a function the project does not have
+const UNDEFINED_FUNCTION = ['PGRST202', '42883'];
+
+// Column pulls are ordered by: the server's write time once it is deployed,
+// the device's edit time until then
+type OrderColumn = 'server_updated_at' | 'updated_at';
+
+// Rows strictly after the cursor in (column, id) order
+const afterCursorFilter = (cursor: PullCursor, column: OrderColumn = 'server_updated_at'): string =>
+  `${column}.gt."${cursor.server_updated_at}",` +
+  `and(${column}.eq."${cursor.server_updated_at}",id.gt.${cursor.id})`;
+
+// The schema this backend expects is in supabase/migrations.
+// server_updated_at on notes and groups is set to clock_timestamp() by a
+// BEFORE INSERT OR UPDATE trigger, and the server_time() function returns
+// clock_timestamp(), so both follow the database clock rather than the device's.
+// An AFTER DELETE trigger on notes and groups writes a row to tombstones
+// (id, table_name, user_id, version, deleted_at, server_updated_at). A BEFORE
+// INSERT trigger skips rows tombstoned at the same or a later version and
+// removes the tombstone of a row it lets back in.
+// The sync_snapshot() function reads a user's groups, notes and latest
+// tombstone in a single statement, so all of them come from one moment.
+// The apply_note_patch() function applies a note patch to a row at the
+// expected version, and returns false for one it cannot apply exactly.
+// The update_synced_rows() function updates several rows of a table, each
+// only while it is at its expected version, and returns the ids it updated.
+export class SupabaseSyncBackend implements SyncBackend {
+  private orderColumn: OrderColumn = 'server_updated_at';
+
+  async getCurrentUserId(): Promise<string | null> {
+    const { data: { user } } = await supabase.auth.getUser();
+    return user?.id ?? null;
+  }
+
+  async getServerTime(): Promise<string> {
+    const { data, error } = await supabase.rpc('server_time');
+    if (error) {
+      throw new Error(error.message);
+    }
+    return data;
+  }
+
+  async pullPage<T extends SyncRow>(
+    table: SyncTable,
+    userId: string,
+    cursor: PullCursor | null,
+    limit: number
+  ): Promise<T[]> {
+    const { data } = await this.withOrderColumn(column => {
+      let query = supabase.from(table).select('*').eq('user_id', userId);
+
+      if (cursor) {
+        query = query.or(afterCursorFilter(cursor, column));
+      }
+
+      return query
+        .order(column, { ascending: true })
+        .order('id', { ascending: true })
+        .limit(limit);
+    });
+
+    // Without the column, the edit time stands in for it in cursors
+    return (data ?? []).map((row: T) =>
+      row.server_updated_at ? row : { ...row, server_updated_at: row.updated_at }
+    );
+  }
+
+  async countChanges(table: SyncTable, userId: string, cursor: PullCursor | null): Promise<number> {
+    const { count } = await this.withOrderColumn(column => {
+      let query = supabase
+        .from(table)
+        .select('*', { count: 'exact', head: true })
+        .eq('user_id', userId);
+
+      if (cursor) {
+        query = query.or(afterCursorFilter(cursor, column));
+      }
+
+      return query;
+    });
+
+    return count ?? 0;
+  }
+
+  // Runs a pull query ordered by server_updated_at. A project without that
+  // column is pulled by updated_at instead, which follows device clocks, until
+  // the migration adding it is deployed.
+  private async withOrderColumn<R extends { error: { code?: string; message: string } | null }>(
+    run: (column: OrderColumn) => PromiseLike<R>
+  ): Promise<Omit<R, 'error'>> {
+    let result = await run(this.orderColumn);
+
+    if (result.error?.code === UNDEFINED_COLUMN && this.orderColumn === 'server_updated_at') {
+      console.warn('server_updated_at is missing on the server, pulling by updated_at until it is deployed');
+      this.orderColumn = 'updated_at';
+      result = await run(this.orderColumn);
+    }
+
+    if (result.error) {
+      throw new Error(result.error.message);
+    }
+    return result;
+  }
+
+  async fetchRow<T extends SyncRow>(table: SyncTable, id: string): Promise<T | null> {
+    const { data, error } = await supabase
+      .from(table)
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(error.message);
+    }
+    return data;
+  }
+
+  // A project without the tombstones table has none to pull until it is deployed
+  async pullTombstones(
+    userId: string,
+    cursor: PullCursor | null,
+    limit: number
+  ): Promise<Tombstone[]> {
+    let query = supabase.from('tombstones').select('*').eq('user_id', userId);
+
+    if (cursor) {
+      query = query.or(afterCursorFilter(cursor));
+    }
+
+    const { data, error } = await query
+      .order('server_updated_at', { ascending: true })
+      .order('id', { ascending: true })
+      .limit(limit);
+
+    if (error && !UNDEFINED_TABLE.includes(error.code)) {
+      throw new Error(error.message);
+    }
+    return data ?? [];
+  }
+
+  async fetchTombstone(table: SyncTable, id: string): Promise<Tombstone | null> {
+    const { data, error } = await supabase
+      .from('tombstones')
+      .select('*')
+      .eq('table_name', table)
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error && !UNDEFINED_TABLE.includes(error.code)) {
+      throw new Error(error.message);
+    }
+    return data;
+  }
+
+  async fetchSnapshot(userId: string): Promise<SyncSnapshot> {
+    const { data, error } = await supabase.rpc('sync_snapshot', { p_user_id: userId });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+    if (!data) {
+      throw new Error('Empty snapshot');
+    }
+    return data;
+  }
+
+  async listDeleted<T extends SyncRow>(table: SyncTable, userId: string): Promise<T[]> {
+    const { data, error } = await supabase
+      .from(table)
+      .select('*')
+      .eq('user_id', userId)
+      .eq('is_deleted', true)
+      .order(table === 'notes' ? 'deleted_at' : 'updated_at', { ascending: false });
+
+    if (error) {
+      throw new Error(error.message);
+    }
+    return data ?? [];
+  }
+
+  async insertRow(table: SyncTable, row: SyncRow): Promise<boolean> {
+    // A tombstoned row is skipped by the insert trigger without an error
+    const { data, error } = await supabase.from(table).insert(row).select('id');
+    if (error) {
+      if (error.code === UNIQUE_VIOLATION) {
+        return false;
+      }
+      throw new Error(error.message);
+    }
+    return (data?.length ?? 0) > 0;
+  }
+
+  async insertRows(table: SyncTable, rows: SyncRow[]): Promise<string[]> {
+    const { data, error } = await supabase
+      .from(table)
+      .upsert(rows, { onConflict: 'id', ignoreDuplicates: true })
+      .select('id');
+
+    if (error) {
+      throw new Error(error.message);
+    }
+    return (data ?? []).map((row: { id: string }) => row.id);
+  }
+
+  async updateRow(
+    table: SyncTable,
+    id: string,
+    values: Partial<Note> | Partial<Group>,
+    expectedVersion: number | null
+  ): Promise<boolean> {
+    let query = supabase.from(table).update(values).eq('id', id);
+    if (expectedVersion !== null) {
+      query = query.eq('version', expectedVersion);
+    }
+
+    const { data, error } = await query.select('id');
+    if (error) {
+      throw new Error(error.message);
+    }
+    return (data?.length ?? 0) > 0;
+  }
+
+  // One request for all the rows. A project without the function updates none
+  // of them, and they are then sent one at a time.
+  async updateRows(table: SyncTable, updates: RowUpdate[]): Promise<string[]> {
+    const { data, error } = await supabase.rpc('update_synced_rows', {
+      p_table: table,
+      p_updates: updates.map(({ id, values, expectedVersion }) => ({
+        id,
+        values,
+        expected_version: expectedVersion,
+      })),
+    });
+
+    if (error) {
+      if (UNDEFINED_FUNCTION.includes(error.code)) {
+        return [];
+      }
+      throw new Error(error.message);
+    }
+    return data ?? [];
+  }
+
+  // A patch the server does not apply, or a project without the function, is
+  // answered with false, and the note is then uploaded whole
+  async patchNote(id: string, patch: NotePatch, expectedVersion: number): Promise<boolean> {
+    const { data, error } = await supabase.rpc('apply_note_patch', {
+      p_id: id,
+      p_patch: patch,
+      p_expected_version: expectedVersion,
+    });
+
+    if (error) {
+      if (UNDEFINED_FUNCTION.includes(error.code)) {
+        return false;
+      }
+      throw new Error(error.message);
+    }
+    return data === true;
+  }
+
+  async deleteRow(table: SyncTable, id: string, userId: string): Promise<void> {
+    const { error } = await supabase
+      .from(table)
+      .delete()
+      .eq('id', id)
+      .eq('user_id', userId);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+  }
+
+  async purgeDeleted(table: SyncTable, userId: string, before: string): Promise<void> {
+    const { error } = await supabase
+      .from(table)
+      .delete()
+      .eq('user_id', userId)
+      .eq('is_deleted', true)
+      .lt(table === 'notes' ? 'deleted_at' : 'updated_at', before);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+  }
+
+  async purgeProcessedOperations(userId: string, before: string): Promise<void> {
+    const { error } = await supabase
+      .from('sync_operations')
+      .delete()
+      .eq('user_id', userId)
+      .eq('processed', true)
+      .lt('created_at', before);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+  }
+
+  async countProcessedOperations(userId: string, before: string): Promise<number> {
+    const { count, error } = await supabase
+      .from('sync_operations')
+      .select('*', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .eq('processed', true)
+      .lt('created_at', before);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+    return count ?? 0;
+  }
+
+  subscribe(
+    table: SyncTable,
+    userId: string,
+    onChange: (change: RemoteChange) => void,
+    onStatus: (connected: boolean) => void
+  ): BackendSubscription {
+    const channel = supabase
+      .channel(`${table}_changes`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table,
+          filter: `user_id=eq.${userId}`,
+        },
+        (payload: any) => onChange({
+          eventType: payload.eventType,
+          new: payload.eventType === 'DELETE' ? null : payload.new,
+          old: payload.old?.id ? { id: payload.old.id } : null,
+        })
+      )
+      .subscribe((status: string) => onStatus(status === 'SUBSCRIBED'));
+
+    return {
+      unsubscribe: () => {
+        channel.unsubscribe();
+      },
+    };
+  }
+}
@@ -0,0 +1,147 @@
+import { setNotePatchesEnabled } from '../database/syncQueueDAO';
+import { Group, Note, NotePatch } from '../types';
+import { SupabaseSyncBackend } from './SupabaseSyncBackend';
+
+export type SyncTable = 'notes' | 'groups';
+
+export type SyncRow = Note | Group;
+
+// Position of the last pulled row. Rows are ordered by the timestamp the
+// server assigned on write, never by a device clock, so an edit from a device
+// whose clock runs behind cannot land before a cursor that already passed it.
+export interface PullCursor {
+  server_updated_at: string;
+  id: string;
+}
+
+// Sorts before every id, so a cursor with it takes in all rows of its time
+const FIRST_ID = '00000000-0000-0000-0000-000000000000';
+
+export const isAfterCursor = (row: PullCursor, cursor: PullCursor | null): boolean =>
+  !cursor ||
+  row.server_updated_at > cursor.server_updated_at ||
+  (row.server_updated_at === cursor.server_updated_at && row.id > cursor.id);
+
+// A row is stamped when it is written but only seen once its transaction
+// commits, so a slow transaction can commit rows behind a cursor that has
+// already passed their stamp. Pulls start this far behind the stored cursor
+// to pick them up; rows applied before are skipped by their version.
+export const rewindCursor = (cursor: PullCursor | null, windowMs: number): PullCursor | null => {
+  if (!cursor) {
+    return null;
+  }
+  // Postgres gives microseconds, which not every JS engine parses
+  const time = Date.parse(cursor.server_updated_at.replace(/(\.\d{3})\d+/, '$1'));
+  return { server_updated_at: new Date(time - windowMs).toISOString(), id: FIRST_ID };
+};
+
+// A change pushed by the server. Hard deletes only carry the primary key.
+export interface RemoteChange {
+  eventType: 'INSERT' | 'UPDATE' | 'DELETE';
+  new: SyncRow | null;
+  old: { id: string } | null;
+}
+
+// Record of a row hard-deleted from the server. Tombstones outlive the purge
+// so a device that was offline through it still learns of the deletion, and
+// the server refuses to insert the id again at or below the deleted version.
+export interface Tombstone {
+  id: string;
+  table_name: SyncTable;
+  user_id: string;
+  version: number; // Version of the row when it was purged
+  deleted_at: string;
+  server_updated_at: string;
+}
+
+// Every group and note of a user at one moment, used to bootstrap a device
+// that has never pulled. Incremental pulls continue from its cursors, which
+// are null for a table that was empty.
+export interface SyncSnapshot {
+  groups: Group[];
+  notes: Note[];
+  cursors: Record<SyncTable | 'tombstones', PullCursor | null>;
+}
+
+// One row of a bulk update, applied only while the row is at the expected
+// version. A null expected version skips the check.
+export interface RowUpdate {
+  id: string;
+  values: Partial<Note> | Partial<Group>;
+  expectedVersion: number | null;
+}
+
+export interface BackendSubscription {
+  unsubscribe(): void;
+}
+
+// Everything sync needs from a server. Rows use the remote shape (Note, Group).
+export interface SyncBackend {
+  getCurrentUserId(): Promise<string | null>;
+  // ISO timestamp read from the server's clock, used to measure device skew
+  getServerTime(): Promise<string>;
+
+  // Pull: rows after the cursor, ordered by server_updated_at then id
+  pullPage<T extends SyncRow>(
+    table: SyncTable,
+    userId: string,
+    cursor: PullCursor | null,
+    limit: number
+  ): Promise<T[]>;
+  // Number of rows a pull from the cursor would return, used to report progress
+  countChanges(table: SyncTable, userId: string, cursor: PullCursor | null): Promise<number>;
+  fetchRow<T extends SyncRow>(table: SyncTable, id: string): Promise<T | null>;
+  // Tombstones after the cursor, in the same order as pullPage
+  pullTombstones(userId: string, cursor: PullCursor | null, limit: number): Promise<Tombstone[]>;
+  fetchTombstone(table: SyncTable, id: string): Promise<Tombstone | null>;
+  listDeleted<T extends SyncRow>(table: SyncTable, userId: string): Promise<T[]>;
+  fetchSnapshot(userId: string): Promise<SyncSnapshot>;
+
+  // Push: returns false (or leaves the id out) when the row already exists,
+  // is tombstoned, or is no longer at the expected version. Throws when the
+  // request fails.
+  // The server stamps server_updated_at on every write; values sent for it are ignored.
+  insertRow(table: SyncTable, row: SyncRow): Promise<boolean>;
+  insertRows(table: SyncTable, rows: SyncRow[]): Promise<string[]>;
+  updateRow(
+    table: SyncTable,
+    id: string,
+    values: Partial<Note> | Partial<Group>,
+    expectedVersion: number | null
+  ): Promise<boolean>;
+  updateRows(table: SyncTable, updates: RowUpdate[]): Promise<string[]>;
+  // Optional: update a note by applying a patch to the server row, only if it
+  // is still at the expected version. Without it notes are always sent whole.
+  patchNote?(id: string, patch: NotePatch, expectedVersion: number): Promise<boolean>;
+
+  // Delete: both leave a tombstone for each removed row
+  deleteRow(table: SyncTable, id: string, userId: string): Promise<void>;
+  purgeDeleted(table: SyncTable, userId: string, before: string): Promise<void>;
+  purgeProcessedOperations(userId: string, before: string): Promise<void>;
+  countProcessedOperations(userId: string, before: string): Promise<number>;
+
+  // Realtime
+  subscribe(
+    table: SyncTable,
+    userId: string,
+    onChange: (change: RemoteChange) => void,
+    onStatus: (connected: boolean) => void
+  ): BackendSubscription;
+}
+
+let activeBackend: SyncBackend | null = null;
+
+// Note updates are only queued as patches for a backend that applies them
+const activate = (backend: SyncBackend): SyncBackend => {
+  activeBackend = backend;
+  setNotePatchesEnabled(!!backend.patchNote);
+  return backend;
+};
+
+export const getSyncBackend = (): SyncBackend => activeBackend ?? activate(new SupabaseSyncBackend());
+
+// Swap the server used by sync, e.g. a LocalSyncBackend for self-hosting.
+// Services pick up the backend when they are created.
+export const setSyncBackend = (backend: SyncBackend): void => {
+  activate(backend);
+};
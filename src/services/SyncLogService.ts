@@ -0,0 +1,130 @@
+import { Platform } from 'react-native';
+import RNFS from 'react-native-fs';
+import { DatabaseManager } from '../database/DatabaseManager';
+import { isDatabaseEncrypted } from '../database/encryption';
+import { LocalSyncLogEntry } from '../database/syncLogDAO';
+import { LocalQuarantinedRecord } from '../database/syncQuarantineDAO';
+import { QuarantinedRecord, SyncLogEntry, SyncLogExport } from '../types';
+import { getClockSkew } from '../utils/clockUtils';
+import { exportToJSON } from '../utils/dataUtils';
+
+// Stands in for quarantined payloads in exports from an encrypted database
+const WITHHELD_PAYLOAD = '(withheld: notes are encrypted on this device)';
+
+// Reads and exports the sync diagnostics log that SyncService and
+// BackgroundSyncWorker write to
+export class SyncLogService {
+  private static instance: SyncLogService;
+  private dbManager: DatabaseManager;
+
+  private constructor() {
+    this.dbManager = DatabaseManager.getInstance();
+  }
+
+  static getInstance(): SyncLogService {
+    if (!SyncLogService.instance) {
+      SyncLogService.instance = new SyncLogService();
+    }
+    return SyncLogService.instance;
+  }
+
+  async getRuns(userId: string, limit = 50): Promise<SyncLogEntry[]> {
+    const entries = await this.dbManager.getSyncLog(userId, limit, 'run');
+    return entries.map(entry => this.toSyncLogEntry(entry));
+  }
+
+  async getEntries(userId: string): Promise<SyncLogEntry[]> {
+    const entries = await this.dbManager.getSyncLog(userId);
+    return entries.map(entry => this.toSyncLogEntry(entry));
+  }
+
+  // Exported logs are plain JSON meant for bug reports. Quarantined payloads
+  // carry note text, so an encrypted database keeps them out of the file.
+  async createExport(userId: string): Promise<SyncLogExport> {
+    const quarantine = await this.getQuarantine(userId);
+
+    return {
+      version: '1.0',
+      exportDate: new Date().toISOString(),
+      platform: Platform.OS,
+      clockSkewMs: getClockSkew(),
+      pendingOperations: await this.dbManager.getSyncQueueSize(userId),
+      failedOperations: (await this.dbManager.getFailedSyncItems(userId)).length,
+      entries: await this.getEntries(userId),
+      quarantine: isDatabaseEncrypted()
+        ? quarantine.map(record => ({ ...record, data: WITHHELD_PAYLOAD }))
+        : quarantine,
+    };
+  }
+
+  async exportLogToFile(userId: string): Promise<string> {
+    try {
+      const jsonData = exportToJSON(await this.createExport(userId));
+
+      const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+      const filename = `northern-star-sync-log-${timestamp}.json`;
+
+      // Same locations as backups, so the file is easy to find and attach
+      const directory = Platform.OS === 'android'
+        ? RNFS.DownloadDirectoryPath
+        : RNFS.DocumentDirectoryPath;
+      const filePath = `${directory}/${filename}`;
+
+      await RNFS.writeFile(filePath, jsonData, 'utf8');
+
+      console.log(`Sync log exported to: ${filePath}`);
+      return filePath;
+    } catch (error) {
+      console.error('Failed to export sync log:', error);
+      throw error;
+    }
+  }
+
+  async clearLog(userId: string): Promise<void> {
+    await this.dbManager.clearSyncLog(userId);
+  }
+
+  // Sync payloads that failed validation, newest first
+  async getQuarantine(userId: string): Promise<QuarantinedRecord[]> {
+    const records = await this.dbManager.getQuarantinedRecords(userId);
+    return records.map(record => this.toQuarantinedRecord(record));
+  }
+
+  async discardQuarantinedRecord(id: string): Promise<void> {
+    await this.dbManager.removeQuarantinedRecord(id);
+  }
+
+  async clearQuarantine(userId: string): Promise<void> {
+    await this.dbManager.clearQuarantine(userId);
+  }
+
+  private toQuarantinedRecord(record: LocalQuarantinedRecord): QuarantinedRecord {
+    return {
+      id: record.id,
+      tableName: record.table_name,
+      recordId: record.record_id,
+      direction: record.direction,
+      data: record.data,
+      errors: JSON.parse(record.errors || '[]'),
+      createdAt: record.created_at,
+    };
+  }
+
+  private toSyncLogEntry(entry: LocalSyncLogEntry): SyncLogEntry {
+    return {
+      id: entry.id,
+      kind: entry.kind,
+      startedAt: entry.started_at,
+      finishedAt: entry.finished_at,
+      durationMs: entry.duration_ms,
+      pushed: entry.pushed,
+      pulled: entry.pulled,
+      conflicts: entry.conflicts,
+      errors: JSON.parse(entry.errors || '[]'),
+      tableName: entry.table_name,
+      recordId: entry.record_id,
+      eventType: entry.event_type,
+      createdAt: entry.created_at,
+    };
+  }
+}
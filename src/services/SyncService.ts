@@ -1,29 +1,93 @@
 import NetInfo from '@react-native-community/netinfo';
-import { supabase } from '../config/supabase';
 import { DatabaseManager } from '../database/DatabaseManager';
-import { SyncQueueDAO } from '../database/syncQueueDAO';
+import { SyncQueueDAO, SyncQueueItem, SyncAcknowledgement } from '../database/syncQueueDAO';
 import { GroupsDAO, LocalGroup } from '../database/groupsDAO';
 import { NotesDAO, LocalNote } from '../database/notesDAO';
-import { Group, Note, SyncOperation } from '../types';
-import { resolveConflict } from '../utils/dataUtils';
+import { SyncBaseDAO } from '../database/syncBaseDAO';
+import { SyncConflictsDAO, LocalSyncConflict } from '../database/syncConflictsDAO';
+import {
+  ConflictResolution,
+  Group,
+  Note,
+  NotePatch,
+  SyncConflict,
+  SyncOperation,
+  SyncPhase,
+  SyncPreferences,
+  SyncProgress,
+  SyncSchedule,
+} from '../types';
+import { SYNC_CONFIG } from '../constants';
+import { getServerNow, measureClockSkew, setClockSkew } from '../utils/clockUtils';
+import { applyResolution } from '../utils/mergeUtils';
+import { validateSyncRow } from '../utils/schemaUtils';
+import { DEFAULT_SYNC_PREFERENCES, SyncConditions, getSyncSchedule } from '../utils/syncScheduleUtils';
+import { RemoteChangeApplier } from './RemoteChangeApplier';
+import { PullCursor, RowUpdate, SyncBackend, getSyncBackend, isAfterCursor, rewindCursor } from './SyncBackend';
 
 export interface SyncStatus {
   isSync: boolean;
   lastSyncTime: Date | null;
   pendingOperations: number;
   error: string | null;
+  clockSkewMs: number | null; // Device clock minus server clock, null until measured
+  schedule: SyncSchedule;
+  progress: SyncProgress | null; // Only while a sync is running
 }
 
+// Counters for the sync run in progress, written to the sync log when it ends
+interface SyncRunStats {
+  pushed: number;
+  pulled: number;
+  errors: string[];
+}
+
+// Approximate size on the wire: the length of the JSON sent or received
+const estimateSize = (value: any): number => {
+  if (typeof value === 'string') {
+    return value.length;
+  }
+  if (Array.isArray(value)) {
+    return value.reduce((size: number, item) => size + estimateSize(item), 0);
+  }
+  return JSON.stringify(value ?? null).length;
+};
+
+const toCursor = (row: { server_updated_at?: string; id: string }): PullCursor => ({
+  server_updated_at: row.server_updated_at!,
+  id: row.id,
+});
+
 export class SyncService {
   private static instance: SyncService;
   private isOnline = false;
   private isSyncing = false;
+  private syncRun: Promise<void> = Promise.resolve();
+  private clockSkewMs: number | null = null;
+  private currentRun: SyncRunStats | null = null;
+  private progress: SyncProgress | null = null;
+  private cancelRequested = false;
+  private progressStartedMs = 0;
   private syncInterval: NodeJS.Timeout | null = null;
+  private periodicIntervalMs: number | null = null; // null follows the schedule
+  private conditions: SyncConditions = {
+    isConnected: false,
+    connectionType: 'unknown',
+    isExpensive: false,
+    appState: 'active',
+  };
+  private preferences: SyncPreferences = DEFAULT_SYNC_PREFERENCES;
+  private schedule: SyncSchedule = getSyncSchedule(this.conditions, this.preferences);
+  private lastStatus: SyncStatus | null = null;
   private dbManager: DatabaseManager;
+  private applier: RemoteChangeApplier;
+  private backend: SyncBackend;
   private listeners: ((status: SyncStatus) => void)[] = [];
 
   private constructor() {
     this.dbManager = DatabaseManager.getInstance();
+    this.applier = RemoteChangeApplier.getInstance();
+    this.backend = getSyncBackend();
     this.initializeNetworkListener();
   }
 
@@ -38,14 +102,75 @@ export class SyncService {
     NetInfo.addEventListener(state => {
       const wasOnline = this.isOnline;
       this.isOnline = state.isConnected ?? false;
+
+      if (!this.isOnline) {
+        this.applier.markBehind();
+      }
+
+      this.updateConditions({
+        isConnected: this.isOnline,
+        connectionType: state.type ?? 'unknown',
+        isExpensive: (state.details as { isConnectionExpensive?: boolean } | null)?.isConnectionExpensive ?? false,
+      });
       
-      if (!wasOnline && this.isOnline) {
+      if (!wasOnline && this.isOnline && this.schedule.mode !== 'paused') {
         // Just came online, trigger sync
         this.startSync();
       }
     });
   }
 
+  // Called by the background worker as the app moves between foreground and background
+  setAppState(appState: string): void {
+    this.updateConditions({ appState });
+  }
+
+  getSyncSchedule(): SyncSchedule {
+    return this.schedule;
+  }
+
+  getSyncPreferences(): SyncPreferences {
+    return this.preferences;
+  }
+
+  async setSyncPreferences(preferences: SyncPreferences): Promise<void> {
+    await this.dbManager.setSyncPreferences(preferences);
+    this.preferences = preferences;
+    this.updateSchedule();
+  }
+
+  private async loadSyncPreferences(): Promise<void> {
+    try {
+      this.preferences = await this.dbManager.getSyncPreferences();
+      this.updateSchedule();
+    } catch (error) {
+      console.error('Failed to load sync preferences:', error);
+    }
+  }
+
+  private updateConditions(conditions: Partial<SyncConditions>): void {
+    this.conditions = { ...this.conditions, ...conditions };
+    this.updateSchedule();
+  }
+
+  // Recompute the schedule, re-arm the periodic timer and tell listeners when it changes
+  private updateSchedule(): void {
+    const previous = this.schedule;
+    this.schedule = getSyncSchedule(this.conditions, this.preferences);
+
+    if (JSON.stringify(previous) === JSON.stringify(this.schedule)) {
+      return;
+    }
+
+    if (this.syncInterval && this.periodicIntervalMs === null && previous.intervalMs !== this.schedule.intervalMs) {
+      this.armPeriodicSync(this.schedule.intervalMs);
+    }
+
+    if (this.lastStatus) {
+      this.notifyListeners({ ...this.lastStatus, schedule: this.schedule });
+    }
+  }
+
   addStatusListener(listener: (status: SyncStatus) => void) {
     this.listeners.push(listener);
   }
@@ -55,6 +180,7 @@ export class SyncService {
   }
 
   private notifyListeners(status: SyncStatus) {
+    this.lastStatus = status;
     this.listeners.forEach(listener => listener(status));
   }
 
@@ -64,252 +190,874 @@ export class SyncService {
     }
 
     if (!userId) {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) return;
-      userId = user.id;
+      const currentUserId = await this.backend.getCurrentUserId();
+      if (!currentUserId) return;
+      userId = currentUserId;
     }
 
     this.isSyncing = true;
+    this.syncRun = this.runSync(userId);
+    await this.syncRun;
+  }
+
+  private async runSync(userId: string): Promise<void> {
+    this.cancelRequested = false;
+    await this.loadSyncPreferences();
+    const runStartedMs = Date.now();
+    const run: SyncRunStats = { pushed: 0, pulled: 0, errors: [] };
+    this.currentRun = run;
+    this.progressStartedMs = runStartedMs;
     
     try {
+      const pendingOperations = await this.dbManager.getSyncQueueSize(userId);
+      this.progress = {
+        phase: 'push',
+        push: { done: 0, total: pendingOperations },
+        pull: { done: 0, total: null },
+        bytesTransferred: 0,
+        etaMs: null,
+      };
       this.notifyListeners({
         isSync: true,
         lastSyncTime: null,
-        pendingOperations: await this.dbManager.getSyncQueueSize(userId),
+        pendingOperations,
         error: null,
+        clockSkewMs: this.clockSkewMs,
+        schedule: this.schedule,
+        progress: this.progress,
       });
 
+      // Measure skew first so timestamps written while merging follow server time
+      await this.updateClockSkew();
+
       // Step 1: Push local changes to server
       await this.pushLocalChanges(userId);
 
       // Step 2: Pull remote changes from server
       await this.pullRemoteChanges(userId);
 
-      // Step 3: Clean up processed sync queue items
-      await SyncQueueDAO.clearProcessedItems(userId);
+      // A cancelled run stopped between batches, so it is not a completed sync
+      const cancelled = this.cancelRequested;
+      if (cancelled) {
+        run.errors.push('Cancelled before finishing');
+      }
 
       this.notifyListeners({
         isSync: false,
-        lastSyncTime: new Date(),
+        lastSyncTime: cancelled ? null : new Date(),
         pendingOperations: await this.dbManager.getSyncQueueSize(userId),
         error: null,
+        clockSkewMs: this.clockSkewMs,
+        schedule: this.schedule,
+        progress: null,
       });
 
     } catch (error) {
       console.error('Sync failed:', error);
+      run.errors.push(error instanceof Error ? error.message : 'Sync failed');
       this.notifyListeners({
         isSync: false,
         lastSyncTime: null,
         pendingOperations: await this.dbManager.getSyncQueueSize(userId),
         error: error instanceof Error ? error.message : 'Sync failed',
+        clockSkewMs: this.clockSkewMs,
+        schedule: this.schedule,
+        progress: null,
       });
     } finally {
+      await this.recordRun(userId, runStartedMs, run);
+      this.currentRun = null;
+      this.progress = null;
+      this.cancelRequested = false;
       this.isSyncing = false;
     }
   }
 
+  // Stop the running sync at the next batch boundary. Acknowledged pushes and
+  // pulled pages are already saved, so the next sync resumes where this stopped.
+  cancelSync(): void {
+    if (this.isSyncing) {
+      this.cancelRequested = true;
+    }
+  }
+
+  // Stop syncing for the signed-in account before another one takes over:
+  // no timer, no run in flight and nothing carried over to the next account
+  async reset(): Promise<void> {
+    this.stopPeriodicSync();
+    this.cancelSync();
+    await this.syncRun;
+
+    this.preferences = DEFAULT_SYNC_PREFERENCES;
+    this.schedule = getSyncSchedule(this.conditions, this.preferences);
+    this.notifyListeners({
+      isSync: false,
+      lastSyncTime: null,
+      pendingOperations: 0,
+      error: null,
+      clockSkewMs: this.clockSkewMs,
+      schedule: this.schedule,
+      progress: null,
+    });
+  }
+
+  private startPhase(phase: SyncPhase, total: number | null): void {
+    if (!this.progress) {
+      return;
+    }
+    this.progress = { ...this.progress, phase, [phase]: { done: 0, total } };
+    this.notifyProgress();
+  }
+
+  private advanceProgress(phase: SyncPhase, done: number, bytes: number): void {
+    if (!this.progress) {
+      return;
+    }
+
+    const current = this.progress[phase];
+    const phaseDone = current.done + done;
+    const progress: SyncProgress = {
+      ...this.progress,
+      [phase]: {
+        done: phaseDone,
+        // Edits made while syncing can push the count past the starting total
+        total: current.total === null ? null : Math.max(current.total, phaseDone),
+      },
+      bytesTransferred: this.progress.bytesTransferred + bytes,
+    };
+
+    // Extrapolate the rate so far over the remaining work whose size is known
+    const totalDone = progress.push.done + progress.pull.done;
+    const remaining =
+      (progress.push.total ?? progress.push.done) - progress.push.done +
+      (progress.pull.total ?? progress.pull.done) - progress.pull.done;
+    const elapsedMs = Date.now() - this.progressStartedMs;
+    progress.etaMs = totalDone > 0 ? Math.round((elapsedMs / totalDone) * remaining) : null;
+
+    this.progress = progress;
+    this.notifyProgress();
+  }
+
+  private notifyProgress(): void {
+    if (this.lastStatus && this.progress) {
+      this.notifyListeners({ ...this.lastStatus, progress: this.progress });
+    }
+  }
+
+  // Timestamps follow server time, measured after the skew update of this run
+  private async recordRun(userId: string, runStartedMs: number, run: SyncRunStats): Promise<void> {
+    try {
+      const durationMs = Date.now() - runStartedMs;
+      const finishedAt = getServerNow();
+      const startedAt = new Date(finishedAt.getTime() - durationMs).toISOString();
+
+      await this.dbManager.recordSyncRun({
+        startedAt,
+        finishedAt: finishedAt.toISOString(),
+        durationMs,
+        pushed: run.pushed,
+        pulled: run.pulled,
+        conflicts: (await SyncConflictsDAO.countCreatedSince(userId, startedAt)) ?? 0,
+        errors: run.errors,
+      }, userId);
+    } catch (error) {
+      console.error('Failed to record sync run:', error);
+    }
+  }
+
+  private countRun(counter: 'pushed' | 'pulled', count = 1): void {
+    if (this.currentRun) {
+      this.currentRun[counter] += count;
+    }
+  }
+
+  // A failed measurement keeps the previous skew; it is not worth failing sync over
+  private async updateClockSkew(): Promise<void> {
+    try {
+      const sentAt = Date.now();
+      const serverTime = Date.parse(await this.backend.getServerTime());
+      const receivedAt = Date.now();
+
+      this.clockSkewMs = measureClockSkew(sentAt, serverTime, receivedAt);
+      setClockSkew(this.clockSkewMs);
+    } catch (error) {
+      console.error('Failed to measure clock skew:', error);
+    }
+  }
+
   private async pushLocalChanges(userId: string): Promise<void> {
-    const pendingItems = await this.dbManager.getPendingSyncItems(userId, 50);
+    const localOnlyGroupIds = new Set(await GroupsDAO.getLocalOnlyGroupIds(userId));
+    let hasMore = true;
 
-    for (const item of pendingItems) {
+    while (hasMore && !this.cancelRequested) {
+      // Read per batch: the connection may change while a long queue drains
+      const { batchSize, maxNoteSize } = this.schedule;
+      const pendingItems = await this.dbManager.getPendingSyncItems(userId, batchSize, maxNoteSize);
+      const validItems = await this.quarantineInvalidItems(pendingItems);
+      const sharedItems = await this.dropLocalOnlyItems(validItems, localOnlyGroupIds);
+      await this.dbManager.markSyncItemsPushed(sharedItems.map(item => item.id));
+      const pushedAll = await this.pushBatch(sharedItems);
+      this.advanceProgress('push', pendingItems.length, estimateSize(sharedItems.map(item => (this.backend.patchNote && item.patch) || item.data)));
+
+      // Keep draining while full batches go through cleanly
+      hasMore = pushedAll && pendingItems.length === batchSize;
+    }
+  }
+
+  // A queued payload that would not pass as a server row is moved to the
+  // quarantine instead of being pushed over the good copy on the server
+  private async quarantineInvalidItems(items: any[]): Promise<any[]> {
+    const validItems: any[] = [];
+
+    for (const item of items) {
+      let payload: unknown = item.data;
+      let errors: string[];
       try {
-        await this.processSyncItem(item);
-        await this.dbManager.removeSyncItem(item.id);
+        payload = JSON.parse(item.data);
+        errors = this.validateQueuedPayload(item.table_name, payload);
       } catch (error) {
-        console.error(`Failed to sync item ${item.id}:`, error);
-        await this.dbManager.incrementSyncRetry(
-          item.id,
-          error instanceof Error ? error.message : 'Unknown error'
-        );
+        errors = [error instanceof Error ? error.message : 'Unreadable payload'];
+      }
+
+      if (errors.length === 0) {
+        validItems.push(item);
+        continue;
+      }
+
+      console.error(`Quarantined malformed sync item ${item.id}:`, errors);
+      // Moved in one step, so the item is never both queued and quarantined
+      await this.dbManager.transaction(async tx => {
+        await this.dbManager.quarantineSyncPayload(item.table_name, 'outbound', payload, errors, item.user_id, tx);
+        await this.dbManager.removeSyncItem(item.id, tx);
+      });
+      this.currentRun?.errors.push(`${item.table_name} ${item.record_id}: quarantined, ${errors[0]}`);
+    }
+
+    return validItems;
+  }
+
+  // Queue items hold local rows; they are checked in the shape they are pushed in
+  private validateQueuedPayload(tableName: string, data: any): string[] {
+    switch (tableName) {
+      case 'notes':
+        return validateSyncRow('notes', this.applier.toRemoteNote(data));
+      case 'groups':
+        return validateSyncRow('groups', this.applier.toRemoteGroup(data));
+      default:
+        return [`Unknown table: ${tableName}`];
+    }
+  }
+
+  // Records in local-only groups never leave the device. DELETE items are
+  // still pushed: they withdraw records synced before the policy changed.
+  private async dropLocalOnlyItems(items: any[], localOnlyGroupIds: Set<string>): Promise<any[]> {
+    const sharedItems: any[] = [];
+
+    for (const item of items) {
+      const data = JSON.parse(item.data);
+      const groupId = item.table_name === 'groups' ? item.record_id : data.group_id;
+
+      if (item.operation !== 'DELETE' && groupId && localOnlyGroupIds.has(groupId)) {
+        await this.dbManager.removeSyncItem(item.id);
+      } else {
+        sharedItems.push(item);
       }
     }
+
+    return sharedItems;
   }
 
-  private async processSyncItem(item: any): Promise<void> {
+  // Push one batch of queue items. Returns false if any item failed.
+  private async pushBatch(items: any[]): Promise<boolean> {
+    const conflictedRecords = new Set<string>();
+    let pushedAll = true;
+
+    for (const run of this.splitIntoRuns(items)) {
+      let remaining = run;
+      if (run.length > 1) {
+        remaining = run[0].operation === 'INSERT'
+          ? await this.pushInsertBatch(run)
+          : await this.pushUpdateBatch(run);
+      }
+
+      for (const item of remaining) {
+        const recordKey = `${item.table_name}:${item.record_id}`;
+        if (conflictedRecords.has(recordKey)) {
+          // Superseded by the merged version queued while handling the conflict
+          continue;
+        }
+
+        try {
+          const applied = await this.processSyncItem(item);
+
+          if (applied) {
+            await this.dbManager.acknowledgeSyncItems([this.toAcknowledgement(item)]);
+            this.countRun('pushed');
+          } else {
+            conflictedRecords.add(recordKey);
+            await this.handleVersionConflict(item);
+          }
+        } catch (error) {
+          pushedAll = false;
+          console.error(`Failed to sync item ${item.id}:`, error);
+          const message = error instanceof Error ? error.message : 'Unknown error';
+          this.currentRun?.errors.push(`${item.table_name} ${item.record_id}: ${message}`);
+          await this.dbManager.incrementSyncRetry(item.id, message);
+        }
+      }
+    }
+
+    return pushedAll;
+  }
+
+  // Group consecutive items with the same table and operation, keeping queue
+  // order so that edits to a record are never reordered
+  private splitIntoRuns(items: any[]): any[][] {
+    const runs: any[][] = [];
+
+    for (const item of items) {
+      const currentRun = runs[runs.length - 1];
+      if (
+        currentRun &&
+        currentRun[0].table_name === item.table_name &&
+        currentRun[0].operation === item.operation
+      ) {
+        currentRun.push(item);
+      } else {
+        runs.push([item]);
+      }
+    }
+
+    return runs;
+  }
+
+  // Bulk insert a run of INSERT items. Returns the items the server did not
+  // acknowledge; they are retried one by one.
+  private async pushInsertBatch(items: any[]): Promise<any[]> {
+    const tableName = items[0].table_name;
+    if (tableName !== 'notes' && tableName !== 'groups') {
+      return items;
+    }
+
+    const rows = items.map(item => {
+      const data = JSON.parse(item.data);
+      return tableName === 'notes' ? this.applier.toRemoteNote(data) : this.applier.toRemoteGroup(data);
+    });
+
+    let insertedIds: Set<string>;
+    try {
+      insertedIds = new Set(await this.backend.insertRows(tableName, rows));
+    } catch (error) {
+      console.warn(
+        `Batch insert into ${tableName} rejected, retrying items individually:`,
+        error instanceof Error ? error.message : error
+      );
+      return items;
+    }
+
+    const inserted = items.filter(item => insertedIds.has(item.record_id));
+    await this.dbManager.acknowledgeSyncItems(inserted.map(item => this.toAcknowledgement(item)));
+    this.countRun('pushed', inserted.length);
+
+    // Rows that already existed on the server go through conflict handling
+    return items.filter(item => !insertedIds.has(item.record_id));
+  }
+  // Bulk write a run of UPDATE or DELETE items, each conditional on its own
+  // expected version. Returns the items left to push one by one: those the
+  // server did not apply, which then go through conflict handling, note
+  // patches, and any later item for a record already in the write.
+  private async pushUpdateBatch(items: any[]): Promise<any[]> {
+    const tableName = items[0].table_name;
+    if (tableName !== 'notes' && tableName !== 'groups') {
+      return items;
+    }
+
+    const recordIds = new Set<string>();
+    const batched = items.filter(item => {
+      const first = !recordIds.has(item.record_id);
+      recordIds.add(item.record_id);
+      return first && !(item.patch && this.backend.patchNote);
+    });
+    if (batched.length < 2) {
+      return items;
+    }
+
+    const updates: RowUpdate[] = [];
+    for (const item of batched) {
+      const data = JSON.parse(item.data);
+      updates.push({
+        id: item.record_id,
+        values: tableName === 'notes'
+          ? this.toNoteUpdate(item.operation, data)
+          : this.toGroupUpdate(item.operation, data),
+        expectedVersion: await this.getExpectedVersion(tableName, data),
+      });
+    }
+
+    let updatedIds: Set<string>;
+    try {
+      updatedIds = new Set(await this.backend.updateRows(tableName, updates));
+    } catch (error) {
+      console.warn(
+        `Batch update of ${tableName} rejected, retrying items individually:`,
+        error instanceof Error ? error.message : error
+      );
+      return items;
+    }
+
+    const updated = batched.filter(item => updatedIds.has(item.record_id));
+    await this.dbManager.acknowledgeSyncItems(updated.map(item => this.toAcknowledgement(item)));
+    this.countRun('pushed', updated.length);
+
+    return items.filter(item => !updated.includes(item));
+  }
+
+
+  // Returns false when the server row is not at the expected version
+  private async processSyncItem(item: any): Promise<boolean> {
     const data = JSON.parse(item.data);
 
     switch (item.table_name) {
       case 'groups':
-        await this.syncGroup(item.operation, data);
-        break;
+        return this.syncGroup(item.operation, data);
       case 'notes':
-        await this.syncNote(item.operation, data);
-        break;
+        return this.syncNote(item.operation, data, item.patch ?? null);
       default:
         throw new Error(`Unknown table: ${item.table_name}`);
     }
   }
 
-  private async syncGroup(operation: string, data: LocalGroup): Promise<void> {
+  // The server row must still be at the version this device last synced
+  private async getExpectedVersion(
+    tableName: 'notes' | 'groups',
+    data: { id: string }
+  ): Promise<number | null> {
+    const base = await SyncBaseDAO.getBase<{ version: number }>(tableName, data.id);
+    if (base) {
+      return base.version;
+    }
+
+    // Records last synced before merge bases were kept are pushed unconditionally.
+    // The local version cannot be used as a guess since queued edits are coalesced.
+    return null;
+  }
+
+  // Another writer got there first: merge with the server row and queue the
+  // result rather than overwriting it
+  private async handleVersionConflict(item: any): Promise<void> {
+    const remote = await this.backend.fetchRow(item.table_name, item.record_id);
+
+    await SyncQueueDAO.removeItemsForRecord(item.table_name, item.record_id);
+
+    if (!remote) {
+      const tombstone = await this.backend.fetchTombstone(item.table_name, item.record_id);
+      if (tombstone) {
+        // Purged from the server while this device held on to it
+        await this.applier.applyTombstone(tombstone);
+        return;
+      }
+
+      // The row is gone from the server, push the current local row as new
+      const local = item.table_name === 'notes'
+        ? await NotesDAO.getNoteById(item.record_id, true)
+        : await GroupsDAO.getGroupById(item.record_id, true);
+
+      if (local) {
+        await SyncBaseDAO.removeBase(item.table_name, item.record_id);
+        await SyncQueueDAO.addToQueue(
+          item.table_name,
+          item.record_id,
+          'INSERT',
+          local,
+          item.user_id
+        );
+      }
+      return;
+    }
+
+    const data = JSON.parse(item.data);
+
+    if (item.operation === 'DELETE' && await GroupsDAO.getRecordSyncPolicy(item.table_name, data) === 'local_only') {
+      // Withdrawing from sync raced an edit from another device: withdraw that version instead
+      await SyncBaseDAO.saveBase(item.table_name, item.record_id, remote);
+      await SyncQueueDAO.addToQueue(
+        item.table_name,
+        item.record_id,
+        'DELETE',
+        { ...data, version: remote.version + 1 },
+        item.user_id
+      );
+      return;
+    }
+
+    if (item.operation === 'INSERT' && remote.is_deleted && remote.version <= data.version) {
+      // Shared again after being withdrawn from sync; the deleted row is this
+      // device's own, so replace it instead of merging with it
+      const shared = { ...data, version: remote.version + 1 };
+      await this.dbManager.transaction(async tx => {
+        await SyncBaseDAO.saveBase(item.table_name, item.record_id, remote, tx);
+        if (item.table_name === 'notes') {
+          await NotesDAO.upsertNoteFromSync(shared, true, tx);
+        } else {
+          await GroupsDAO.upsertGroupFromSync(shared, true, tx);
+        }
+      });
+      return;
+    }
+
+    if (item.table_name === 'notes') {
+      await this.applier.applyNote(remote as Note);
+    } else {
+      await this.applier.applyGroup(remote as Group);
+    }
+  }
+
+  // After a successful push the pushed row becomes the new merge base
+  private toAcknowledgement(item: any): SyncAcknowledgement {
+    const ack: SyncAcknowledgement = {
+      queueItemId: item.id,
+      pushedData: item.data,
+      tableName: item.table_name,
+      recordId: item.record_id,
+      syncedRow: null,
+    };
+
+    if (item.operation !== 'DELETE') {
+      const data = JSON.parse(item.data);
+      ack.syncedRow = item.table_name === 'notes'
+        ? this.applier.toRemoteNote(data)
+        : this.applier.toRemoteGroup(data);
+    }
+
+    return ack;
+  }
+
+  private async syncGroup(operation: string, data: LocalGroup): Promise<boolean> {
     switch (operation) {
       case 'INSERT':
-        await supabase.from('groups').insert({
-          id: data.id,
-          name: data.name,
-          color: data.color,
-          user_id: data.user_id,
-          created_at: data.created_at,
-          updated_at: data.updated_at,
-          version: data.version,
-          is_deleted: data.is_deleted === 1,
-        });
-        break;
+        return this.backend.insertRow('groups', this.applier.toRemoteGroup(data));
 
       case 'UPDATE':
-        await supabase.from('groups').update({
-          name: data.name,
-          color: data.color,
-          updated_at: data.updated_at,
-          version: data.version,
-          is_deleted: data.is_deleted === 1,
-        }).eq('id', data.id);
-        break;
-
       case 'DELETE':
-        await supabase.from('groups').update({
-          is_deleted: true,
-          updated_at: data.updated_at,
-          version: data.version,
-        }).eq('id', data.id);
-        break;
+        return this.backend.updateRow(
+          'groups',
+          data.id,
+          this.toGroupUpdate(operation, data),
+          await this.getExpectedVersion('groups', data)
+        );
+
+      default:
+        throw new Error(`Unknown operation: ${operation}`);
     }
   }
 
-  private async syncNote(operation: string, data: LocalNote): Promise<void> {
+  private async syncNote(operation: string, data: LocalNote, patch: string | null): Promise<boolean> {
     switch (operation) {
       case 'INSERT':
-        await supabase.from('notes').insert({
-          id: data.id,
-          title: data.title,
-          content: JSON.parse(data.content),
-          content_markdown: data.content_markdown,
-          content_plain: data.content_plain,
-          group_id: data.group_id,
-          user_id: data.user_id,
-          created_at: data.created_at,
-          updated_at: data.updated_at,
-          version: data.version,
-          is_deleted: data.is_deleted === 1,
-          deleted_at: data.deleted_at,
-        });
-        break;
+        return this.backend.insertRow('notes', this.applier.toRemoteNote(data));
 
-      case 'UPDATE':
-        await supabase.from('notes').update({
-          title: data.title,
-          content: JSON.parse(data.content),
-          content_markdown: data.content_markdown,
-          content_plain: data.content_plain,
-          group_id: data.group_id,
-          updated_at: data.updated_at,
-          version: data.version,
-          is_deleted: data.is_deleted === 1,
-          deleted_at: data.deleted_at,
-        }).eq('id', data.id);
-        break;
+      case 'UPDATE': {
+        const expectedVersion = await this.getExpectedVersion('notes', data);
+        if (patch && expectedVersion !== null && await this.pushNotePatch(data.id, JSON.parse(patch), expectedVersion)) {
+          return true;
+        }
+
+        // Full upload. If the server row moved on, this detects the conflict.
+        return this.backend.updateRow('notes', data.id, this.toNoteUpdate(operation, data), expectedVersion);
+      }
 
       case 'DELETE':
-        await supabase.from('notes').update({
-          is_deleted: true,
-          deleted_at: data.deleted_at,
-          updated_at: data.updated_at,
-          version: data.version,
-        }).eq('id', data.id);
-        break;
+        return this.backend.updateRow(
+          'notes',
+          data.id,
+          this.toNoteUpdate(operation, data),
+          await this.getExpectedVersion('notes', data)
+        );
+
+      default:
+        throw new Error(`Unknown operation: ${operation}`);
+    }
+  }
+
+  // Server values for an UPDATE or DELETE of a group. A delete only marks it.
+  private toGroupUpdate(operation: string, data: LocalGroup): Partial<Group> {
+    if (operation === 'DELETE') {
+      return { is_deleted: true, updated_at: data.updated_at, version: data.version };
+    }
+    return {
+      name: data.name,
+      color: data.color,
+      updated_at: data.updated_at,
+      version: data.version,
+      is_deleted: data.is_deleted === 1,
+    };
+  }
+
+  private toNoteUpdate(operation: string, data: LocalNote): Partial<Note> {
+    if (operation === 'DELETE') {
+      return {
+        is_deleted: true,
+        deleted_at: data.deleted_at,
+        updated_at: data.updated_at,
+        version: data.version,
+      };
+    }
+    return {
+      title: data.title,
+      content: JSON.parse(data.content),
+      content_markdown: data.content_markdown,
+      content_plain: data.content_plain,
+      group_id: data.group_id,
+      updated_at: data.updated_at,
+      version: data.version,
+      is_deleted: data.is_deleted === 1,
+      deleted_at: data.deleted_at,
+    };
+  }
+
+  // Patches are made against the merge base when the item is queued. A patch
+  // made from an older base, or one the server cannot apply, is not sent.
+  private async pushNotePatch(id: string, patch: NotePatch, expectedVersion: number): Promise<boolean> {
+    if (!this.backend.patchNote || patch.base_version !== expectedVersion) {
+      return false;
     }
+    return this.backend.patchNote(id, patch, expectedVersion);
   }
 
   private async pullRemoteChanges(userId: string): Promise<void> {
-    // Get last sync time to only pull changes since then
-    const lastSyncTime = await this.dbManager.getSetting('lastSyncTime');
-    const since = lastSyncTime ? new Date(lastSyncTime) : new Date(0);
-
-    // Pull groups
-    const { data: remoteGroups } = await supabase
-      .from('groups')
-      .select('*')
-      .eq('user_id', userId)
-      .gte('updated_at', since.toISOString());
-
-    if (remoteGroups) {
-      for (const remoteGroup of remoteGroups) {
-        await this.handleRemoteGroup(remoteGroup);
+    if (this.cancelRequested) {
+      return;
+    }
+    this.startPhase('pull', await this.countRemoteChanges(userId));
+
+    await this.bootstrapFromSnapshot(userId);
+
+    // Purged records first, so a row deleted everywhere else is not merged
+    await this.pullTombstones(userId);
+
+    // Groups first so notes never reference a group that has not arrived yet
+    await this.pullTable<Group>(userId, 'groups', remoteGroup =>
+      this.applier.applyGroup(remoteGroup)
+    );
+    await this.pullTable<Note>(userId, 'notes', remoteNote =>
+      this.applier.applyNote(remoteNote)
+    );
+  }
+
+  // A device that has never pulled downloads every group and note at once and
+  // loads them in one transaction; the pulls that follow start from the
+  // snapshot's cursors. The download is staged in the database first, so a
+  // load cut short by the app being killed runs again without downloading again.
+  private async bootstrapFromSnapshot(userId: string): Promise<void> {
+    try {
+      if (!(await this.applier.needsSnapshot())) {
+        return;
       }
+
+      let bytes = 0;
+      if (!(await this.applier.hasStagedSnapshot())) {
+        const snapshot = await this.backend.fetchSnapshot(userId);
+        if (this.cancelRequested) {
+          return;
+        }
+        bytes = estimateSize(snapshot);
+        await this.applier.stageSnapshot(snapshot);
+      }
+
+      const loaded = await this.applier.applyStagedSnapshot();
+      this.countRun('pulled', loaded);
+      this.advanceProgress('pull', loaded, bytes);
+    } catch (error) {
+      // Paging through every row gets the same result, only slower
+      console.error('Snapshot bootstrap failed, pulling incrementally:', error);
     }
+  }
 
-    // Pull notes
-    const { data: remoteNotes } = await supabase
-      .from('notes')
-      .select('*')
-      .eq('user_id', userId)
-      .gte('updated_at', since.toISOString());
+  // Pull rows changed after the stored (server_updated_at, id) cursor one page at a time,
+  // starting a safety window behind it. The cursor only advances once a page
+  // has been applied locally, so an interrupted pull resumes from the last
+  // completed page.
+  private async pullTable<T extends Group | Note>(
+    userId: string,
+    tableName: 'notes' | 'groups',
+    applyRow: (row: T) => Promise<void>
+  ): Promise<void> {
+    const storedCursor = await this.applier.getCursor(tableName);
+    let cursor = rewindCursor(storedCursor, SYNC_CONFIG.pullSafetyWindow);
 
-    if (remoteNotes) {
-      for (const remoteNote of remoteNotes) {
-        await this.handleRemoteNote(remoteNote);
+    while (!this.cancelRequested) {
+      const { batchSize } = this.schedule;
+      const page = await this.backend.pullPage<T>(
+        tableName,
+        userId,
+        cursor,
+        batchSize
+      );
+      if (page.length === 0) {
+        break;
+      }
+
+      for (const row of page) {
+        await applyRow(row);
+      }
+      // Rows re-read from the safety window were counted when first pulled
+      const pulled = page.filter(row => isAfterCursor(toCursor(row), storedCursor)).length;
+      this.countRun('pulled', pulled);
+      this.advanceProgress('pull', pulled, estimateSize(page));
+
+      cursor = toCursor(page[page.length - 1]);
+      if (isAfterCursor(cursor, storedCursor)) {
+        await this.applier.setCursor(tableName, cursor);
+      }
+
+      if (page.length < batchSize) {
+        break;
       }
     }
 
-    // Update last sync time
-    await this.dbManager.setSetting('lastSyncTime', new Date().toISOString());
+    // A cancelled pull is not caught up, even though its cursor is saved
+    if (!this.cancelRequested) {
+      this.applier.markCaughtUp(tableName);
+    }
   }
 
-  private async handleRemoteGroup(remoteGroup: Group): Promise<void> {
-    const localGroup = await GroupsDAO.getGroupById(remoteGroup.id);
+  // Tombstones page like rows, with a cursor of their own
+  private async pullTombstones(userId: string): Promise<void> {
+    const storedCursor = await this.applier.getCursor('tombstones');
+    let cursor = rewindCursor(storedCursor, SYNC_CONFIG.pullSafetyWindow);
 
-    if (!localGroup) {
-      // New group from server
-      await GroupsDAO.upsertGroupFromSync({
-        ...remoteGroup,
-        is_deleted: remoteGroup.is_deleted ? 1 : 0,
-      });
-    } else {
-      // Conflict resolution
-      const resolved = resolveConflict(localGroup, remoteGroup, 'latest');
-      
-      if (resolved === remoteGroup) {
-        await GroupsDAO.upsertGroupFromSync({
-          ...remoteGroup,
-          is_deleted: remoteGroup.is_deleted ? 1 : 0,
-        });
+    while (!this.cancelRequested) {
+      const { batchSize } = this.schedule;
+      const page = await this.backend.pullTombstones(userId, cursor, batchSize);
+      if (page.length === 0) {
+        break;
+      }
+
+      for (const tombstone of page) {
+        await this.applier.applyTombstone(tombstone);
+      }
+
+      cursor = toCursor(page[page.length - 1]);
+      if (isAfterCursor(cursor, storedCursor)) {
+        await this.applier.setCursor('tombstones', cursor);
+      }
+
+      if (page.length < batchSize) {
+        break;
       }
     }
   }
 
-  private async handleRemoteNote(remoteNote: Note): Promise<void> {
-    const localNote = await NotesDAO.getNoteById(remoteNote.id);
+  // Only used for progress, so a failed count leaves the total unknown
+  private async countRemoteChanges(userId: string): Promise<number | null> {
+    try {
+      let total = 0;
+      for (const tableName of ['groups', 'notes'] as const) {
+        const cursor = await this.applier.getCursor(tableName);
+        total += await this.backend.countChanges(tableName, userId, cursor);
+      }
+      return total;
+    } catch (error) {
+      console.error('Failed to count remote changes:', error);
+      return null;
+    }
+  }
+
+  async getConflicts(userId: string): Promise<SyncConflict[]> {
+    const conflicts = await SyncConflictsDAO.getUnresolvedConflicts(userId);
+    return conflicts.map(conflict => this.toSyncConflict(conflict));
+  }
+
+  async getConflictCount(userId: string): Promise<number> {
+    return SyncConflictsDAO.getUnresolvedCount(userId);
+  }
+
+  // Write the chosen side of the conflicting fields locally and queue the note
+  // or group so it overwrites the server copy
+  async resolveConflict(conflictId: string, resolution: ConflictResolution): Promise<void> {
+    const conflict = await SyncConflictsDAO.getConflictById(conflictId);
+    if (!conflict || conflict.resolved_at) {
+      throw new Error('Conflict not found');
+    }
+
+    let chosen: Note | Group;
+    switch (resolution.resolution) {
+      case 'local':
+        chosen = resolution.localVersion;
+        break;
+      case 'remote':
+        chosen = resolution.remoteVersion;
+        break;
+      case 'merge':
+        chosen = resolution.resolvedVersion ?? JSON.parse(conflict.merged_data);
+        break;
+    }
 
-    if (!localNote) {
-      // New note from server
-      await NotesDAO.upsertNoteFromSync({
-        ...remoteNote,
-        content: JSON.stringify(remoteNote.content),
-        is_deleted: remoteNote.is_deleted ? 1 : 0,
+    const timestamp = getServerNow().toISOString();
+    const fields: string[] = JSON.parse(conflict.fields);
+
+    if (conflict.table_name === 'notes') {
+      const current = await NotesDAO.getNoteById(conflict.record_id, true);
+      const note = current
+        ? applyResolution(this.applier.toRemoteNote(current), chosen as Note, fields)
+        : chosen as Note;
+      const resolved = this.applier.toLocalNote({
+        ...note,
+        updated_at: timestamp,
+        version: Math.max(chosen.version, resolution.remoteVersion.version, current?.version ?? 0) + 1,
       });
+
+      await NotesDAO.upsertNoteFromSync(resolved, true);
     } else {
-      // Conflict resolution
-      const resolved = resolveConflict(localNote, remoteNote, 'latest');
-      
-      if (resolved === remoteNote) {
-        await NotesDAO.upsertNoteFromSync({
-          ...remoteNote,
-          content: JSON.stringify(remoteNote.content),
-          is_deleted: remoteNote.is_deleted ? 1 : 0,
-        });
-      }
+      const current = await GroupsDAO.getGroupById(conflict.record_id, true);
+      const group = current
+        ? applyResolution(this.applier.toRemoteGroup(current), chosen as Group, fields)
+        : chosen as Group;
+      const resolved = this.applier.toLocalGroup({
+        ...group,
+        updated_at: timestamp,
+        version: Math.max(chosen.version, resolution.remoteVersion.version, current?.version ?? 0) + 1,
+      });
+
+      await GroupsDAO.upsertGroupFromSync(resolved, true);
     }
+
+    await SyncConflictsDAO.markResolved(conflictId, resolution.resolution);
   }
 
-  startPeriodicSync(intervalMs: number = 30000): void {
-    if (this.syncInterval) {
-      clearInterval(this.syncInterval);
-    }
+  private toSyncConflict(conflict: LocalSyncConflict): SyncConflict {
+    return {
+      id: conflict.id,
+      table_name: conflict.table_name,
+      record_id: conflict.record_id,
+      fields: JSON.parse(conflict.fields),
+      localVersion: JSON.parse(conflict.local_data),
+      remoteVersion: JSON.parse(conflict.remote_data),
+      mergedVersion: JSON.parse(conflict.merged_data),
+      created_at: conflict.created_at,
+    };
+  }
 
-    this.syncInterval = setInterval(() => {
-      if (this.isOnline) {
-        this.startSync();
-      }
-    }, intervalMs);
+  async getQueueSize(userId: string): Promise<number> {
+    return this.dbManager.getSyncQueueSize(userId);
+  }
+
+  async getFailedItems(userId: string): Promise<SyncQueueItem[]> {
+    return this.dbManager.getFailedSyncItems(userId);
+  }
+
+  async retryFailedItem(id: string): Promise<void> {
+    await this.dbManager.retryFailedSyncItem(id);
+  }
+
+  async discardFailedItem(id: string): Promise<void> {
+    await this.dbManager.discardFailedSyncItem(id);
+  }
+
+  // Without an explicit interval the period follows the sync schedule
+  startPeriodicSync(intervalMs?: number): void {
+    this.periodicIntervalMs = intervalMs ?? null;
+    this.armPeriodicSync(intervalMs ?? this.schedule.intervalMs);
   }
 
   stopPeriodicSync(): void {
@@ -317,6 +1065,19 @@ export class SyncService {
       clearInterval(this.syncInterval);
       this.syncInterval = null;
     }
+    this.periodicIntervalMs = null;
+  }
+
+  private armPeriodicSync(intervalMs: number): void {
+    if (this.syncInterval) {
+      clearInterval(this.syncInterval);
+    }
+
+    this.syncInterval = setInterval(() => {
+      if (this.isOnline && this.schedule.mode !== 'paused') {
+        this.startSync();
+      }
+    }, intervalMs);
   }
 
   async forceSyncNow(userId: string): Promise<void> {
@@ -330,4 +1091,8 @@ export class SyncService {
   getIsSyncing(): boolean {
     return this.isSyncing;
   }
+
+  getClockSkew(): number | null {
+    return this.clockSkewMs;
+  }
 }
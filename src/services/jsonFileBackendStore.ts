@@ -0,0 +1,18 @@
+import RNFS from 'react-native-fs';
+import type { LocalBackendSnapshot, LocalBackendStore } from './LocalSyncBackend';
+
+// Keeps a LocalSyncBackend's rows in a JSON file on the device
+export const createJsonFileBackendStore = (
+  filePath: string = `${RNFS.DocumentDirectoryPath}/sync-server.json`
+): LocalBackendStore => ({
+  async load(): Promise<LocalBackendSnapshot | null> {
+    if (!(await RNFS.exists(filePath))) {
+      return null;
+    }
+    return JSON.parse(await RNFS.readFile(filePath, 'utf8'));
+  },
+
+  async save(snapshot: LocalBackendSnapshot): Promise<void> {
+    await RNFS.writeFile(filePath, JSON.stringify(snapshot), 'utf8');
+  },
+});
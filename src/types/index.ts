@@ -7,6 +7,15 @@ export interface User {
   updated_at: string;
 }
 
+// An account signed in on this device, each with a database file of its own
+export interface Account {
+  userId: string;
+  email: string;
+  databaseName: string;
+  lastActiveAt: string;
+  encrypted?: boolean; // Opened with a passphrase that is never stored
+}
+
 export interface Group {
   id: string;
   name: string;
@@ -16,8 +25,13 @@ export interface Group {
   updated_at: string;
   version: number;
   is_deleted: boolean;
+  server_updated_at?: string; // Set by the server on every write
+  sync_policy?: SyncPolicy; // Chosen per device, never sent to the server
 }
 
+// Whether a group and its notes leave the device
+export type SyncPolicy = 'sync' | 'local_only';
+
 export interface Note {
   id: string;
   title: string;
@@ -31,6 +45,7 @@ export interface Note {
   version: number;
   is_deleted: boolean;
   deleted_at: string | null;
+  server_updated_at?: string; // Set by the server on every write
 }
 
 // Quill Delta format for rich text content
@@ -64,6 +79,24 @@ export interface QuillAttributes {
 }
 
 // Sync-related types
+
+// Replace deleteCount characters at start with insert
+export interface TextSplice {
+  start: number;
+  deleteCount: number;
+  insert: string;
+}
+
+// A note UPDATE sent as an edit of the version it was made from, so a small
+// change to a long note does not upload the whole document
+export interface NotePatch {
+  base_version: number;
+  values: Partial<Pick<Note, 'title' | 'group_id' | 'updated_at' | 'version' | 'is_deleted' | 'deleted_at'>>;
+  content?: QuillOp[]; // Quill Delta diff, absent when unchanged
+  content_markdown?: TextSplice;
+  content_plain?: TextSplice;
+}
+
 export interface SyncOperation {
   id: string;
   table_name: 'notes' | 'groups';
@@ -85,6 +118,8 @@ export interface SyncQueueItem {
   created_at: string;
   retry_count: number;
   last_error: string | null;
+  next_attempt_at: string | null;
+  patch: string | null;
 }
 
 // App state types
@@ -106,6 +141,42 @@ export interface SyncStatus {
   lastSyncTime: string | null;
   pendingOperations: number;
   error: string | null;
+  clockSkewMs: number | null;
+  schedule: SyncSchedule;
+  progress: SyncProgress | null;
+}
+
+export type SyncPhase = 'push' | 'pull';
+
+export interface SyncPhaseProgress {
+  done: number;
+  total: number | null; // null until known
+}
+
+// How far the sync in progress has got
+export interface SyncProgress {
+  phase: SyncPhase;
+  push: SyncPhaseProgress;
+  pull: SyncPhaseProgress;
+  bytesTransferred: number; // Size of the JSON sent and received
+  etaMs: number | null; // null until there is a rate to go by
+}
+
+// User choices for syncing on cellular or other metered connections
+export interface SyncPreferences {
+  syncLargeNotesOnWifiOnly: boolean;
+  pauseBackgroundSyncOnCellular: boolean;
+}
+
+export type SyncScheduleMode = 'offline' | 'unmetered' | 'metered' | 'paused';
+
+// How sync currently runs given the connection, app state and preferences
+export interface SyncSchedule {
+  mode: SyncScheduleMode;
+  intervalMs: number; // Between periodic syncs
+  batchSize: number;
+  maxNoteSize: number | null; // Larger note changes wait for an unmetered connection
+  reason: string | null; // Shown to the user when sync is held back
 }
 
 // UI-related types
@@ -206,6 +277,8 @@ export interface AppSettings {
   autoSaveDelay: number; // milliseconds
   offlineMode: boolean;
   syncOnStartup: boolean;
+  syncLargeNotesOnWifiOnly: boolean;
+  pauseBackgroundSyncOnCellular: boolean;
   windowLayout: WindowLayout;
   lastSelectedNoteId: string | null;
   lastSelectedGroupId: string | null;
@@ -240,7 +313,8 @@ export interface BackupData {
 export interface SearchResult {
   note: Note;
   matches: SearchMatch[];
-  score: number;
+  score: number; // Higher is a better match
+  snippet: string; // Text around the matches, each wrapped in <mark>
 }
 
 export interface SearchMatch {
@@ -258,6 +332,56 @@ export interface ConflictResolution {
   resolvedVersion?: Note | Group;
 }
 
+export interface SyncConflict {
+  id: string;
+  table_name: 'notes' | 'groups';
+  record_id: string;
+  fields: string[]; // Fields edited on both sides
+  localVersion: Note | Group;
+  remoteVersion: Note | Group;
+  mergedVersion: Note | Group; // Automatic merge, conflicting fields taken from the latest edit
+  created_at: string;
+}
+
+// Sync diagnostics types
+export interface SyncLogEntry {
+  id: string;
+  kind: 'run' | 'realtime';
+  startedAt: string | null; // Sync runs only
+  finishedAt: string | null;
+  durationMs: number | null;
+  pushed: number;
+  pulled: number;
+  conflicts: number;
+  errors: string[];
+  tableName: string | null; // Realtime events only
+  recordId: string | null;
+  eventType: string | null;
+  createdAt: string;
+}
+
+// A sync payload that failed validation, kept for inspection
+export interface QuarantinedRecord {
+  id: string;
+  tableName: string;
+  recordId: string | null;
+  direction: 'inbound' | 'outbound'; // Pulled from or about to be pushed to the server
+  data: string;
+  errors: string[];
+  createdAt: string;
+}
+
+export interface SyncLogExport {
+  version: string;
+  exportDate: string;
+  platform: string;
+  clockSkewMs: number;
+  pendingOperations: number;
+  failedOperations: number;
+  entries: SyncLogEntry[];
+  quarantine: QuarantinedRecord[];
+}
+
 // Platform-specific types
 export interface PlatformCapabilities {
   supportsMultiWindow: boolean;
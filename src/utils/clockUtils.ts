@@ -0,0 +1,21 @@
+// Offset of this device's clock from the sync server's, in milliseconds.
+// Positive when the device runs ahead. Timestamps written to synced records
+// are corrected by it, so a device with a wrong clock does not win every
+// "latest edit" comparison.
+let clockSkewMs = 0;
+
+export const setClockSkew = (skewMs: number): void => {
+  clockSkewMs = skewMs;
+};
+
+export const getClockSkew = (): number => clockSkewMs;
+
+// Current time on the server's clock, as far as this device can tell
+export const getServerNow = (): Date => {
+  return new Date(Date.now() - clockSkewMs);
+};
+
+// The server is assumed to have read its clock halfway through the round trip
+export const measureClockSkew = (sentAt: number, serverTime: number, receivedAt: number): number => {
+  return Math.round((sentAt + receivedAt) / 2 - serverTime);
+};
@@ -0,0 +1,80 @@
+import { gcm } from '@noble/ciphers/aes';
+import { randomBytes } from '@noble/ciphers/webcrypto';
+import { pbkdf2Async } from '@noble/hashes/pbkdf2';
+import { sha256 } from '@noble/hashes/sha2';
+
+// Note text is encrypted with AES-256-GCM under a random data key. Each value
+// gets a fresh nonce and is stored as base64(nonce || ciphertext || tag).
+const KEY_LENGTH = 32;
+const NONCE_LENGTH = 12;
+const SALT_LENGTH = 16;
+// Kept with the wrapped key, so it can be raised without breaking older ones
+export const KEY_DERIVATION_ITERATIONS = 100000;
+
+// The data key, encrypted with a key derived from the passphrase
+export interface WrappedKey {
+  salt: string; // base64
+  iterations: number;
+  wrapped_key: string; // Sealed like any other value
+}
+
+// Hermes has btoa/atob but no TextDecoder, so text goes through binary strings
+const toBinary = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return binary;
+};
+
+const fromBinary = (binary: string): Uint8Array => Uint8Array.from(binary, char => char.charCodeAt(0));
+
+const utf8ToBytes = (text: string): Uint8Array => fromBinary(unescape(encodeURIComponent(text)));
+
+const bytesToUtf8 = (bytes: Uint8Array): string => decodeURIComponent(escape(toBinary(bytes)));
+
+const seal = (key: Uint8Array, plaintext: Uint8Array): string => {
+  const nonce = randomBytes(NONCE_LENGTH);
+  const ciphertext = gcm(key, nonce).encrypt(plaintext);
+
+  const sealed = new Uint8Array(NONCE_LENGTH + ciphertext.length);
+  sealed.set(nonce);
+  sealed.set(ciphertext, NONCE_LENGTH);
+  return btoa(toBinary(sealed));
+};
+
+// Throws when the key is wrong or the value was altered
+const open = (key: Uint8Array, sealed: string): Uint8Array => {
+  const bytes = fromBinary(atob(sealed));
+  return gcm(key, bytes.subarray(0, NONCE_LENGTH)).decrypt(bytes.subarray(NONCE_LENGTH));
+};
+
+export const generateKey = (): Uint8Array => randomBytes(KEY_LENGTH);
+
+export const encryptText = (key: Uint8Array, text: string): string => seal(key, utf8ToBytes(text));
+
+export const decryptText = (key: Uint8Array, sealed: string): string => bytesToUtf8(open(key, sealed));
+
+const deriveKey = (passphrase: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> =>
+  pbkdf2Async(sha256, utf8ToBytes(passphrase), salt, { c: iterations, dkLen: KEY_LENGTH });
+
+// Changing the passphrase only wraps the same data key again
+export const wrapKey = async (dataKey: Uint8Array, passphrase: string): Promise<WrappedKey> => {
+  const salt = randomBytes(SALT_LENGTH);
+  const keyKey = await deriveKey(passphrase, salt, KEY_DERIVATION_ITERATIONS);
+  return {
+    salt: btoa(toBinary(salt)),
+    iterations: KEY_DERIVATION_ITERATIONS,
+    wrapped_key: seal(keyKey, dataKey),
+  };
+};
+
+// Null when the passphrase is wrong
+export const unwrapKey = async (wrapped: WrappedKey, passphrase: string): Promise<Uint8Array | null> => {
+  const keyKey = await deriveKey(passphrase, fromBinary(atob(wrapped.salt)), wrapped.iterations);
+  try {
+    return open(keyKey, wrapped.wrapped_key);
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,227 @@
+import Delta, { Op } from 'quill-delta';
+import { QuillDelta, QuillOp, Note, Group } from '../types';
+import { deltaToMarkdown, deltaToPlainText, resolveConflict } from './dataUtils';
+import { getServerNow } from './clockUtils';
+
+export interface MergeResult<T> {
+  merged: T;
+  conflicts: string[]; // Fields edited on both sides in overlapping ways
+  hasLocalChanges: boolean; // Merged record differs from remote and must be pushed
+}
+
+export const NOTE_MERGE_FIELDS = ['title', 'group_id', 'content', 'is_deleted'] as const;
+export const GROUP_MERGE_FIELDS = ['name', 'color', 'is_deleted'] as const;
+
+const isEqual = (a: any, b: any): boolean => {
+  return JSON.stringify(a) === JSON.stringify(b);
+};
+
+const setField = <T, K extends keyof T>(record: T, field: K, value: T[K]): void => {
+  record[field] = value;
+};
+
+// Stored ops as quill-delta types them. Embeds and attributes are plain
+// objects either way; only their declared types differ.
+export const toDeltaOps = (ops: QuillOp[] = []): Op[] =>
+  ops.map(({ insert, attributes, ...op }) => ({
+    ...op,
+    ...(insert === undefined ? {} : { insert: typeof insert === 'string' ? insert : { ...insert } }),
+    ...(attributes ? { attributes: { ...attributes } } : {}),
+  }));
+
+// Ranges of the base document touched by a change delta, in base coordinates.
+// Inserts are zero-length ranges at their insertion point.
+const getChangedRanges = (change: Delta): Array<[number, number]> => {
+  const ranges: Array<[number, number]> = [];
+  let position = 0;
+
+  for (const op of change.ops) {
+    if (typeof op.retain === 'number') {
+      if (op.attributes) {
+        ranges.push([position, position + op.retain]);
+      }
+      position += op.retain;
+    } else if (typeof op.delete === 'number') {
+      ranges.push([position, position + op.delete]);
+      position += op.delete;
+    } else if (op.insert !== undefined) {
+      ranges.push([position, position]);
+    }
+  }
+
+  return ranges;
+};
+
+const rangesOverlap = (a: [number, number], b: [number, number]): boolean => {
+  const aIsPoint = a[0] === a[1];
+  const bIsPoint = b[0] === b[1];
+
+  if (aIsPoint && bIsPoint) {
+    // Two inserts at the same position have no meaningful order
+    return a[0] === b[0];
+  }
+  if (aIsPoint) {
+    return a[0] > b[0] && a[0] < b[1];
+  }
+  if (bIsPoint) {
+    return b[0] > a[0] && b[0] < a[1];
+  }
+  return a[0] < b[1] && b[0] < a[1];
+};
+
+export const hasOverlappingChanges = (localChange: Delta, remoteChange: Delta): boolean => {
+  const localRanges = getChangedRanges(localChange);
+  const remoteRanges = getChangedRanges(remoteChange);
+
+  return localRanges.some(local =>
+    remoteRanges.some(remote => rangesOverlap(local, remote))
+  );
+};
+
+// Merge two edited versions of a Quill document against their common base.
+// Returns null when both sides edited the same region of the document.
+export const mergeDeltas = (
+  base: QuillDelta,
+  local: QuillDelta,
+  remote: QuillDelta
+): QuillDelta | null => {
+  const baseDelta = new Delta(toDeltaOps(base.ops));
+  const localChange = baseDelta.diff(new Delta(toDeltaOps(local.ops)));
+  const remoteChange = baseDelta.diff(new Delta(toDeltaOps(remote.ops)));
+
+  if (hasOverlappingChanges(localChange, remoteChange)) {
+    return null;
+  }
+
+  // Apply the remote change first, then the local change rebased on top of it
+  const merged = baseDelta
+    .compose(remoteChange)
+    .compose(remoteChange.transform(localChange, true));
+
+  return { ops: merged.ops as QuillDelta['ops'] };
+};
+
+// Merge a single scalar field. Returns undefined when both sides changed it differently.
+const mergeField = <T>(base: T, local: T, remote: T): T | undefined => {
+  if (isEqual(local, remote)) {
+    return remote;
+  }
+  if (isEqual(local, base)) {
+    return remote;
+  }
+  if (isEqual(remote, base)) {
+    return local;
+  }
+  return undefined;
+};
+
+export const mergeNotes = (
+  base: Note | null,
+  local: Note,
+  remote: Note
+): MergeResult<Note> => {
+  const latest: Note = resolveConflict(local, remote, 'latest');
+  const merged: Note = { ...remote };
+  const conflicts: string[] = [];
+
+  for (const field of NOTE_MERGE_FIELDS) {
+    if (field === 'content') {
+      continue;
+    }
+
+    const value = base ? mergeField<any>(base[field], local[field], remote[field]) : undefined;
+    if (value !== undefined) {
+      setField(merged, field, value);
+    } else if (isEqual(local[field], remote[field])) {
+      setField(merged, field, remote[field]);
+    } else {
+      conflicts.push(field);
+      setField(merged, field, latest[field]);
+    }
+  }
+
+  merged.deleted_at = merged.is_deleted ? remote.deleted_at ?? local.deleted_at : null;
+
+  // Content is merged at the delta level so non-overlapping edits both survive
+  if (isEqual(local.content, remote.content)) {
+    merged.content = remote.content;
+  } else if (base && isEqual(local.content, base.content)) {
+    merged.content = remote.content;
+  } else if (base && isEqual(remote.content, base.content)) {
+    merged.content = local.content;
+    merged.content_markdown = local.content_markdown;
+    merged.content_plain = local.content_plain;
+  } else {
+    const mergedContent = base
+      ? mergeDeltas(base.content, local.content, remote.content)
+      : null;
+
+    if (mergedContent) {
+      merged.content = mergedContent;
+      merged.content_markdown = deltaToMarkdown(mergedContent);
+      merged.content_plain = deltaToPlainText(mergedContent);
+    } else {
+      conflicts.push('content');
+      merged.content = latest.content;
+      merged.content_markdown = latest.content_markdown;
+      merged.content_plain = latest.content_plain;
+    }
+  }
+
+  const hasLocalChanges = NOTE_MERGE_FIELDS.some(field => !isEqual(merged[field], remote[field]));
+
+  if (hasLocalChanges) {
+    merged.version = Math.max(local.version, remote.version) + 1;
+    merged.updated_at = getServerNow().toISOString();
+  }
+
+  return { merged, conflicts, hasLocalChanges };
+};
+
+export const mergeGroups = (
+  base: Group | null,
+  local: Group,
+  remote: Group
+): MergeResult<Group> => {
+  const latest: Group = resolveConflict(local, remote, 'latest');
+  const merged: Group = { ...remote };
+  const conflicts: string[] = [];
+
+  for (const field of GROUP_MERGE_FIELDS) {
+    const value = base ? mergeField<any>(base[field], local[field], remote[field]) : undefined;
+    if (value !== undefined) {
+      setField(merged, field, value);
+    } else if (isEqual(local[field], remote[field])) {
+      setField(merged, field, remote[field]);
+    } else {
+      conflicts.push(field);
+      setField(merged, field, latest[field]);
+    }
+  }
+
+  const hasLocalChanges = GROUP_MERGE_FIELDS.some(field => !isEqual(merged[field], remote[field]));
+
+  if (hasLocalChanges) {
+    merged.version = Math.max(local.version, remote.version) + 1;
+    merged.updated_at = getServerNow().toISOString();
+  }
+
+  return { merged, conflicts, hasLocalChanges };
+};
+
+// Fields stored alongside a merge field, which always take the same side
+const DEPENDENT_FIELDS: Record<string, string[]> = {
+  content: ['content_markdown', 'content_plain'],
+  is_deleted: ['deleted_at'],
+};
+
+// A conflict resolution decides only the fields that conflicted. The rest keep
+// their current value, including edits made after the conflict was recorded.
+export const applyResolution = <T extends Note | Group>(current: T, chosen: T, fields: string[]): T => {
+  const decided = fields.flatMap(name => [name, ...(DEPENDENT_FIELDS[name] ?? [])]) as Array<keyof T>;
+  const resolved: T = { ...current };
+  for (const field of decided) {
+    resolved[field] = chosen[field];
+  }
+  return resolved;
+};
@@ -0,0 +1,106 @@
+import Delta from 'quill-delta';
+import { Note, NotePatch, QuillDelta, TextSplice } from '../types';
+import { toDeltaOps } from './mergeUtils';
+
+// Fields small enough to always send whole
+const SCALAR_FIELDS = [
+  'title',
+  'group_id',
+  'updated_at',
+  'version',
+  'is_deleted',
+  'deleted_at',
+] as const;
+
+// The single edit that turns one string into the other: everything between
+// the common prefix and the common suffix is replaced
+export const diffText = (before: string, after: string): TextSplice | null => {
+  if (before === after) {
+    return null;
+  }
+
+  let start = 0;
+  while (start < before.length && start < after.length && before[start] === after[start]) {
+    start++;
+  }
+
+  let end = 0;
+  while (
+    end < before.length - start &&
+    end < after.length - start &&
+    before[before.length - 1 - end] === after[after.length - 1 - end]
+  ) {
+    end++;
+  }
+
+  return {
+    start,
+    deleteCount: before.length - start - end,
+    insert: after.slice(start, after.length - end),
+  };
+};
+
+export const applyTextSplice = (text: string, splice: TextSplice): string =>
+  text.slice(0, splice.start) + splice.insert + text.slice(splice.start + splice.deleteCount);
+
+// Describe the note as an edit of the last synced version. Returns null when
+// the patch would not be smaller than sending the note whole.
+export const createNotePatch = (base: Note, note: Note): NotePatch | null => {
+  const patch: NotePatch = { base_version: base.version, values: {} };
+
+  const copyField = <K extends (typeof SCALAR_FIELDS)[number]>(field: K) => {
+    patch.values[field] = note[field];
+  };
+  SCALAR_FIELDS.forEach(copyField);
+
+  try {
+    const contentDiff = new Delta(toDeltaOps(base.content?.ops)).diff(new Delta(toDeltaOps(note.content?.ops)));
+    if (contentDiff.ops.length > 0) {
+      patch.content = contentDiff.ops as QuillDelta['ops'];
+    }
+  } catch {
+    // diff() only works on documents, i.e. deltas made of inserts
+    return null;
+  }
+
+  const markdownSplice = diffText(base.content_markdown ?? '', note.content_markdown ?? '');
+  if (markdownSplice) {
+    patch.content_markdown = markdownSplice;
+  }
+
+  const plainSplice = diffText(base.content_plain ?? '', note.content_plain ?? '');
+  if (plainSplice) {
+    patch.content_plain = plainSplice;
+  }
+
+  const fullSize = JSON.stringify({
+    content: note.content,
+    content_markdown: note.content_markdown,
+    content_plain: note.content_plain,
+  }).length;
+  const patchSize = JSON.stringify({
+    content: patch.content,
+    content_markdown: patch.content_markdown,
+    content_plain: patch.content_plain,
+  }).length;
+
+  return patchSize < fullSize ? patch : null;
+};
+
+// Server side of a patch: the row must be the version the patch was made from
+export const applyNotePatch = (note: Note, patch: NotePatch): Note => {
+  const patched: Note = { ...note, ...patch.values };
+
+  if (patch.content) {
+    const composed = new Delta(toDeltaOps(note.content?.ops)).compose(new Delta(toDeltaOps(patch.content)));
+    patched.content = { ops: composed.ops as QuillDelta['ops'] };
+  }
+  if (patch.content_markdown) {
+    patched.content_markdown = applyTextSplice(note.content_markdown ?? '', patch.content_markdown);
+  }
+  if (patch.content_plain) {
+    patched.content_plain = applyTextSplice(note.content_plain ?? '', patch.content_plain);
+  }
+
+  return patched;
+};
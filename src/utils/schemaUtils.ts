@@ -0,0 +1,190 @@
+import type { Database } from '../config/supabase';
+import { QuillDelta, QuillOp } from '../types';
+import type { SyncTable, Tombstone } from '../services/SyncBackend';
+
+// Minimal runtime validators in the style of zod: build a schema from small
+// pieces, then safeParse untrusted values against it
+
+export type SchemaResult<T> =
+  | { success: true; data: T }
+  | { success: false; errors: string[] };
+
+export interface Schema<T> {
+  // Messages for every problem found, prefixed with the path to the value
+  check(value: unknown, path: string): string[];
+  safeParse(value: unknown): SchemaResult<T>;
+}
+
+// One schema per property, required or not
+export type Shape<T> = { [K in keyof T]-?: Schema<T[K]> };
+
+const at = (path: string) => path || 'value';
+
+const describeType = (value: unknown): string => {
+  if (value === null) {
+    return 'null';
+  }
+  return Array.isArray(value) ? 'array' : typeof value;
+};
+
+export const custom = <T>(check: (value: unknown, path: string) => string[]): Schema<T> => ({
+  check,
+  safeParse(value: unknown): SchemaResult<T> {
+    const errors = check(value, '');
+    return errors.length === 0
+      ? { success: true, data: value as T }
+      : { success: false, errors };
+  },
+});
+
+const typed = <T>(type: string, extra?: (value: any) => string | null): Schema<T> =>
+  custom<T>((value, path) => {
+    if (describeType(value) !== type) {
+      return [`${at(path)}: expected ${type}, received ${describeType(value)}`];
+    }
+    const problem = extra?.(value);
+    return problem ? [`${at(path)}: ${problem}`] : [];
+  });
+
+export const string = (options: { minLength?: number } = {}): Schema<string> =>
+  typed<string>('string', value =>
+    options.minLength !== undefined && value.length < options.minLength
+      ? `expected at least ${options.minLength} character(s)`
+      : null
+  );
+
+export const number = (options: { integer?: boolean; min?: number } = {}): Schema<number> =>
+  typed<number>('number', value => {
+    if (!Number.isFinite(value)) {
+      return 'expected a finite number';
+    }
+    if (options.integer && !Number.isInteger(value)) {
+      return 'expected an integer';
+    }
+    if (options.min !== undefined && value < options.min) {
+      return `expected at least ${options.min}`;
+    }
+    return null;
+  });
+
+export const boolean = (): Schema<boolean> => typed<boolean>('boolean');
+
+// An ISO 8601 date string
+export const timestamp = (): Schema<string> =>
+  typed<string>('string', value =>
+    Number.isNaN(Date.parse(value)) ? 'expected an ISO timestamp' : null
+  );
+
+export const oneOf = <T extends string>(values: readonly T[]): Schema<T> =>
+  custom<T>((value, path) =>
+    values.includes(value as T)
+      ? []
+      : [`${at(path)}: expected one of ${values.join(', ')}`]
+  );
+
+export const nullable = <T>(schema: Schema<T>): Schema<T | null> =>
+  custom<T | null>((value, path) => (value === null ? [] : schema.check(value, path)));
+
+export const optional = <T>(schema: Schema<T>): Schema<T | undefined> =>
+  custom<T | undefined>((value, path) => (value === undefined ? [] : schema.check(value, path)));
+
+export const array = <T>(schema: Schema<T>): Schema<T[]> =>
+  custom<T[]>((value, path) => {
+    if (!Array.isArray(value)) {
+      return [`${at(path)}: expected array, received ${describeType(value)}`];
+    }
+    return value.flatMap((item, index) => schema.check(item, `${path}[${index}]`));
+  });
+
+// Unknown properties are allowed, as the server may add columns
+export const object = <T>(shape: Shape<T>): Schema<T> =>
+  custom<T>((value, path) => {
+    if (describeType(value) !== 'object') {
+      return [`${at(path)}: expected object, received ${describeType(value)}`];
+    }
+    const record = value as Record<string, unknown>;
+    return (Object.keys(shape) as Array<keyof T & string>).flatMap(key =>
+      shape[key].check(record[key], path ? `${path}.${key}` : key)
+    );
+  });
+
+// Sync payloads
+
+type GroupRow = Database['public']['Tables']['groups']['Row'];
+type NoteRow = Database['public']['Tables']['notes']['Row'];
+
+// server_updated_at is stamped by the server, so rows about to be pushed
+// have none yet
+type SyncPayload<Row> = Omit<Row, 'server_updated_at'> & { server_updated_at?: string };
+
+// An op inserts, deletes or retains, never more than one at once
+const quillOpSchema = custom<QuillOp>((value, path) => {
+  if (describeType(value) !== 'object') {
+    return [`${at(path)}: expected object, received ${describeType(value)}`];
+  }
+
+  const op = value as QuillOp;
+  const kinds = (['insert', 'delete', 'retain'] as const).filter(kind => op[kind] !== undefined);
+  if (kinds.length !== 1) {
+    return [`${at(path)}: expected exactly one of insert, delete, retain`];
+  }
+
+  const errors = op.attributes === undefined || describeType(op.attributes) === 'object'
+    ? []
+    : [`${path}.attributes: expected object, received ${describeType(op.attributes)}`];
+  if (op.insert !== undefined) {
+    return typeof op.insert === 'string' || describeType(op.insert) === 'object'
+      ? errors
+      : [...errors, `${path}.insert: expected string or object, received ${describeType(op.insert)}`];
+  }
+  return [...errors, ...number({ integer: true, min: 1 }).check(op[kinds[0]], `${path}.${kinds[0]}`)];
+});
+
+export const quillDeltaSchema: Schema<QuillDelta> = object<QuillDelta>({
+  ops: array(quillOpSchema),
+});
+
+export const groupPayloadSchema: Schema<SyncPayload<GroupRow>> = object<SyncPayload<GroupRow>>({
+  id: string({ minLength: 1 }),
+  name: string(),
+  color: string(),
+  user_id: string({ minLength: 1 }),
+  created_at: timestamp(),
+  updated_at: timestamp(),
+  server_updated_at: optional(timestamp()),
+  version: number({ integer: true, min: 1 }),
+  is_deleted: boolean(),
+});
+
+export const notePayloadSchema: Schema<SyncPayload<NoteRow>> = object<SyncPayload<NoteRow>>({
+  id: string({ minLength: 1 }),
+  title: string(),
+  content: quillDeltaSchema,
+  content_markdown: string(),
+  content_plain: string(),
+  group_id: nullable(string({ minLength: 1 })),
+  user_id: string({ minLength: 1 }),
+  created_at: timestamp(),
+  updated_at: timestamp(),
+  server_updated_at: optional(timestamp()),
+  version: number({ integer: true, min: 1 }),
+  is_deleted: boolean(),
+  deleted_at: nullable(timestamp()),
+});
+
+export const tombstoneSchema: Schema<Tombstone> = object<Tombstone>({
+  id: string({ minLength: 1 }),
+  table_name: oneOf(['notes', 'groups'] as const),
+  user_id: string({ minLength: 1 }),
+  version: number({ integer: true, min: 1 }),
+  deleted_at: timestamp(),
+  server_updated_at: timestamp(),
+});
+
+// Problems with a row in the server shape, none when it is safe to apply or push
+export const validateSyncRow = (tableName: SyncTable, row: unknown): string[] => {
+  const result = tableName === 'notes'
+    ? notePayloadSchema.safeParse(row)
+    : groupPayloadSchema.safeParse(row);
+  return result.success ? [] : result.errors;
+};
@@ -0,0 +1,127 @@
+import { SearchMatch } from '../types';
+
+// A search term: a word, a word prefix (`north*`) or a phrase (`"northern star"`).
+// Excluded terms (`-draft`) rule a note out.
+export interface SearchTerm {
+  text: string;
+  prefix: boolean;
+  phrase: boolean;
+  exclude: boolean;
+}
+
+// Characters that make up a word, close to SQLite's unicode61 tokenizer
+const WORD_CHAR = /[A-Za-z0-9\u00C0-\uFFFF]/;
+const isWordChar = (char: string | undefined) => char !== undefined && WORD_CHAR.test(char);
+
+const trimToWord = (text: string): string => {
+  let start = 0;
+  let end = text.length;
+  while (start < end && !isWordChar(text[start])) {
+    start++;
+  }
+  while (end > start && !isWordChar(text[end - 1])) {
+    end--;
+  }
+  return text.slice(start, end);
+};
+
+const MARK_START = '<mark>';
+const MARK_END = '</mark>';
+const ELLIPSIS = '…';
+const SNIPPET_CONTEXT = 40; // Characters kept on each side of the first match
+
+export const parseSearchQuery = (query: string): SearchTerm[] => {
+  const terms: SearchTerm[] = [];
+  const pattern = /(-?)(?:"([^"]*)"?|(\S+))/g;
+
+  let found: RegExpExecArray | null;
+  while ((found = pattern.exec(query)) !== null) {
+    const [, minus, phrase, word] = found;
+    const isPhrase = phrase !== undefined;
+    const prefix = !isPhrase && word.endsWith('*');
+    // Punctuation around a word is not indexed, so it is left out of the term
+    const text = isPhrase ? phrase.trim() : trimToWord(word);
+
+    // Terms without a word character index nothing and could never match
+    if ([...text].some(isWordChar)) {
+      terms.push({ text, prefix, phrase: isPhrase, exclude: minus === '-' });
+    }
+  }
+
+  return terms;
+};
+
+// FTS5 MATCH expression for the terms, or null when nothing would match, as
+// with a query that only excludes
+export const toFtsQuery = (terms: SearchTerm[]): string | null => {
+  const quote = (term: SearchTerm) =>
+    `"${term.text.replace(/"/g, '""')}"${term.prefix ? '*' : ''}`;
+  const included = terms.filter(term => !term.exclude);
+  const excluded = terms.filter(term => term.exclude);
+
+  if (included.length === 0) {
+    return null;
+  }
+
+  return [`(${included.map(quote).join(' AND ')})`, ...excluded.map(quote)].join(' NOT ');
+};
+
+// Every occurrence of the included terms in one field, in order
+export const findMatches = (
+  text: string,
+  field: SearchMatch['field'],
+  terms: SearchTerm[]
+): SearchMatch[] => {
+  const haystack = text.toLowerCase();
+  const matches: SearchMatch[] = [];
+
+  terms.filter(term => !term.exclude).forEach(term => {
+    const needle = term.text.toLowerCase();
+    let start = haystack.indexOf(needle);
+
+    while (start !== -1) {
+      let end = start + needle.length;
+      if (term.prefix) {
+        while (isWordChar(text[end])) {
+          end++;
+        }
+      }
+
+      // Words match whole words only, like the full-text index
+      const wholeWord = !isWordChar(text[start - 1]) && !isWordChar(text[end]);
+      if (wholeWord) {
+        matches.push({ field, text: text.slice(start, end), start, end });
+      }
+      start = haystack.indexOf(needle, start + 1);
+    }
+  });
+
+  return matches
+    .sort((a, b) => a.start - b.start || b.end - a.end)
+    .filter((match, index, sorted) => index === 0 || match.start >= sorted[index - 1].end);
+};
+
+// Text around the first match with every match in it wrapped in <mark>,
+// the same format the full-text index's snippet() produces
+export const buildSnippet = (text: string, matches: SearchMatch[]): string => {
+  if (matches.length === 0) {
+    return text.length > SNIPPET_CONTEXT * 2 ? `${text.slice(0, SNIPPET_CONTEXT * 2)}${ELLIPSIS}` : text;
+  }
+
+  const from = Math.max(0, matches[0].start - SNIPPET_CONTEXT);
+  const to = Math.min(text.length, matches[0].end + SNIPPET_CONTEXT);
+
+  let snippet = from > 0 ? ELLIPSIS : '';
+  let position = from;
+  matches
+    .filter(match => match.start >= from && match.end <= to)
+    .forEach(match => {
+      snippet += `${text.slice(position, match.start)}${MARK_START}${text.slice(match.start, match.end)}${MARK_END}`;
+      position = match.end;
+    });
+  snippet += text.slice(position, to);
+
+  return to < text.length ? `${snippet}${ELLIPSIS}` : snippet;
+};
+
+export const SNIPPET_MARKERS = { start: MARK_START, end: MARK_END, ellipsis: ELLIPSIS };
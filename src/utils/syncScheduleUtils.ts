@@ -0,0 +1,64 @@
+import { SYNC_CONFIG } from '../constants';
+import { SyncPreferences, SyncSchedule } from '../types';
+
+// What the scheduler knows about the device right now
+export interface SyncConditions {
+  isConnected: boolean;
+  connectionType: string; // NetInfo type: wifi, cellular, ethernet, unknown...
+  isExpensive: boolean; // Metered Wi-Fi such as a phone hotspot counts too
+  appState: string; // React Native AppState: active, background, inactive
+}
+
+export const DEFAULT_SYNC_PREFERENCES: SyncPreferences = {
+  syncLargeNotesOnWifiOnly: false,
+  pauseBackgroundSyncOnCellular: false,
+};
+
+export const isMeteredConnection = (conditions: SyncConditions): boolean =>
+  conditions.connectionType === 'cellular' || conditions.isExpensive;
+
+export const getSyncSchedule = (
+  conditions: SyncConditions,
+  preferences: SyncPreferences
+): SyncSchedule => {
+  const inBackground = conditions.appState !== 'active';
+  const interval = inBackground ? SYNC_CONFIG.backgroundSyncInterval : SYNC_CONFIG.syncInterval;
+
+  if (!conditions.isConnected) {
+    return {
+      mode: 'offline',
+      intervalMs: interval,
+      batchSize: SYNC_CONFIG.batchSize,
+      maxNoteSize: null,
+      reason: null,
+    };
+  }
+
+  if (!isMeteredConnection(conditions)) {
+    return {
+      mode: 'unmetered',
+      intervalMs: interval,
+      batchSize: SYNC_CONFIG.batchSize,
+      maxNoteSize: null,
+      reason: null,
+    };
+  }
+
+  if (inBackground && preferences.pauseBackgroundSyncOnCellular) {
+    return {
+      mode: 'paused',
+      intervalMs: interval,
+      batchSize: SYNC_CONFIG.meteredBatchSize,
+      maxNoteSize: null,
+      reason: 'Background sync is paused on cellular',
+    };
+  }
+
+  return {
+    mode: 'metered',
+    intervalMs: Math.max(interval, SYNC_CONFIG.meteredSyncInterval),
+    batchSize: SYNC_CONFIG.meteredBatchSize,
+    maxNoteSize: preferences.syncLargeNotesOnWifiOnly ? SYNC_CONFIG.largeNoteSize : null,
+    reason: preferences.syncLargeNotesOnWifiOnly ? 'Large notes wait for Wi-Fi' : null,
+  };
+};
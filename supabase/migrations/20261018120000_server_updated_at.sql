@@ -0,0 +1,61 @@
+-- Server-assigned write times for notes and groups.
+-- Devices pull rows in (server_updated_at, id) order and resume from the last
+-- row they applied. The time comes from the database clock, so an edit made
+-- on a device whose clock runs behind cannot land before a cursor that
+-- already passed it. server_time() lets devices measure their clock skew.
+--
+-- Rows are stamped with clock_timestamp(), the time of the write, rather than
+-- now(), the start of its transaction. A transaction can still commit after a
+-- later one whose rows a device already pulled, so devices re-read a short
+-- window behind their cursor on every pull.
+
+alter table public.groups add column if not exists server_updated_at timestamptz;
+alter table public.notes add column if not exists server_updated_at timestamptz;
+
+-- Rows written before the column existed keep their edit time, the order
+-- devices pulled them in until now
+update public.groups set server_updated_at = updated_at where server_updated_at is null;
+update public.notes set server_updated_at = updated_at where server_updated_at is null;
+
+alter table public.groups
+  alter column server_updated_at set default clock_timestamp(),
+  alter column server_updated_at set not null;
+alter table public.notes
+  alter column server_updated_at set default clock_timestamp(),
+  alter column server_updated_at set not null;
+
+-- Values sent by clients are ignored
+create or replace function public.set_server_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.server_updated_at := clock_timestamp();
+  return new;
+end;
+$$;
+
+drop trigger if exists groups_set_server_updated_at on public.groups;
+create trigger groups_set_server_updated_at
+  before insert or update on public.groups
+  for each row execute function public.set_server_updated_at();
+
+drop trigger if exists notes_set_server_updated_at on public.notes;
+create trigger notes_set_server_updated_at
+  before insert or update on public.notes
+  for each row execute function public.set_server_updated_at();
+
+create index if not exists groups_user_id_server_updated_at_idx
+  on public.groups (user_id, server_updated_at, id);
+create index if not exists notes_user_id_server_updated_at_idx
+  on public.notes (user_id, server_updated_at, id);
+
+create or replace function public.server_time()
+returns timestamptz
+language sql
+volatile
+as $$
+  select clock_timestamp();
+$$;
+
+grant execute on function public.server_time() to authenticated;
@@ -0,0 +1,96 @@
+-- Tombstones for notes and groups deleted from the server.
+-- A hard delete, by a user or by the cleanup of soft-deleted rows, leaves a
+-- tombstone that devices pull like rows, so one that was offline through the
+-- purge still removes its copy. Inserting the id again is refused at or below
+-- the deleted version, so a stale copy pushed later cannot bring it back.
+
+create table if not exists public.tombstones (
+  id uuid not null,
+  table_name text not null check (table_name in ('notes', 'groups')),
+  user_id uuid not null,
+  version integer not null, -- Version of the row when it was deleted
+  deleted_at timestamptz not null,
+  server_updated_at timestamptz not null default clock_timestamp(),
+  primary key (table_name, id)
+);
+
+create index if not exists tombstones_user_id_server_updated_at_idx
+  on public.tombstones (user_id, server_updated_at, id);
+
+-- Users read their own tombstones; only the triggers below write them
+alter table public.tombstones enable row level security;
+
+drop policy if exists "Users can read their own tombstones" on public.tombstones;
+create policy "Users can read their own tombstones"
+  on public.tombstones for select
+  using (auth.uid() = user_id);
+
+grant select on public.tombstones to authenticated;
+
+create or replace function public.record_tombstone()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.tombstones (id, table_name, user_id, version, deleted_at, server_updated_at)
+  values (
+    old.id,
+    tg_table_name,
+    old.user_id,
+    old.version,
+    -- Groups have no deleted_at
+    coalesce((to_jsonb(old) ->> 'deleted_at')::timestamptz, now()),
+    -- Stamped like notes and groups, see 20261018120000_server_updated_at.sql
+    clock_timestamp()
+  )
+  on conflict (table_name, id) do update
+    set user_id = excluded.user_id,
+        version = excluded.version,
+        deleted_at = excluded.deleted_at,
+        server_updated_at = excluded.server_updated_at;
+  return old;
+end;
+$$;
+
+-- Skips the row, without an error, when its id is tombstoned at the same or
+-- a later version. A newer version comes back and clears the tombstone.
+create or replace function public.refuse_tombstoned_insert()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if exists (
+    select 1 from public.tombstones
+    where table_name = tg_table_name and id = new.id and version >= new.version
+  ) then
+    return null;
+  end if;
+
+  delete from public.tombstones where table_name = tg_table_name and id = new.id;
+  return new;
+end;
+$$;
+
+drop trigger if exists groups_record_tombstone on public.groups;
+create trigger groups_record_tombstone
+  after delete on public.groups
+  for each row execute function public.record_tombstone();
+
+drop trigger if exists notes_record_tombstone on public.notes;
+create trigger notes_record_tombstone
+  after delete on public.notes
+  for each row execute function public.record_tombstone();
+
+drop trigger if exists groups_refuse_tombstoned_insert on public.groups;
+create trigger groups_refuse_tombstoned_insert
+  before insert on public.groups
+  for each row execute function public.refuse_tombstoned_insert();
+
+drop trigger if exists notes_refuse_tombstoned_insert on public.notes;
+create trigger notes_refuse_tombstoned_insert
+  before insert on public.notes
+  for each row execute function public.refuse_tombstoned_insert();
@@ -0,0 +1,56 @@
+-- Everything a new device needs to start syncing, read at one moment.
+-- The function is a single statement, so its groups, notes and cursors come
+-- from one snapshot of the database even while other devices keep writing.
+-- Incremental pulls continue from the cursors, which are null for a table
+-- with no rows.
+
+create or replace function public.sync_snapshot(p_user_id uuid)
+returns jsonb
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  with
+    snapshot_groups as (
+      select * from public.groups where user_id = p_user_id
+    ),
+    snapshot_notes as (
+      select * from public.notes where user_id = p_user_id
+    ),
+    snapshot_tombstones as (
+      select * from public.tombstones where user_id = p_user_id
+    )
+  select jsonb_build_object(
+    'groups', coalesce(
+      (select jsonb_agg(to_jsonb(g) order by g.server_updated_at, g.id) from snapshot_groups g),
+      '[]'::jsonb
+    ),
+    'notes', coalesce(
+      (select jsonb_agg(to_jsonb(n) order by n.server_updated_at, n.id) from snapshot_notes n),
+      '[]'::jsonb
+    ),
+    'cursors', jsonb_build_object(
+      'groups', (
+        select jsonb_build_object('server_updated_at', g.server_updated_at, 'id', g.id)
+        from snapshot_groups g
+        order by g.server_updated_at desc, g.id desc
+        limit 1
+      ),
+      'notes', (
+        select jsonb_build_object('server_updated_at', n.server_updated_at, 'id', n.id)
+        from snapshot_notes n
+        order by n.server_updated_at desc, n.id desc
+        limit 1
+      ),
+      'tombstones', (
+        select jsonb_build_object('server_updated_at', t.server_updated_at, 'id', t.id)
+        from snapshot_tombstones t
+        order by t.server_updated_at desc, t.id desc
+        limit 1
+      )
+    )
+  );
+$$;
+
+grant execute on function public.sync_snapshot(uuid) to authenticated;
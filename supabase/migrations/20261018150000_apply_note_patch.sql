@@ -0,0 +1,204 @@
+-- Note patches applied on the server, so an edit to a long note uploads only
+-- what changed (see NotePatch in src/types and applyNotePatch in
+-- src/utils/patchUtils.ts, which this mirrors). The content is a Quill Delta
+-- composed with the patch's diff the way quill-delta's compose() does; the
+-- markdown and plain text each take a splice.
+--
+-- apply_note_patch() returns false, changing nothing, when the note is not at
+-- the expected version or the patch cannot be applied exactly. The device then
+-- uploads the note whole, which also detects conflicts. Offsets in a patch
+-- count UTF-16 code units, as JavaScript strings do, while Postgres counts
+-- code points, so notes holding characters beyond U+FFFF, e.g. most emoji,
+-- are always uploaded whole.
+
+-- quill-delta's AttributeMap.compose() onto a document: keys set to null are removed
+create or replace function public.compose_delta_attributes(base jsonb, change jsonb)
+returns jsonb
+language sql
+immutable
+as $$
+  select coalesce(jsonb_object_agg(key, value), '{}'::jsonb)
+  from jsonb_each(coalesce(base, '{}'::jsonb) || coalesce(change, '{}'::jsonb))
+  where value <> 'null'::jsonb;
+$$;
+
+-- Appends an insert, joined to the last one when both are text with the same
+-- attributes, as Delta.push() does
+create or replace function public.push_delta_insert(ops jsonb, op jsonb)
+returns jsonb
+language plpgsql
+immutable
+as $$
+declare
+  last_op jsonb := ops -> -1;
+begin
+  if coalesce(op -> 'attributes', '{}'::jsonb) = '{}'::jsonb then
+    op := op - 'attributes';
+  end if;
+
+  if last_op is not null
+     and jsonb_typeof(last_op -> 'insert') = 'string'
+     and jsonb_typeof(op -> 'insert') = 'string'
+     and coalesce(last_op -> 'attributes', '{}'::jsonb) = coalesce(op -> 'attributes', '{}'::jsonb) then
+    return jsonb_set(
+      ops,
+      array[(jsonb_array_length(ops) - 1)::text, 'insert'],
+      to_jsonb((last_op ->> 'insert') || (op ->> 'insert'))
+    );
+  end if;
+  return ops || jsonb_build_array(op);
+end;
+$$;
+
+-- The ops of a document, made only of inserts, with a change composed onto it
+create or replace function public.compose_note_delta(doc jsonb, change jsonb)
+returns jsonb
+language plpgsql
+immutable
+as $$
+declare
+  composed jsonb := '[]'::jsonb;
+  doc_count integer := jsonb_array_length(doc);
+  doc_index integer := 0;
+  doc_offset integer := 0; -- Characters of the current document op already used
+  doc_op jsonb;
+  doc_length integer;
+  change_op jsonb;
+  remaining integer;
+  taken integer;
+begin
+  for change_op in select value from jsonb_array_elements(change) loop
+    if change_op ? 'insert' then
+      composed := public.push_delta_insert(composed, change_op);
+      continue;
+    end if;
+
+    if jsonb_typeof(coalesce(change_op -> 'retain', change_op -> 'delete')) is distinct from 'number' then
+      raise exception 'Unsupported delta op %', change_op using errcode = 'invalid_parameter_value';
+    end if;
+    remaining := coalesce(change_op ->> 'retain', change_op ->> 'delete')::integer;
+
+    while remaining > 0 loop
+      doc_op := doc -> doc_index;
+      if doc_index >= doc_count or not doc_op ? 'insert' then
+        raise exception 'Delta does not fit the document' using errcode = 'invalid_parameter_value';
+      end if;
+
+      doc_length := case
+        when jsonb_typeof(doc_op -> 'insert') = 'string' then char_length(doc_op ->> 'insert')
+        else 1 -- An embed
+      end;
+      taken := least(remaining, doc_length - doc_offset);
+
+      if change_op ? 'retain' then
+        composed := public.push_delta_insert(composed, jsonb_build_object(
+          'insert', case
+            when jsonb_typeof(doc_op -> 'insert') = 'string'
+              then to_jsonb(substr(doc_op ->> 'insert', doc_offset + 1, taken))
+            else doc_op -> 'insert'
+          end,
+          'attributes', public.compose_delta_attributes(doc_op -> 'attributes', change_op -> 'attributes')
+        ));
+      end if;
+
+      remaining := remaining - taken;
+      doc_offset := doc_offset + taken;
+      if doc_offset = doc_length then
+        doc_index := doc_index + 1;
+        doc_offset := 0;
+      end if;
+    end loop;
+  end loop;
+
+  -- The rest of the document is kept as it was
+  while doc_index < doc_count loop
+    doc_op := doc -> doc_index;
+    composed := public.push_delta_insert(composed, jsonb_build_object(
+      'insert', case
+        when doc_offset > 0 then to_jsonb(substr(doc_op ->> 'insert', doc_offset + 1))
+        else doc_op -> 'insert'
+      end,
+      'attributes', coalesce(doc_op -> 'attributes', '{}'::jsonb)
+    ));
+    doc_index := doc_index + 1;
+    doc_offset := 0;
+  end loop;
+
+  return composed;
+end;
+$$;
+
+-- applyTextSplice(): everything from start, deleteCount long, replaced by insert
+create or replace function public.apply_text_splice(original text, splice jsonb)
+returns text
+language sql
+immutable
+as $$
+  select left(coalesce(original, ''), (splice ->> 'start')::integer)
+    || (splice ->> 'insert')
+    || substr(coalesce(original, ''), (splice ->> 'start')::integer + (splice ->> 'deleteCount')::integer + 1);
+$$;
+
+create or replace function public.apply_note_patch(p_id uuid, p_patch jsonb, p_expected_version integer)
+returns boolean
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  note public.notes;
+  patch_values jsonb := coalesce(p_patch -> 'values', '{}'::jsonb);
+  beyond_bmp text := '[' || chr(65536) || '-' || chr(1114111) || ']';
+begin
+  if (p_patch ->> 'base_version')::integer is distinct from p_expected_version then
+    return false;
+  end if;
+
+  -- Row-level security limits this to the caller's own notes
+  select * into note
+  from public.notes
+  where id = p_id and version = p_expected_version
+  for update;
+  if not found then
+    return false;
+  end if;
+
+  if p_patch::text ~ beyond_bmp
+     or coalesce(note.content::text, '') ~ beyond_bmp
+     or coalesce(note.content_markdown, '') ~ beyond_bmp
+     or coalesce(note.content_plain, '') ~ beyond_bmp then
+    return false;
+  end if;
+
+  begin
+    update public.notes set
+      title = case when patch_values ? 'title' then patch_values ->> 'title' else title end,
+      group_id = case when patch_values ? 'group_id' then (patch_values ->> 'group_id')::uuid else group_id end,
+      updated_at = case when patch_values ? 'updated_at' then (patch_values ->> 'updated_at')::timestamptz else updated_at end,
+      version = case when patch_values ? 'version' then (patch_values ->> 'version')::integer else version end,
+      is_deleted = case when patch_values ? 'is_deleted' then (patch_values ->> 'is_deleted')::boolean else is_deleted end,
+      deleted_at = case when patch_values ? 'deleted_at' then (patch_values ->> 'deleted_at')::timestamptz else deleted_at end,
+      content = case
+        when p_patch ? 'content'
+          then jsonb_build_object('ops', public.compose_note_delta(coalesce(content -> 'ops', '[]'::jsonb), p_patch -> 'content'))
+        else content
+      end,
+      content_markdown = case
+        when p_patch ? 'content_markdown' then public.apply_text_splice(content_markdown, p_patch -> 'content_markdown')
+        else content_markdown
+      end,
+      content_plain = case
+        when p_patch ? 'content_plain' then public.apply_text_splice(content_plain, p_patch -> 'content_plain')
+        else content_plain
+      end
+    where id = p_id;
+  exception
+    when invalid_parameter_value then
+      return false;
+  end;
+
+  return true;
+end;
+$$;
+
+grant execute on function public.apply_note_patch(uuid, jsonb, integer) to authenticated;
@@ -0,0 +1,51 @@
+-- Bulk push of note and group updates, including the soft deletes that mark
+-- a row is_deleted. Each update carries the version the device expects the
+-- row to be at (null skips the check) and is only applied while it still is,
+-- so one request can hold rows that conflict: their ids are left out of the
+-- result and the device handles them one at a time.
+create or replace function public.update_synced_rows(p_table text, p_updates jsonb)
+returns setof uuid
+language plpgsql
+security invoker
+set search_path = public
+as $$
+begin
+  -- Row-level security limits both updates to the caller's own rows
+  if p_table = 'notes' then
+    return query
+      with updated as (
+        update public.notes n set
+          (title, content, content_markdown, content_plain, group_id, updated_at, version, is_deleted, deleted_at) = (
+            select r.title, r.content, r.content_markdown, r.content_plain, r.group_id,
+              r.updated_at, r.version, r.is_deleted, r.deleted_at
+            from jsonb_populate_record(n, u.value -> 'values') r
+          )
+        from jsonb_array_elements(p_updates) u
+        where n.id = (u.value ->> 'id')::uuid
+          and (coalesce(jsonb_typeof(u.value -> 'expected_version'), 'null') = 'null'
+            or n.version = (u.value ->> 'expected_version')::integer)
+        returning n.id
+      )
+      select id from updated;
+  elsif p_table = 'groups' then
+    return query
+      with updated as (
+        update public.groups g set
+          (name, color, updated_at, version, is_deleted) = (
+            select r.name, r.color, r.updated_at, r.version, r.is_deleted
+            from jsonb_populate_record(g, u.value -> 'values') r
+          )
+        from jsonb_array_elements(p_updates) u
+        where g.id = (u.value ->> 'id')::uuid
+          and (coalesce(jsonb_typeof(u.value -> 'expected_version'), 'null') = 'null'
+            or g.version = (u.value ->> 'expected_version')::integer)
+        returning g.id
+      )
+      select id from updated;
+  else
+    raise exception 'Unknown table %', p_table using errcode = 'invalid_parameter_value';
+  end if;
+end;
+$$;
+
+grant execute on function public.update_synced_rows(text, jsonb) to authenticated;